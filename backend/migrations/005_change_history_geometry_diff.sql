@@ -0,0 +1,4 @@
+-- Store structured diffs for geometry edits alongside the before/after values
+ALTER TABLE change_history ADD COLUMN IF NOT EXISTS diff JSONB;
+
+COMMENT ON COLUMN change_history.diff IS 'Vertex-level diff for geometry edits (added/removed coordinates, vertex and ring counts)';
@@ -0,0 +1,21 @@
+-- Split/merge operations and the parent -> child links they create.
+-- Parents are deleted by the operation (which also drops their change_history rows),
+-- so each link keeps a snapshot of the parent's attributes and geometry.
+CREATE TABLE IF NOT EXISTS sector_operations (
+  id SERIAL PRIMARY KEY,
+  operation VARCHAR(10) NOT NULL CHECK (operation IN ('SPLIT', 'MERGE')),
+  user_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS sector_lineage (
+  id SERIAL PRIMARY KEY,
+  operation_id INTEGER NOT NULL REFERENCES sector_operations(id) ON DELETE CASCADE,
+  parent_id INTEGER NOT NULL, -- no FK: the parent row no longer exists
+  child_id INTEGER REFERENCES sectors(id) ON DELETE SET NULL,
+  parent_snapshot JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sector_lineage_parent ON sector_lineage(parent_id);
+CREATE INDEX IF NOT EXISTS idx_sector_lineage_child ON sector_lineage(child_id);
+CREATE INDEX IF NOT EXISTS idx_sector_lineage_operation ON sector_lineage(operation_id);
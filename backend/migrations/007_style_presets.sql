@@ -0,0 +1,21 @@
+-- Named map style presets (symbology, sector labels and area-category thresholds).
+-- Presets belong to a user; shared presets are visible to the whole team and at most
+-- one preset is the organisation default.
+CREATE TABLE IF NOT EXISTS style_presets (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  settings JSONB NOT NULL,
+  is_shared BOOLEAN DEFAULT false,
+  is_default BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_style_presets_user ON style_presets(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_style_presets_single_default ON style_presets(is_default) WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_style_presets_updated_at ON style_presets;
+CREATE TRIGGER update_style_presets_updated_at
+BEFORE UPDATE ON style_presets
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
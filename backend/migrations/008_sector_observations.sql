@@ -0,0 +1,20 @@
+-- Dated raster observations per sector (e.g. NDVI or soil moisture zonal statistics).
+-- One row per sector, variable and date; saving the same again replaces it.
+CREATE TABLE IF NOT EXISTS sector_observations (
+  id SERIAL PRIMARY KEY,
+  sector_id INTEGER NOT NULL REFERENCES sectors(id) ON DELETE CASCADE,
+  variable VARCHAR(50) NOT NULL,
+  observed_on DATE NOT NULL,
+  source VARCHAR(255), -- raster the statistics were computed from
+  mean DOUBLE PRECISION,
+  min DOUBLE PRECISION,
+  max DOUBLE PRECISION,
+  std_dev DOUBLE PRECISION,
+  pixel_count INTEGER NOT NULL DEFAULT 0,
+  coverage DOUBLE PRECISION NOT NULL DEFAULT 0, -- percent of the sector with valid pixels
+  user_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (sector_id, variable, observed_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sector_observations_variable_date ON sector_observations(variable, observed_on);
@@ -0,0 +1,5 @@
+-- Idempotency key of the request that created a sector. Clients send one with creates they
+-- may retry (e.g. replayed offline edits), so a retry returns the sector already created.
+ALTER TABLE sectors ADD COLUMN IF NOT EXISTS create_key VARCHAR(100) UNIQUE;
+
+COMMENT ON COLUMN sectors.create_key IS 'Idempotency-Key header of the create request, if any';
@@ -0,0 +1,9 @@
+-- Split/merge parents are retired rather than deleted, so their change_history rows are kept.
+-- Retired sectors stay in the table for lineage and history but are left out of every read.
+ALTER TABLE sectors ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP;
+ALTER TABLE sectors ADD COLUMN IF NOT EXISTS superseded_by INTEGER REFERENCES sector_operations(id);
+
+CREATE INDEX IF NOT EXISTS idx_sectors_active ON sectors (division) WHERE retired_at IS NULL;
+
+COMMENT ON COLUMN sectors.retired_at IS 'When a split or merge replaced the sector; NULL while it is current';
+COMMENT ON COLUMN sectors.superseded_by IS 'The split/merge operation that replaced the sector';
@@ -0,0 +1,143 @@
+import { query, getClient } from '../config/database.js';
+
+// Upper bound on one save, roughly every nemra in the four divisions
+const MAX_OBSERVATIONS = 20000;
+
+const STAT_COLUMNS = ['mean', 'min', 'max', 'std_dev'];
+
+const isNumberOrNull = (value) => value === null || (typeof value === 'number' && Number.isFinite(value));
+
+// Returns an error message, or null when the observation can be stored
+const validateObservation = (observation) => {
+  if (!Number.isInteger(observation?.sector_id)) {
+    return 'Each observation needs a sector_id';
+  }
+  if (!STAT_COLUMNS.every(column => isNumberOrNull(observation[column]))) {
+    return 'Statistics must be numbers or null';
+  }
+  if (!Number.isInteger(observation.pixel_count) || observation.pixel_count < 0) {
+    return 'pixel_count must be a non-negative integer';
+  }
+  if (typeof observation.coverage !== 'number' || observation.coverage < 0 || observation.coverage > 100) {
+    return 'coverage must be a percentage';
+  }
+  return null;
+};
+
+// Get a sector's observations, newest first, optionally for one variable
+export const getSectorObservations = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { variable } = req.query;
+
+    const result = await query(
+      `SELECT
+        o.id, o.variable, o.observed_on, o.source, o.mean, o.min, o.max, o.std_dev,
+        o.pixel_count, o.coverage, o.created_at, u.username, u.full_name
+      FROM sector_observations o
+      LEFT JOIN users u ON o.user_id = u.id
+      WHERE o.sector_id = $1 AND ($2::text IS NULL OR o.variable = $2)
+      ORDER BY o.observed_on DESC, o.variable ASC`,
+      [id, variable ?? null]
+    );
+
+    res.json({
+      success: true,
+      data: { observations: result.rows }
+    });
+  } catch (error) {
+    console.error('Get sector observations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sector observations'
+    });
+  }
+};
+
+// Save zonal statistics of one raster as observations dated observedOn (admin/editor only)
+export const saveObservations = async (req, res) => {
+  const { variable, observedOn, source, observations } = req.body;
+
+  if (typeof variable !== 'string' || !/^[a-z][a-z0-9_]{0,49}$/.test(variable)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Variable must be lower-case letters, digits and underscores'
+    });
+  }
+  if (typeof observedOn !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(observedOn) || isNaN(Date.parse(observedOn))) {
+    return res.status(400).json({
+      success: false,
+      message: 'observedOn must be a date (YYYY-MM-DD)'
+    });
+  }
+  if (!Array.isArray(observations) || observations.length === 0 || observations.length > MAX_OBSERVATIONS) {
+    return res.status(400).json({
+      success: false,
+      message: `Send between 1 and ${MAX_OBSERVATIONS} observations`
+    });
+  }
+  const invalid = observations.map(validateObservation).find(Boolean);
+  if (invalid) {
+    return res.status(400).json({
+      success: false,
+      message: invalid
+    });
+  }
+
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    let savedCount = 0;
+    for (const observation of observations) {
+      const result = await client.query(
+        `INSERT INTO sector_observations
+          (sector_id, variable, observed_on, source, mean, min, max, std_dev, pixel_count, coverage, user_id)
+        SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
+        WHERE EXISTS (SELECT 1 FROM sectors WHERE id = $1 AND retired_at IS NULL)
+        ON CONFLICT (sector_id, variable, observed_on) DO UPDATE SET
+          source = EXCLUDED.source,
+          mean = EXCLUDED.mean,
+          min = EXCLUDED.min,
+          max = EXCLUDED.max,
+          std_dev = EXCLUDED.std_dev,
+          pixel_count = EXCLUDED.pixel_count,
+          coverage = EXCLUDED.coverage,
+          user_id = EXCLUDED.user_id,
+          created_at = CURRENT_TIMESTAMP`,
+        [
+          observation.sector_id,
+          variable,
+          observedOn,
+          typeof source === 'string' ? source.slice(0, 255) : null,
+          observation.mean,
+          observation.min,
+          observation.max,
+          observation.std_dev,
+          observation.pixel_count,
+          observation.coverage,
+          req.user.id
+        ]
+      );
+      savedCount += result.rowCount;
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: `Saved ${savedCount} observations`,
+      data: { savedCount }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Save observations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving observations'
+    });
+  } finally {
+    client.release();
+  }
+};
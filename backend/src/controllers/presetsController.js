@@ -0,0 +1,297 @@
+import { query, getClient } from '../config/database.js';
+
+// Keeps a preset to style settings, not an embedded dataset
+const MAX_SETTINGS_BYTES = 100 * 1024;
+
+const PRESET_COLUMNS = `
+  sp.id, sp.name, sp.user_id, sp.settings, sp.is_shared, sp.is_default,
+  sp.created_at, sp.updated_at, u.username, u.full_name`;
+
+// Returns an error message, or null when the settings look like a preset
+const validateSettings = (settings) => {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'Settings must be an object';
+  }
+  if (!settings.symbology || typeof settings.symbology !== 'object') {
+    return 'Settings must include symbology';
+  }
+  if (JSON.stringify(settings).length > MAX_SETTINGS_BYTES) {
+    return 'Settings are too large';
+  }
+  return null;
+};
+
+const validateName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Preset name is required';
+  }
+  if (name.trim().length > 100) {
+    return 'Preset name must be at most 100 characters';
+  }
+  return null;
+};
+
+// `db` is anything with query(): the shared pool helper or a transaction client
+const db = { query };
+
+const findPreset = async (client, id) => {
+  const result = await client.query(
+    `SELECT ${PRESET_COLUMNS}
+     FROM style_presets sp
+     LEFT JOIN users u ON sp.user_id = u.id
+     WHERE sp.id = $1`,
+    [id]
+  );
+  return result.rows[0] ?? null;
+};
+
+// Get the user's own presets plus everything shared with the team
+export const getPresets = async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${PRESET_COLUMNS}
+       FROM style_presets sp
+       LEFT JOIN users u ON sp.user_id = u.id
+       WHERE sp.user_id = $1 OR sp.is_shared OR sp.is_default
+       ORDER BY sp.is_default DESC, sp.name ASC`,
+      [req.user.id]
+    );
+
+    res.json({
+      success: true,
+      data: { presets: result.rows }
+    });
+  } catch (error) {
+    console.error('Get presets error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching style presets'
+    });
+  }
+};
+
+// Get the organisation default preset (null when none is set)
+export const getDefaultPreset = async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${PRESET_COLUMNS}
+       FROM style_presets sp
+       LEFT JOIN users u ON sp.user_id = u.id
+       WHERE sp.is_default`
+    );
+
+    res.json({
+      success: true,
+      data: { preset: result.rows[0] ?? null }
+    });
+  } catch (error) {
+    console.error('Get default preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching default style preset'
+    });
+  }
+};
+
+// Create a preset owned by the current user
+export const createPreset = async (req, res) => {
+  try {
+    const { name, settings, isShared = false } = req.body;
+
+    const error = validateName(name) ?? validateSettings(settings);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const result = await query(
+      `INSERT INTO style_presets (name, user_id, settings, is_shared)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [name.trim(), req.user.id, JSON.stringify(settings), Boolean(isShared)]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Style preset saved',
+      data: await findPreset(db, result.rows[0].id)
+    });
+  } catch (error) {
+    console.error('Create preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving style preset'
+    });
+  }
+};
+
+// Rename, overwrite or (un)share a preset. Only its owner may change it.
+export const updatePreset = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, settings, isShared } = req.body;
+
+    const preset = await findPreset(db, id);
+    if (!preset) {
+      return res.status(404).json({
+        success: false,
+        message: 'Style preset not found'
+      });
+    }
+    if (preset.user_id !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the owner can change this preset'
+      });
+    }
+
+    const error = (name !== undefined ? validateName(name) : null) ??
+      (settings !== undefined ? validateSettings(settings) : null);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+    if (isShared === false && preset.is_default) {
+      return res.status(400).json({
+        success: false,
+        message: 'The organisation default must stay shared'
+      });
+    }
+
+    await query(
+      `UPDATE style_presets
+       SET name = COALESCE($1, name),
+           settings = COALESCE($2, settings),
+           is_shared = COALESCE($3, is_shared)
+       WHERE id = $4`,
+      [
+        name !== undefined ? name.trim() : null,
+        settings !== undefined ? JSON.stringify(settings) : null,
+        isShared !== undefined ? Boolean(isShared) : null,
+        id
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Style preset updated',
+      data: await findPreset(db, id)
+    });
+  } catch (error) {
+    console.error('Update preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating style preset'
+    });
+  }
+};
+
+// Delete a preset (its owner or an admin)
+export const deletePreset = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const preset = await findPreset(db, id);
+    if (!preset) {
+      return res.status(404).json({
+        success: false,
+        message: 'Style preset not found'
+      });
+    }
+    if (preset.user_id !== req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the owner or an admin can delete this preset'
+      });
+    }
+
+    await query('DELETE FROM style_presets WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      message: 'Style preset deleted'
+    });
+  } catch (error) {
+    console.error('Delete preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting style preset'
+    });
+  }
+};
+
+// Make a preset the organisation default (admin). The default is always shared.
+export const setDefaultPreset = async (req, res) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+
+    const preset = await findPreset(client, id);
+    if (!preset) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Style preset not found'
+      });
+    }
+
+    await client.query('UPDATE style_presets SET is_default = false WHERE is_default');
+    await client.query(
+      'UPDATE style_presets SET is_default = true, is_shared = true WHERE id = $1',
+      [id]
+    );
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: `"${preset.name}" is now the organisation default`
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Set default preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error setting default style preset'
+    });
+  } finally {
+    client.release();
+  }
+};
+
+// Remove the organisation default flag from a preset (admin)
+export const clearDefaultPreset = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query(
+      'UPDATE style_presets SET is_default = false WHERE id = $1 AND is_default RETURNING id',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Preset is not the organisation default'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Organisation default cleared'
+    });
+  } catch (error) {
+    console.error('Clear default preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error clearing default style preset'
+    });
+  }
+};
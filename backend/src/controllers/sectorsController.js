@@ -1,4 +1,247 @@
 import { query, getClient } from '../config/database.js';
+import { diffGeometry } from '../utils/geometryDiff.js';
+
+// Same conversion the drawing tools use on the frontend
+const SQUARE_METERS_PER_FEDDAN = 4200;
+
+// Attribute columns a client may set when creating sectors through split/merge
+const SECTOR_ATTRIBUTES = [
+  'objectid_1', 'objectid', 'feature_id', 'no_nemra', 'canal_name',
+  'office', 'division', 'name_ar', 'design_a_f', 'remarks_1'
+];
+
+// Max share of the parent area the split results may differ by (client-side float noise)
+const SPLIT_AREA_TOLERANCE = 0.001;
+
+const pickAttributes = (source = {}) => Object.fromEntries(
+  SECTOR_ATTRIBUTES.filter(key => source[key] !== undefined).map(key => [key, source[key]])
+);
+
+// Validate a GeoJSON polygon and compute its area/perimeter in PostGIS.
+// Returns { error } or { geometry, measurements } with the geometry normalised to MultiPolygon.
+const measureGeometry = async (client, geometry) => {
+  if (!geometry || !['Polygon', 'MultiPolygon'].includes(geometry.type)) {
+    return { error: 'Geometry must be a Polygon or MultiPolygon' };
+  }
+
+  const measured = await client.query(
+    `WITH edited AS (
+       SELECT ST_Multi(ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)) AS geom
+     )
+     SELECT
+       ST_IsValid(geom) AS is_valid,
+       ST_IsValidReason(geom) AS reason,
+       ST_Area(geom::geography) AS area,
+       ST_Perimeter(geom::geography) AS perimeter,
+       ST_AsGeoJSON(geom)::json AS geometry
+     FROM edited`,
+    [JSON.stringify(geometry)]
+  );
+
+  const { is_valid, reason, area, perimeter, geometry: normalized } = measured.rows[0];
+  if (!is_valid) {
+    return { error: `Invalid geometry: ${reason}` };
+  }
+
+  return {
+    geometry: normalized,
+    measurements: {
+      shape_area: Number(area.toFixed(6)),
+      shape_leng: Number(perimeter.toFixed(6)),
+      design_a_f: Number((area / SQUARE_METERS_PER_FEDDAN).toFixed(2)),
+    },
+  };
+};
+
+// Replace a sector's geometry, recompute its measurements and log the edit.
+// With keepDesignArea only the measured area and length change, not the design area.
+// Runs inside the caller's transaction; returns { error } when the geometry is rejected.
+const applyGeometryEdit = async (client, id, userId, geometry, { keepDesignArea = false } = {}) => {
+  const measured = await measureGeometry(client, geometry);
+  if (measured.error) {
+    return measured;
+  }
+  const { geometry: newGeometry } = measured;
+  const { design_a_f: _designArea, ...measuredOnly } = measured.measurements;
+  const measurements = keepDesignArea ? measuredOnly : measured.measurements;
+
+  const currentResult = await client.query(
+    `SELECT ST_AsGeoJSON(geometry)::json AS geometry, shape_area, shape_leng, design_a_f
+     FROM sectors WHERE id = $1`,
+    [id]
+  );
+  const current = currentResult.rows[0];
+
+  const updateResult = await client.query(
+    `UPDATE sectors
+     SET geometry = ST_GeomFromGeoJSON($1),
+         shape_area = $2,
+         shape_leng = $3,
+         shape_le_1 = $3,
+         design_a_f = COALESCE($4, design_a_f),
+         updated_by = $5,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $6
+     RETURNING updated_at`,
+    [JSON.stringify(newGeometry), measurements.shape_area, measurements.shape_leng, measurements.design_a_f ?? null, userId, id]
+  );
+
+  await client.query(
+    `INSERT INTO change_history (sector_id, user_id, action, field_name, old_value, new_value, diff)
+     VALUES ($1, $2, 'UPDATE', 'geometry', $3, $4, $5)`,
+    [
+      id,
+      userId,
+      JSON.stringify(current.geometry),
+      JSON.stringify(newGeometry),
+      JSON.stringify(diffGeometry(current.geometry, newGeometry)),
+    ]
+  );
+
+  // Log the derived measurements like any other attribute change
+  for (const [field, value] of Object.entries(measurements)) {
+    if (Number(current[field]) !== value) {
+      await client.query(
+        `INSERT INTO change_history (sector_id, user_id, action, field_name, old_value, new_value)
+         VALUES ($1, $2, 'UPDATE', $3, $4, $5)`,
+        [id, userId, field, String(current[field]), String(value)]
+      );
+    }
+  }
+
+  return { measurements, updatedAt: updateResult.rows[0].updated_at };
+};
+
+// Lock the given sectors for the rest of the transaction and return them with GeoJSON geometry
+const lockSectors = async (client, ids) => {
+  const result = await client.query(
+    `SELECT *, ST_AsGeoJSON(geometry)::json AS geojson
+     FROM sectors
+     WHERE id = ANY($1::int[]) AND retired_at IS NULL
+     FOR UPDATE`,
+    [ids]
+  );
+
+  return result.rows.map(({ geometry: _geometry, geojson, ...row }) => ({ ...row, geometry: geojson }));
+};
+
+// Optimistic concurrency: updates carry the updated_at of the sector they were made against
+// and are refused when it changed since. Compared in milliseconds, the precision the
+// timestamp reaches the client with.
+const sameVersion = (current, expected) => {
+  if (current === null || expected === null) return current === expected;
+  return new Date(current).getTime() === new Date(expected).getTime();
+};
+
+const sendVersionRequired = (res) => res.status(428).json({
+  success: false,
+  code: 'VERSION_REQUIRED',
+  message: 'Changes must include the updated_at of each sector they were made against'
+});
+
+// The sectors' current attributes go back with the conflict so the client can merge
+const sendVersionConflict = (res, rows) => res.status(409).json({
+  success: false,
+  code: 'VERSION_CONFLICT',
+  message: rows.length === 1
+    ? 'This sector was changed by someone else since it was loaded'
+    : `${rows.length} sectors were changed by someone else since they were loaded`,
+  data: {
+    conflicts: rows.map(row => ({
+      id: row.id,
+      updated_at: row.updated_at,
+      updated_by: row.updated_by,
+      properties: {
+        No_Nemra: row.no_nemra,
+        Canal_Name: row.canal_name,
+        Office: row.office,
+        Division: row.division,
+        Name_AR: row.name_ar,
+        Design_A_F: row.design_a_f,
+        Remarks_1: row.remarks_1,
+        Shape_Leng: row.shape_leng,
+        Shape_Area: row.shape_area,
+        updated_at: row.updated_at,
+      }
+    }))
+  }
+});
+
+// Insert a sector with measurements computed by measureGeometry; the design area
+// falls back to the measured feddan when the attributes do not set one
+const insertSector = async (client, attributes, geometry, measurements, userId) => {
+  const values = { ...attributes, ...measurements, design_a_f: attributes.design_a_f ?? measurements.design_a_f };
+
+  const result = await client.query(
+    `INSERT INTO sectors (
+      objectid_1, objectid, feature_id, no_nemra, canal_name,
+      office, division, name_ar, design_a_f, remarks_1,
+      shape_leng, shape_le_1, shape_area, geometry, created_by
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11, $12,
+      ST_GeomFromGeoJSON($13), $14
+    )
+    RETURNING id`,
+    [
+      values.objectid_1, values.objectid, values.feature_id, values.no_nemra, values.canal_name,
+      values.office, values.division, values.name_ar, values.design_a_f, values.remarks_1,
+      values.shape_leng, values.shape_area,
+      JSON.stringify(geometry),
+      userId
+    ]
+  );
+
+  return result.rows[0].id;
+};
+
+// Record a split/merge: the operation, parent -> child links with parent snapshots,
+// an INSERT history entry on each child, and retirement of the parents
+const recordLineage = async (client, operation, userId, parents, childIds) => {
+  const operationResult = await client.query(
+    `INSERT INTO sector_operations (operation, user_id) VALUES ($1, $2) RETURNING id`,
+    [operation, userId]
+  );
+  const operationId = operationResult.rows[0].id;
+  const parentIds = parents.map(parent => parent.id);
+
+  for (const parent of parents) {
+    for (const childId of childIds) {
+      await client.query(
+        `INSERT INTO sector_lineage (operation_id, parent_id, child_id, parent_snapshot)
+         VALUES ($1, $2, $3, $4)`,
+        [operationId, parent.id, childId, JSON.stringify(parent)]
+      );
+    }
+  }
+
+  const description = operation === 'SPLIT'
+    ? `Split from sector #${parentIds[0]}`
+    : `Merged from sectors ${parentIds.map(id => `#${id}`).join(', ')}`;
+
+  for (const childId of childIds) {
+    await client.query(
+      `INSERT INTO change_history (sector_id, user_id, action, field_name, old_value, new_value, diff)
+       VALUES ($1, $2, 'INSERT', 'lineage', $3, $4, $5)`,
+      [
+        childId,
+        userId,
+        parentIds.join(','),
+        description,
+        JSON.stringify({ operation, operationId, parentIds, childIds }),
+      ]
+    );
+  }
+
+  // Retired rather than deleted, which would also drop the parents' change history
+  await client.query(
+    `UPDATE sectors
+     SET retired_at = CURRENT_TIMESTAMP, superseded_by = $2, updated_by = $3, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ANY($1::int[])`,
+    [parentIds, operationId, userId]
+  );
+
+  return operationId;
+};
 
 // Get all sectors with optional filters
 export const getAllSectors = async (req, res) => {
@@ -21,7 +264,7 @@ export const getAllSectors = async (req, res) => {
         ST_AsGeoJSON(geometry)::json as geometry,
         created_at, updated_at, created_by, updated_by
       FROM sectors
-      WHERE 1=1
+      WHERE retired_at IS NULL
     `;
 
     const params = [];
@@ -67,7 +310,7 @@ export const getAllSectors = async (req, res) => {
     params.push(parseInt(limit), parseInt(offset));
 
     // Get total count for pagination
-    let countQuery = `SELECT COUNT(*) FROM sectors WHERE 1=1`;
+    let countQuery = `SELECT COUNT(*) FROM sectors WHERE retired_at IS NULL`;
     const countParams = [];
     let countParamIndex = 1;
 
@@ -166,7 +409,7 @@ export const getSectorById = async (req, res) => {
         ST_AsGeoJSON(geometry)::json as geometry,
         created_at, updated_at, created_by, updated_by
       FROM sectors
-      WHERE id = $1`,
+      WHERE id = $1 AND retired_at IS NULL`,
       [id]
     );
 
@@ -228,7 +471,7 @@ export const getSectorsByDivision = async (req, res) => {
         shape_leng, shape_le_1, shape_area,
         ST_AsGeoJSON(geometry)::json as geometry
       FROM sectors
-      WHERE division = $1
+      WHERE division = $1 AND retired_at IS NULL
       ORDER BY canal_name
       LIMIT $2 OFFSET $3`,
       [division, parseInt(limit), parseInt(offset)]
@@ -236,7 +479,7 @@ export const getSectorsByDivision = async (req, res) => {
 
     // Get total count
     const countResult = await query(
-      'SELECT COUNT(*) FROM sectors WHERE division = $1',
+      'SELECT COUNT(*) FROM sectors WHERE division = $1 AND retired_at IS NULL',
       [division]
     );
 
@@ -283,6 +526,382 @@ export const getSectorsByDivision = async (req, res) => {
   }
 };
 
+// Most sectors a viewport request returns; the client keeps zooming in past this
+const MAX_BBOX_FEATURES = 1000;
+// Zoom from which viewport requests get geometry in full instead of simplified
+const FULL_GEOMETRY_MIN_ZOOM = 13;
+// Widest box a viewport request may cover, in tiles of its zoom each way
+const MAX_BBOX_TILE_SPAN = 64;
+// Sectors per page of the attribute list
+const ATTRIBUTE_PAGE_SIZE = 500;
+
+// Parse "west,south,east,north" in degrees; null when malformed
+const parseBBox = (value) => {
+  const parts = String(value || '').split(',').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
+  const [west, south, east, north] = parts;
+  if (west >= east || south >= north || west < -180 || east > 180 || south < -90 || north > 90) return null;
+  return parts;
+};
+
+// Attributes of every sector without geometry, for the table, statistics and search,
+// which cover the whole scheme while the map loads geometry for the area in view.
+// Paged by offset, ATTRIBUTE_PAGE_SIZE sectors at a time.
+export const getSectorAttributes = async (req, res) => {
+  try {
+    const offset = req.query.offset !== undefined ? parseInt(req.query.offset) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'offset must be a non-negative integer'
+      });
+    }
+
+    const result = await query(
+      `SELECT
+        id, objectid_1, objectid, feature_id, no_nemra, canal_name,
+        office, division, name_ar, design_a_f, remarks_1,
+        shape_leng, shape_le_1, shape_area,
+        created_at, updated_at
+      FROM sectors
+      WHERE retired_at IS NULL
+      ORDER BY id
+      LIMIT $1 OFFSET $2`,
+      [ATTRIBUTE_PAGE_SIZE, offset]
+    );
+    const countResult = await query('SELECT COUNT(*) FROM sectors WHERE retired_at IS NULL');
+    const total = parseInt(countResult.rows[0].count);
+
+    res.json({
+      success: true,
+      data: {
+        sectors: result.rows.map(row => ({
+          id: row.id,
+          OBJECTID_1: row.objectid_1,
+          OBJECTID: row.objectid,
+          Id: row.feature_id,
+          No_Nemra: row.no_nemra,
+          Canal_Name: row.canal_name,
+          Office: row.office,
+          Division: row.division,
+          Name_AR: row.name_ar,
+          Design_A_F: row.design_a_f,
+          Remarks_1: row.remarks_1,
+          Shape_Leng: row.shape_leng,
+          Shape_Le_1: row.shape_le_1,
+          Shape_Area: row.shape_area,
+          created_at: row.created_at,
+          updated_at: row.updated_at,
+        })),
+        pagination: {
+          total,
+          limit: ATTRIBUTE_PAGE_SIZE,
+          offset,
+          hasMore: offset + result.rows.length < total
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get sector attributes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sector attributes'
+    });
+  }
+};
+
+// Get sectors intersecting a bounding box, simplified for the zoom they are shown at
+export const getSectorsInBBox = async (req, res) => {
+  try {
+    const bbox = parseBBox(req.query.bbox);
+    if (!bbox) {
+      return res.status(400).json({
+        success: false,
+        message: 'bbox must be west,south,east,north in degrees'
+      });
+    }
+
+    const zoom = parseInt(req.query.zoom);
+    if (!Number.isInteger(zoom) || zoom < 0 || zoom > 24) {
+      return res.status(400).json({
+        success: false,
+        message: 'zoom must be an integer between 0 and 24'
+      });
+    }
+
+    // Boxes wider than a map view at the zoom are refused, so no request covers the scheme
+    const maxSpan = MAX_BBOX_TILE_SPAN * 360 / 2 ** zoom;
+    if (bbox[2] - bbox[0] > maxSpan || bbox[3] - bbox[1] > maxSpan) {
+      return res.status(400).json({
+        success: false,
+        message: `bbox may be at most ${MAX_BBOX_TILE_SPAN} tiles of zoom ${zoom} across; zoom in`
+      });
+    }
+
+    // Half a 256px web map pixel, in degrees, at the requested zoom; in full detail from
+    // FULL_GEOMETRY_MIN_ZOOM, e.g. for editing
+    const tolerance = zoom < FULL_GEOMETRY_MIN_ZOOM ? 180 / (256 * 2 ** zoom) : 0;
+
+    const result = await query(
+      `SELECT
+        id, objectid_1, objectid, feature_id, no_nemra, canal_name,
+        office, division, name_ar, design_a_f, remarks_1,
+        shape_leng, shape_le_1, shape_area,
+        ST_AsGeoJSON(
+          CASE WHEN $5::float8 > 0 THEN ST_SimplifyPreserveTopology(geometry, $5::float8) ELSE geometry END,
+          6
+        )::json as geometry,
+        created_at, updated_at
+      FROM sectors
+      WHERE geometry && ST_MakeEnvelope($1, $2, $3, $4, 4326)
+        AND ST_Intersects(geometry, ST_MakeEnvelope($1, $2, $3, $4, 4326))
+        AND retired_at IS NULL
+      ORDER BY id
+      LIMIT $6`,
+      [...bbox, tolerance, MAX_BBOX_FEATURES + 1]
+    );
+
+    const truncated = result.rows.length > MAX_BBOX_FEATURES;
+    const features = result.rows.slice(0, MAX_BBOX_FEATURES).map(row => ({
+      type: 'Feature',
+      id: row.id,
+      geometry: row.geometry,
+      properties: {
+        id: row.id,
+        OBJECTID_1: row.objectid_1,
+        OBJECTID: row.objectid,
+        Id: row.feature_id,
+        No_Nemra: row.no_nemra,
+        Canal_Name: row.canal_name,
+        Office: row.office,
+        Division: row.division,
+        Name_AR: row.name_ar,
+        Design_A_F: row.design_a_f,
+        Remarks_1: row.remarks_1,
+        Shape_Leng: row.shape_leng,
+        Shape_Le_1: row.shape_le_1,
+        Shape_Area: row.shape_area,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+      }
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        type: 'FeatureCollection',
+        bbox,
+        features,
+        zoom,
+        simplified: tolerance > 0,
+        // More sectors intersect the box than were returned
+        truncated
+      }
+    });
+  } catch (error) {
+    console.error('Get sectors in bbox error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sectors'
+    });
+  }
+};
+
+// Most sectors with full geometry a viewer may fetch at once, e.g. for an export
+const VIEWER_FEATURE_LIMIT = 100;
+
+// Get sectors with full geometry by id, by division or all of them, for exports and checks
+// over the whole scheme. Editors and admins get any number; viewers name at most
+// VIEWER_FEATURE_LIMIT sectors by id.
+export const getSectorFeatures = async (req, res) => {
+  try {
+    const ids = req.query.ids !== undefined
+      ? String(req.query.ids).split(',').map(Number)
+      : null;
+    if (ids && (ids.length === 0 || ids.some(id => !Number.isInteger(id)))) {
+      return res.status(400).json({
+        success: false,
+        message: 'ids must be comma-separated sector ids'
+      });
+    }
+
+    const division = req.query.division || null;
+    const canFetchAll = ['admin', 'editor'].includes(req.user.role);
+    if (!canFetchAll && (!ids || ids.length > VIEWER_FEATURE_LIMIT)) {
+      return res.status(403).json({
+        success: false,
+        message: `Viewers can fetch up to ${VIEWER_FEATURE_LIMIT} sectors at a time`
+      });
+    }
+
+    const result = await query(
+      `SELECT
+        id, objectid_1, objectid, feature_id, no_nemra, canal_name,
+        office, division, name_ar, design_a_f, remarks_1,
+        shape_leng, shape_le_1, shape_area,
+        ST_AsGeoJSON(geometry)::json as geometry,
+        created_at, updated_at
+      FROM sectors
+      WHERE ($1::int[] IS NULL OR id = ANY($1::int[]))
+        AND ($2::text IS NULL OR division = $2)
+        AND retired_at IS NULL
+      ORDER BY id`,
+      [ids, division]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        type: 'FeatureCollection',
+        features: result.rows.map(row => ({
+          type: 'Feature',
+          id: row.id,
+          geometry: row.geometry,
+          properties: {
+            id: row.id,
+            OBJECTID_1: row.objectid_1,
+            OBJECTID: row.objectid,
+            Id: row.feature_id,
+            No_Nemra: row.no_nemra,
+            Canal_Name: row.canal_name,
+            Office: row.office,
+            Division: row.division,
+            Name_AR: row.name_ar,
+            Design_A_F: row.design_a_f,
+            Remarks_1: row.remarks_1,
+            Shape_Leng: row.shape_leng,
+            Shape_Le_1: row.shape_le_1,
+            Shape_Area: row.shape_area,
+            created_at: row.created_at,
+            updated_at: row.updated_at,
+          }
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get sector features error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sectors'
+    });
+  }
+};
+
+// Get the sector count and extent of each division, so the map can fit before loading geometry
+export const getSectorExtent = async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT
+        division,
+        COUNT(*) AS count,
+        MAX(updated_at) AS updated_at,
+        ST_XMin(ST_Extent(geometry)) AS west,
+        ST_YMin(ST_Extent(geometry)) AS south,
+        ST_XMax(ST_Extent(geometry)) AS east,
+        ST_YMax(ST_Extent(geometry)) AS north
+      FROM sectors
+      WHERE retired_at IS NULL
+      GROUP BY division`
+    );
+
+    // Version of the sector data for revalidating offline copies: the count changes on
+    // deletes, the latest update time on everything else
+    const total = result.rows.reduce((sum, row) => sum + parseInt(row.count), 0);
+    const lastUpdate = result.rows.reduce(
+      (latest, row) => Math.max(latest, row.updated_at ? new Date(row.updated_at).getTime() : 0),
+      0
+    );
+    res.set('ETag', `"sectors-${total}-${lastUpdate}"`);
+    res.set('Cache-Control', 'private, no-cache');
+    if (lastUpdate > 0) res.set('Last-Modified', new Date(lastUpdate).toUTCString());
+
+    // Checks If-None-Match / If-Modified-Since against the headers above
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    res.json({
+      success: true,
+      data: result.rows.map(row => ({
+        division: row.division,
+        count: parseInt(row.count),
+        bbox: [row.west, row.south, row.east, row.north].map(Number)
+      }))
+    });
+  } catch (error) {
+    console.error('Get sector extent error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sector extent'
+    });
+  }
+};
+
+// Source layer of the sector vector tiles
+const TILE_LAYER = 'sectors';
+const MAX_TILE_ZOOM = 22;
+// Tiles carry geometry and the division for styling; the design area (area colours) is only
+// added from this zoom on, where a tile covers a few canals rather than whole divisions.
+// All other attributes come from the authenticated bbox and by-id endpoints.
+const TILE_ATTRIBUTE_MIN_ZOOM = 12;
+
+// Get a Mapbox Vector Tile of the sectors, clipped and simplified to the tile by PostGIS
+export const getSectorTile = async (req, res) => {
+  try {
+    const z = parseInt(req.params.z);
+    const x = parseInt(req.params.x);
+    const y = parseInt(req.params.y);
+    const size = 2 ** z;
+    if (z > MAX_TILE_ZOOM || x >= size || y >= size) {
+      return res.status(400).json({
+        success: false,
+        message: `Tile ${z}/${x}/${y} is outside the tile grid`
+      });
+    }
+
+    // The request's watermark goes into every feature, so leaked tiles can be traced
+    const fingerprint = res.locals.watermark?.fingerprint ?? null;
+
+    const result = await query(
+      `WITH bounds AS (
+        SELECT ST_TileEnvelope($1, $2, $3) AS envelope
+      ),
+      features AS (
+        SELECT
+          ST_AsMVTGeom(ST_Transform(s.geometry, 3857), bounds.envelope, 4096, 64, true) AS geom,
+          s.id,
+          s.division AS "Division",
+          CASE WHEN $1 >= $6 THEN s.design_a_f END AS "Design_A_F",
+          $4::text AS "_fp"
+        FROM sectors s, bounds
+        WHERE s.geometry && ST_Transform(bounds.envelope, 4326)
+          AND s.retired_at IS NULL
+      )
+      SELECT ST_AsMVT(features, $5, 4096, 'geom') AS tile
+      FROM features
+      WHERE geom IS NOT NULL`,
+      [z, x, y, fingerprint, TILE_LAYER, TILE_ATTRIBUTE_MIN_ZOOM]
+    );
+
+    const tile = result.rows[0]?.tile;
+    res.set({
+      'Cache-Control': 'private, max-age=60',
+      'X-Request-Id': res.locals.watermark?.requestId ?? ''
+    });
+    if (!tile || tile.length === 0) {
+      return res.status(204).end();
+    }
+
+    res.type('application/vnd.mapbox-vector-tile').send(tile);
+  } catch (error) {
+    console.error('Get sector tile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error generating sector tile'
+    });
+  }
+};
+
 // Create new sector (admin/editor only)
 export const createSector = async (req, res) => {
   try {
@@ -302,6 +921,8 @@ export const createSector = async (req, res) => {
       shape_area,
       geometry
     } = req.body;
+    // Sent with creates the client may retry; a key seen before returns that sector instead
+    const createKey = req.get('Idempotency-Key') || null;
 
     // Validation
     if (!division || !geometry) {
@@ -311,25 +932,44 @@ export const createSector = async (req, res) => {
       });
     }
 
+    if (createKey && createKey.length > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'Idempotency-Key must be at most 100 characters'
+      });
+    }
+
     const result = await query(
       `INSERT INTO sectors (
         objectid_1, objectid, feature_id, no_nemra, canal_name,
         office, division, name_ar, design_a_f, remarks_1,
-        shape_leng, shape_le_1, shape_area, geometry, created_by
+        shape_leng, shape_le_1, shape_area, geometry, created_by, create_key
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
-        ST_GeomFromGeoJSON($14), $15
+        ST_GeomFromGeoJSON($14), $15, $16
       )
+      ON CONFLICT (create_key) DO NOTHING
       RETURNING id`,
       [
         objectid_1, objectid, feature_id, no_nemra, canal_name,
         office, division, name_ar, design_a_f, remarks_1,
         shape_leng, shape_le_1, shape_area,
         JSON.stringify(geometry),
-        req.user.id
+        req.user.id,
+        createKey
       ]
     );
 
+    // The key was used before: the sector exists already
+    if (result.rows.length === 0) {
+      const existing = await query('SELECT id FROM sectors WHERE create_key = $1', [createKey]);
+      return res.json({
+        success: true,
+        message: 'Sector already created',
+        data: { id: existing.rows[0].id }
+      });
+    }
+
     const newId = result.rows[0].id;
 
     // Log change history
@@ -363,13 +1003,15 @@ export const updateSector = async (req, res) => {
     const { id } = req.params;
     const updates = req.body;
 
-    // Get current values for change history
-    const currentResult = await client.query(
-      'SELECT * FROM sectors WHERE id = $1',
-      [id]
-    );
+    if (updates.updated_at === undefined) {
+      await client.query('ROLLBACK');
+      return sendVersionRequired(res);
+    }
 
-    if (currentResult.rows.length === 0) {
+    // Get current values for change history, locked until the update is written
+    const [currentData] = await lockSectors(client, [id]);
+
+    if (!currentData) {
       await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
@@ -377,7 +1019,12 @@ export const updateSector = async (req, res) => {
       });
     }
 
-    const currentData = currentResult.rows[0];
+    if (!sameVersion(currentData.updated_at, updates.updated_at)) {
+      await client.query('ROLLBACK');
+      return sendVersionConflict(res, [currentData]);
+    }
+
+    let updatedAt = currentData.updated_at;
 
     // Build dynamic update query
     const setClauses = [];
@@ -415,19 +1062,7 @@ export const updateSector = async (req, res) => {
       }
     }
 
-    // Handle geometry update
-    if (updates.geometry) {
-      setClauses.push(`geometry = ST_GeomFromGeoJSON($${paramCount++})`);
-      values.push(JSON.stringify(updates.geometry));
-
-      await client.query(
-        `INSERT INTO change_history (sector_id, user_id, action, field_name, new_value)
-         VALUES ($1, $2, 'UPDATE', 'geometry', 'Geometry updated')`,
-        [id, req.user.id]
-      );
-    }
-
-    if (setClauses.length === 0) {
+    if (setClauses.length === 0 && !updates.geometry) {
       await client.query('ROLLBACK');
       return res.status(400).json({
         success: false,
@@ -435,25 +1070,44 @@ export const updateSector = async (req, res) => {
       });
     }
 
-    // Add updated_by
-    setClauses.push(`updated_by = $${paramCount++}`);
-    values.push(req.user.id);
+    if (setClauses.length > 0) {
+      // Add updated_by
+      setClauses.push(`updated_by = $${paramCount++}`, 'updated_at = CURRENT_TIMESTAMP');
+      values.push(req.user.id);
 
-    // Add id for WHERE clause
-    values.push(id);
+      // Add id for WHERE clause
+      values.push(id);
 
-    const updateQuery = `
-      UPDATE sectors
-      SET ${setClauses.join(', ')}
-      WHERE id = $${paramCount}
-    `;
+      const updateQuery = `
+        UPDATE sectors
+        SET ${setClauses.join(', ')}
+        WHERE id = $${paramCount}
+        RETURNING updated_at
+      `;
+
+      const updateResult = await client.query(updateQuery, values);
+      updatedAt = updateResult.rows[0].updated_at;
+    }
+
+    // Geometry goes last so the recomputed measurements win over any sent in the body
+    if (updates.geometry) {
+      const result = await applyGeometryEdit(client, id, req.user.id, updates.geometry);
+      if (result.error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          message: result.error
+        });
+      }
+      updatedAt = result.updatedAt;
+    }
 
-    await client.query(updateQuery, values);
     await client.query('COMMIT');
 
     res.json({
       success: true,
-      message: 'Sector updated successfully'
+      message: 'Sector updated successfully',
+      data: { id: parseInt(id), updated_at: updatedAt }
     });
   } catch (error) {
     await client.query('ROLLBACK');
@@ -467,6 +1121,72 @@ export const updateSector = async (req, res) => {
   }
 };
 
+// Update only the geometry of a sector (admin/editor only)
+// Area, perimeter and design area are recomputed from the new shape
+export const updateSectorGeometry = async (req, res) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const { id } = req.params;
+    const { geometry, updated_at: expectedUpdatedAt, keepDesignArea } = req.body;
+
+    if (expectedUpdatedAt === undefined) {
+      await client.query('ROLLBACK');
+      return sendVersionRequired(res);
+    }
+
+    const [current] = await lockSectors(client, [id]);
+
+    if (!current) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Sector not found'
+      });
+    }
+
+    if (!sameVersion(current.updated_at, expectedUpdatedAt)) {
+      await client.query('ROLLBACK');
+      return sendVersionConflict(res, [current]);
+    }
+
+    const result = await applyGeometryEdit(client, id, req.user.id, geometry, { keepDesignArea: Boolean(keepDesignArea) });
+
+    if (result.error) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: 'Sector geometry updated successfully',
+      data: {
+        id: parseInt(id),
+        Shape_Area: result.measurements.shape_area,
+        Shape_Leng: result.measurements.shape_leng,
+        Design_A_F: result.measurements.design_a_f ?? current.design_a_f,
+        updated_at: result.updatedAt
+      }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Update sector geometry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating sector geometry'
+    });
+  } finally {
+    client.release();
+  }
+};
+
 // Delete sector (admin only)
 export const deleteSector = async (req, res) => {
   const client = await getClient();
@@ -475,14 +1195,17 @@ export const deleteSector = async (req, res) => {
     await client.query('BEGIN');
 
     const { id } = req.params;
+    const expected = req.body?.updated_at;
 
-    // Check if sector exists
-    const checkResult = await client.query(
-      'SELECT id FROM sectors WHERE id = $1',
-      [id]
-    );
+    if (expected === undefined) {
+      await client.query('ROLLBACK');
+      return sendVersionRequired(res);
+    }
+
+    // Check if sector exists, locked until it is deleted
+    const [current] = await lockSectors(client, [id]);
 
-    if (checkResult.rows.length === 0) {
+    if (!current) {
       await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
@@ -490,6 +1213,11 @@ export const deleteSector = async (req, res) => {
       });
     }
 
+    if (!sameVersion(current.updated_at, expected)) {
+      await client.query('ROLLBACK');
+      return sendVersionConflict(res, [current]);
+    }
+
     // Log deletion
     await client.query(
       `INSERT INTO change_history (sector_id, user_id, action, field_name, old_value)
@@ -525,7 +1253,7 @@ export const getSectorHistory = async (req, res) => {
 
     const result = await query(
       `SELECT
-        ch.id, ch.action, ch.field_name, ch.old_value, ch.new_value, ch.changed_at,
+        ch.id, ch.action, ch.field_name, ch.old_value, ch.new_value, ch.diff, ch.changed_at,
         u.username, u.full_name
       FROM change_history ch
       JOIN users u ON ch.user_id = u.id
@@ -556,7 +1284,7 @@ export const batchUpdateSectors = async (req, res) => {
   try {
     await client.query('BEGIN');
 
-    const { updates } = req.body; // Array of {id, fields}
+    const { updates } = req.body; // Array of {id, updated_at, fields}
 
     if (!Array.isArray(updates) || updates.length === 0) {
       await client.query('ROLLBACK');
@@ -566,22 +1294,36 @@ export const batchUpdateSectors = async (req, res) => {
       });
     }
 
+    if (updates.some(update => update.updated_at === undefined)) {
+      await client.query('ROLLBACK');
+      return sendVersionRequired(res);
+    }
+
+    // Lock every sector first; one stale update refuses the whole batch
+    const lockedRows = await lockSectors(client, updates.map(update => update.id));
+    const currentById = new Map(lockedRows.map(row => [row.id, row]));
+
+    const stale = updates
+      .map(update => currentById.get(Number(update.id)))
+      .filter((row, index) => row && !sameVersion(row.updated_at, updates[index].updated_at));
+
+    if (stale.length > 0) {
+      await client.query('ROLLBACK');
+      return sendVersionConflict(res, stale);
+    }
+
     let updatedCount = 0;
+    const versions = [];
 
     for (const update of updates) {
-      const { id, ...fields } = update;
+      const { id, updated_at: _expectedUpdatedAt, ...fields } = update;
 
-      // Get current values
-      const currentResult = await client.query(
-        'SELECT * FROM sectors WHERE id = $1',
-        [id]
-      );
+      const currentData = currentById.get(Number(id));
 
-      if (currentResult.rows.length === 0) {
+      if (!currentData) {
         continue; // Skip if not found
       }
 
-      const currentData = currentResult.rows[0];
       const setClauses = [];
       const values = [];
       let paramCount = 1;
@@ -602,7 +1344,7 @@ export const batchUpdateSectors = async (req, res) => {
       }
 
       if (setClauses.length > 0) {
-        setClauses.push(`updated_by = $${paramCount++}`);
+        setClauses.push(`updated_by = $${paramCount++}`, 'updated_at = CURRENT_TIMESTAMP');
         values.push(req.user.id);
         values.push(id);
 
@@ -610,10 +1352,14 @@ export const batchUpdateSectors = async (req, res) => {
           UPDATE sectors
           SET ${setClauses.join(', ')}
           WHERE id = $${paramCount}
+          RETURNING updated_at
         `;
 
-        await client.query(updateQuery, values);
+        const updateResult = await client.query(updateQuery, values);
+        versions.push({ id: currentData.id, updated_at: updateResult.rows[0].updated_at });
         updatedCount++;
+      } else {
+        versions.push({ id: currentData.id, updated_at: currentData.updated_at });
       }
     }
 
@@ -622,7 +1368,7 @@ export const batchUpdateSectors = async (req, res) => {
     res.json({
       success: true,
       message: `Successfully updated ${updatedCount} sectors`,
-      data: { updatedCount }
+      data: { updatedCount, versions }
     });
   } catch (error) {
     await client.query('ROLLBACK');
@@ -635,3 +1381,244 @@ export const batchUpdateSectors = async (req, res) => {
     client.release();
   }
 };
+
+// Split one sector into several (admin/editor only)
+// Body: { sectorId, updated_at, children: [{ geometry, attributes }] }; children must cover the parent exactly
+export const splitSector = async (req, res) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const { sectorId, updated_at: expected, children } = req.body;
+
+    if (!Array.isArray(children) || children.length < 2) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: 'A split must produce at least two sectors'
+      });
+    }
+
+    if (expected === undefined) {
+      await client.query('ROLLBACK');
+      return sendVersionRequired(res);
+    }
+
+    const [parent] = await lockSectors(client, [sectorId]);
+
+    if (!parent) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Sector not found'
+      });
+    }
+
+    if (!sameVersion(parent.updated_at, expected)) {
+      await client.query('ROLLBACK');
+      return sendVersionConflict(res, [parent]);
+    }
+
+    const measuredChildren = [];
+    for (const [index, child] of children.entries()) {
+      const measured = await measureGeometry(client, child.geometry);
+      if (measured.error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          message: `Sector ${index + 1}: ${measured.error}`
+        });
+      }
+      measuredChildren.push({ ...measured, attributes: child.attributes });
+    }
+
+    // The pieces must neither overlap nor leave part of the parent uncovered
+    const coverage = await client.query(
+      `WITH pieces AS (
+         SELECT ST_SetSRID(ST_GeomFromGeoJSON(g), 4326) AS geom FROM unnest($2::text[]) AS g
+       ),
+       merged AS (
+         SELECT ST_Union(geom) AS geom, SUM(ST_Area(geom::geography)) AS total_area FROM pieces
+       )
+       SELECT
+         ST_Area(s.geometry::geography) AS parent_area,
+         ST_Area(ST_SymDifference(s.geometry, merged.geom)::geography) AS mismatch,
+         merged.total_area - ST_Area(merged.geom::geography) AS overlap
+       FROM sectors s, merged
+       WHERE s.id = $1`,
+      [parent.id, measuredChildren.map(child => JSON.stringify(child.geometry))]
+    );
+
+    const { parent_area, mismatch, overlap } = coverage.rows[0];
+    const tolerance = parent_area * SPLIT_AREA_TOLERANCE;
+    if (mismatch > tolerance || overlap > tolerance) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: 'The resulting sectors must exactly cover the original sector'
+      });
+    }
+
+    const childIds = [];
+    for (const child of measuredChildren) {
+      // Inherit the parent's attributes, but not its design area unless the client sets one
+      const attributes = { ...pickAttributes(parent), design_a_f: undefined, ...pickAttributes(child.attributes) };
+      childIds.push(await insertSector(client, attributes, child.geometry, child.measurements, req.user.id));
+    }
+
+    const operationId = await recordLineage(client, 'SPLIT', req.user.id, [parent], childIds);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      message: `Sector split into ${childIds.length} sectors`,
+      data: { operationId, childIds }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Split sector error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error splitting sector'
+    });
+  } finally {
+    client.release();
+  }
+};
+
+// Merge adjacent sectors into one (admin/editor only)
+// Body: { sectorIds, versions: { [id]: updated_at }, attributes }; the geometry is the union of the parents
+export const mergeSectors = async (req, res) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const { sectorIds, versions, attributes } = req.body;
+    const ids = Array.isArray(sectorIds) ? [...new Set(sectorIds.map(Number))] : [];
+
+    if (ids.length < 2) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: 'Select at least two sectors to merge'
+      });
+    }
+
+    if (!versions || ids.some(id => versions[id] === undefined)) {
+      await client.query('ROLLBACK');
+      return sendVersionRequired(res);
+    }
+
+    const parents = await lockSectors(client, ids);
+
+    if (parents.length !== ids.length) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'One or more sectors not found'
+      });
+    }
+
+    const stale = parents.filter(parent => !sameVersion(parent.updated_at, versions[parent.id]));
+    if (stale.length > 0) {
+      await client.query('ROLLBACK');
+      return sendVersionConflict(res, stale);
+    }
+
+    const unionResult = await client.query(
+      `WITH merged AS (
+         SELECT ST_Union(geometry) AS geom FROM sectors WHERE id = ANY($1::int[])
+       )
+       SELECT ST_NumGeometries(geom) AS parts, ST_AsGeoJSON(geom)::json AS geometry FROM merged`,
+      [ids]
+    );
+
+    if (unionResult.rows[0].parts > 1) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: 'Only adjacent sectors can be merged'
+      });
+    }
+
+    const measured = await measureGeometry(client, unionResult.rows[0].geometry);
+    if (measured.error) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: measured.error
+      });
+    }
+
+    const childId = await insertSector(
+      client,
+      { ...pickAttributes(parents[0]), design_a_f: undefined, ...pickAttributes(attributes) },
+      measured.geometry,
+      measured.measurements,
+      req.user.id
+    );
+
+    const operationId = await recordLineage(client, 'MERGE', req.user.id, parents, [childId]);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      message: `Merged ${parents.length} sectors`,
+      data: { operationId, childIds: [childId] }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Merge sectors error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error merging sectors'
+    });
+  } finally {
+    client.release();
+  }
+};
+
+// Get the split/merge operations a sector came from or was consumed by
+// Works for retired (and, before retirement, deleted) parents too, since lineage rows outlive them
+export const getSectorLineage = async (req, res) => {
+  try {
+    const sectorId = Number(req.params.id);
+    if (!Number.isInteger(sectorId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sector id must be an integer'
+      });
+    }
+
+    const result = await query(
+      `SELECT
+        so.id AS operation_id, so.operation, so.created_at,
+        u.username, u.full_name,
+        sl.parent_id, sl.child_id, sl.parent_snapshot
+      FROM sector_lineage sl
+      JOIN sector_operations so ON sl.operation_id = so.id
+      LEFT JOIN users u ON so.user_id = u.id
+      WHERE sl.child_id = $1 OR sl.parent_id = $1
+      ORDER BY so.created_at DESC`,
+      [sectorId]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        parents: result.rows.filter(row => row.child_id === sectorId),
+        children: result.rows.filter(row => row.parent_id === sectorId)
+      }
+    });
+  } catch (error) {
+    console.error('Get sector lineage error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sector lineage'
+    });
+  }
+};
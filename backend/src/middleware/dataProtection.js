@@ -10,10 +10,33 @@ const DEFAULT_LIMIT = 50;
 const requestTracking = new Map();
 const TRACKING_WINDOW = 60000; // 1 minute
 const SUSPICIOUS_REQUEST_THRESHOLD = 20; // More than 20 requests per minute is suspicious (increased for development)
+const SUSPICIOUS_TILE_THRESHOLD = 400; // Vector tiles are counted apart; a map view needs 20-40 at once
+const SUSPICIOUS_MAP_DATA_THRESHOLD = 40; // The map asks for a new area at most every 3 seconds
 
 // Whitelist for development - localhost IPs
 const WHITELISTED_IPS = ['::1', '127.0.0.1', '::ffff:127.0.0.1'];
 
+// Vector tile requests: a map view needs dozens at once, so they have their own limiter
+// (tileLimiter) and scraping threshold instead of counting towards the general ones
+export const isTileRequest = (req) => /^\/api\/sectors\/tiles\//.test(req.originalUrl);
+
+// Map data requests: viewport (bounding box) loads as the map is panned and the pages of
+// the attribute list. They have their own limiter (viewportLimiter) and scraping threshold.
+export const isMapDataRequest = (req) => /^\/api\/sectors\/(bbox|attributes)(\?|$)/.test(req.originalUrl);
+
+// Requests counted apart from the rest for scraping detection, each against its own threshold
+const TRACKED_KINDS = {
+  tiles: { label: 'tile requests', threshold: SUSPICIOUS_TILE_THRESHOLD },
+  mapData: { label: 'map data requests', threshold: SUSPICIOUS_MAP_DATA_THRESHOLD },
+  requests: { label: 'requests', threshold: SUSPICIOUS_REQUEST_THRESHOLD }
+};
+
+const trackedKind = (req) => {
+  if (isTileRequest(req)) return 'tiles';
+  if (isMapDataRequest(req)) return 'mapData';
+  return 'requests';
+};
+
 // Middleware to limit pagination
 export const limitPagination = (req, res, next) => {
   // Override limit if it's too high
@@ -53,6 +76,8 @@ export const detectScraping = async (req, res, next) => {
   if (!requestTracking.has(ip)) {
     requestTracking.set(ip, {
       requests: [],
+      tiles: [],
+      mapData: [],
       blocked: false,
       blockUntil: null
     });
@@ -79,21 +104,24 @@ export const detectScraping = async (req, res, next) => {
     tracking.blockUntil = null;
   }
 
+  const key = trackedKind(req);
+  const { label: kind, threshold } = TRACKED_KINDS[key];
+
   // Remove old requests outside tracking window
-  tracking.requests = tracking.requests.filter(time => now - time < TRACKING_WINDOW);
+  tracking[key] = tracking[key].filter(time => now - time < TRACKING_WINDOW);
 
   // Add current request
-  tracking.requests.push(now);
+  tracking[key].push(now);
 
   // Check for suspicious pattern
-  if (tracking.requests.length > SUSPICIOUS_REQUEST_THRESHOLD) {
-    console.error(`🚨 SCRAPING DETECTED from IP: ${ip} - ${tracking.requests.length} requests in 1 minute`);
+  if (tracking[key].length > threshold) {
+    console.error(`🚨 SCRAPING DETECTED from IP: ${ip} - ${tracking[key].length} ${kind} in 1 minute`);
 
     // Block the IP for 15 minutes
     tracking.blocked = true;
     tracking.blockUntil = now + (15 * 60 * 1000); // 15 minutes
 
-    await logScrapingAttempt(req, `${tracking.requests.length} requests in 1 minute`);
+    await logScrapingAttempt(req, `${tracking[key].length} ${kind} in 1 minute`);
 
     return res.status(403).json({
       success: false,
@@ -140,6 +168,12 @@ export const preventBulkExport = async (req, res, next) => {
 
 // Middleware to add watermarks to sensitive data (optional - can track leaked data)
 export const addWatermark = (req, res, next) => {
+  // Binary responses (vector tiles) read the watermark from res.locals and embed it themselves
+  res.locals.watermark = {
+    requestId: generateRequestId(req),
+    fingerprint: generateFingerprint(req)
+  };
+
   // Store original json method
   const originalJson = res.json;
 
@@ -148,10 +182,10 @@ export const addWatermark = (req, res, next) => {
     if (data && data.success && data.data) {
       // Add invisible watermark with request metadata
       data._meta = {
-        requestId: generateRequestId(req),
+        requestId: res.locals.watermark.requestId,
         timestamp: new Date().toISOString(),
         // This can help track if data is leaked
-        fingerprint: generateFingerprint(req)
+        fingerprint: res.locals.watermark.fingerprint
       };
     }
 
@@ -214,14 +248,16 @@ setInterval(() => {
   const now = Date.now();
   for (const [ip, tracking] of requestTracking.entries()) {
     // Remove tracking for IPs with no recent requests
-    if (tracking.requests.length === 0 && !tracking.blocked) {
+    if (Object.keys(TRACKED_KINDS).every(key => tracking[key].length === 0) && !tracking.blocked) {
       requestTracking.delete(ip);
     }
     // Reset unblocked IPs
     if (tracking.blocked && tracking.blockUntil <= now) {
       tracking.blocked = false;
       tracking.blockUntil = null;
-      tracking.requests = [];
+      Object.keys(TRACKED_KINDS).forEach(key => {
+        tracking[key] = [];
+      });
     }
   }
 }, 5 * 60 * 1000); // Clean up every 5 minutes
@@ -1,5 +1,6 @@
 import rateLimit from 'express-rate-limit';
 import pool from '../config/database.js';
+import { isTileRequest, isMapDataRequest } from './dataProtection.js';
 
 // Helper function to log suspicious activity to database
 async function logSuspiciousActivity(req, activityType, reason) {
@@ -46,6 +47,7 @@ export const generalLimiter = rateLimit({
   },
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  skip: (req) => isTileRequest(req) || isMapDataRequest(req), // Limited by tileLimiter and viewportLimiter
   handler: async (req, res) => {
     console.warn(`⚠️  Rate limit exceeded for IP: ${req.ip} - Path: ${req.path}`);
 
@@ -82,6 +84,51 @@ export const dataLimiter = rateLimit({
   }
 });
 
+// Limiter for map data (viewport loads and attribute pages) - 300 requests per 15 minutes.
+// The map asks for areas it has not loaded yet at most every 3 seconds, which this allows
+// for the whole window; the attribute list is a few pages per data version.
+export const viewportLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 300, // Limit each IP to 300 viewport requests per windowMs
+  message: {
+    success: false,
+    message: 'Too many map data requests from this IP. Please slow down.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: async (req, res) => {
+    console.warn(`⚠️  Viewport rate limit exceeded for IP: ${req.ip} - Path: ${req.path}`);
+
+    await logSuspiciousActivity(req, 'data_scraping', `Viewport rate limit exceeded: ${req.rateLimit.current} requests`);
+
+    res.status(429).json({
+      success: false,
+      message: 'Too many map data requests. Please wait before panning further.',
+      retryAfter: Math.ceil(req.rateLimit.resetTime / 1000)
+    });
+  }
+});
+
+// Limiter for sector vector tiles - 3000 requests per 15 minutes.
+// A full-screen view at one zoom level is 20-40 tiles; zooming and panning fetch new ones.
+export const tileLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 3000, // Limit each IP to 3000 tiles per windowMs
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: async (req, res) => {
+    console.warn(`⚠️  Tile rate limit exceeded for IP: ${req.ip} - Path: ${req.path}`);
+
+    await logSuspiciousActivity(req, 'data_scraping', `Tile rate limit exceeded: ${req.rateLimit.current} requests`);
+
+    res.status(429).json({
+      success: false,
+      message: 'Too many map tile requests. Please wait before panning further.',
+      retryAfter: Math.ceil(req.rateLimit.resetTime / 1000)
+    });
+  }
+});
+
 // Very strict limiter for authentication endpoints - 5 attempts per 15 minutes
 export const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
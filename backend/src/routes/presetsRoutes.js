@@ -0,0 +1,29 @@
+import express from 'express';
+import {
+  getPresets,
+  getDefaultPreset,
+  createPreset,
+  updatePreset,
+  deletePreset,
+  setDefaultPreset,
+  clearDefaultPreset
+} from '../controllers/presetsController.js';
+import { authenticate, isAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Any user can keep their own presets and use shared ones
+router.get('/', getPresets);
+router.get('/default', getDefaultPreset);
+router.post('/', createPreset);
+router.put('/:id', updatePreset);
+router.delete('/:id', deletePreset);
+
+// Admin only routes - organisation default
+router.put('/:id/default', isAdmin, setDefaultPreset);
+router.delete('/:id/default', isAdmin, clearDefaultPreset);
+
+export default router;
@@ -3,14 +3,24 @@ import {
   getAllSectors,
   getSectorById,
   getSectorsByDivision,
+  getSectorsInBBox,
+  getSectorAttributes,
+  getSectorFeatures,
+  getSectorExtent,
+  getSectorTile,
   createSector,
   updateSector,
+  updateSectorGeometry,
   deleteSector,
   getSectorHistory,
-  batchUpdateSectors
+  getSectorLineage,
+  batchUpdateSectors,
+  splitSector,
+  mergeSectors
 } from '../controllers/sectorsController.js';
+import { getSectorObservations, saveObservations } from '../controllers/observationsController.js';
 import { authenticate, canEdit, isAdmin } from '../middleware/auth.js';
-import { dataLimiter } from '../middleware/rateLimiter.js';
+import { dataLimiter, viewportLimiter, tileLimiter } from '../middleware/rateLimiter.js';
 import { limitPagination } from '../middleware/dataProtection.js';
 
 const router = express.Router();
@@ -21,14 +31,29 @@ router.use(authenticate);
 // Public (authenticated) routes - all users can view
 // Apply strict rate limiting and pagination limits to data endpoints
 router.get('/', dataLimiter, limitPagination, getAllSectors);
+// Viewport loading: bounded by area and a feature cap instead of pagination
+router.get('/bbox', viewportLimiter, getSectorsInBBox);
+router.get('/extent', getSectorExtent);
+// Attributes of all sectors without geometry, in pages; loaded once per data version
+router.get('/attributes', viewportLimiter, getSectorAttributes);
+// Full geometry by id or division for exports and whole-scheme checks; viewers get a few at a time
+router.get('/features', dataLimiter, getSectorFeatures);
+// Mapbox Vector Tiles the maps draw the sectors from; limited separately, a view needs many
+router.get('/tiles/:z(\\d+)/:x(\\d+)/:y(\\d+).pbf', tileLimiter, getSectorTile);
 router.get('/:id', getSectorById);
 router.get('/division/:division', dataLimiter, limitPagination, getSectorsByDivision);
 router.get('/:id/history', getSectorHistory);
+router.get('/:id/lineage', getSectorLineage);
+router.get('/:id/observations', getSectorObservations);
 
 // Editor and admin routes - can create and update
 router.post('/', canEdit, createSector);
 router.put('/:id', canEdit, updateSector);
+router.put('/:id/geometry', canEdit, updateSectorGeometry);
 router.post('/batch-update', canEdit, batchUpdateSectors);
+router.post('/split', canEdit, splitSector);
+router.post('/merge', canEdit, mergeSectors);
+router.post('/observations', canEdit, saveObservations);
 
 // Admin only routes - can delete
 router.delete('/:id', isAdmin, deleteSector);
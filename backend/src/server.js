@@ -6,6 +6,7 @@ import dotenv from 'dotenv';
 import pool from './config/database.js';
 import authRoutes from './routes/authRoutes.js';
 import sectorsRoutes from './routes/sectorsRoutes.js';
+import presetsRoutes from './routes/presetsRoutes.js';
 import { generalLimiter, authLimiter } from './middleware/rateLimiter.js';
 import { detectScraping, preventBulkExport, addWatermark } from './middleware/dataProtection.js';
 
@@ -48,7 +49,9 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-None-Match', 'If-Modified-Since', 'Idempotency-Key'],
+  // Read by the client to revalidate its offline copy of the sectors
+  exposedHeaders: ['ETag', 'Last-Modified']
 }));
 
 // Health check endpoint
@@ -74,6 +77,7 @@ app.get('/health', async (req, res) => {
 // API Routes
 app.use('/api/auth', authLimiter, authRoutes); // Extra rate limiting for auth
 app.use('/api/sectors', addWatermark, sectorsRoutes); // Add watermark to sector data
+app.use('/api/presets', presetsRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -84,7 +88,8 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/health',
       auth: '/api/auth',
-      sectors: '/api/sectors'
+      sectors: '/api/sectors',
+      presets: '/api/presets'
     },
     documentation: {
       auth: {
@@ -100,10 +105,23 @@ app.get('/', (req, res) => {
         getById: 'GET /api/sectors/:id (protected)',
         getByDivision: 'GET /api/sectors/division/:division (protected)',
         getHistory: 'GET /api/sectors/:id/history (protected)',
+        getLineage: 'GET /api/sectors/:id/lineage (protected)',
         create: 'POST /api/sectors (admin/editor)',
         update: 'PUT /api/sectors/:id (admin/editor)',
+        updateGeometry: 'PUT /api/sectors/:id/geometry (admin/editor)',
         batchUpdate: 'POST /api/sectors/batch-update (admin/editor)',
+        split: 'POST /api/sectors/split (admin/editor)',
+        merge: 'POST /api/sectors/merge (admin/editor)',
         delete: 'DELETE /api/sectors/:id (admin)'
+      },
+      presets: {
+        getAll: 'GET /api/presets (protected)',
+        getDefault: 'GET /api/presets/default (protected)',
+        create: 'POST /api/presets (protected)',
+        update: 'PUT /api/presets/:id (owner)',
+        delete: 'DELETE /api/presets/:id (owner/admin)',
+        setDefault: 'PUT /api/presets/:id/default (admin)',
+        clearDefault: 'DELETE /api/presets/:id/default (admin)'
       }
     }
   });
@@ -0,0 +1,39 @@
+// Vertex-level diff between two (Multi)Polygon GeoJSON geometries, stored with
+// geometry edits in change_history so reviewers can see what actually moved.
+
+const COORD_PRECISION = 8;
+
+const vertexKey = ([lng, lat]) => `${lng.toFixed(COORD_PRECISION)},${lat.toFixed(COORD_PRECISION)}`;
+
+// Flatten to a list of rings, dropping the repeated closing vertex
+const getRings = (geometry) => {
+  if (!geometry) return [];
+  const polygons = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+  return polygons.flatMap(polygon => polygon.map(ring => ring.slice(0, -1)));
+};
+
+const countVertices = (rings) => rings.reduce((total, ring) => total + ring.length, 0);
+
+/**
+ * Compare two geometries vertex by vertex.
+ * A dragged vertex shows up as one removed and one added coordinate.
+ */
+export const diffGeometry = (oldGeometry, newGeometry) => {
+  const oldRings = getRings(oldGeometry);
+  const newRings = getRings(newGeometry);
+
+  const oldKeys = new Set(oldRings.flat().map(vertexKey));
+  const newKeys = new Set(newRings.flat().map(vertexKey));
+
+  const added = newRings.flat().filter(coord => !oldKeys.has(vertexKey(coord)));
+  const removed = oldRings.flat().filter(coord => !newKeys.has(vertexKey(coord)));
+
+  return {
+    added,
+    removed,
+    oldVertexCount: countVertices(oldRings),
+    newVertexCount: countVertices(newRings),
+    oldRingCount: oldRings.length,
+    newRingCount: newRings.length,
+  };
+};
@@ -1,5 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import pool from '../config/database.js';
 
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// SQL migrations applied after the tables below, in order. Each one can be run again.
+const migrationsPath = path.join(__dirname, '../../migrations');
+const sqlMigrations = [
+  '004_suspicious_activity_table.sql',
+  '005_change_history_geometry_diff.sql',
+  '006_sector_lineage.sql',
+  '007_style_presets.sql',
+  '008_sector_observations.sql',
+  '009_sector_create_keys.sql',
+  '010_sector_retirement.sql',
+];
+
 const createTables = async () => {
   const client = await pool.connect();
 
@@ -127,6 +145,12 @@ const createTables = async () => {
       FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
     `);
 
+    // Apply the SQL migrations
+    for (const file of sqlMigrations) {
+      await client.query(fs.readFileSync(path.join(migrationsPath, file), 'utf-8'));
+      console.log(`📄 Applied ${file}`);
+    }
+
     await client.query('COMMIT');
     console.log('✅ Database tables created successfully!');
   } catch (error) {
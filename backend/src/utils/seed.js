@@ -93,7 +93,7 @@ const importGeoJSON = async () => {
         try {
           // Check if sector already exists (by objectid_1 and division)
           const existing = await client.query(
-            'SELECT id FROM sectors WHERE objectid_1 = $1 AND division = $2',
+            'SELECT id FROM sectors WHERE objectid_1 = $1 AND division = $2 AND retired_at IS NULL',
             [props.OBJECTID_1, division]
           );
 
@@ -180,7 +180,7 @@ const importGeoJSON = async () => {
         MAX(design_a_f) as max_area,
         AVG(design_a_f) as avg_area
       FROM sectors
-      WHERE design_a_f IS NOT NULL
+      WHERE design_a_f IS NOT NULL AND retired_at IS NULL
       GROUP BY division
       ORDER BY division
     `);
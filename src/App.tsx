@@ -1,29 +1,66 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { ThemeProvider } from './context/ThemeContext';
+import { MapSessionProvider, useMapSession } from './context/MapSessionContext';
+import { OfflineEditsProvider, useOfflineEdits } from './context/OfflineEditsContext';
 import LoginPage from './components/Auth/LoginPage';
 import MainLayout from './components/Layout/MainLayout';
 import MapContainer from './components/Maps/MapContainer';
 import StatsPanel from './components/Dashboard/StatsPanel';
 import EditableAttributeTable from './components/Dashboard/EditableAttributeTable';
+import TopologyPanel from './components/Dashboard/TopologyPanel';
+import ExportDialog from './components/Dashboard/ExportDialog';
+import EditConflictDialog from './components/Dashboard/EditConflictDialog';
 import { DataProtection } from './components/Security/DataProtection';
 import { useSectorData } from './hooks/useSectorData';
+import { usePermalink } from './hooks/usePermalink';
+import { useDefaultStylePreset } from './hooks/useStylePresets';
 import { getAreaCategory } from './utils/symbology';
-import type { MapLibrary, SectorDivision, SectorFeature, AreaCategory } from './types';
+import { applyZonalStats, applyZonalStatsToAttributes } from './utils/zonalStats';
+import { sectorsAPI } from './services/api';
+import { parsePermalink, getNemraId, findNemraById, getNemraViewport, type PermalinkState } from './utils/permalink';
+import type { MapLibrary, SectorAttributeData, SectorDivision, SectorFeature, SectorProperties, AreaCategory } from './types';
 
 function AppContent() {
   const { isAuthenticated, loading: authLoading } = useAuth();
   console.log('App component rendering');
-  const { sectorsData, loading, error, reloadData } = useSectorData();
+  const { viewport, jumpToViewport, selectedFeature, setSelectedFeature, areaThresholds, zonalStats } = useMapSession();
+  // From the backend, sectors with geometry are loaded for the area in view and the
+  // attributes of all sectors once
+  const {
+    sectorsData: loadedSectorsData,
+    sectorAttributes: loadedAttributes,
+    loading,
+    error,
+    dataSource,
+    reloadData,
+    viewportState,
+    sectorTiles,
+    syncState,
+  } = useSectorData(viewport, isAuthenticated);
+  // Zonal statistics become sector attributes everywhere: map symbology, table, stats and export
+  const sectorsData = useMemo(() => applyZonalStats(loadedSectorsData, zonalStats), [loadedSectorsData, zonalStats]);
+  const sectorAttributes = useMemo(() => applyZonalStatsToAttributes(loadedAttributes, zonalStats), [loadedAttributes, zonalStats]);
   console.log('Loading:', loading, 'Error:', error, 'Data:', sectorsData);
-  const [selectedMapLibrary, setSelectedMapLibrary] = useState<MapLibrary>('leaflet');
-  const [selectedSector, setSelectedSector] = useState<SectorDivision | null>(null);
-  const [selectedAreaCategory, setSelectedAreaCategory] = useState<AreaCategory>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  useDefaultStylePreset(isAuthenticated);
+  const { queue: offlineEdits, conflicts, syncing, syncGeneration, replay, resolveConflict, discardEdit } = useOfflineEdits();
+  const [conflictsVisible, setConflictsVisible] = useState(false);
+  // State shared through a link; the viewport part is picked up by MapSessionProvider
+  const [initialPermalink] = useState(() => parsePermalink(window.location.hash));
+  const [selectedMapLibrary, setSelectedMapLibrary] = useState<MapLibrary>(initialPermalink.mapLibrary);
+  const [selectedSector, setSelectedSector] = useState<SectorDivision | null>(initialPermalink.selectedSector);
+  const [selectedAreaCategory, setSelectedAreaCategory] = useState<AreaCategory>(initialPermalink.selectedAreaCategory);
+  const [searchQuery, setSearchQuery] = useState(initialPermalink.searchQuery);
+  // Nemra from the link, resolved once the sectors are loaded
+  const [pendingNemraId, setPendingNemraId] = useState<number | null>(initialPermalink.nemraId);
+  // Nemra id being fetched from the backend, so it is asked for once
+  const nemraRequestRef = useRef<number | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [dashboardVisible, setDashboardVisible] = useState(true);
   const [tableVisible, setTableVisible] = useState(false);
-  const [filteredSectorsData, setFilteredSectorsData] = useState(sectorsData);
+  const [topologyVisible, setTopologyVisible] = useState(false);
+  const [exportVisible, setExportVisible] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const handleSectorSelect = (sector: SectorDivision | null) => {
     setSelectedSector(sector);
@@ -38,9 +75,29 @@ function AppContent() {
     console.log('Feature clicked:', feature);
   };
 
-  // Apply both search and area category filters
-  const applyFilters = (query: string, areaCategory: AreaCategory) => {
-    console.log('Applying filters - Query:', query, 'Category:', areaCategory);
+  // Whether a sector matches the search and the area category
+  const matchesFilters = useCallback((props: SectorProperties, query: string, areaCategory: AreaCategory) => {
+    if (query.trim()) {
+      const searchLower = query.toLowerCase();
+      const matched = (
+        props.Canal_Name?.toLowerCase().includes(searchLower) ||
+        props.Name_AR?.includes(query) ||
+        props.Office?.toLowerCase().includes(searchLower) ||
+        props.Division?.toLowerCase().includes(searchLower) ||
+        props.No_Nemra?.toString().includes(query)
+      );
+      if (!matched) return false;
+    }
+    return !areaCategory || getAreaCategory(props.Design_A_F || 0, areaThresholds) === areaCategory;
+  }, [areaThresholds]);
+
+  // Both search and area category filters, applied to the sectors on the map and to the
+  // attributes of all sectors. Follows the sectors as they (re)load, e.g. for a search
+  // restored from a link, and the area-category thresholds.
+  const filtersActive = Boolean(searchQuery.trim() || selectedAreaCategory);
+  const filteredSectorsData = useMemo(() => {
+    if (!filtersActive) return sectorsData;
+    console.log('Applying filters - Query:', searchQuery, 'Category:', selectedAreaCategory);
     console.log('Sectors data available:', Object.keys(sectorsData).filter(k => sectorsData[k as SectorDivision] !== null));
 
     const filtered: typeof sectorsData = {
@@ -64,38 +121,14 @@ function AppContent() {
 
       console.log(`${division}: Starting with ${data.features.length} features`);
       console.log(`${division}: Area range: ${minArea.toFixed(2)} - ${maxArea.toFixed(2)} Feddan (avg: ${avgArea.toFixed(2)})`);
-      let matchedFeatures = data.features;
-
-      // Apply search filter
-      if (query.trim()) {
-        const searchLower = query.toLowerCase();
-        matchedFeatures = matchedFeatures.filter((feature) => {
-          const props = feature.properties;
-          return (
-            props.Canal_Name?.toLowerCase().includes(searchLower) ||
-            props.Name_AR?.includes(query) ||
-            props.Office?.toLowerCase().includes(searchLower) ||
-            props.Division?.toLowerCase().includes(searchLower) ||
-            props.No_Nemra?.toString().includes(query)
-          );
-        });
-        console.log(`${division}: After search filter: ${matchedFeatures.length} features`);
-      }
-
-      // Apply area category filter
-      if (areaCategory) {
-        const beforeFilter = matchedFeatures.length;
-        matchedFeatures = matchedFeatures.filter((feature) => {
-          const area = feature.properties.Design_A_F || 0;
-          const category = getAreaCategory(area);
-          return category === areaCategory;
-        });
-        console.log(`${division}: After area filter (${areaCategory}): ${matchedFeatures.length} features (was ${beforeFilter})`);
-      }
+      const matchedFeatures = data.features.filter(feature => matchesFilters(feature.properties, searchQuery, selectedAreaCategory));
+      console.log(`${division}: After search and area filters: ${matchedFeatures.length} features`);
 
       if (matchedFeatures.length > 0) {
         filtered[division as SectorDivision] = {
           ...data,
+          // The division's extent no longer describes the matches
+          bbox: undefined,
           features: matchedFeatures,
         };
         console.log(`${division}: Added to filtered data with ${matchedFeatures.length} features`);
@@ -105,19 +138,103 @@ function AppContent() {
     });
 
     console.log('Final filtered sectors:', Object.keys(filtered).filter(k => filtered[k as SectorDivision] !== null));
-    setFilteredSectorsData(filtered);
-  };
+    return filtered;
+  }, [filtersActive, sectorsData, searchQuery, selectedAreaCategory, matchesFilters]);
+
+  const filteredAttributes = useMemo(() => {
+    if (!filtersActive) return sectorAttributes;
+    const filteredRows: SectorAttributeData = { East: null, West: null, North: null, South: null };
+    Object.entries(sectorAttributes).forEach(([division, rows]) => {
+      const matched = rows?.filter(props => matchesFilters(props, searchQuery, selectedAreaCategory)) ?? [];
+      if (matched.length > 0) filteredRows[division as SectorDivision] = matched;
+    });
+    return filteredRows;
+  }, [filtersActive, sectorAttributes, searchQuery, selectedAreaCategory, matchesFilters]);
+
+  // Select the nemra from the link. From the backend the map view may not have loaded it,
+  // so it is fetched by id; without a view in the link the map moves to it.
+  useEffect(() => {
+    if (loading || pendingNemraId === null) return;
+    const found = findNemraById(sectorsData, pendingNemraId);
+    if (found || dataSource !== 'backend') {
+      setSelectedFeature(found);
+      setPendingNemraId(null);
+      return;
+    }
 
-  // Filter sectors based on search query
-  const handleSearchChange = (query: string) => {
-    setSearchQuery(query);
-    applyFilters(query, selectedAreaCategory);
+    if (nemraRequestRef.current === pendingNemraId) return;
+    const nemraId = pendingNemraId;
+    nemraRequestRef.current = nemraId;
+    sectorsAPI.getById(nemraId)
+      .then((response) => {
+        const feature = response.data as SectorFeature;
+        setSelectedFeature(feature);
+        if (!initialPermalink.viewport) jumpToViewport(getNemraViewport(feature));
+        setPendingNemraId(current => (current === nemraId ? null : current));
+      })
+      .catch((err) => {
+        console.warn(`Could not open nemra ${nemraId} from the link:`, err);
+        // Unreachable: asked for again when the sectors reload; otherwise it does not exist
+        if (err instanceof TypeError) {
+          nemraRequestRef.current = null;
+        } else {
+          setPendingNemraId(current => (current === nemraId ? null : current));
+        }
+      });
+  }, [loading, sectorsData, pendingNemraId, dataSource, initialPermalink.viewport, jumpToViewport, setSelectedFeature]);
+
+  // Offline edits reached the server: show them, once per sync
+  const reloadedSyncRef = useRef(0);
+  useEffect(() => {
+    if (syncGeneration <= reloadedSyncRef.current) return;
+    reloadedSyncRef.current = syncGeneration;
+    reloadData();
+  }, [syncGeneration, reloadData]);
+
+  // Open the merge dialog when a replay finds new conflicts
+  useEffect(() => {
+    if (conflicts.length > 0) setConflictsVisible(true);
+  }, [conflicts.length]);
+
+  // Back/forward: restore the view recorded in the URL
+  const handlePermalinkNavigate = (state: PermalinkState) => {
+    setSelectedMapLibrary(state.mapLibrary);
+    setSelectedSector(state.selectedSector);
+    setSelectedAreaCategory(state.selectedAreaCategory);
+    setSearchQuery(state.searchQuery);
+    if (state.viewport) jumpToViewport(state.viewport);
+    // A nemra the map view has not loaded is looked up like one from a shared link
+    const nemra = state.nemraId !== null ? findNemraById(sectorsData, state.nemraId) : null;
+    setSelectedFeature(nemra);
+    if (!nemra && state.nemraId !== null) {
+      nemraRequestRef.current = null;
+      setPendingNemraId(state.nemraId);
+    }
   };
 
-  // Filter sectors based on area category
-  const handleAreaCategoryChange = (category: AreaCategory) => {
-    setSelectedAreaCategory(category);
-    applyFilters(searchQuery, category);
+  const permalink = usePermalink(
+    {
+      mapLibrary: selectedMapLibrary,
+      viewport,
+      selectedSector,
+      selectedAreaCategory,
+      searchQuery,
+      nemraId: pendingNemraId ?? (selectedFeature ? getNemraId(selectedFeature) : null),
+    },
+    handlePermalinkNavigate,
+    isAuthenticated && !loading && !error
+  );
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${permalink}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      console.log('🔗 Link copied:', url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
   };
 
   // Show loading while checking authentication
@@ -185,24 +302,86 @@ function AppContent() {
         selectedSector={selectedSector}
         onSectorSelect={handleSectorSelect}
         searchQuery={searchQuery}
-        onSearchChange={handleSearchChange}
+        onSearchChange={setSearchQuery}
         searchResultsCount={
           searchQuery.trim()
-            ? Object.values(filteredSectorsData).reduce((acc, data) => acc + (data?.features.length || 0), 0)
+            ? Object.values(filteredAttributes).reduce((acc, rows) => acc + (rows?.length || 0), 0)
             : 0
         }
       >
         <div className="relative w-full h-full">
           <MapContainer
             mapLibrary={selectedMapLibrary}
-            sectorsData={searchQuery.trim() || selectedAreaCategory ? filteredSectorsData : sectorsData}
+            sectorsData={filteredSectorsData}
+            sectorAttributes={filteredAttributes}
             selectedSector={selectedSector}
             selectedAreaCategory={selectedAreaCategory}
-            onAreaCategoryChange={handleAreaCategoryChange}
+            onAreaCategoryChange={setSelectedAreaCategory}
             onFeatureClick={handleFeatureClick}
             onDataUpdate={reloadData}
+            // Tiles hold every sector, so filtered views draw the loaded ones instead
+            sectorTiles={filtersActive ? null : sectorTiles}
           />
 
+          {/* Data freshness and viewport loading status */}
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[999] flex flex-col items-center gap-2">
+            {dataSource === 'backend' && syncState.syncedAt && (
+              <div
+                className={`px-3 py-1 rounded-full shadow border text-xs font-medium ${
+                  syncState.status === 'offline'
+                    ? 'bg-amber-50 border-amber-300 text-amber-800'
+                    : 'bg-white border-gray-200 text-gray-600'
+                }`}
+                title={syncState.status === 'offline' ? 'The server cannot be reached; showing the copy saved on this device' : undefined}
+              >
+                {syncState.status === 'offline' ? '📴 Offline · ' : syncState.status === 'checking' ? '🔄 Checking for updates · ' : ''}
+                Data as of {new Date(syncState.syncedAt).toLocaleString()}
+              </div>
+            )}
+
+            {dataSource === 'backend' && syncState.status === 'offline' && !syncState.syncedAt && (
+              <div className="px-3 py-1 rounded-full shadow border text-xs font-medium bg-amber-50 border-amber-300 text-amber-800">
+                📴 Offline · No nemras saved on this device yet; they load once the server can be reached
+              </div>
+            )}
+
+            {offlineEdits.length > 0 && (
+              <div className="flex items-center gap-2 px-3 py-1 rounded-full shadow border text-xs font-medium bg-amber-50 border-amber-300 text-amber-800">
+                <span>
+                  {syncing ? '📤 Sending' : '⏳'} {offlineEdits.length} offline edit{offlineEdits.length === 1 ? '' : 's'}
+                  {!syncing && ' waiting to sync'}
+                  {offlineEdits.some(edit => edit.error) && ' (some failed)'}
+                </span>
+                {conflicts.length > 0 ? (
+                  <button onClick={() => setConflictsVisible(true)} className="underline hover:text-amber-900">
+                    Resolve {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+                  </button>
+                ) : !syncing && (
+                  <button onClick={() => replay()} className="underline hover:text-amber-900">
+                    Sync now
+                  </button>
+                )}
+              </div>
+            )}
+
+            {(viewportState.loading || viewportState.partial || viewportState.error) && (
+              <div className="px-4 py-2 rounded-lg shadow-lg border text-sm bg-white border-gray-200 text-gray-700">
+                {viewportState.loading ? (
+                  <span className="flex items-center gap-2">
+                    <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></span>
+                    Loading nemras for this area…
+                  </span>
+                ) : viewportState.error ? (
+                  <span className="text-red-600">⚠️ {viewportState.error}</span>
+                ) : (
+                  <span className="text-amber-700">
+                    Showing {viewportState.loadedCount.toLocaleString()} of {viewportState.totalCount.toLocaleString()} nemras; zoom in to load all in view
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Control Buttons */}
           <div className="absolute bottom-4 left-4 z-[999] flex flex-col space-y-2">
             {/* Dashboard Toggle Button */}
@@ -224,6 +403,48 @@ function AppContent() {
               </span>
             </button>
 
+            {/* Copy Link Button */}
+            <button
+              onClick={handleCopyLink}
+              className="bg-white hover:bg-gray-50 px-4 py-2 rounded-lg shadow-lg border border-gray-200 flex items-center space-x-2 transition-all hover:shadow-xl group"
+              title="Copy a link to this view"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+              <span className="text-sm font-medium text-gray-700">
+                {linkCopied ? 'Link Copied!' : 'Copy Link'}
+              </span>
+            </button>
+
+            {/* Topology Validation Button */}
+            <button
+              onClick={() => setTopologyVisible(!topologyVisible)}
+              className="bg-white hover:bg-gray-50 px-4 py-2 rounded-lg shadow-lg border border-gray-200 flex items-center space-x-2 transition-all hover:shadow-xl group"
+              title="Check sectors for overlaps, gaps and other topology errors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+              </svg>
+              <span className="text-sm font-medium text-gray-700">
+                Validate Topology
+              </span>
+            </button>
+
+            {/* Export Button */}
+            <button
+              onClick={() => setExportVisible(true)}
+              className="bg-white hover:bg-gray-50 px-4 py-2 rounded-lg shadow-lg border border-gray-200 flex items-center space-x-2 transition-all hover:shadow-xl group"
+              title="Export the filtered sectors to GeoJSON, Shapefile, KML or CSV"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              <span className="text-sm font-medium text-gray-700">
+                Export
+              </span>
+            </button>
+
             {/* Attribute Table Button */}
             <button
               onClick={() => setTableVisible(!tableVisible)}
@@ -251,7 +472,7 @@ function AppContent() {
             }
           `}>
             <StatsPanel
-              sectorsData={searchQuery.trim() || selectedAreaCategory ? filteredSectorsData : sectorsData}
+              sectorAttributes={filteredAttributes}
               selectedSector={selectedSector}
             />
           </div>
@@ -259,24 +480,62 @@ function AppContent() {
           {/* Attribute Table */}
           {tableVisible && (
             <EditableAttributeTable
-              sectorsData={searchQuery.trim() || selectedAreaCategory ? filteredSectorsData : sectorsData}
+              sectorAttributes={filteredAttributes}
+              sectorsData={filteredSectorsData}
               selectedSector={selectedSector}
               onClose={() => setTableVisible(false)}
               onDataUpdate={reloadData}
             />
           )}
+
+          {/* Export Dialog */}
+          {exportVisible && (
+            <ExportDialog
+              sectorAttributes={filteredAttributes}
+              selectedSector={selectedSector}
+              onClose={() => setExportVisible(false)}
+            />
+          )}
+
+          {/* Offline edits the server changed meanwhile */}
+          {conflictsVisible && conflicts.length > 0 && (
+            <EditConflictDialog
+              key={conflicts[0].edit.queueId}
+              conflict={conflicts[0]}
+              remaining={conflicts.length - 1}
+              onResolve={(keepMine) => resolveConflict(conflicts[0].edit.queueId, keepMine)}
+              onDiscard={() => discardEdit(conflicts[0].edit.queueId)}
+              onClose={() => setConflictsVisible(false)}
+            />
+          )}
+
+          {/* Topology Validation (unfiltered; viewers check the sectors of the map view) */}
+          {topologyVisible && (
+            <TopologyPanel
+              sectorsData={sectorsData}
+              onClose={() => setTopologyVisible(false)}
+              onDataUpdate={reloadData}
+            />
+          )}
         </div>
       </MainLayout>
     </DataProtection>
   );
 }
 
-// Wrap with ThemeProvider and AuthProvider
+// Wrap with ThemeProvider, AuthProvider, OfflineEditsProvider and MapSessionProvider
 function App() {
+  // Start the map at the view from a shared link, if any
+  const [initialViewport] = useState(() => parsePermalink(window.location.hash).viewport);
+
   return (
     <ThemeProvider>
       <AuthProvider>
-        <AppContent />
+        <OfflineEditsProvider>
+          <MapSessionProvider initialViewport={initialViewport}>
+            <AppContent />
+          </MapSessionProvider>
+        </OfflineEditsProvider>
       </AuthProvider>
     </ThemeProvider>
   );
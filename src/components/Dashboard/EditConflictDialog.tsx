@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { EDITABLE_FIELD_LABELS, displayFieldValue, type EditConflict, type EditableSectorField } from '../../utils/editQueue';
+
+interface EditConflictDialogProps {
+  conflict: EditConflict;
+  // Further conflicts waiting after this one
+  remaining: number;
+  onResolve: (keepMine: EditableSectorField[]) => Promise<void>;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Three-way merge of an offline edit the server changed meanwhile: for each field changed on
+ * both sides, the value it had when edited, the server's current value and the queued one
+ */
+export default function EditConflictDialog({ conflict, remaining, onResolve, onDiscard, onClose }: EditConflictDialogProps) {
+  const { edit, theirs, theirsUpdatedAt, fields } = conflict;
+  // Fields to write the queued value for; the server's value stays for the others
+  const [keepMine, setKeepMine] = useState<Set<EditableSectorField>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Queued fields the server did not change are written either way
+  const otherFields = (Object.keys(edit.changes) as EditableSectorField[]).filter(field => !fields.includes(field));
+
+  const choose = (field: EditableSectorField, mine: boolean) => {
+    setKeepMine(prev => {
+      const next = new Set(prev);
+      if (mine) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  };
+
+  const handleResolve = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onResolve([...keepMine]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the merged values');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[3000] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-orange-600 text-white px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold">Edit Conflict: {edit.label || `Nemra #${edit.sectorId}`}</h2>
+            <p className="text-sm opacity-90">
+              Changed on the server{theirsUpdatedAt ? ` at ${new Date(theirsUpdatedAt).toLocaleString()}` : ''} after your offline edit of {new Date(edit.queuedAt).toLocaleString()}
+              {remaining > 0 && ` · ${remaining} more to review`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition"
+            title="Decide later"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Conflicting fields */}
+        <div className="px-6 py-4">
+          <p className="text-sm text-gray-600 mb-3">Choose which value to keep for each field changed on both sides.</p>
+          <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+            <thead className="bg-gray-100 text-xs uppercase text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Field</th>
+                <th className="px-3 py-2 text-left">Original</th>
+                <th className="px-3 py-2 text-left">Server</th>
+                <th className="px-3 py-2 text-left">Yours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => (
+                <tr key={field} className="border-t border-gray-200">
+                  <td className="px-3 py-2 font-semibold text-gray-700">{EDITABLE_FIELD_LABELS[field]}</td>
+                  <td className="px-3 py-2 text-gray-500">{displayFieldValue(edit.base[field])}</td>
+                  <td className={`px-3 py-2 ${!keepMine.has(field) ? 'bg-blue-50' : ''}`}>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="radio" name={`merge-${field}`} checked={!keepMine.has(field)} onChange={() => choose(field, false)} />
+                      <span className={field === 'Name_AR' ? 'arabic-text' : ''}>{displayFieldValue(theirs[field])}</span>
+                    </label>
+                  </td>
+                  <td className={`px-3 py-2 ${keepMine.has(field) ? 'bg-green-50' : ''}`}>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="radio" name={`merge-${field}`} checked={keepMine.has(field)} onChange={() => choose(field, true)} />
+                      <span className={field === 'Name_AR' ? 'arabic-text' : ''}>{displayFieldValue(edit.changes[field])}</span>
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {otherFields.length > 0 && (
+            <p className="text-xs text-gray-500 mt-3">
+              Also saved from your edit (unchanged on the server): {otherFields.map(field => EDITABLE_FIELD_LABELS[field]).join(', ')}
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600 mt-3">❌ {error}</p>}
+        </div>
+
+        {/* Buttons */}
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={onDiscard}
+            disabled={saving}
+            className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition font-medium disabled:opacity-50"
+            title="Keep the server's version and drop your offline edit"
+          >
+            Discard My Edit
+          </button>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition text-gray-700 font-medium disabled:opacity-50"
+            >
+              Later
+            </button>
+            <button
+              type="button"
+              onClick={handleResolve}
+              disabled={saving}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Merged Values'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,40 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
 import { useAuth } from '../../context/AuthContext';
-import { sectorsAPI } from '../../services/api';
-import type { SectorFeatureCollection, SectorDivision, SectorProperties } from '../../types';
+import { useMapSession } from '../../context/MapSessionContext';
+import { useOfflineEdits } from '../../context/OfflineEditsContext';
+import { SectorConflictError, sectorsAPI } from '../../services/api';
+import type { SectorAttributeData, SectorFeatureCollection, SectorDivision, SectorProperties } from '../../types';
+import { ZONAL_STAT_FIELDS } from '../../utils/zonalStats';
+import {
+  EDITABLE_FIELD_LABELS,
+  diffFieldChanges,
+  displayFieldValue,
+  isNetworkError,
+  pickEditableFields,
+  toBackendChanges,
+  type EditableSectorField,
+  type SectorFieldValues,
+} from '../../utils/editQueue';
+import ZonalStatsPanel from './ZonalStatsPanel';
 
 interface AttributeTableProps {
+  // Rows of the table: the attributes of all sectors
+  sectorAttributes: SectorAttributeData;
+  // Sectors with geometry loaded for the map view, for viewers' zonal statistics
   sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
   selectedSector: SectorDivision | null;
   onClose: () => void;
   onDataUpdate?: () => void;
 }
 
-type SortKey = keyof SectorProperties | 'Division';
+// Zonal statistics columns are named prefix_suffix, e.g. ndvi_mean
+type SortKey = keyof SectorProperties | 'Division' | `${string}_${string}`;
 type SortOrder = 'asc' | 'desc';
 
 interface TableRow extends SectorProperties {
   Division: string;
   id?: number;
+  [zonalField: string]: unknown;
 }
 
 interface EditingCell {
@@ -23,7 +42,19 @@ interface EditingCell {
   field: keyof SectorProperties;
 }
 
+// A row whose save was refused because it changed on the server after it was loaded
+interface StaleRow {
+  // The server's version and values; the next save is made against them
+  updatedAt: string | null;
+  theirs: SectorFieldValues;
+  // Values the edits were made against
+  base: SectorFieldValues;
+  // Edited fields the server changed to something else, waiting for re-apply or discard
+  fields: EditableSectorField[];
+}
+
 export default function EditableAttributeTable({
+  sectorAttributes,
   sectorsData,
   selectedSector,
   onClose,
@@ -31,6 +62,17 @@ export default function EditableAttributeTable({
 }: AttributeTableProps) {
   const { user, hasRole } = useAuth();
   const canEdit = hasRole(['admin', 'editor']);
+  const { zonalStats } = useMapSession();
+  const { queue, queueUpdates } = useOfflineEdits();
+
+  // Values of edits waiting to be sent, by sector id
+  const queuedValues = useMemo(() => {
+    const values: Record<number, SectorFieldValues> = {};
+    queue.forEach(edit => {
+      if (edit.kind === 'update') values[edit.sectorId] = edit.changes;
+    });
+    return values;
+  }, [queue]);
 
   const [sortKey, setSortKey] = useState<SortKey>('Canal_Name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
@@ -41,22 +83,31 @@ export default function EditableAttributeTable({
   const [editedValues, setEditedValues] = useState<Record<number, Partial<SectorProperties>>>({});
   const [saving, setSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [zonalVisible, setZonalVisible] = useState(false);
+  const [staleRows, setStaleRows] = useState<Record<number, StaleRow>>({});
+
+  // Read-only columns of the computed zonal statistics
+  const zonalColumns = useMemo(() => zonalStats.flatMap(run =>
+    ZONAL_STAT_FIELDS.map(field => ({
+      key: `${run.prefix}_${field.suffix}` as const,
+      label: `${run.prefix} ${field.label}`,
+    }))
+  ), [zonalStats]);
 
   // Combine all features into a single table
   const allRows = useMemo(() => {
     const rows: TableRow[] = [];
 
-    Object.entries(sectorsData).forEach(([division, data]) => {
+    Object.entries(sectorAttributes).forEach(([division, data]) => {
       if (!data) return;
       if (selectedSector && division !== selectedSector) return;
 
-      data.features.forEach((feature, index) => {
+      data.forEach((properties, index) => {
         // Use the database ID (from backend) or OBJECTID_1 (from local files) or fallback to index
-        const featureWithId = feature as typeof feature & { id?: number; properties: typeof feature.properties & { id?: number } };
-        const rowId = featureWithId.properties.id || feature.properties.OBJECTID_1 || featureWithId.id || index;
+        const rowId = (properties as SectorProperties & { id?: number }).id || properties.OBJECTID_1 || index;
 
         rows.push({
-          ...feature.properties,
+          ...properties,
           Division: division,
           id: rowId,
         });
@@ -64,7 +115,7 @@ export default function EditableAttributeTable({
     });
 
     return rows;
-  }, [sectorsData, selectedSector]);
+  }, [sectorAttributes, selectedSector]);
 
   // Filter rows based on search
   const filteredRows = useMemo(() => {
@@ -148,6 +199,21 @@ export default function EditableAttributeTable({
     setEditingCell(null);
   };
 
+  // Values and version an edit of the row is made against: the server's after a refused
+  // save, otherwise those the row was loaded with
+  const baseValues = (rowId: number): SectorFieldValues => {
+    if (staleRows[rowId]) return staleRows[rowId].theirs;
+    const row = allRows.find(r => r.id === rowId);
+    return row ? pickEditableFields(row) : {};
+  };
+
+  const baseVersion = (rowId: number) => {
+    if (staleRows[rowId]) return staleRows[rowId].updatedAt;
+    return allRows.find(r => r.id === rowId)?.updated_at ?? null;
+  };
+
+  const pendingDecisions = Object.values(staleRows).reduce((count, stale) => count + stale.fields.length, 0);
+
   const handleSaveChanges = async () => {
     if (Object.keys(editedValues).length === 0) {
       setSaveMessage({ type: 'error', text: 'No changes to save' });
@@ -155,32 +221,23 @@ export default function EditableAttributeTable({
       return;
     }
 
+    if (pendingDecisions > 0) {
+      setSaveMessage({ type: 'error', text: `Re-apply or discard your edit of the ${pendingDecisions} field(s) changed on the server first` });
+      setTimeout(() => setSaveMessage(null), 5000);
+      return;
+    }
+
     setSaving(true);
     setSaveMessage(null);
 
-    try {
-      // Map frontend field names to backend field names
-      const fieldMapping: Record<string, string> = {
-        'Canal_Name': 'canal_name',
-        'Name_AR': 'name_ar',
-        'Office': 'office',
-        'Design_A_F': 'design_a_f',
-        'Remarks_1': 'remarks_1'
-      };
-
-      const updates = Object.entries(editedValues).map(([id, changes]) => {
-        const mappedChanges: Record<string, unknown> = {};
-
-        Object.entries(changes).forEach(([key, value]) => {
-          const backendKey = fieldMapping[key] || key;
-          mappedChanges[backendKey] = value;
-        });
+    // Map frontend field names to backend field names, with the version each edit was made against
+    const updates = Object.entries(editedValues).map(([id, changes]) => ({
+      id: parseInt(id),
+      updated_at: baseVersion(parseInt(id)),
+      ...toBackendChanges(changes as SectorFieldValues)
+    }));
 
-        return {
-          id: parseInt(id),
-          ...mappedChanges
-        };
-      });
+    try {
 
       console.log('📝 Sending updates to backend:', updates);
       console.log('📝 Current editedValues before save:', editedValues);
@@ -196,6 +253,7 @@ export default function EditableAttributeTable({
 
         console.log('🔄 Clearing editedValues and reloading data...');
         setEditedValues({});
+        setStaleRows({});
 
         // Refresh data if callback provided
         if (onDataUpdate) {
@@ -205,6 +263,69 @@ export default function EditableAttributeTable({
         }
       }
     } catch (error) {
+      // Changed on the server since loaded: nothing was written. Edits of fields the server
+      // left alone stay; those it changed as well wait for the user to re-apply or discard.
+      if (error instanceof SectorConflictError) {
+        const nextEdits = { ...editedValues };
+        const nextStale = { ...staleRows };
+        error.conflicts.forEach((conflict) => {
+          const changes = editedValues[conflict.id] as SectorFieldValues | undefined;
+          if (!changes) return;
+          const base = baseValues(conflict.id);
+          const theirs = pickEditableFields(conflict.properties);
+          const { apply, conflicts: fields } = diffFieldChanges(changes, base, theirs);
+          const kept: SectorFieldValues = { ...apply };
+          fields.forEach((field) => {
+            kept[field] = changes[field];
+          });
+
+          if (Object.keys(kept).length > 0) {
+            nextEdits[conflict.id] = kept as Partial<SectorProperties>;
+          } else {
+            delete nextEdits[conflict.id];
+          }
+          nextStale[conflict.id] = { updatedAt: conflict.updated_at, theirs, base, fields };
+        });
+        setEditedValues(nextEdits);
+        setStaleRows(nextStale);
+
+        const fieldCount = Object.values(nextStale).reduce((count, stale) => count + stale.fields.length, 0);
+        setSaveMessage({
+          type: 'error',
+          text: fieldCount > 0
+            ? `Nothing saved: ${error.conflicts.length} record(s) changed on the server meanwhile. Re-apply or discard your edit of the ${fieldCount} field(s) listed, then save again.`
+            : `Nothing saved: ${error.conflicts.length} record(s) changed on the server meanwhile, in other fields. Save again to apply your edits on top.`
+        });
+        onDataUpdate?.();
+        return;
+      }
+
+      // No connection: keep the edits, with the values they were made against, to send later
+      if (isNetworkError(error)) {
+        queueUpdates(Object.entries(editedValues).map(([id, changes]) => {
+          const row = allRows.find(r => r.id === parseInt(id));
+          const rowBase = baseValues(parseInt(id));
+          const base: SectorFieldValues = {};
+          (Object.keys(changes) as EditableSectorField[]).forEach(field => {
+            base[field] = rowBase[field];
+          });
+          return {
+            sectorId: parseInt(id),
+            label: row?.Canal_Name ?? '',
+            changes: changes as SectorFieldValues,
+            base,
+            baseUpdatedAt: baseVersion(parseInt(id)),
+          };
+        }));
+        setEditedValues({});
+        setStaleRows({});
+        setSaveMessage({
+          type: 'success',
+          text: `Offline: ${updates.length} record(s) queued and will be saved when the connection returns`
+        });
+        return;
+      }
+
       console.error('Save error:', error);
       setSaveMessage({
         type: 'error',
@@ -219,22 +340,54 @@ export default function EditableAttributeTable({
   const handleDiscardChanges = () => {
     if (confirm('Are you sure you want to discard all unsaved changes?')) {
       setEditedValues({});
+      setStaleRows({});
       setEditingCell(null);
       setSaveMessage({ type: 'success', text: 'Changes discarded' });
       setTimeout(() => setSaveMessage(null), 3000);
     }
   };
 
+  // A field changed on the server as well: keep the edit, or drop it for the server's value
+  const settleStaleField = (rowId: number, field: EditableSectorField, keepMine: boolean) => {
+    if (!keepMine) {
+      setEditedValues(prev => {
+        const next = { ...prev };
+        const rest = { ...next[rowId] };
+        delete rest[field];
+        if (Object.keys(rest).length > 0) {
+          next[rowId] = rest;
+        } else {
+          delete next[rowId];
+        }
+        return next;
+      });
+    }
+    setStaleRows(prev => ({
+      ...prev,
+      [rowId]: { ...prev[rowId], fields: prev[rowId].fields.filter(f => f !== field) },
+    }));
+  };
+
   const getCellValue = (row: TableRow, field: keyof SectorProperties, _rowIndex: number) => {
     const rowId = row.id!;
     const editedValue = editedValues[rowId]?.[field];
-    return editedValue !== undefined ? editedValue : row[field];
+    if (editedValue !== undefined) return editedValue;
+    const queuedValue = queuedValues[rowId]?.[field as EditableSectorField];
+    if (queuedValue !== undefined) return queuedValue as string | number | null;
+    // The server's value from a refused save, until the reloaded rows have it
+    const stale = staleRows[rowId];
+    if (stale && field in stale.theirs) return stale.theirs[field as EditableSectorField] as string | number | null;
+    return row[field] ?? null;
   };
 
   const isRowEdited = (row: TableRow) => {
     return row.id && editedValues[row.id] !== undefined;
   };
 
+  const isRowQueued = (row: TableRow) => row.id !== undefined && queuedValues[row.id] !== undefined;
+
+  const isRowStale = (row: TableRow) => row.id !== undefined && (staleRows[row.id]?.fields.length ?? 0) > 0;
+
   const divisionColors: Record<string, string> = {
     East: 'bg-blue-50 text-blue-700',
     West: 'bg-green-50 text-green-700',
@@ -256,10 +409,21 @@ export default function EditableAttributeTable({
             </h2>
             <span className="text-sm text-gray-600">
               {sortedRows.length} records {hasUnsavedChanges && `• ${Object.keys(editedValues).length} edited`}
+              {Object.keys(queuedValues).length > 0 && ` • ${Object.keys(queuedValues).length} queued offline`}
             </span>
           </div>
 
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setZonalVisible(!zonalVisible)}
+              className={`px-4 py-2 rounded-lg transition text-sm font-medium ${
+                zonalVisible ? 'bg-emerald-600 text-white hover:bg-emerald-700' : 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'
+              }`}
+              title="Raster statistics per nemra"
+            >
+              🧮 Zonal Stats
+            </button>
+
             {/* User Role Badge */}
             <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
               user?.role === 'admin' ? 'bg-red-100 text-red-700' :
@@ -284,7 +448,8 @@ export default function EditableAttributeTable({
                 </button>
                 <button
                   onClick={handleSaveChanges}
-                  disabled={saving || !hasUnsavedChanges}
+                  disabled={saving || !hasUnsavedChanges || pendingDecisions > 0}
+                  title={pendingDecisions > 0 ? 'Re-apply or discard the edits changed on the server first' : undefined}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium flex items-center gap-2"
                 >
                   {saving ? (
@@ -331,6 +496,71 @@ export default function EditableAttributeTable({
           </div>
         )}
 
+        {/* Fields changed on the server since the rows were loaded */}
+        {pendingDecisions > 0 && (
+          <div className="px-6 py-3 border-b border-orange-200 bg-orange-50 max-h-56 overflow-y-auto">
+            <p className="text-sm font-semibold text-orange-800 mb-2">
+              ⚠️ Changed on the server while you were editing. Re-apply or discard your edit of each field, then save again.
+            </p>
+            <table className="w-full text-sm bg-white border border-orange-200 rounded-lg overflow-hidden">
+              <thead className="bg-orange-100 text-xs uppercase text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Nemra</th>
+                  <th className="px-3 py-2 text-left">Field</th>
+                  <th className="px-3 py-2 text-left">Original</th>
+                  <th className="px-3 py-2 text-left">Server</th>
+                  <th className="px-3 py-2 text-left">Yours</th>
+                  <th className="px-3 py-2 text-right">Your Edit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(staleRows).flatMap(([id, stale]) => {
+                  const rowId = parseInt(id);
+                  const row = allRows.find(r => r.id === rowId);
+                  return stale.fields.map(field => (
+                    <tr key={`${rowId}-${field}`} className="border-t border-orange-100">
+                      <td className="px-3 py-2 text-gray-700">
+                        {row ? `${row.Canal_Name || '—'} #${row.No_Nemra}` : `#${rowId}`}
+                      </td>
+                      <td className="px-3 py-2 font-semibold text-gray-700">{EDITABLE_FIELD_LABELS[field]}</td>
+                      <td className="px-3 py-2 text-gray-500">{displayFieldValue(stale.base[field])}</td>
+                      <td className={`px-3 py-2 text-blue-700 ${field === 'Name_AR' ? 'arabic-text' : ''}`}>
+                        {displayFieldValue(stale.theirs[field])}
+                      </td>
+                      <td className={`px-3 py-2 text-green-700 ${field === 'Name_AR' ? 'arabic-text' : ''}`}>
+                        {displayFieldValue(editedValues[rowId]?.[field])}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => settleStaleField(rowId, field, true)}
+                            className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition text-xs font-medium"
+                            title="Save your value over the server's"
+                          >
+                            Re-apply
+                          </button>
+                          <button
+                            onClick={() => settleStaleField(rowId, field, false)}
+                            className="px-3 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition text-xs font-medium"
+                            title="Keep the server's value"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ));
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Zonal Statistics */}
+        {zonalVisible && (
+          <ZonalStatsPanel sectorAttributes={sectorAttributes} sectorsData={sectorsData} selectedSector={selectedSector} canEdit={canEdit} />
+        )}
+
         {/* Search and Controls */}
         <div className="px-6 py-3 border-b border-gray-200 flex items-center justify-between bg-gray-50">
           <input
@@ -360,6 +590,9 @@ export default function EditableAttributeTable({
                 <SortableHeader label="Nemra No" sortKey="No_Nemra" currentSort={sortKey} sortOrder={sortOrder} onSort={handleSort} />
                 <SortableHeader label="Design Area (F)" sortKey="Design_A_F" currentSort={sortKey} sortOrder={sortOrder} onSort={handleSort} />
                 <SortableHeader label="Remarks" sortKey="Remarks_1" currentSort={sortKey} sortOrder={sortOrder} onSort={handleSort} />
+                {zonalColumns.map(column => (
+                  <SortableHeader key={column.key} label={column.label} sortKey={column.key} currentSort={sortKey} sortOrder={sortOrder} onSort={handleSort} />
+                ))}
               </tr>
             </thead>
             <tbody>
@@ -367,8 +600,11 @@ export default function EditableAttributeTable({
                 <tr
                   key={`${row.Division}-${row.OBJECTID_1 || rowIndex}`}
                   className={`border-b border-gray-200 hover:bg-gray-50 transition ${
-                    isRowEdited(row) ? 'bg-yellow-50' : ''
+                    isRowStale(row) ? 'bg-orange-50' : isRowEdited(row) ? 'bg-yellow-50' : isRowQueued(row) ? 'bg-amber-50' : ''
                   }`}
+                  title={isRowStale(row)
+                    ? 'Changed on the server while you edited it'
+                    : isRowQueued(row) ? 'Edited offline; waiting to be sent to the server' : undefined}
                 >
                   <td className="px-4 py-3">
                     <span className={`px-2 py-1 rounded text-xs font-semibold ${divisionColors[row.Division]}`}>
@@ -428,6 +664,11 @@ export default function EditableAttributeTable({
                     onCellChange={handleCellChange}
                     onCellBlur={handleCellBlur}
                   />
+                  {zonalColumns.map(column => (
+                    <td key={column.key} className="px-4 py-3 text-sm text-right font-mono text-emerald-800 bg-emerald-50/40">
+                      {typeof row[column.key] === 'number' ? String(row[column.key]) : '—'}
+                    </td>
+                  ))}
                 </tr>
               ))}
             </tbody>
@@ -0,0 +1,226 @@
+import { useMemo, useState } from 'react';
+import type { SectorAttributeData, SectorDivision } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { useMapSession } from '../../context/MapSessionContext';
+import { sectorsAPI } from '../../services/api';
+import { classifySectors } from '../../utils/classification';
+import {
+  attachGeometry,
+  collectExportRows,
+  exportFormats,
+  exportSectors,
+  getExportFields,
+  VIEWER_EXPORT_LIMIT,
+  type ExportFormat,
+} from '../../utils/fileExport';
+
+interface ExportDialogProps {
+  // Attributes of all sectors (as filtered); their geometry is fetched in full on export
+  sectorAttributes: SectorAttributeData;
+  selectedSector: SectorDivision | null;
+  onClose: () => void;
+}
+
+export default function ExportDialog({ sectorAttributes, selectedSector, onClose }: ExportDialogProps) {
+  const { user, hasRole } = useAuth();
+  const canExportAll = hasRole(['admin', 'editor']);
+  const { symbology, importedLayers } = useMapSession();
+
+  const rows = useMemo(() => collectExportRows(sectorAttributes, selectedSector), [sectorAttributes, selectedSector]);
+  const fields = useMemo(() => getExportFields(rows), [rows]);
+  // Same data as the map, so the KML colours match what is on screen
+  const classes = useMemo(() => classifySectors(sectorAttributes, symbology.classification), [sectorAttributes, symbology.classification]);
+
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [excludedFields, setExcludedFields] = useState<Set<string>>(new Set());
+  const [excludedLayers, setExcludedLayers] = useState<Set<string>>(new Set());
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedFields = fields.filter(field => !excludedFields.has(field));
+  const vectorLayers = importedLayers.filter(layer => layer.type !== 'raster');
+  const limited = !canExportAll && rows.length > VIEWER_EXPORT_LIMIT;
+  const exportRows = limited ? rows.slice(0, VIEWER_EXPORT_LIMIT) : rows;
+
+  const toggle = (set: Set<string>, value: string) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    return next;
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      // The map only holds the sectors in view, so the geometry comes from the backend:
+      // editors fetch the division (or all) at once, viewers name their sectors by id
+      const response = await sectorsAPI.getFeatures(canExportAll
+        ? { division: selectedSector ?? undefined }
+        : { ids: exportRows.map(({ properties }) => (properties as typeof properties & { id: number }).id) });
+      const exportFeatures = attachGeometry(exportRows, response.data.features);
+
+      const name = `gezira_scheme_${selectedSector || 'all_sectors'}_${new Date().toISOString().split('T')[0]}`;
+      const { blob, filename } = await exportSectors(format, exportFeatures, {
+        fields: selectedFields,
+        symbology,
+        classes,
+        exportedBy: user?.username,
+        importedLayers: vectorLayers.filter(layer => !excludedLayers.has(layer.id)),
+      }, name);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      // The download has its own reference to the blob once it started
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      console.log(`📤 Exported ${exportFeatures.length} sectors as ${exportFormats[format].label}`);
+      onClose();
+    } catch (err) {
+      console.error('❌ Export failed:', err);
+      // fetch rejects with a TypeError when the request never reached the backend
+      setError(err instanceof TypeError
+        ? 'The server cannot be reached; exports need a connection'
+        : err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[3000] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold">Export Sectors</h2>
+            <p className="text-sm opacity-90">
+              {exportRows.length} sectors from {selectedSector ? `the ${selectedSector} sector` : 'all sectors'}, as currently filtered
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Viewer Limit */}
+        {limited && (
+          <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+            Viewers can export up to {VIEWER_EXPORT_LIMIT} sectors at a time. Only the first {VIEWER_EXPORT_LIMIT} of {rows.length} will be exported;
+            narrow the search or select a sector to export the rest.
+          </div>
+        )}
+
+        <div className="p-6 space-y-6">
+          {/* Format */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Format</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(exportFormats) as ExportFormat[]).map(key => (
+                <label
+                  key={key}
+                  className={`p-3 rounded-lg border cursor-pointer transition ${
+                    format === key ? 'border-green-600 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={key}
+                    checked={format === key}
+                    onChange={() => setFormat(key)}
+                    className="sr-only"
+                  />
+                  <p className="text-sm font-semibold text-gray-900">{exportFormats[key].label}</p>
+                  <p className="text-xs text-gray-500">{exportFormats[key].description}</p>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Fields */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">
+                Fields <span className="font-normal text-gray-500">({selectedFields.length} of {fields.length})</span>
+              </h3>
+              <div className="flex gap-3 text-xs font-medium">
+                <button onClick={() => setExcludedFields(new Set())} className="text-green-700 hover:text-green-900">All</button>
+                <button onClick={() => setExcludedFields(new Set(fields))} className="text-gray-600 hover:text-gray-900">None</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 max-h-48 overflow-y-auto p-3 border border-gray-200 rounded-lg">
+              {fields.map(field => (
+                <label key={field} className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={!excludedFields.has(field)}
+                    onChange={() => setExcludedFields(toggle(excludedFields, field))}
+                    className="rounded text-green-600 focus:ring-green-500"
+                  />
+                  <span className="truncate" title={field}>{field}</span>
+                </label>
+              ))}
+            </div>
+            {format === 'shapefile' && (
+              <p className="text-xs text-gray-500 mt-2">Shapefile field names are shortened to 10 characters.</p>
+            )}
+          </div>
+
+          {/* Imported Layers (GeoPackage) */}
+          {format === 'geopackage' && vectorLayers.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Imported layers</h3>
+              <div className="space-y-1 p-3 border border-gray-200 rounded-lg">
+                {vectorLayers.map(layer => (
+                  <label key={layer.id} className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!excludedLayers.has(layer.id)}
+                      onChange={() => setExcludedLayers(toggle(excludedLayers, layer.id))}
+                      className="rounded text-green-600 focus:ring-green-500"
+                    />
+                    <span className="truncate" title={layer.name}>{layer.name}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Each layer is written as its own table, with all of its attributes.</p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition text-gray-700 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting || exportRows.length === 0}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              {exporting ? 'Exporting...' : `Export ${exportFormats[format].label}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
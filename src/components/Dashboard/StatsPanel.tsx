@@ -1,31 +1,31 @@
 import { useMemo } from 'react';
-import type { SectorFeatureCollection, SectorDivision, SectorStats } from '../../types';
+import type { SectorAttributeData, SectorDivision, SectorProperties, SectorStats } from '../../types';
 
 interface StatsPanelProps {
-  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  sectorAttributes: SectorAttributeData;
   selectedSector: SectorDivision | null;
 }
 
-export default function StatsPanel({ sectorsData, selectedSector }: StatsPanelProps) {
+export default function StatsPanel({ sectorAttributes, selectedSector }: StatsPanelProps) {
   const stats = useMemo(() => {
-    const calculateStats = (division: SectorDivision, data: SectorFeatureCollection | null): SectorStats | null => {
-      if (!data || !data.features || data.features.length === 0) return null;
+    const calculateStats = (division: SectorDivision, rows: SectorProperties[] | null): SectorStats | null => {
+      if (!rows || rows.length === 0) return null;
 
       const canals = new Set<string>();
       const offices = new Set<string>();
       let totalArea = 0;
       let totalDesignArea = 0;
 
-      data.features.forEach((feature) => {
-        canals.add(feature.properties.Canal_Name);
-        offices.add(feature.properties.Office);
-        totalArea += feature.properties.Shape_Area;
-        totalDesignArea += feature.properties.Design_A_F;
+      rows.forEach((properties) => {
+        canals.add(properties.Canal_Name);
+        offices.add(properties.Office);
+        totalArea += properties.Shape_Area;
+        totalDesignArea += properties.Design_A_F;
       });
 
       return {
         division,
-        totalFeatures: data.features.length,
+        totalFeatures: rows.length,
         totalArea: totalArea / 1000000, // Convert to km²
         totalDesignArea,
         canals: Array.from(canals),
@@ -34,14 +34,14 @@ export default function StatsPanel({ sectorsData, selectedSector }: StatsPanelPr
     };
 
     if (selectedSector) {
-      const data = sectorsData[selectedSector];
-      return data ? [calculateStats(selectedSector, data)] : [];
+      const rows = sectorAttributes[selectedSector];
+      return rows ? [calculateStats(selectedSector, rows)] : [];
     }
 
-    return Object.entries(sectorsData)
-      .map(([division, data]) => calculateStats(division as SectorDivision, data))
+    return Object.entries(sectorAttributes)
+      .map(([division, rows]) => calculateStats(division as SectorDivision, rows))
       .filter((stat): stat is SectorStats => stat !== null);
-  }, [sectorsData, selectedSector]);
+  }, [sectorAttributes, selectedSector]);
 
   const totalStats = useMemo(() => {
     const total = {
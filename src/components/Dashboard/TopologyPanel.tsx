@@ -0,0 +1,298 @@
+import { useMemo, useState } from 'react';
+import type { SectorDivision, SectorFeatureCollection } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { useMapSession } from '../../context/MapSessionContext';
+import { useFullSectorData } from '../../hooks/useFullSectorData';
+import { SectorConflictError, sectorsAPI } from '../../services/api';
+import { getNemraId, zoomForBBox } from '../../utils/permalink';
+import {
+  validateTopology,
+  topologyIssueLabels,
+  topologyReportToCSV,
+  topologyReportToGeoJSON,
+  type TopologyIssue,
+  type TopologyIssueType,
+} from '../../utils/topology';
+
+interface TopologyPanelProps {
+  // Sectors loaded for the map view, which viewers check
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  onClose: () => void;
+  onDataUpdate?: () => void;
+}
+
+const issueColors: Record<TopologyIssueType, string> = {
+  'overlap': 'bg-red-100 text-red-700',
+  'gap': 'bg-yellow-100 text-yellow-800',
+  'self-intersection': 'bg-purple-100 text-purple-700',
+  'duplicate-nemra': 'bg-blue-100 text-blue-700',
+  'outside-hull': 'bg-gray-200 text-gray-700',
+};
+
+function downloadFile(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+}
+
+export default function TopologyPanel({ sectorsData, onClose, onDataUpdate }: TopologyPanelProps) {
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(['admin', 'editor']);
+  const { jumpToViewport, setSelectedFeature } = useMapSession();
+  const { loadSectors, viewOnly } = useFullSectorData(sectorsData);
+
+  const [issues, setIssues] = useState<TopologyIssue[] | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TopologyIssueType | 'all'>('all');
+  const [fixedIds, setFixedIds] = useState<Set<string>>(new Set());
+  // Nemras changed since the check; their other fixes were computed from the old shape
+  const [changedNemras, setChangedNemras] = useState<Set<number>>(new Set());
+  const [fixing, setFixing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const runCheck = async () => {
+    setProgress(viewOnly ? 'Preparing...' : 'Loading sectors...');
+    setMessage(null);
+    try {
+      // The whole scheme in full detail, not just the sectors loaded for the map view
+      const data = await loadSectors();
+      const result = await validateTopology(data, undefined, setProgress);
+      setIssues(result);
+      setFixedIds(new Set());
+      setChangedNemras(new Set());
+    } catch (error) {
+      console.error('❌ Topology check failed:', error);
+      // fetch rejects with a TypeError when the request never reached the backend
+      setMessage({
+        type: 'error',
+        text: error instanceof TypeError
+          ? 'The server cannot be reached to load the sectors'
+          : error instanceof Error ? error.message : 'Topology check failed',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const counts = useMemo(() => {
+    const result = {} as Record<TopologyIssueType, number>;
+    (Object.keys(topologyIssueLabels) as TopologyIssueType[]).forEach(type => {
+      result[type] = issues?.filter(issue => issue.type === type).length ?? 0;
+    });
+    return result;
+  }, [issues]);
+
+  const visibleIssues = useMemo(
+    () => (issues ?? []).filter(issue => typeFilter === 'all' || issue.type === typeFilter),
+    [issues, typeFilter]
+  );
+
+  const canFix = (issue: TopologyIssue) => {
+    if (!issue.fix || fixedIds.has(issue.id)) return false;
+    const id = getNemraId(issue.fix.feature);
+    return id !== null && !changedNemras.has(id);
+  };
+
+  const fixableIssues = visibleIssues.filter(canFix);
+
+  const handleZoom = (issue: TopologyIssue) => {
+    jumpToViewport({
+      center: issue.location,
+      zoom: zoomForBBox(issue.bbox),
+      bearing: 0,
+      pitch: 0,
+    });
+    setSelectedFeature(issue.features[0] ?? null);
+  };
+
+  // Returns false when the fix could not be saved
+  const applyFix = async (issue: TopologyIssue, changed: Set<number>) => {
+    const id = getNemraId(issue.fix!.feature)!;
+    if (changed.has(id)) return false;
+
+    try {
+      // A fix moves boundaries; the design area is an input and stays as it is
+      await sectorsAPI.updateGeometry(id, issue.fix!.geometry, issue.fix!.feature.properties.updated_at ?? null, true);
+    } catch (error) {
+      // Edited by someone else since the check ran: skipped like the nemras changed here
+      if (error instanceof SectorConflictError) return false;
+      throw error;
+    }
+    changed.add(id);
+    setFixedIds(prev => new Set(prev).add(issue.id));
+    console.log('🔧 Topology fix applied:', issue.fix!.description);
+    return true;
+  };
+
+  const handleFix = async (targets: TopologyIssue[]) => {
+    setFixing(true);
+    setMessage(null);
+
+    const changed = new Set(changedNemras);
+    let applied = 0;
+    let skipped = 0;
+
+    try {
+      for (const issue of targets) {
+        if (await applyFix(issue, changed)) {
+          applied++;
+        } else {
+          skipped++;
+        }
+      }
+      setMessage({
+        type: 'success',
+        text: `Applied ${applied} fix(es).${skipped > 0 ? ` ${skipped} fix(es) touch nemras that already changed, run the check again for them.` : ''}`,
+      });
+    } catch (error) {
+      console.error('❌ Error applying topology fix:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to apply fix' });
+    } finally {
+      setChangedNemras(changed);
+      setFixing(false);
+      if (applied > 0) onDataUpdate?.();
+    }
+  };
+
+  const exportCSV = () => {
+    if (!issues) return;
+    downloadFile(topologyReportToCSV(issues), 'text/csv;charset=utf-8;', `topology_report_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const exportGeoJSON = () => {
+    if (!issues) return;
+    downloadFile(JSON.stringify(topologyReportToGeoJSON(issues), null, 2), 'application/geo+json', `topology_report_${new Date().toISOString().split('T')[0]}.geojson`);
+  };
+
+  return (
+    <div className="fixed top-20 right-4 w-[28rem] max-h-[80vh] bg-white rounded-lg shadow-2xl z-[1500] flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-4 py-3 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold">Topology Validation</h2>
+          <p className="text-xs opacity-90">
+            Overlaps, gaps, self-intersections, duplicate numbers and detached nemras{viewOnly && ' · current view only'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-white/20 rounded-lg transition"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Actions */}
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+        <button
+          onClick={runCheck}
+          disabled={progress !== null || fixing}
+          className="bg-green-600 hover:bg-green-700 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {progress ?? (issues ? '🔄 Run Again' : '🧭 Run Check')}
+        </button>
+        {issues && (
+          <>
+            <button
+              onClick={exportCSV}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium px-3 py-1.5 rounded-lg transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={exportGeoJSON}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium px-3 py-1.5 rounded-lg transition-colors"
+            >
+              Export GeoJSON
+            </button>
+          </>
+        )}
+        {canEdit && fixableIssues.length > 0 && (
+          <button
+            onClick={() => handleFix(fixableIssues)}
+            disabled={fixing || progress !== null}
+            className="ml-auto bg-orange-500 hover:bg-orange-600 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {fixing ? 'Fixing...' : `🔧 Fix ${fixableIssues.length} Safe`}
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`px-4 py-2 text-xs border-b border-gray-200 ${message.type === 'success' ? 'text-green-700 bg-green-50' : 'text-red-600 bg-red-50'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* Type Filter */}
+      {issues && (
+        <div className="px-4 py-2 border-b border-gray-200 flex flex-wrap gap-1">
+          <button
+            onClick={() => setTypeFilter('all')}
+            className={`text-xs px-2 py-1 rounded-full ${typeFilter === 'all' ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            All ({issues.length})
+          </button>
+          {(Object.keys(topologyIssueLabels) as TopologyIssueType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`text-xs px-2 py-1 rounded-full ${typeFilter === type ? 'bg-gray-800 text-white' : `${issueColors[type]} hover:opacity-80`}`}
+            >
+              {topologyIssueLabels[type]} ({counts[type]})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Issue List */}
+      <div className="flex-1 overflow-y-auto">
+        {!issues && progress === null && (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">
+            Run the check to validate all loaded divisions. Large datasets take a few seconds.
+          </p>
+        )}
+        {issues && visibleIssues.length === 0 && (
+          <p className="px-4 py-6 text-sm text-green-700 text-center">✅ No issues found</p>
+        )}
+        {visibleIssues.map(issue => (
+          <div key={issue.id} className={`px-4 py-3 border-b border-gray-100 ${fixedIds.has(issue.id) ? 'opacity-50' : ''}`}>
+            <div className="flex items-center gap-2 mb-1">
+              <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${issueColors[issue.type]}`}>
+                {topologyIssueLabels[issue.type]}
+              </span>
+              <span className="text-xs text-gray-500">{issue.division}</span>
+              {fixedIds.has(issue.id) && <span className="text-xs text-green-700">✓ Fixed</span>}
+            </div>
+            <p className="text-sm text-gray-800">{issue.message}</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {issue.location[1].toFixed(5)}, {issue.location[0].toFixed(5)}
+            </p>
+            <div className="flex items-center gap-2 mt-2">
+              <button
+                onClick={() => handleZoom(issue)}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                🔍 Zoom
+              </button>
+              {canEdit && canFix(issue) && (
+                <button
+                  onClick={() => handleFix([issue])}
+                  disabled={fixing}
+                  title={issue.fix!.description}
+                  className="text-xs font-medium text-orange-600 hover:text-orange-800 disabled:opacity-50"
+                >
+                  🔧 {issue.fix!.description}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useMapSession } from '../../context/MapSessionContext';
+import { useFullSectorData } from '../../hooks/useFullSectorData';
+import { sectorsAPI } from '../../services/api';
+import type { SectorAttributeData, SectorDivision, SectorFeatureCollection, SectorProperties } from '../../types';
+import type { RasterData } from '../../utils/fileImport';
+import {
+  computeZonalStats,
+  getSectorKey,
+  suggestZonalPrefix,
+  type ZonalStatsRun,
+} from '../../utils/zonalStats';
+
+interface ZonalStatsPanelProps {
+  // Attributes of the nemras shown in the table
+  sectorAttributes: SectorAttributeData;
+  // Sectors loaded for the map view, which viewers compute over
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  selectedSector: SectorDivision | null;
+  canEdit: boolean;
+}
+
+const sectorId = (properties: SectorProperties) => (properties as SectorProperties & { id?: number }).id;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Zonal statistics of an imported raster over the nemras shown in the attribute table,
+ * with the option to save them as dated observations
+ */
+export default function ZonalStatsPanel({ sectorAttributes, sectorsData, selectedSector, canEdit }: ZonalStatsPanelProps) {
+  const { importedLayers, zonalStats, setZonalStats } = useMapSession();
+  const { loadSectors, viewOnly } = useFullSectorData(sectorsData);
+
+  // Rasters whose band values are in memory; streamed COGs are not
+  const rasterLayers = importedLayers.filter(layer => {
+    if (layer.type !== 'raster') return false;
+    const raster = layer.data as RasterData;
+    return (raster.rawBands ?? raster.bands ?? []).length > 0;
+  });
+
+  const [layerId, setLayerId] = useState('');
+  const [band, setBand] = useState(0);
+  const [prefix, setPrefix] = useState<string | null>(null);
+  const [observedOn, setObservedOn] = useState(today);
+  const [computing, setComputing] = useState(false);
+  const [savingPrefix, setSavingPrefix] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const layer = rasterLayers.find(l => l.id === layerId) ?? rasterLayers[0];
+  const numBands = layer ? (layer.data as RasterData).numBands : 0;
+  const fieldPrefix = prefix ?? (layer ? suggestZonalPrefix(layer.name) : '');
+
+  // Only the divisions and nemras shown in the table
+  const visibleAttributes: SectorAttributeData = selectedSector
+    ? { East: null, West: null, North: null, South: null, [selectedSector]: sectorAttributes[selectedSector] }
+    : sectorAttributes;
+
+  const onlyVisible = (data: ZonalStatsPanelProps['sectorsData']) => {
+    const ids = new Set(Object.values(visibleAttributes).flatMap(rows => rows?.map(sectorId) ?? []));
+    return Object.fromEntries(Object.entries(data).map(([division, collection]) => [
+      division,
+      visibleAttributes[division as SectorDivision] && collection
+        ? { ...collection, features: collection.features.filter(feature => ids.has(sectorId(feature.properties))) }
+        : null,
+    ])) as ZonalStatsPanelProps['sectorsData'];
+  };
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const handleCompute = async () => {
+    if (!layer) return;
+    if (!/^[a-z][a-z0-9_]*$/.test(fieldPrefix)) {
+      showMessage('error', 'Field prefix must start with a letter and use lower-case letters, digits and _');
+      return;
+    }
+
+    setComputing(true);
+    try {
+      // Full geometry of the nemras in the table, not just those loaded for the map view
+      const data = onlyVisible(await loadSectors(selectedSector));
+      // Let the button show its busy state before the pixel loop blocks the page
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const run = computeZonalStats(layer, data, Math.min(band, numBands - 1), fieldPrefix);
+      setZonalStats(prev => {
+        const existing = prev.find(r => r.prefix === run.prefix);
+        // Same raster and band for another division: keep both divisions' statistics
+        const merged = existing && existing.layerName === run.layerName && existing.band === run.band
+          ? { ...run, stats: { ...existing.stats, ...run.stats } }
+          : run;
+        return [...prev.filter(r => r.prefix !== run.prefix), merged];
+      });
+      showMessage('success', `Computed ${fieldPrefix}_* for ${Object.keys(run.stats).length} nemras`);
+    } catch (error) {
+      // fetch rejects with a TypeError when the request never reached the backend
+      showMessage('error', error instanceof TypeError
+        ? 'The server cannot be reached to load the nemras'
+        : error instanceof Error ? error.message : 'Zonal statistics failed');
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const handleSave = async (run: ZonalStatsRun) => {
+    const observations: Parameters<typeof sectorsAPI.saveObservations>[3] = [];
+    Object.entries(visibleAttributes).forEach(([division, rows]) => {
+      rows?.forEach((properties, index) => {
+        const id = sectorId(properties);
+        const stats = run.stats[getSectorKey(division as SectorDivision, properties, index)];
+        if (typeof id !== 'number' || !stats || stats.pixelCount === 0) return;
+        observations.push({
+          sector_id: id,
+          mean: stats.mean,
+          min: stats.min,
+          max: stats.max,
+          std_dev: stats.stdDev,
+          pixel_count: stats.pixelCount,
+          coverage: stats.coverage,
+        });
+      });
+    });
+
+    if (observations.length === 0) {
+      showMessage('error', 'No nemras with database records and raster coverage to save');
+      return;
+    }
+
+    setSavingPrefix(run.prefix);
+    try {
+      const response = await sectorsAPI.saveObservations(run.prefix, observedOn, run.layerName, observations);
+      if (response.success) {
+        showMessage('success', `Saved ${response.data.savedCount} ${run.prefix} observations for ${observedOn}`);
+      }
+    } catch (error) {
+      console.error('Save observations error:', error);
+      showMessage('error', error instanceof Error ? error.message : 'Failed to save observations');
+    } finally {
+      setSavingPrefix(null);
+    }
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-gray-200 bg-emerald-50/50 space-y-2">
+      {rasterLayers.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Import a raster (GeoTIFF, ENVI, ERDAS or a band math result) to compute statistics per nemra.
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-xs text-gray-600">
+            Raster
+            <select
+              value={layer?.id ?? ''}
+              onChange={(e) => {
+                setLayerId(e.target.value);
+                setBand(0);
+                setPrefix(null);
+              }}
+              className="block mt-1 px-2 py-1.5 text-sm border border-gray-300 rounded w-64"
+            >
+              {rasterLayers.map(l => (
+                <option key={l.id} value={l.id}>{l.name}</option>
+              ))}
+            </select>
+          </label>
+
+          {numBands > 1 && (
+            <label className="text-xs text-gray-600">
+              Band
+              <select
+                value={band}
+                onChange={(e) => setBand(Number(e.target.value))}
+                className="block mt-1 px-2 py-1.5 text-sm border border-gray-300 rounded"
+              >
+                {Array.from({ length: numBands }, (_, i) => (
+                  <option key={i} value={i}>Band {i + 1}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="text-xs text-gray-600">
+            Field prefix
+            <input
+              type="text"
+              value={fieldPrefix}
+              onChange={(e) => setPrefix(e.target.value.toLowerCase())}
+              maxLength={20}
+              className="block mt-1 px-2 py-1.5 text-sm font-mono border border-gray-300 rounded w-32"
+            />
+          </label>
+
+          <button
+            onClick={handleCompute}
+            disabled={computing}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition disabled:opacity-50 text-sm font-medium"
+          >
+            {computing ? 'Computing…' : '🧮 Compute'}
+          </button>
+
+          <span className="text-xs text-gray-500">
+            Mean, min, max, std dev, pixel count and coverage of {selectedSector ? `the ${selectedSector} Division` : 'all divisions'}
+          </span>
+        </div>
+      )}
+
+      {/* Computed runs */}
+      {zonalStats.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {canEdit && (
+            <label className="text-xs text-gray-600 flex items-center gap-1">
+              Observed on
+              <input
+                type="date"
+                value={observedOn}
+                onChange={(e) => setObservedOn(e.target.value)}
+                className="px-2 py-1 text-xs border border-gray-300 rounded"
+              />
+            </label>
+          )}
+          {zonalStats.map(run => (
+            <span
+              key={run.prefix}
+              className="flex items-center gap-2 px-3 py-1 bg-white border border-emerald-200 rounded-full text-xs"
+              title={`${run.layerName}, band ${run.band + 1}, ${new Date(run.computedAt).toLocaleString()}`}
+            >
+              <span className="font-mono font-semibold text-emerald-700">{run.prefix}_*</span>
+              <span className="text-gray-500 truncate max-w-[12rem]">{run.layerName}</span>
+              {canEdit && (
+                <button
+                  onClick={() => handleSave(run)}
+                  disabled={savingPrefix !== null || !observedOn}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title="Save as dated observations"
+                >
+                  {savingPrefix === run.prefix ? 'Saving…' : '💾 Save'}
+                </button>
+              )}
+              <button
+                onClick={() => setZonalStats(prev => prev.filter(r => r.prefix !== run.prefix))}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove these columns"
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {viewOnly && rasterLayers.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Current view only: viewers compute statistics over the nemras loaded for the map view. Pan or zoom out to include more.
+        </p>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
+import { useOfflineEdits } from '../../context/OfflineEditsContext';
 import type { SectorDivision } from '../../types';
 
 interface SidebarProps {
@@ -28,9 +29,14 @@ export default function Sidebar({
 }: SidebarProps) {
   const { user, logout } = useAuth();
   const { isDark } = useTheme();
+  const { queue: offlineEdits } = useOfflineEdits();
 
   const handleLogout = async () => {
-    if (confirm('Are you sure you want to logout?')) {
+    // Offline edits stay on this device and are sent after the user's next login
+    const warning = offlineEdits.length > 0
+      ? `${offlineEdits.length} offline edit(s) have not reached the server yet; they are kept on this device and sent when you log in again. Logout anyway?`
+      : 'Are you sure you want to logout?';
+    if (confirm(warning)) {
       await logout();
     }
   };
@@ -2,9 +2,12 @@ import { useEffect, useState, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet-draw';
 import * as turf from '@turf/turf';
-import type { SectorDivision, SectorFeatureCollection } from '../../types';
+import type { NewSectorData, SectorDivision, SectorFeatureCollection } from '../../types';
 import { useAuth } from '../../context/AuthContext';
 import { sectorsAPI } from '../../services/api';
+import { useOfflineEdits } from '../../context/OfflineEditsContext';
+import { isNetworkError, newCreateKey } from '../../utils/editQueue';
+import { SPLIT_LINE_TYPE } from '../../utils/sectorGeometry';
 import NewFeatureDialog, { type NewFeatureData } from './NewFeatureDialog';
 
 interface AdvancedDrawingToolsProps {
@@ -16,6 +19,7 @@ interface AdvancedDrawingToolsProps {
 
 export default function AdvancedDrawingTools({ map, onFeatureCreated, showInstructions = true, sectorsData }: AdvancedDrawingToolsProps) {
   const { hasRole } = useAuth();
+  const { queueCreate } = useOfflineEdits();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [measurements, setMeasurements] = useState({ area: 0, perimeter: 0 });
   const [drawnLayer, setDrawnLayer] = useState<L.Layer | null>(null);
@@ -145,6 +149,9 @@ export default function AdvancedDrawingTools({ map, onFeatureCreated, showInstru
     };
 
     const onDrawCreated = (e: any) => {
+      // Cut lines belong to the split tool
+      if (e.layerType === SPLIT_LINE_TYPE) return;
+
       console.log('🎨 Feature created:', e.layerType);
       const layer = e.layer;
 
@@ -264,6 +271,9 @@ export default function AdvancedDrawingTools({ map, onFeatureCreated, showInstru
 
   const handleSave = async (formData: NewFeatureData) => {
     if (!drawnLayer) return;
+    let sectorData: NewSectorData | null = null;
+    // Also sent when the create is queued, so a create that reached the server is not repeated
+    const createKey = newCreateKey();
 
     try {
       // Get GeoJSON from drawn layer
@@ -278,23 +288,23 @@ export default function AdvancedDrawingTools({ map, onFeatureCreated, showInstru
       }
 
       // Prepare data for backend
-      const sectorData = {
-        canal_name: formData.canal_name,
-        name_ar: formData.name_ar,
-        office: formData.office,
-        division: formData.division,
-        no_nemra: formData.no_nemra,
-        design_a_f: formData.design_a_f,
-        remarks_1: formData.remarks_1,
-        shape_area: measurements.area * 4200, // Convert back to m²
-        shape_leng: measurements.perimeter,
+      sectorData = {
+        Canal_Name: formData.canal_name,
+        Name_AR: formData.name_ar,
+        Office: formData.office,
+        Division: formData.division,
+        No_Nemra: formData.no_nemra ? Number(formData.no_nemra) : undefined,
+        Design_A_F: formData.design_a_f,
+        Remarks_1: formData.remarks_1,
+        Shape_Area: measurements.area * 4200, // Convert back to m²
+        Shape_Leng: measurements.perimeter,
         geometry: geoJSON.geometry,
       };
 
       console.log('Creating new sector:', sectorData);
 
       // Save to backend
-      const response = await sectorsAPI.create(sectorData);
+      const response = await sectorsAPI.create(sectorData, createKey);
 
       if (response.success) {
         console.log('✅ Sector created successfully:', response.data);
@@ -317,6 +327,18 @@ export default function AdvancedDrawingTools({ map, onFeatureCreated, showInstru
         alert(`Canal "${formData.canal_name}" created successfully!`);
       }
     } catch (error) {
+      // No connection: keep the new canal to create once the connection returns
+      if (isNetworkError(error) && sectorData) {
+        queueCreate(formData.canal_name, sectorData, createKey);
+        setDialogOpen(false);
+        setDrawnLayer(null);
+        if (map && drawnLayer && drawnItemsRef.current) {
+          drawnItemsRef.current.removeLayer(drawnLayer);
+        }
+        alert(`You are offline. Canal "${formData.canal_name}" is queued and will be created when the connection returns.`);
+        return;
+      }
+
       console.error('❌ Error creating sector:', error);
       alert('Failed to create canal. Please try again.');
     }
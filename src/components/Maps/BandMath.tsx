@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import {
+  BAND_MATH_PRESETS,
+  BAND_MATH_SENSORS,
+  buildPresetExpression,
+  validateBandExpression,
+  type BandMathPreset,
+} from '../../utils/bandMath';
+import { COLOR_RAMPS, getRampGradient, type ColorRampName } from '../../utils/colorRamps';
+import { createBandMathLayer, type ImportedLayer, type RasterData } from '../../utils/fileImport';
+
+interface BandMathProps {
+  layer: ImportedLayer;
+  onAddLayer: (layer: ImportedLayer) => void;
+}
+
+/**
+ * Band math editor for a multi-band raster: vegetation index presets or a free expression,
+ * computed into a new single-band layer with a colour ramp
+ */
+export default function BandMath({ layer, onAddLayer }: BandMathProps) {
+  const raster = layer.data as RasterData;
+  const [sensorId, setSensorId] = useState(BAND_MATH_SENSORS[0].id);
+  const [preset, setPreset] = useState<BandMathPreset | null>(null);
+  const [expression, setExpression] = useState('');
+  const [ramp, setRamp] = useState<ColorRampName>('vegetation');
+  const [error, setError] = useState<string | null>(null);
+  const [computing, setComputing] = useState(false);
+
+  const sensor = BAND_MATH_SENSORS.find(s => s.id === sensorId) ?? BAND_MATH_SENSORS[0];
+
+  const choosePreset = (next: BandMathPreset) => {
+    setPreset(next);
+    setExpression(buildPresetExpression(next, sensor));
+    setRamp(next.ramp);
+    setError(null);
+  };
+
+  const changeSensor = (id: string) => {
+    setSensorId(id);
+    const nextSensor = BAND_MATH_SENSORS.find(s => s.id === id);
+    if (preset && nextSensor) setExpression(buildPresetExpression(preset, nextSensor));
+  };
+
+  const compute = () => {
+    try {
+      validateBandExpression(expression, raster.numBands);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid expression');
+      return;
+    }
+
+    setError(null);
+    setComputing(true);
+    // Let the button show its busy state before the pixel loop blocks the page
+    setTimeout(() => {
+      try {
+        const name = `${preset?.label ?? 'Band math'} – ${layer.name}`;
+        onAddLayer(createBandMathLayer(layer, expression, name, ramp, preset?.range));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Band math failed');
+      } finally {
+        setComputing(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="pt-3 border-t border-gray-100">
+      <p className="text-xs font-semibold text-gray-600 mb-2">BAND MATH</p>
+
+      {raster.numBands >= 3 && (
+        <>
+          <label className="block text-xs text-gray-500 mb-1">Bands from:</label>
+          <select
+            value={sensorId}
+            onChange={(e) => changeSensor(e.target.value)}
+            className="w-full px-2 py-1.5 mb-2 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {BAND_MATH_SENSORS.map(s => (
+              <option key={s.id} value={s.id}>{s.label}</option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-4 gap-1 mb-2">
+            {BAND_MATH_PRESETS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => choosePreset(p)}
+                title={p.description}
+                className={`px-2 py-1.5 text-xs font-medium rounded transition-colors ${
+                  preset?.id === p.id ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <input
+        type="text"
+        value={expression}
+        onChange={(e) => {
+          setExpression(e.target.value);
+          setPreset(null);
+        }}
+        placeholder="(b8-b4)/(b8+b4)"
+        className="w-full px-2 py-1.5 mb-1 text-xs font-mono border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+      <p className="text-[10px] text-gray-400 mb-2">
+        Bands b1–b{raster.numBands}; + - * / ^, abs, sqrt, log, exp, min, max
+      </p>
+
+      <label className="block text-xs text-gray-500 mb-1">Colour ramp:</label>
+      <div className="flex items-center gap-2 mb-2">
+        <select
+          value={ramp}
+          onChange={(e) => setRamp(e.target.value as ColorRampName)}
+          className="flex-1 px-2 py-1.5 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {(Object.keys(COLOR_RAMPS) as ColorRampName[]).map(name => (
+            <option key={name} value={name}>{COLOR_RAMPS[name].label}</option>
+          ))}
+        </select>
+        <div className="w-16 h-4 rounded border border-gray-200" style={{ background: getRampGradient(ramp) }} />
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      <button
+        onClick={compute}
+        disabled={!expression.trim() || computing}
+        className="w-full px-3 py-2 text-xs bg-green-100 hover:bg-green-200 text-green-800 font-medium rounded transition-colors disabled:opacity-50"
+      >
+        {computing ? 'Computing…' : '🧮 Create Layer'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { NO_DATA_COLOR, classificationMethodLabels, type ClassificationSettings, type SectorClasses } from '../../utils/classification';
+
+interface ClassificationLegendProps {
+  classes: SectorClasses;
+  settings: ClassificationSettings;
+}
+
+// Categorized fields such as Canal_Name have hundreds of values
+const MAX_LEGEND_ITEMS = 30;
+
+export default function ClassificationLegend({ classes, settings }: ClassificationLegendProps) {
+  const shown = classes.classes.slice(0, MAX_LEGEND_ITEMS);
+  const hidden = classes.classes.length - shown.length;
+
+  return (
+    <div className="space-y-1.5 mb-4 pb-4 border-b border-gray-200">
+      <p className="text-xs font-semibold text-gray-600 mb-2">
+        {classes.field.toUpperCase()}
+        <span className="font-normal text-gray-400 ml-1">
+          {classes.mode === 'categorized' ? `${classes.classes.length} values` : classificationMethodLabels[settings.method]}
+        </span>
+      </p>
+      {shown.map(item => (
+        <div key={item.label} className="flex items-center justify-between text-xs">
+          <div className="flex items-center space-x-2 min-w-0">
+            <div className="w-4 h-4 rounded border border-gray-300 flex-shrink-0" style={{ background: item.color }}></div>
+            <span className="text-gray-700 truncate">{item.label}</span>
+          </div>
+          <span className="text-gray-500 ml-2">{item.count}</span>
+        </div>
+      ))}
+      {hidden > 0 && (
+        <p className="text-xs text-gray-500 italic">+ {hidden} more values</p>
+      )}
+      {classes.noDataCount > 0 && (
+        <div className="flex items-center justify-between text-xs">
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 rounded border border-gray-300" style={{ background: NO_DATA_COLOR }}></div>
+            <span className="text-gray-500 italic">No data</span>
+          </div>
+          <span className="text-gray-500">{classes.noDataCount}</span>
+        </div>
+      )}
+    </div>
+  );
+}
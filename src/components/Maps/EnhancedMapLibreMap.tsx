@@ -1,32 +1,57 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
 import * as turf from '@turf/turf';
-import type { SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
-import { sectorColors } from '../../utils/symbology';
-import SymbologyControl, { type SymbologySettings } from './SymbologyControl';
+import type { SectorAttributeData, SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
+import { sectorColors, getAreaCategoryRanges } from '../../utils/symbology';
+import { classifySectors, getClassificationFields } from '../../utils/classification';
+import SymbologyControl from './SymbologyControl';
+import StylePresetsControl from './StylePresetsControl';
+import ClassificationLegend from './ClassificationLegend';
 import FileImport from './FileImport';
 import LayerManager from './LayerManager';
 import StreetView from './StreetView';
-import { type ImportedLayer, type RasterData, calculateBounds } from '../../utils/fileImport';
+import SnapControl from './SnapControl';
+import { useMapAdapterBindings } from '../../hooks/useMapAdapterBindings';
+import { useSnapping } from '../../hooks/useSnapping';
+import { maplibreProjector, updateSnapIndicator } from '../../utils/maplibreSnapping';
+import { useMapSession } from '../../context/MapSessionContext';
+import { createMapLibreAdapter, type MapLibreAdapter, type SectorTileSource } from './adapters';
 
 interface EnhancedMapLibreMapProps {
   sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  // Attributes of all sectors, which the classes are computed over
+  sectorAttributes: SectorAttributeData;
   selectedSector: SectorDivision | null;
   selectedAreaCategory?: AreaCategory;
   onAreaCategoryChange?: (category: AreaCategory) => void;
   onFeatureClick?: (feature: SectorFeature) => void;
+  // Vector tiles to draw the sectors from instead of sectorsData's geometry
+  sectorTiles?: SectorTileSource | null;
 }
 
 export default function EnhancedMapLibreMap({
   sectorsData,
+  sectorAttributes,
   selectedSector,
   selectedAreaCategory,
   onAreaCategoryChange,
-  onFeatureClick
+  onFeatureClick,
+  sectorTiles
 }: EnhancedMapLibreMapProps) {
+  const {
+    importedLayers,
+    addImportedLayer,
+    layerHandlers,
+    symbology,
+    setSymbology,
+    sectorLabels,
+    setSectorLabels,
+    areaThresholds,
+    setAreaThresholds
+  } = useMapSession();
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<maplibregl.Map | null>(null);
-  const popupRef = useRef<maplibregl.Popup | null>(null);
+  const [adapter, setAdapter] = useState<MapLibreAdapter | null>(null);
 
   // Measurement state
   const [measurementMode, setMeasurementMode] = useState<'none' | 'distance' | 'area'>('none');
@@ -38,23 +63,6 @@ export default function EnhancedMapLibreMap({
   const [terrainEnabled, setTerrainEnabled] = useState(false);
   const [globeMode, setGlobeMode] = useState(false);
 
-  // Symbology state
-  const [symbologySettings, setSymbologySettings] = useState<SymbologySettings>({
-    fillStyle: 'solid',
-    fillOpacity: 0.6,
-    outlineColor: '#333333',
-    outlineWidth: 2,
-    colors: {
-      East: '#3b82f6',
-      West: '#10b981',
-      North: '#f59e0b',
-      South: '#ef4444',
-    },
-  });
-
-  // Imported layers state
-  const [importedLayers, setImportedLayers] = useState<ImportedLayer[]>([]);
-
   // Sector visibility state
   const [sectorVisibility, setSectorVisibility] = useState<Record<SectorDivision, boolean>>({
     East: true,
@@ -63,16 +71,6 @@ export default function EnhancedMapLibreMap({
     South: true,
   });
 
-  // Sector label state
-  const [sectorLabels, setSectorLabels] = useState({
-    enabled: false,
-    field: 'Canal_Name',
-    size: 12,
-    color: '#000000',
-    haloColor: '#ffffff',
-    haloWidth: 2
-  });
-
   // UI state
   const [legendOpen, setLegendOpen] = useState(true);
   const [toolbarExpanded, setToolbarExpanded] = useState(true);
@@ -82,6 +80,10 @@ export default function EnhancedMapLibreMap({
   const [streetViewLocation, setStreetViewLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [streetViewOpen, setStreetViewOpen] = useState(false);
 
+  // Measurement points snap to sector and imported layer boundaries. This engine has no polygon
+  // drawing or vertex editing, so they are the only thing snapping applies to here.
+  const { snap } = useSnapping(sectorsData);
+
   // Initialize map
   useEffect(() => {
     if (!mapContainerRef.current) return;
@@ -216,13 +218,12 @@ export default function EnhancedMapLibreMap({
 
     map.getContainer().appendChild(basemapControl);
 
-    popupRef.current = new maplibregl.Popup({
-      closeButton: true,
-      closeOnClick: true,
-      maxWidth: '350px',
-    });
+    const mapLibreAdapter = createMapLibreAdapter(map);
+    setAdapter(mapLibreAdapter);
 
     return () => {
+      mapLibreAdapter.destroy();
+      setAdapter(null);
       if (mapRef.current) {
         mapRef.current.remove();
         mapRef.current = null;
@@ -245,7 +246,9 @@ export default function EnhancedMapLibreMap({
 
       if (measurementMode === 'none') return;
 
-      const newPoints = [...measurementPoints, [e.lngLat.lng, e.lngLat.lat] as [number, number]];
+      const snapped = snap([e.lngLat.lng, e.lngLat.lat], maplibreProjector(map));
+      const clickedPoint: [number, number] = snapped ? snapped.lngLat : [e.lngLat.lng, e.lngLat.lat];
+      const newPoints = [...measurementPoints, clickedPoint];
       setMeasurementPoints(newPoints);
 
       // Update measurement layer
@@ -323,10 +326,15 @@ export default function EnhancedMapLibreMap({
 
       // Add marker for each point
       new maplibregl.Marker({ color: '#ff0000' })
-        .setLngLat([e.lngLat.lng, e.lngLat.lat])
+        .setLngLat(clickedPoint)
         .addTo(map);
     };
 
+    // Show where the next point would snap to
+    const handleMouseMove = (e: maplibregl.MapMouseEvent) => {
+      updateSnapIndicator(map, snap([e.lngLat.lng, e.lngLat.lat], maplibreProjector(map)));
+    };
+
     if (measurementMode !== 'none' || streetViewMode) {
       map.getCanvas().style.cursor = streetViewMode ? 'pointer' : 'crosshair';
       map.on('click', handleMapClick);
@@ -334,10 +342,16 @@ export default function EnhancedMapLibreMap({
       map.getCanvas().style.cursor = '';
     }
 
+    if (measurementMode !== 'none' && !streetViewMode) {
+      map.on('mousemove', handleMouseMove);
+    }
+
     return () => {
       map.off('click', handleMapClick);
+      map.off('mousemove', handleMouseMove);
+      updateSnapIndicator(map, null);
     };
-  }, [measurementMode, measurementPoints, streetViewMode]);
+  }, [measurementMode, measurementPoints, streetViewMode, snap]);
 
   // Clear measurements
   const clearMeasurements = () => {
@@ -603,808 +617,26 @@ export default function EnhancedMapLibreMap({
     map.triggerRepaint();
   };
 
-  // Imported layer management
-  const handleLayerImport = (layer: ImportedLayer) => {
-    setImportedLayers(prev => [...prev, layer]);
-  };
-
-  const handleToggleLayerVisibility = (layerId: string) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, visible: !layer.visible } : layer
-      )
-    );
-  };
-
-  const handleRemoveLayer = (layerId: string) => {
-    setImportedLayers(prev => prev.filter(layer => layer.id !== layerId));
-  };
-
-  const handleChangeLayerColor = (layerId: string, color: string) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, color } : layer
-      )
-    );
-  };
-
-  const handleChangeLayerOpacity = (layerId: string, opacity: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, opacity } : layer
-      )
-    );
-  };
-
-  const handleZoomToLayer = (layerId: string) => {
-    if (!mapRef.current) return;
-    const map = mapRef.current;
-
-    const layer = importedLayers.find(l => l.id === layerId);
-    if (!layer) return;
-
-    if (layer.type === 'raster') {
-      // For raster layers, use the bounds directly
-      const rasterData = layer.data as any;
-      map.fitBounds(rasterData.bounds as any, { padding: 50, duration: 1000 });
-    } else {
-      // For vector layers, calculate bounds
-      const bounds = calculateBounds(layer.data as any);
-      if (bounds) {
-        map.fitBounds(bounds as any, { padding: 50, duration: 1000 });
-      }
-    }
-  };
-
-  const handleMoveLayer = (layerId: string, direction: 'up' | 'down') => {
-    setImportedLayers(prev => {
-      const index = prev.findIndex(l => l.id === layerId);
-      if (index === -1) return prev;
-
-      const newLayers = [...prev];
-      if (direction === 'up' && index > 0) {
-        [newLayers[index - 1], newLayers[index]] = [newLayers[index], newLayers[index - 1]];
-      } else if (direction === 'down' && index < newLayers.length - 1) {
-        [newLayers[index], newLayers[index + 1]] = [newLayers[index + 1], newLayers[index]];
-      }
-
-      // Update z-indices
-      return newLayers.map((layer, i) => ({ ...layer, zIndex: newLayers.length - i }));
-    });
-  };
-
-  const handleToggleLabels = (layerId: string) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, showLabels: !layer.showLabels } : layer
-      )
-    );
-  };
-
-  const handleChangeLabelField = (layerId: string, field: string) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, labelField: field } : layer
-      )
-    );
-  };
-
-  const handleChangeLabelSize = (layerId: string, size: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, labelSize: size } : layer
-      )
-    );
-  };
-
-  const handleChangeLabelColor = (layerId: string, color: string) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, labelColor: color } : layer
-      )
-    );
-  };
-
-  const handleChangeLabelHaloColor = (layerId: string, color: string) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, labelHaloColor: color } : layer
-      )
-    );
-  };
-
-  const handleChangeLabelHaloWidth = (layerId: string, width: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, labelHaloWidth: width } : layer
-      )
-    );
-  };
-
-  const handleChangeBrightness = (layerId: string, brightness: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, brightness } : layer
-      )
-    );
-  };
-
-  const handleChangeContrast = (layerId: string, contrast: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, contrast } : layer
-      )
-    );
-  };
-
-  const handleChangeSaturation = (layerId: string, saturation: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer =>
-        layer.id === layerId ? { ...layer, saturation } : layer
-      )
-    );
-  };
-
-  // Helper function to regenerate raster image with selected bands
-  const regenerateRasterImage = (layer: ImportedLayer): string => {
-    if (layer.type !== 'raster') return '';
-
-    const rasterData = layer.data as RasterData;
-    if (!rasterData.bands || rasterData.bands.length === 0) {
-      return rasterData.imageUrl; // Return original if no bands available
-    }
-
-    const { width, height, bands } = rasterData;
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) return rasterData.imageUrl;
-
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-    const totalPixels = width * height;
-
-    if (layer.displayMode === 'rgb' && rasterData.numBands >= 3) {
-      // RGB mode - use selected bands
-      const rBandIdx = layer.redBand ?? 0;
-      const gBandIdx = layer.greenBand ?? 1;
-      const bBandIdx = layer.blueBand ?? 2;
-
-      const rBand = bands[rBandIdx];
-      const gBand = bands[gBandIdx];
-      const bBand = bands[bBandIdx];
-
-      for (let i = 0; i < totalPixels; i++) {
-        data[i * 4] = rBand[i];
-        data[i * 4 + 1] = gBand[i];
-        data[i * 4 + 2] = bBand[i];
-        data[i * 4 + 3] = 255;
-      }
-    } else {
-      // Grayscale mode - use selected grayscale band
-      const bandIdx = layer.grayscaleBand ?? 0;
-      const band = bands[bandIdx];
-
-      for (let i = 0; i < totalPixels; i++) {
-        const value = band[i];
-        data[i * 4] = value;
-        data[i * 4 + 1] = value;
-        data[i * 4 + 2] = value;
-        data[i * 4 + 3] = 255;
-      }
-    }
-
-    ctx.putImageData(imageData, 0, 0);
-    return canvas.toDataURL('image/png');
-  };
-
-  const handleChangeRedBand = (layerId: string, band: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        const updatedLayer = { ...layer, redBand: band };
-        // Regenerate image with new band selection
-        const newImageUrl = regenerateRasterImage(updatedLayer);
-        return {
-          ...updatedLayer,
-          data: {
-            ...(updatedLayer.data as RasterData),
-            imageUrl: newImageUrl
-          }
-        };
-      })
-    );
-  };
-
-  const handleChangeGreenBand = (layerId: string, band: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        const updatedLayer = { ...layer, greenBand: band };
-        const newImageUrl = regenerateRasterImage(updatedLayer);
-        return {
-          ...updatedLayer,
-          data: {
-            ...(updatedLayer.data as RasterData),
-            imageUrl: newImageUrl
-          }
-        };
-      })
-    );
-  };
-
-  const handleChangeBlueBand = (layerId: string, band: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        const updatedLayer = { ...layer, blueBand: band };
-        const newImageUrl = regenerateRasterImage(updatedLayer);
-        return {
-          ...updatedLayer,
-          data: {
-            ...(updatedLayer.data as RasterData),
-            imageUrl: newImageUrl
-          }
-        };
-      })
-    );
-  };
-
-  const handleChangeGrayscaleBand = (layerId: string, band: number) => {
-    setImportedLayers(prev =>
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        const updatedLayer = { ...layer, grayscaleBand: band };
-        const newImageUrl = regenerateRasterImage(updatedLayer);
-        return {
-          ...updatedLayer,
-          data: {
-            ...(updatedLayer.data as RasterData),
-            imageUrl: newImageUrl
-          }
-        };
-      })
-    );
-  };
-
-  const handleChangeDisplayMode = (layerId: string, mode: 'rgb' | 'grayscale') => {
-    setImportedLayers(prev =>
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        const updatedLayer = { ...layer, displayMode: mode };
-        const newImageUrl = regenerateRasterImage(updatedLayer);
-        return {
-          ...updatedLayer,
-          data: {
-            ...(updatedLayer.data as RasterData),
-            imageUrl: newImageUrl
-          }
-        };
-      })
-    );
-  };
-
-  // Load sector data
-  useEffect(() => {
-    if (!mapRef.current) return;
-    const map = mapRef.current;
-
-    const loadData = () => {
-      if (!map.isStyleLoaded()) {
-        map.once('styledata', loadData);
-        return;
-      }
-
-      // Remove existing sector layers
-      const divisions: SectorDivision[] = ['East', 'West', 'North', 'South'];
-      divisions.forEach((division) => {
-        const layerId = `sector-${division.toLowerCase()}`;
-        const lineLayerId = `sector-${division.toLowerCase()}-line`;
-        const labelLayerId = `sector-${division.toLowerCase()}-label`;
-        if (map.getLayer(layerId)) map.removeLayer(layerId);
-        if (map.getLayer(lineLayerId)) map.removeLayer(lineLayerId);
-        if (map.getLayer(labelLayerId)) map.removeLayer(labelLayerId);
-        if (map.getSource(layerId)) map.removeSource(layerId);
-      });
-
-      let bounds: maplibregl.LngLatBounds | null = null;
-
-      // Add sector layers with enhanced styling
-      Object.entries(sectorsData).forEach(([division, data]) => {
-        if (!data) return;
-        if (selectedSector && division !== selectedSector) return;
-
-        // Check visibility state
-        if (!sectorVisibility[division as SectorDivision]) return;
-
-        const layerId = `sector-${division.toLowerCase()}`;
-        const lineLayerId = `sector-${division.toLowerCase()}-line`;
-        const sectorColor = sectorColors[division as SectorDivision];
-
-        map.addSource(layerId, {
-          type: 'geojson',
-          data: data as any,
-        });
-
-        // Get division color from symbology settings
-        const divisionColor = symbologySettings.colors[division as SectorDivision] || sectorColor.primary;
-
-        // Fill layer or Fill-extrusion layer based on 3D mode
-        if (is3DMode) {
-          map.addLayer({
-            id: layerId,
-            type: 'fill-extrusion',
-            source: layerId,
-            paint: {
-              'fill-extrusion-color': divisionColor,
-              'fill-extrusion-height': [
-                '*',
-                ['get', 'Design_A_F'],
-                5 // Scale factor: 1 Feddan = 5 units height
-              ],
-              'fill-extrusion-base': 0,
-              'fill-extrusion-opacity': symbologySettings.fillStyle === 'hollow' ? 0 : symbologySettings.fillOpacity,
-            },
-          });
-        } else {
-          map.addLayer({
-            id: layerId,
-            type: 'fill',
-            source: layerId,
-            paint: {
-              'fill-color': divisionColor,
-              'fill-opacity': symbologySettings.fillStyle === 'hollow' ? 0 : [
-                'case',
-                ['boolean', ['feature-state', 'hover'], false],
-                Math.min(symbologySettings.fillOpacity + 0.2, 1),
-                symbologySettings.fillOpacity
-              ],
-            },
-          });
-        }
-
-        // Line layer
-        map.addLayer({
-          id: lineLayerId,
-          type: 'line',
-          source: layerId,
-          paint: {
-            'line-color': symbologySettings.outlineColor,
-            'line-width': symbologySettings.outlineWidth,
-          },
-        });
-
-        // Label layer for sectors
-        if (sectorLabels.enabled && sectorLabels.field) {
-          map.addLayer({
-            id: `sector-${division.toLowerCase()}-label`,
-            type: 'symbol',
-            source: layerId,
-            layout: {
-              'text-field': ['get', sectorLabels.field],
-              'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
-              'text-size': sectorLabels.size,
-              'text-offset': [0, 0],
-              'text-anchor': 'center',
-              'text-max-width': 12
-            },
-            paint: {
-              'text-color': sectorLabels.color,
-              'text-halo-color': sectorLabels.haloColor,
-              'text-halo-width': sectorLabels.haloWidth,
-              'text-halo-blur': 1
-            }
-          });
-        }
-
-        // Click handler
-        map.on('click', layerId, (e) => {
-          if (!e.features || e.features.length === 0) return;
-          const feature = e.features[0];
-          const props = feature.properties;
-          const area = props?.Design_A_F || 0;
-
-          const popupContent = `
-            <div class="min-w-[250px]">
-              <div class="p-3 text-white" style="background: ${sectorColor.gradient};">
-                <h3 class="font-bold text-lg mb-1">${props?.Canal_Name || 'N/A'}</h3>
-                <p class="text-sm opacity-90 arabic-text" style="font-family: 'Cairo', sans-serif; direction: rtl;">${props?.Name_AR || ''}</p>
-              </div>
-              <div class="p-3 bg-white">
-                <div class="grid grid-cols-2 gap-2 text-sm mb-3">
-                  <div class="bg-gray-50 p-2 rounded">
-                    <p class="text-xs text-gray-500">Division</p>
-                    <p class="font-semibold">${props?.Division || 'N/A'}</p>
-                  </div>
-                  <div class="bg-gray-50 p-2 rounded">
-                    <p class="text-xs text-gray-500">Office</p>
-                    <p class="font-semibold">${props?.Office || 'N/A'}</p>
-                  </div>
-                </div>
-                <div class="space-y-2 text-sm border-t pt-2">
-                  <div class="flex justify-between">
-                    <span class="text-gray-600">Nemra No:</span>
-                    <span class="font-semibold">${props?.No_Nemra || 'N/A'}</span>
-                  </div>
-                  <div class="flex justify-between">
-                    <span class="text-gray-600">Design Area:</span>
-                    <span class="font-semibold">${area.toFixed(2)} Feddan</span>
-                  </div>
-                  ${area > 2000 ? '<div class="mt-2 px-2 py-1 bg-amber-100 text-amber-800 rounded text-xs">🏆 Very Large Plot</div>' : ''}
-                </div>
-              </div>
-            </div>
-          `;
-
-          popupRef.current?.setLngLat(e.lngLat).setHTML(popupContent).addTo(map);
-          if (onFeatureClick) onFeatureClick(feature as unknown as SectorFeature);
-        });
-
-        // Hover effects
-        let hoveredFeatureId: string | number | null = null;
-
-        map.on('mouseenter', layerId, () => {
-          map.getCanvas().style.cursor = 'pointer';
-        });
-
-        map.on('mousemove', layerId, (e) => {
-          if (e.features && e.features.length > 0) {
-            if (hoveredFeatureId !== null) {
-              map.setFeatureState({ source: layerId, id: hoveredFeatureId }, { hover: false });
-            }
-            hoveredFeatureId = e.features[0].id as string | number;
-            map.setFeatureState({ source: layerId, id: hoveredFeatureId }, { hover: true });
-          }
-        });
-
-        map.on('mouseleave', layerId, () => {
-          map.getCanvas().style.cursor = '';
-          if (hoveredFeatureId !== null) {
-            map.setFeatureState({ source: layerId, id: hoveredFeatureId }, { hover: false });
-          }
-          hoveredFeatureId = null;
-        });
-
-        // Calculate bounds
-        data.features.forEach((feature) => {
-          if (feature.geometry.type === 'Polygon') {
-            feature.geometry.coordinates[0].forEach((coord) => {
-              if (!bounds) {
-                bounds = new maplibregl.LngLatBounds(coord as [number, number], coord as [number, number]);
-              } else {
-                bounds.extend(coord as [number, number]);
-              }
-            });
-          }
-        });
-      });
-
-      if (bounds) {
-        map.fitBounds(bounds, { padding: 50 });
-      }
-    };
-
-    if (map.isStyleLoaded()) {
-      loadData();
-    } else {
-      map.once('load', loadData);
-    }
-  }, [sectorsData, selectedSector, onFeatureClick, is3DMode, symbologySettings, sectorVisibility, sectorLabels]);
-
-  // Render imported layers
-  useEffect(() => {
-    if (!mapRef.current) return;
-    const map = mapRef.current;
-
-    const renderImportedLayers = () => {
-      if (!map.isStyleLoaded()) {
-        map.once('styledata', renderImportedLayers);
-        return;
-      }
-
-      // Remove all imported layer sources and layers
-      importedLayers.forEach(layer => {
-        const fillLayerId = `imported-fill-${layer.id}`;
-        const lineLayerId = `imported-line-${layer.id}`;
-        const pointLayerId = `imported-point-${layer.id}`;
-        const labelLayerId = `imported-label-${layer.id}`;
-        const rasterLayerId = `imported-raster-${layer.id}`;
-
-        if (map.getLayer(fillLayerId)) map.removeLayer(fillLayerId);
-        if (map.getLayer(lineLayerId)) map.removeLayer(lineLayerId);
-        if (map.getLayer(pointLayerId)) map.removeLayer(pointLayerId);
-        if (map.getLayer(labelLayerId)) map.removeLayer(labelLayerId);
-        if (map.getLayer(rasterLayerId)) map.removeLayer(rasterLayerId);
-        if (map.getSource(layer.id)) map.removeSource(layer.id);
-      });
-
-      // Add visible imported layers
-      importedLayers.forEach(layer => {
-        if (!layer.visible) return;
-
-        // Handle raster layers
-        if (layer.type === 'raster') {
-          const rasterData = layer.data as any;
-          const bounds = rasterData.bounds;
-
-          console.log('Adding raster layer:', layer.name, {
-            bounds,
-            imageUrl: rasterData.imageUrl.substring(0, 50) + '...',
-            opacity: layer.opacity
-          });
-
-          // MapLibre image source requires coordinates: [top-left, top-right, bottom-right, bottom-left]
-          const coordinates: [[number, number], [number, number], [number, number], [number, number]] = [
-            [bounds[0][0], bounds[1][1]], // top-left: [west, north]
-            [bounds[1][0], bounds[1][1]], // top-right: [east, north]
-            [bounds[1][0], bounds[0][1]], // bottom-right: [east, south]
-            [bounds[0][0], bounds[0][1]]  // bottom-left: [west, south]
-          ];
-
-          try {
-            // Validate coordinates are within valid lat/lon range
-            const isValidLatLon = coordinates.every(coord =>
-              coord[0] >= -180 && coord[0] <= 180 &&
-              coord[1] >= -90 && coord[1] <= 90
-            );
-
-            if (!isValidLatLon) {
-              console.warn('⚠️ Raster bounds are outside valid lat/lon range, using Sudan region as default');
-              // Use Sudan region as default bounds
-              coordinates[0] = [21.8, 23.0];  // top-left
-              coordinates[1] = [38.6, 23.0];  // top-right
-              coordinates[2] = [38.6, 8.0];   // bottom-right
-              coordinates[3] = [21.8, 8.0];   // bottom-left
-            }
-
-            map.addSource(layer.id, {
-              type: 'image',
-              url: rasterData.imageUrl,
-              coordinates: coordinates
-            });
-
-            // Convert brightness/contrast/saturation to valid MapLibre ranges
-            const brightness = layer.brightness || 0;
-            const contrast = layer.contrast || 0;
-            const saturation = layer.saturation || 0;
-
-            map.addLayer({
-              id: `imported-raster-${layer.id}`,
-              type: 'raster',
-              source: layer.id,
-              paint: {
-                'raster-opacity': layer.opacity,
-                'raster-fade-duration': 0,
-                'raster-brightness-min': Math.max(0, brightness),
-                'raster-brightness-max': Math.min(1, 1 + brightness),
-                'raster-contrast': contrast * 0.5 + 0.5, // Convert -1,1 to 0,1
-                'raster-saturation': saturation
-              }
-            });
-
-            console.log('✅ Raster layer added successfully:', layer.name);
-          } catch (error) {
-            console.error('❌ Error adding raster layer:', error);
-          }
-
-          // Add click handler for raster layer
-          map.on('click', `imported-raster-${layer.id}`, (e) => {
-            const popupContent = `
-              <div class="min-w-[200px]">
-                <div class="p-2 text-white" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);">
-                  <h3 class="font-bold text-sm">${layer.name}</h3>
-                  <p class="text-xs opacity-90">Raster Image</p>
-                </div>
-                <div class="p-2 bg-white">
-                  <div class="text-xs space-y-1">
-                    <div class="flex justify-between">
-                      <span class="text-gray-600">Type:</span>
-                      <span class="font-semibold">Raster</span>
-                    </div>
-                    <div class="flex justify-between">
-                      <span class="text-gray-600">Dimensions:</span>
-                      <span class="font-semibold">${rasterData.width}x${rasterData.height}</span>
-                    </div>
-                    <div class="flex justify-between">
-                      <span class="text-gray-600">Opacity:</span>
-                      <span class="font-semibold">${Math.round(layer.opacity * 100)}%</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            `;
-
-            popupRef.current?.setLngLat(e.lngLat).setHTML(popupContent).addTo(map);
-          });
-
-          // Hover effect
-          map.on('mouseenter', `imported-raster-${layer.id}`, () => {
-            map.getCanvas().style.cursor = 'pointer';
-          });
-
-          map.on('mouseleave', `imported-raster-${layer.id}`, () => {
-            map.getCanvas().style.cursor = '';
-          });
-
-          return; // Skip vector layer rendering for raster layers
-        }
-
-        // Type guard: at this point, layer.data must be a FeatureCollection
-        if (!('features' in layer.data)) {
-          console.error('Invalid vector layer data');
-          return;
-        }
-
-        const vectorData = layer.data;
-
-        // Add vector source
-        map.addSource(layer.id, {
-          type: 'geojson',
-          data: vectorData
-        });
-
-        // Determine geometry types in the layer
-        const hasPolygons = vectorData.features.some(f =>
-          f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon'
-        );
-        const hasLines = vectorData.features.some(f =>
-          f.geometry.type === 'LineString' || f.geometry.type === 'MultiLineString'
-        );
-        const hasPoints = vectorData.features.some(f =>
-          f.geometry.type === 'Point' || f.geometry.type === 'MultiPoint'
-        );
-
-        // Add polygon layers
-        if (hasPolygons) {
-          map.addLayer({
-            id: `imported-fill-${layer.id}`,
-            type: 'fill',
-            source: layer.id,
-            filter: ['any',
-              ['==', ['geometry-type'], 'Polygon'],
-              ['==', ['geometry-type'], 'MultiPolygon']
-            ],
-            paint: {
-              'fill-color': layer.color,
-              'fill-opacity': layer.opacity
-            }
-          });
-
-          map.addLayer({
-            id: `imported-line-${layer.id}`,
-            type: 'line',
-            source: layer.id,
-            filter: ['any',
-              ['==', ['geometry-type'], 'Polygon'],
-              ['==', ['geometry-type'], 'MultiPolygon'],
-              ['==', ['geometry-type'], 'LineString'],
-              ['==', ['geometry-type'], 'MultiLineString']
-            ],
-            paint: {
-              'line-color': layer.color,
-              'line-width': 2
-            }
-          });
-        } else if (hasLines) {
-          // Add line layers
-          map.addLayer({
-            id: `imported-line-${layer.id}`,
-            type: 'line',
-            source: layer.id,
-            filter: ['any',
-              ['==', ['geometry-type'], 'LineString'],
-              ['==', ['geometry-type'], 'MultiLineString']
-            ],
-            paint: {
-              'line-color': layer.color,
-              'line-width': 3,
-              'line-opacity': layer.opacity
-            }
-          });
-        }
-
-        // Add point layers
-        if (hasPoints) {
-          map.addLayer({
-            id: `imported-point-${layer.id}`,
-            type: 'circle',
-            source: layer.id,
-            filter: ['any',
-              ['==', ['geometry-type'], 'Point'],
-              ['==', ['geometry-type'], 'MultiPoint']
-            ],
-            paint: {
-              'circle-radius': 6,
-              'circle-color': layer.color,
-              'circle-opacity': layer.opacity,
-              'circle-stroke-color': '#ffffff',
-              'circle-stroke-width': 2
-            }
-          });
-        }
-
-        // Add label layer if enabled
-        if (layer.showLabels && layer.labelField) {
-          map.addLayer({
-            id: `imported-label-${layer.id}`,
-            type: 'symbol',
-            source: layer.id,
-            layout: {
-              'text-field': ['get', layer.labelField],
-              'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
-              'text-size': layer.labelSize,
-              'text-offset': [0, 1.5],
-              'text-anchor': 'top',
-              'text-max-width': 12
-            },
-            paint: {
-              'text-color': layer.labelColor,
-              'text-halo-color': layer.labelHaloColor,
-              'text-halo-width': layer.labelHaloWidth,
-              'text-halo-blur': 1
-            }
-          });
-        }
-
-        // Add click handler for popups
-        const layerIds = [
-          `imported-fill-${layer.id}`,
-          `imported-line-${layer.id}`,
-          `imported-point-${layer.id}`
-        ].filter(id => map.getLayer(id));
-
-        layerIds.forEach(layerId => {
-          map.on('click', layerId, (e) => {
-            if (!e.features || e.features.length === 0) return;
-            const feature = e.features[0];
-            const props = feature.properties || {};
-
-            // Format properties for display
-            const propsHTML = Object.entries(props)
-              .filter(([key]) => key !== 'geometry')
-              .map(([key, value]) => `
-                <div class="flex justify-between border-b border-gray-200 py-1">
-                  <span class="text-xs text-gray-600 font-medium">${key}:</span>
-                  <span class="text-xs text-gray-800 ml-2">${value}</span>
-                </div>
-              `)
-              .join('');
-
-            const popupContent = `
-              <div class="min-w-[200px] max-w-[300px]">
-                <div class="p-2 text-white" style="background: ${layer.color};">
-                  <h3 class="font-bold text-sm">${layer.name}</h3>
-                  <p class="text-xs opacity-90">${feature.geometry.type}</p>
-                </div>
-                <div class="p-2 bg-white max-h-64 overflow-y-auto">
-                  ${propsHTML || '<p class="text-xs text-gray-500">No properties</p>'}
-                </div>
-              </div>
-            `;
-
-            popupRef.current?.setLngLat(e.lngLat).setHTML(popupContent).addTo(map);
-          });
-
-          // Add hover effect
-          map.on('mouseenter', layerId, () => {
-            map.getCanvas().style.cursor = 'pointer';
-          });
-
-          map.on('mouseleave', layerId, () => {
-            map.getCanvas().style.cursor = '';
-          });
-        });
-      });
-    };
+  // Classes are computed over all sectors, not the loaded ones, so colours stay put when
+  // the map is panned or a division is hidden
+  const classificationFields = useMemo(() => getClassificationFields(sectorAttributes), [sectorAttributes]);
+  const areaRanges = getAreaCategoryRanges(areaThresholds);
+  const sectorClasses = useMemo(
+    () => classifySectors(sectorAttributes, symbology.classification),
+    [sectorAttributes, symbology.classification]
+  );
 
-    if (map.isStyleLoaded()) {
-      renderImportedLayers();
-    } else {
-      map.once('load', renderImportedLayers);
-    }
-  }, [importedLayers]);
+  // Sectors, imported layers, highlight and the shared viewport
+  const { zoomToImportedLayer, showTrackPlayback } = useMapAdapterBindings(adapter, sectorsData, {
+    selectedSector,
+    symbology,
+    classes: sectorClasses,
+    visibility: sectorVisibility,
+    labels: sectorLabels,
+    extrude: is3DMode,
+    tiles: sectorTiles,
+    attributes: sectorAttributes,
+  }, onFeatureClick);
 
   return (
     <div className="relative w-full h-full">
@@ -1542,6 +774,8 @@ export default function EnhancedMapLibreMap({
                 </button>
               </div>
 
+              <SnapControl align="left" measurementOnly />
+
               {measurementPoints.length > 0 && (
                 <button
                   onClick={clearMeasurements}
@@ -1683,6 +917,11 @@ export default function EnhancedMapLibreMap({
               Sectors & Area Categories
             </h3>
 
+        {/* Classification */}
+        {sectorClasses && (
+          <ClassificationLegend classes={sectorClasses} settings={symbology.classification} />
+        )}
+
         {/* Sector Colors */}
         <div className="space-y-2 mb-4 pb-4 border-b border-gray-200">
           <p className="text-xs font-semibold text-gray-600 mb-2">DIVISIONS</p>
@@ -1844,11 +1083,11 @@ export default function EnhancedMapLibreMap({
           </div>
           <div className="space-y-1.5">
             {[
-              { value: 'small', label: 'Small', range: '< 500F' },
-              { value: 'medium', label: 'Medium', range: '500-1000F' },
-              { value: 'large', label: 'Large', range: '1-2K F' },
-              { value: 'very-large', label: 'V. Large', range: '> 2000F' },
-            ].map(({ value, label, range }) => (
+              { value: 'small', label: 'Small' },
+              { value: 'medium', label: 'Medium' },
+              { value: 'large', label: 'Large' },
+              { value: 'very-large', label: 'V. Large' },
+            ].map(({ value, label }) => (
               <button
                 key={value}
                 onClick={() => onAreaCategoryChange?.(selectedAreaCategory === value ? null : value as AreaCategory)}
@@ -1862,7 +1101,7 @@ export default function EnhancedMapLibreMap({
                   <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: value === 'very-large' ? 0.9 : (value === 'large' ? 0.7 : (value === 'medium' ? 0.5 : 0.3)) }}></div>
                   <span className={`text-gray-700 ${value === 'very-large' ? 'font-semibold' : ''}`}>{label}</span>
                 </div>
-                <span className="text-gray-500">{range}</span>
+                <span className="text-gray-500">{areaRanges[value as keyof typeof areaRanges]}</span>
               </button>
             ))}
           </div>
@@ -1872,34 +1111,24 @@ export default function EnhancedMapLibreMap({
 
         {/* Action Buttons - Always Visible */}
         <div className="flex gap-2 mt-2">
-          <FileImport onLayerImport={handleLayerImport} />
-          <SymbologyControl onSymbologyChange={setSymbologySettings} />
+          <FileImport onLayerImport={addImportedLayer} />
+          <SymbologyControl
+            initialSettings={symbology}
+            onSymbologyChange={setSymbology}
+            fields={classificationFields}
+            areaThresholds={areaThresholds}
+            onAreaThresholdsChange={setAreaThresholds}
+          />
+          <StylePresetsControl />
         </div>
       </div>
 
       {/* Layer Manager */}
       <LayerManager
         layers={importedLayers}
-        onToggleVisibility={handleToggleLayerVisibility}
-        onRemoveLayer={handleRemoveLayer}
-        onChangeColor={handleChangeLayerColor}
-        onChangeOpacity={handleChangeLayerOpacity}
-        onZoomToLayer={handleZoomToLayer}
-        onMoveLayer={handleMoveLayer}
-        onToggleLabels={handleToggleLabels}
-        onChangeLabelField={handleChangeLabelField}
-        onChangeLabelSize={handleChangeLabelSize}
-        onChangeLabelColor={handleChangeLabelColor}
-        onChangeLabelHaloColor={handleChangeLabelHaloColor}
-        onChangeLabelHaloWidth={handleChangeLabelHaloWidth}
-        onChangeBrightness={handleChangeBrightness}
-        onChangeContrast={handleChangeContrast}
-        onChangeSaturation={handleChangeSaturation}
-        onChangeRedBand={handleChangeRedBand}
-        onChangeGreenBand={handleChangeGreenBand}
-        onChangeBlueBand={handleChangeBlueBand}
-        onChangeGrayscaleBand={handleChangeGrayscaleBand}
-        onChangeDisplayMode={handleChangeDisplayMode}
+        {...layerHandlers}
+        onZoomToLayer={zoomToImportedLayer}
+        onTrackPlayback={showTrackPlayback}
       />
 
       {/* Street View Mode Indicator */}
@@ -1,51 +1,107 @@
 import { useState, useRef } from 'react';
-import { parseFile, validateFile, type ImportedLayer } from '../../utils/fileImport';
+import { useImportQueue, type ImportQueueItem } from '../../hooks/useImportQueue';
+import { builtInCRS } from '../../utils/crs';
+import { createWKTLayer, openCOGLayer, type ImportedLayer } from '../../utils/fileImport';
+import { detectPointMapping, type PointMapping, type SpreadsheetTable } from '../../utils/spreadsheetImport';
+import PointMappingDialog from './PointMappingDialog';
 
 interface FileImportProps {
   onLayerImport: (layer: ImportedLayer) => void;
 }
 
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const STATUS_LABELS: Record<ImportQueueItem['status'], string> = {
+  queued: 'Waiting',
+  parsing: 'Importing',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// "12.5 of 200.0 MB read • 1,204 features"
+function describeProgress(item: ImportQueueItem): string {
+  if (item.status !== 'parsing') return item.message ?? '';
+  const { bytesRead, bytesTotal, featuresParsed } = item.progress;
+  const parts: string[] = [];
+  if (bytesTotal) parts.push(`${formatMB(bytesRead ?? 0)} of ${formatMB(bytesTotal)} read`);
+  if (featuresParsed) parts.push(`${featuresParsed.toLocaleString()} features`);
+  return parts.join(' • ') || 'Starting…';
+}
+
 export default function FileImport({ onLayerImport }: FileImportProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Empty means detect from the file (.prj, GeoJSON crs member)
+  const [sourceCRS, setSourceCRS] = useState('');
+  const [wktOpen, setWktOpen] = useState(false);
+  const [wktText, setWktText] = useState('');
+  const [wktName, setWktName] = useState('Pasted WKT');
+  const [cogOpen, setCogOpen] = useState(false);
+  const [cogUrl, setCogUrl] = useState('');
+  const [cogLoading, setCogLoading] = useState(false);
+  const [pendingMapping, setPendingMapping] = useState<{ file: File; table: SpreadsheetTable; mapping: PointMapping | null } | null>(null);
+  const mappingResolverRef = useRef<((mapping: PointMapping | null) => void) | null>(null);
+
+  // Shows the column mapping step and waits for the user to confirm or cancel it
+  const requestPointMapping = (file: File, table: SpreadsheetTable) =>
+    new Promise<PointMapping | null>((resolve) => {
+      mappingResolverRef.current = resolve;
+      setPendingMapping({ file, table, mapping: detectPointMapping(table) });
+    });
+
+  const resolvePointMapping = (mapping: PointMapping | null) => {
+    mappingResolverRef.current?.(mapping);
+    mappingResolverRef.current = null;
+    setPendingMapping(null);
+  };
 
-  const handleFileSelect = async (files: FileList | null) => {
+  // Files are parsed one at a time in a worker; dropping more while busy adds them to the queue
+  const importQueue = useImportQueue({ onLayerImport, requestPointMapping });
+
+  const handleFileSelect = (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     setError(null);
     setSuccess(null);
-    setIsLoading(true);
+    importQueue.enqueue(Array.from(files), sourceCRS ? { crs: sourceCRS } : {});
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleWKTImport = () => {
+    setError(null);
+    setSuccess(null);
+    try {
+      const layer = createWKTLayer(wktText, wktName.trim() || 'Pasted WKT', sourceCRS ? { crs: sourceCRS } : {});
+      onLayerImport(layer);
+      setWktText('');
+      setSuccess(`Successfully imported ${(layer.data as GeoJSON.FeatureCollection).features.length} WKT geometries`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import WKT');
+    }
+  };
 
+  // Only the header and smallest overview are read here; tiles are fetched as the map needs them
+  const handleCOGOpen = async () => {
+    setError(null);
+    setSuccess(null);
+    setCogLoading(true);
     try {
-      // Process each file
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-
-        // Validate file
-        const validation = validateFile(file);
-        if (!validation.valid) {
-          setError(validation.error || 'Invalid file');
-          continue;
-        }
-
-        // Parse file
-        const layer = await parseFile(file);
-        onLayerImport(layer);
-
-        setSuccess(`Successfully imported: ${file.name}`);
-        setTimeout(() => setSuccess(null), 3000);
-      }
+      const layer = await openCOGLayer(cogUrl.trim(), sourceCRS ? { crs: sourceCRS } : {});
+      onLayerImport(layer);
+      setCogUrl('');
+      setSuccess(`Streaming ${layer.name}`);
+      setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to import file');
+      setError(err instanceof Error ? err.message : 'Failed to open COG');
     } finally {
-      setIsLoading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      setCogLoading(false);
     }
   };
 
@@ -119,16 +175,36 @@ export default function FileImport({ onLayerImport }: FileImportProps) {
                 <p className="text-xs font-semibold text-blue-800 mb-1">Vector:</p>
                 <div className="flex items-center gap-1 text-xs text-blue-700">
                   <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
-                  GeoJSON
+                  GeoJSON / TopoJSON
                 </div>
                 <div className="flex items-center gap-1 text-xs text-blue-700">
                   <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                  KML
+                  KML / KMZ
+                </div>
+                <div className="flex items-center gap-1 text-xs text-blue-700">
+                  <span className="w-2 h-2 bg-lime-500 rounded-full"></span>
+                  GPX (GPS tracks)
                 </div>
                 <div className="flex items-center gap-1 text-xs text-blue-700">
                   <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
                   Shapefile (ZIP)
                 </div>
+                <div className="flex items-center gap-1 text-xs text-blue-700">
+                  <span className="w-2 h-2 bg-teal-500 rounded-full"></span>
+                  GeoPackage
+                </div>
+                <div className="flex items-center gap-1 text-xs text-blue-700">
+                  <span className="w-2 h-2 bg-indigo-500 rounded-full"></span>
+                  FlatGeobuf
+                </div>
+                <div className="flex items-center gap-1 text-xs text-blue-700">
+                  <span className="w-2 h-2 bg-cyan-500 rounded-full"></span>
+                  WKT
+                </div>
+                <div className="flex items-center gap-1 text-xs text-blue-700">
+                  <span className="w-2 h-2 bg-gray-500 rounded-full"></span>
+                  CSV / Excel points
+                </div>
               </div>
               <div>
                 <p className="text-xs font-semibold text-blue-800 mb-1">Raster:</p>
@@ -155,6 +231,22 @@ export default function FileImport({ onLayerImport }: FileImportProps) {
             </p>
           </div>
 
+          {/* Source Coordinate System */}
+          <div className="mb-4">
+            <label className="block text-xs font-semibold text-gray-700 mb-1">Coordinate system of vector files and WKT</label>
+            <select
+              value={sourceCRS}
+              onChange={(e) => setSourceCRS(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Auto-detect (.prj, GeoJSON crs, FlatGeobuf header, EWKT SRID)</option>
+              {builtInCRS.map(crs => (
+                <option key={crs.code} value={crs.code}>{crs.code} – {crs.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Data is reprojected to WGS 84 on import.</p>
+          </div>
+
           {/* Drag & Drop Area */}
           <div
             onDrop={handleDrop}
@@ -171,33 +263,154 @@ export default function FileImport({ onLayerImport }: FileImportProps) {
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".geojson,.json,.kml,.zip,.tif,.tiff,.png,.jpg,.jpeg,.img,.dat,.hdr"
+              accept=".geojson,.json,.topojson,.kml,.kmz,.gpx,.zip,.fgb,.wkt,.gpkg,.csv,.xlsx,.tif,.tiff,.png,.jpg,.jpeg,.img,.dat,.hdr"
               onChange={(e) => handleFileSelect(e.target.files)}
               className="hidden"
             />
 
-            {isLoading ? (
-              <div className="flex flex-col items-center gap-3">
-                <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-                <p className="text-sm text-gray-600 font-medium">Processing file...</p>
+            <div className="flex flex-col items-center gap-3">
+              <svg className="w-16 h-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+              <div>
+                <p className="text-sm font-semibold text-gray-700 mb-1">
+                  Drop files here or click to browse
+                </p>
+                <p className="text-xs text-gray-500">
+                  Supports multiple files
+                </p>
               </div>
-            ) : (
-              <div className="flex flex-col items-center gap-3">
-                <svg className="w-16 h-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                </svg>
-                <div>
-                  <p className="text-sm font-semibold text-gray-700 mb-1">
-                    Drop files here or click to browse
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    Supports multiple files
-                  </p>
+            </div>
+          </div>
+
+          {/* Import Queue */}
+          {importQueue.items.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold text-gray-700">IMPORTS</p>
+                <div className="flex gap-3">
+                  {importQueue.busy && (
+                    <button onClick={importQueue.cancelAll} className="text-xs text-red-600 hover:text-red-800">
+                      Cancel all
+                    </button>
+                  )}
+                  <button onClick={importQueue.clearFinished} className="text-xs text-gray-500 hover:text-gray-700">
+                    Clear finished
+                  </button>
+                </div>
+              </div>
+              <div className="max-h-48 overflow-y-auto space-y-2">
+                {importQueue.items.map(item => {
+                  const { bytesRead, bytesTotal } = item.progress;
+                  const readFraction = bytesTotal ? (bytesRead ?? 0) / bytesTotal : 0;
+                  // Once the file is read, parsing has no measurable end: show a full, pulsing bar
+                  const parsingOnly = item.status === 'parsing' && readFraction >= 1;
+                  return (
+                    <div key={item.id} className="p-2 bg-gray-50 rounded-lg border border-gray-200">
+                      <div className="flex items-center gap-2">
+                        <p className="flex-1 text-xs font-medium text-gray-800 truncate" title={item.file.name}>{item.file.name}</p>
+                        <span className={`text-xs ${
+                          item.status === 'error' ? 'text-red-600' : item.status === 'done' ? 'text-green-600' : 'text-gray-500'
+                        }`}>
+                          {STATUS_LABELS[item.status]}
+                        </span>
+                        {(item.status === 'queued' || item.status === 'parsing') && (
+                          <button
+                            onClick={() => importQueue.cancel(item.id)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Cancel import"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        )}
+                      </div>
+                      {item.status === 'parsing' && (
+                        <div className="mt-1.5 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full bg-blue-500 transition-all ${parsingOnly || !bytesTotal ? 'animate-pulse' : ''}`}
+                            style={{ width: `${parsingOnly || !bytesTotal ? 100 : Math.round(readFraction * 100)}%` }}
+                          />
+                        </div>
+                      )}
+                      {describeProgress(item) && (
+                        <p className={`mt-1 text-xs ${item.status === 'error' ? 'text-red-700' : 'text-gray-500'}`}>
+                          {describeProgress(item)}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Paste WKT */}
+          <div className="mt-4">
+            <button
+              onClick={() => setWktOpen(!wktOpen)}
+              className="text-xs font-semibold text-blue-700 hover:text-blue-900"
+            >
+              {wktOpen ? '▾' : '▸'} Paste WKT
+            </button>
+            {wktOpen && (
+              <div className="mt-2 space-y-2">
+                <textarea
+                  value={wktText}
+                  onChange={(e) => setWktText(e.target.value)}
+                  rows={4}
+                  placeholder={'POLYGON ((33.1 14.3, 33.2 14.3, 33.2 14.4, 33.1 14.3))\nSRID=32636;POINT (512000 1585000)'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={wktName}
+                    onChange={(e) => setWktName(e.target.value)}
+                    placeholder="Layer name"
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleWKTImport}
+                    disabled={!wktText.trim()}
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-xs font-medium disabled:opacity-50"
+                  >
+                    Add Layer
+                  </button>
                 </div>
               </div>
             )}
           </div>
 
+          {/* Open COG from URL */}
+          <div className="mt-2">
+            <button
+              onClick={() => setCogOpen(!cogOpen)}
+              className="text-xs font-semibold text-blue-700 hover:text-blue-900"
+            >
+              {cogOpen ? '▾' : '▸'} Open COG from URL
+            </button>
+            {cogOpen && (
+              <div className="mt-2 flex gap-2">
+                <input
+                  type="url"
+                  value={cogUrl}
+                  onChange={(e) => setCogUrl(e.target.value)}
+                  placeholder="http://localhost:8080/imagery.tif"
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleCOGOpen}
+                  disabled={!cogUrl.trim() || cogLoading}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-xs font-medium disabled:opacity-50"
+                >
+                  {cogLoading ? 'Opening…' : 'Open'}
+                </button>
+              </div>
+            )}
+          </div>
+
           {/* Error Message */}
           {error && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -226,15 +439,34 @@ export default function FileImport({ onLayerImport }: FileImportProps) {
           <div className="mt-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
             <p className="text-xs font-semibold text-gray-700 mb-2">TIPS</p>
             <ul className="text-xs text-gray-600 space-y-1">
-              <li>• Shapefiles must be zipped with .shp, .shx, .dbf files</li>
+              <li>• Shapefiles must be zipped with .shp, .shx, .dbf files (include the .prj for projected data)</li>
+              <li>• GeoPackage: each feature or tile table becomes its own layer</li>
+              <li>• TopoJSON: each object becomes its own layer</li>
+              <li>• WKT: one geometry per line; an EWKT SRID (e.g. SRID=32636;) sets the coordinate system</li>
+              <li>• GPX: tracks and waypoints become separate layers; open a track layer to play it back</li>
+              <li>• CSV/Excel: lat/lon or UTM easting/northing columns are detected; you can change them before import</li>
+              <li>• Cloud-Optimized GeoTIFFs (tiled, with overviews) are streamed tile by tile instead of loaded whole; a URL must allow range requests</li>
               <li>• ENVI files: Upload .img/.dat file (optional: .hdr for georeferencing)</li>
               <li>• PNG/JPEG: Optional world file (.pgw/.jgw) for coordinates</li>
+              <li>• Files are imported in the background, one after another; cancel any that take too long</li>
               <li>• Imported layers appear in the Layer Manager</li>
               <li>• Click on features to view their properties</li>
             </ul>
           </div>
         </div>
       )}
+
+      {/* CSV / Excel Coordinate Mapping */}
+      {pendingMapping && (
+        <PointMappingDialog
+          key={`${pendingMapping.file.name}-${pendingMapping.file.lastModified}`}
+          fileName={pendingMapping.file.name}
+          table={pendingMapping.table}
+          initialMapping={pendingMapping.mapping}
+          onConfirm={resolvePointMapping}
+          onCancel={() => resolvePointMapping(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet-draw';
+import type { GeoJSONGeometry, SectorFeature } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { sectorsAPI } from '../../services/api';
+import { getNemraId } from '../../utils/permalink';
+import { ignoreSnapSource } from '../../utils/leafletSnapping';
+import { measureSectorGeometry, findSelfIntersections, type SectorMeasurements } from '../../utils/sectorGeometry';
+
+interface GeometryEditorProps {
+  map: L.Map;
+  feature: SectorFeature | null;
+  onSaved?: (feature: SectorFeature) => void;
+}
+
+// Flatten Leaflet's nested polygon latlngs into individual rings (outer rings and holes)
+function collectRings(latlngs: unknown[]): L.LatLng[][] {
+  if (latlngs.length > 0 && latlngs[0] instanceof L.LatLng) {
+    return [latlngs as L.LatLng[]];
+  }
+  return (latlngs as unknown[][]).flatMap(collectRings);
+}
+
+export default function GeometryEditor({ map, feature, onSaved }: GeometryEditorProps) {
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(['admin', 'editor']);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [original, setOriginal] = useState<SectorMeasurements | null>(null);
+  const [measurements, setMeasurements] = useState<SectorMeasurements | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const editLayerRef = useRef<L.Polygon | null>(null);
+  const vertexHandlersRef = useRef<L.Edit.PolyVerticesEdit[]>([]);
+
+  const featureId = feature ? getNemraId(feature) : null;
+
+  const getEditedGeometry = () => editLayerRef.current!.toGeoJSON().geometry as GeoJSONGeometry;
+
+  const handleVertexEdit = useCallback(() => {
+    if (!editLayerRef.current) return;
+    setMeasurements(measureSectorGeometry(getEditedGeometry()));
+  }, []);
+
+  const stopEditing = useCallback(() => {
+    vertexHandlersRef.current.forEach(handler => handler.disable());
+    vertexHandlersRef.current = [];
+    if (editLayerRef.current) {
+      map.removeLayer(editLayerRef.current);
+      editLayerRef.current = null;
+    }
+    map.off(L.Draw.Event.EDITVERTEX, handleVertexEdit);
+    setEditing(false);
+    setMeasurements(null);
+    setOriginal(null);
+  }, [map, handleVertexEdit]);
+
+  // Leave edit mode when another nemra is selected or the map goes away
+  useEffect(() => {
+    setMessage(null);
+    return stopEditing;
+  }, [featureId, stopEditing]);
+
+  const startEditing = () => {
+    if (!feature) return;
+    if (feature.simplified) {
+      setMessage({ type: 'error', text: 'This outline is simplified for the zoom level. Zoom in until it loads in full, then select the nemra again.' });
+      return;
+    }
+
+    const levels = feature.geometry.type === 'Polygon' ? 1 : 2;
+    const layer = L.polygon(L.GeoJSON.coordsToLatLngs(feature.geometry.coordinates as never[], levels), {
+      color: '#f97316',
+      weight: 3,
+      dashArray: '6, 4',
+      fillColor: '#f97316',
+      fillOpacity: 0.1,
+    }).addTo(map);
+    // Snap to the neighbours, not to this nemra's own old outline
+    ignoreSnapSource(layer, feature);
+
+    // One vertex handler per ring, so holes and every part of a MultiPolygon are editable
+    vertexHandlersRef.current = collectRings(layer.getLatLngs()).map(ring => {
+      // @ts-expect-error - typings declare a draw handler here, the runtime takes the polygon layer
+      const handler = new L.Edit.PolyVerticesEdit(layer, ring);
+      handler.enable();
+      return handler;
+    });
+
+    editLayerRef.current = layer;
+    map.on(L.Draw.Event.EDITVERTEX, handleVertexEdit);
+
+    const initial = measureSectorGeometry(feature.geometry);
+    setOriginal(initial);
+    setMeasurements(initial);
+    setMessage(null);
+    setEditing(true);
+    console.log('✏️ Editing geometry of nemra', feature.properties.No_Nemra);
+  };
+
+  const handleSave = async () => {
+    if (!feature || !editLayerRef.current) return;
+
+    if (featureId === null) {
+      setMessage({ type: 'error', text: 'This nemra has no database id. Load data from the server to edit it.' });
+      return;
+    }
+
+    const geometry = getEditedGeometry();
+    const intersections = findSelfIntersections(geometry);
+    if (intersections.length > 0) {
+      setMessage({ type: 'error', text: `The boundary crosses itself at ${intersections.length} point(s). Fix it before saving.` });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await sectorsAPI.updateGeometry(featureId, geometry, feature.properties.updated_at ?? null);
+
+      if (response.success) {
+        console.log('✅ Geometry saved:', response.data);
+        const updated: SectorFeature = {
+          ...feature,
+          geometry,
+          properties: {
+            ...feature.properties,
+            Shape_Area: response.data.Shape_Area,
+            Shape_Leng: response.data.Shape_Leng,
+            Shape_Le_1: response.data.Shape_Leng,
+            Design_A_F: response.data.Design_A_F,
+            updated_at: response.data.updated_at,
+          },
+        };
+        stopEditing();
+        setMessage({ type: 'success', text: `Boundary saved. New area: ${response.data.Design_A_F.toFixed(2)} Feddan` });
+        onSaved?.(updated);
+      }
+    } catch (error) {
+      console.error('❌ Error saving geometry:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save geometry' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!canEdit || !feature) {
+    return null;
+  }
+
+  const areaDelta = measurements && original ? measurements.feddan - original.feddan : 0;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white rounded-lg shadow-xl border-2 border-orange-400 px-4 py-3 min-w-[320px]">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold text-gray-500 uppercase">Selected Nemra</p>
+          <p className="text-sm font-bold text-gray-800">
+            {feature.properties.Canal_Name || 'N/A'} · No. {feature.properties.No_Nemra ?? 'N/A'}
+          </p>
+        </div>
+
+        {!editing ? (
+          <button
+            onClick={startEditing}
+            className="bg-orange-500 hover:bg-orange-600 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors"
+          >
+            ✏️ Edit Geometry
+          </button>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              onClick={stopEditing}
+              disabled={saving}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-green-600 hover:bg-green-700 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : '💾 Save'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Live Measurements */}
+      {editing && measurements && (
+        <div className="mt-3 pt-3 border-t border-gray-200">
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="bg-gray-50 p-2 rounded">
+              <p className="text-gray-500 uppercase">Area</p>
+              <p className="font-semibold text-gray-800">
+                {measurements.feddan.toFixed(2)} F
+                {Math.abs(areaDelta) >= 0.01 && (
+                  <span className={areaDelta > 0 ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+                    ({areaDelta > 0 ? '+' : ''}{areaDelta.toFixed(2)})
+                  </span>
+                )}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-2 rounded">
+              <p className="text-gray-500 uppercase">Perimeter</p>
+              <p className="font-semibold text-gray-800">{(measurements.shapeLength / 1000).toFixed(2)} km</p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Drag vertices to move them, drag the midpoints to add vertices, click a vertex to remove it.
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs mt-2 ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
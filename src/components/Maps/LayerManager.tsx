@@ -1,5 +1,12 @@
 import { useState } from 'react';
-import type { ImportedLayer } from '../../utils/fileImport';
+import { COLOR_RAMPS, getRampGradient, type ColorRampName } from '../../utils/colorRamps';
+import type { ImportedLayer, RasterData } from '../../utils/fileImport';
+import { getTrackFeatures } from '../../utils/gpsTrack';
+import { getBandDisplayRange, type RasterStretch } from '../../utils/rasterStretch';
+import type { TrackPlaybackFrame } from './adapters';
+import BandMath from './BandMath';
+import RasterStretchControl from './RasterStretchControl';
+import TrackPlayback from './TrackPlayback';
 
 interface LayerManagerProps {
   layers: ImportedLayer[];
@@ -8,6 +15,7 @@ interface LayerManagerProps {
   onChangeColor: (layerId: string, color: string) => void;
   onChangeOpacity: (layerId: string, opacity: number) => void;
   onZoomToLayer: (layerId: string) => void;
+  onTrackPlayback: (frame: TrackPlaybackFrame | null) => void;
   onMoveLayer: (layerId: string, direction: 'up' | 'down') => void;
   onToggleLabels: (layerId: string) => void;
   onChangeLabelField: (layerId: string, field: string) => void;
@@ -23,6 +31,10 @@ interface LayerManagerProps {
   onChangeBlueBand: (layerId: string, band: number) => void;
   onChangeGrayscaleBand: (layerId: string, band: number) => void;
   onChangeDisplayMode: (layerId: string, mode: 'rgb' | 'grayscale') => void;
+  onChangeStretch: (layerId: string, stretch: RasterStretch) => void;
+  onChangeColorRamp: (layerId: string, ramp: ColorRampName | null) => void;
+  // Layers derived from an imported one, e.g. band math results
+  onAddLayer: (layer: ImportedLayer) => void;
 }
 
 export default function LayerManager({
@@ -32,6 +44,7 @@ export default function LayerManager({
   onChangeColor,
   onChangeOpacity,
   onZoomToLayer,
+  onTrackPlayback,
   onMoveLayer,
   onToggleLabels,
   onChangeLabelField,
@@ -46,7 +59,10 @@ export default function LayerManager({
   onChangeGreenBand,
   onChangeBlueBand,
   onChangeGrayscaleBand,
-  onChangeDisplayMode
+  onChangeDisplayMode,
+  onChangeStretch,
+  onChangeColorRamp,
+  onAddLayer
 }: LayerManagerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [expandedLayer, setExpandedLayer] = useState<string | null>(null);
@@ -58,11 +74,21 @@ export default function LayerManager({
   const getLayerIcon = (type: string) => {
     switch (type) {
       case 'geojson':
+      case 'topojson':
         return '📊';
       case 'kml':
         return '📍';
+      case 'gpx':
+        return '🥾';
       case 'shapefile':
         return '🗺️';
+      case 'geopackage':
+      case 'flatgeobuf':
+        return '🗃️';
+      case 'wkt':
+        return '✏️';
+      case 'spreadsheet':
+        return '📋';
       case 'raster':
         return '🖼️';
       default:
@@ -222,6 +248,27 @@ export default function LayerManager({
                     </button>
                   </div>
 
+                  {/* Colour Ramp Legend */}
+                  {layer.colorRamp && layer.displayMode !== 'rgb' && (() => {
+                    const [low, high] = getBandDisplayRange(layer, layer.grayscaleBand ?? 0);
+                    return (
+                      <div className="px-3 py-2 bg-white border-t border-gray-200">
+                        <div
+                          className="h-2.5 rounded"
+                          style={{ background: getRampGradient(layer.colorRamp) }}
+                          title={COLOR_RAMPS[layer.colorRamp].label}
+                        />
+                        <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+                          <span>{low.toFixed(2)}</span>
+                          {(layer.data as RasterData).expression && (
+                            <span className="font-mono truncate mx-2">{(layer.data as RasterData).expression}</span>
+                          )}
+                          <span>{high.toFixed(2)}</span>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
                   {/* Expanded Layer Controls */}
                   {expandedLayer === layer.id && (
                     <div className="p-3 space-y-3 bg-white border-t border-gray-200">
@@ -264,9 +311,17 @@ export default function LayerManager({
 
                       {/* Raster Stretch Controls - Only for raster layers */}
                       {layer.type === 'raster' && (
-                        <div className="pt-3 border-t border-gray-100">
-                          <p className="text-xs font-semibold text-gray-600 mb-3">RASTER STRETCH</p>
+                        <RasterStretchControl
+                          layer={layer}
+                          onChangeStretch={onChangeStretch}
+                          onChangeColorRamp={onChangeColorRamp}
+                        />
+                      )}
 
+                      {/* Display Adjustments - applied by the map on top of the stretch */}
+                      {layer.type === 'raster' && (
+                        <details className="pt-3 border-t border-gray-100">
+                          <summary className="text-xs font-semibold text-gray-600 mb-3 cursor-pointer">DISPLAY ADJUSTMENTS</summary>
                           {/* Brightness */}
                           <div className="mb-3">
                             <label className="block text-xs text-gray-500 mb-1">
@@ -315,7 +370,7 @@ export default function LayerManager({
                             />
                           </div>
 
-                          {/* Reset Stretch Button */}
+                          {/* Reset Adjustments Button */}
                           <button
                             onClick={() => {
                               onChangeBrightness(layer.id, 0);
@@ -324,9 +379,9 @@ export default function LayerManager({
                             }}
                             className="w-full px-3 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded transition-colors"
                           >
-                            🔄 Reset Stretch
+                            🔄 Reset Adjustments
                           </button>
-                        </div>
+                        </details>
                       )}
 
                       {/* Band Selection Controls - Only for raster layers with multiple bands */}
@@ -437,6 +492,11 @@ export default function LayerManager({
                         </div>
                       )}
 
+                      {/* Band Math - Only for rasters with band values in memory */}
+                      {layer.type === 'raster' && ((layer.data as RasterData).rawBands ?? (layer.data as RasterData).bands ?? []).length > 0 && (
+                        <BandMath layer={layer} onAddLayer={onAddLayer} />
+                      )}
+
                       {/* Labels Section - Only for vector layers */}
                       {layer.type !== 'raster' && (
                         <div className="pt-3 border-t border-gray-100">
@@ -546,6 +606,11 @@ export default function LayerManager({
                       </div>
                       )}
 
+                      {/* GPS Track Details and Playback */}
+                      {layer.type === 'gpx' && getTrackFeatures(layer.data as GeoJSON.FeatureCollection).length > 0 && (
+                        <TrackPlayback layer={layer} onTrackPlayback={onTrackPlayback} />
+                      )}
+
                       {/* Action Buttons */}
                       <div className="flex gap-2 pt-3 border-t border-gray-100">
                         <button
@@ -576,3 +641,5 @@ export default function LayerManager({
     </div>
   );
 }
+
+export type { LayerManagerProps };
@@ -1,18 +1,34 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import L from 'leaflet';
-import type { SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
-import { sectorColors, getAreaColor, getPatternStyle } from '../../utils/symbology';
+import type { SectorAttributeData, SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
+import { sectorColors, getAreaCategoryRanges } from '../../utils/symbology';
+import { classifySectors } from '../../utils/classification';
+import { useMapAdapterBindings } from '../../hooks/useMapAdapterBindings';
+import { useSnapping } from '../../hooks/useSnapping';
+import { enableLeafletSnapping } from '../../utils/leafletSnapping';
 import AdvancedDrawingTools from './AdvancedDrawingTools';
+import GeometryEditor from './GeometryEditor';
+import SplitMergeTools from './SplitMergeTools';
 import MapToolbar from './MapToolbar';
 import HelpPanel from './HelpPanel';
+import FileImport from './FileImport';
+import LayerManager from './LayerManager';
+import ClassificationLegend from './ClassificationLegend';
+import SnapControl from './SnapControl';
+import { createLeafletAdapter, type LeafletAdapter, type SectorTileSource } from './adapters';
 import { useAuth } from '../../context/AuthContext';
+import { useMapSession } from '../../context/MapSessionContext';
 
 interface LeafletMapProps {
   sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  // Attributes of all sectors, which the classes are computed over
+  sectorAttributes: SectorAttributeData;
   selectedSector: SectorDivision | null;
   selectedAreaCategory?: AreaCategory;
   onAreaCategoryChange?: (category: AreaCategory) => void;
   onFeatureClick?: (feature: SectorFeature) => void;
+  // Vector tiles to draw the sectors from instead of sectorsData's geometry
+  sectorTiles?: SectorTileSource | null;
   onDataUpdate?: () => void;
 }
 
@@ -25,12 +41,30 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
 });
 
-export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCategory, onAreaCategoryChange, onFeatureClick, onDataUpdate }: LeafletMapProps) {
+export default function LeafletMap({
+  sectorsData,
+  sectorAttributes,
+  selectedSector,
+  selectedAreaCategory,
+  onAreaCategoryChange,
+  onFeatureClick,
+  onDataUpdate,
+  sectorTiles
+}: LeafletMapProps) {
   const { hasRole } = useAuth();
+  const {
+    importedLayers,
+    addImportedLayer,
+    layerHandlers,
+    selectedFeature,
+    setSelectedFeature,
+    symbology,
+    sectorLabels,
+    areaThresholds
+  } = useMapSession();
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const layersRef = useRef<L.LayerGroup[]>([]);
-  const [mapReady, setMapReady] = useState(false);
+  const [adapter, setAdapter] = useState<LeafletAdapter | null>(null);
   const [showHelp, setShowHelp] = useState(false);
   const [showLegend, setShowLegend] = useState(true);
   const [showDrawingInstructions, setShowDrawingInstructions] = useState(true);
@@ -87,153 +121,43 @@ export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCa
     // Add scale control
     L.control.scale({ position: 'bottomright' }).addTo(mapRef.current);
 
-    // Mark map as ready
-    setMapReady(true);
+    const leafletAdapter = createLeafletAdapter(mapRef.current);
+    setAdapter(leafletAdapter);
 
     return () => {
+      leafletAdapter.destroy();
+      setAdapter(null);
       if (mapRef.current) {
         mapRef.current.remove();
         mapRef.current = null;
       }
-      setMapReady(false);
     };
   }, []);
 
+  // Sectors, imported layers, highlight and the shared viewport
+  // Symbology, classes and labels are shared with the other engines through the session;
+  // classes cover all sectors so colours stay put when the map is panned
+  const sectorClasses = useMemo(
+    () => classifySectors(sectorAttributes, symbology.classification),
+    [sectorAttributes, symbology.classification]
+  );
+  const { zoomToImportedLayer, showTrackPlayback } = useMapAdapterBindings(adapter, sectorsData, {
+    selectedSector,
+    symbology,
+    classes: sectorClasses,
+    areaThresholds,
+    labels: sectorLabels,
+    tiles: sectorTiles,
+    attributes: sectorAttributes,
+  }, onFeatureClick);
+  const areaRanges = getAreaCategoryRanges(areaThresholds);
+
+  // Drawing and vertex editing snap to sector and imported layer boundaries
+  const { snap } = useSnapping(sectorsData);
   useEffect(() => {
-    if (!mapRef.current) return;
-
-    // Clear existing layers safely
-    layersRef.current.forEach(layer => {
-      try {
-        if (mapRef.current && layer) {
-          mapRef.current.removeLayer(layer);
-        }
-      } catch (e) {
-        console.warn('Error removing layer:', e);
-      }
-    });
-    layersRef.current = [];
-
-    const bounds: L.LatLngBounds[] = [];
-
-    // Add GeoJSON layers
-    Object.entries(sectorsData).forEach(([division, data]) => {
-      if (!data) return;
-
-      // Skip if a sector is selected and this isn't it
-      if (selectedSector && division !== selectedSector) return;
-
-      const sectorColor = sectorColors[division as SectorDivision];
-
-      const layer = L.geoJSON(data as GeoJSON.GeoJsonObject, {
-        style: (feature) => {
-          const props = feature?.properties;
-          const area = props?.Design_A_F || 0;
-          const style = getPatternStyle(props);
-
-          return {
-            fillColor: getAreaColor(area, sectorColor.primary),
-            fillOpacity: style.fillOpacity,
-            color: sectorColor.dark,
-            weight: style.strokeWidth,
-            opacity: 1,
-            dashArray: area > 2000 ? '5, 5' : undefined,
-          };
-        },
-        // Simplify geometries for better performance
-        // @ts-expect-error - Leaflet options
-        smoothFactor: 1.0,
-        onEachFeature: (feature, layer) => {
-          const props = feature.properties;
-          const area = props.Design_A_F || 0;
-          const sectorColor = sectorColors[division as SectorDivision];
-
-          // Create enhanced popup content with gradient header
-          const popupContent = `
-            <div class="min-w-[250px] overflow-hidden rounded-lg">
-              <div class="p-3 text-white" style="background: ${sectorColor.gradient};">
-                <h3 class="font-bold text-lg mb-1">${props.Canal_Name}</h3>
-                <p class="text-sm opacity-90 arabic-text" style="font-family: 'Cairo', sans-serif; direction: rtl;">${props.Name_AR}</p>
-              </div>
-              <div class="p-3 bg-white">
-                <div class="grid grid-cols-2 gap-2 text-sm mb-3">
-                  <div class="bg-gray-50 p-2 rounded">
-                    <p class="text-xs text-gray-500 uppercase">Division</p>
-                    <p class="font-semibold text-gray-800">${props.Division}</p>
-                  </div>
-                  <div class="bg-gray-50 p-2 rounded">
-                    <p class="text-xs text-gray-500 uppercase">Office</p>
-                    <p class="font-semibold text-gray-800">${props.Office}</p>
-                  </div>
-                </div>
-                <div class="space-y-2 text-sm border-t pt-2">
-                  <div class="flex justify-between items-center">
-                    <span class="text-gray-600">Nemra No:</span>
-                    <span class="font-semibold text-gray-800">${props.No_Nemra}</span>
-                  </div>
-                  <div class="flex justify-between items-center">
-                    <span class="text-gray-600">Design Area:</span>
-                    <span class="font-semibold text-gray-800">${props.Design_A_F} Feddan</span>
-                  </div>
-                  <div class="flex justify-between items-center">
-                    <span class="text-gray-600">Shape Area:</span>
-                    <span class="font-semibold text-gray-800">${(props.Shape_Area / 1000000).toFixed(2)} km²</span>
-                  </div>
-                  ${area > 2000 ? '<div class="mt-2 px-2 py-1 bg-amber-100 text-amber-800 rounded text-xs font-medium">🏆 Very Large Plot</div>' : ''}
-                  ${props.Remarks_1 ? `<p class="text-xs italic mt-2 p-2 bg-blue-50 rounded text-gray-700">${props.Remarks_1}</p>` : ''}
-                </div>
-              </div>
-            </div>
-          `;
-
-          layer.bindPopup(popupContent, {
-            maxWidth: 300,
-            className: 'custom-popup'
-          });
-
-          layer.on('click', () => {
-            if (onFeatureClick) {
-              onFeatureClick(feature as unknown as SectorFeature);
-            }
-          });
-
-          // Enhanced hover effects with smooth transitions
-          layer.on('mouseover', function(this: L.Path) {
-            const style = getPatternStyle(props);
-            this.setStyle({
-              fillOpacity: Math.min(style.fillOpacity + 0.2, 1),
-              weight: style.strokeWidth * 1.5,
-              color: sectorColor.light,
-            });
-            this.bringToFront();
-          });
-
-          layer.on('mouseout', function(this: L.Path) {
-            const style = getPatternStyle(props);
-            this.setStyle({
-              fillOpacity: style.fillOpacity,
-              weight: style.strokeWidth,
-              color: sectorColor.dark,
-            });
-          });
-        },
-      });
-
-      layer.addTo(mapRef.current!);
-      layersRef.current.push(layer);
-
-      const layerBounds = layer.getBounds();
-      if (layerBounds.isValid()) {
-        bounds.push(layerBounds);
-      }
-    });
-
-    // Fit map to bounds
-    if (bounds.length > 0) {
-      const allBounds = bounds.reduce((acc, b) => acc.extend(b), bounds[0]);
-      mapRef.current.fitBounds(allBounds, { padding: [50, 50] });
-    }
-  }, [sectorsData, selectedSector, onFeatureClick]);
+    if (!adapter) return;
+    return enableLeafletSnapping(adapter.map, snap);
+  }, [adapter, snap]);
 
   return (
     <div className="relative w-full h-full">
@@ -253,14 +177,20 @@ export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCa
       {/* Help Panel */}
       {showHelp && <HelpPanel />}
 
+      <div className="absolute top-20 right-4 z-[1000]">
       {/* Enhanced Legend */}
       {showLegend && (
-        <div className="absolute top-20 right-4 bg-white rounded-lg shadow-xl p-4 z-[1000] border-2 border-gray-200">
+        <div className="bg-white rounded-lg shadow-xl p-4 border-2 border-gray-200">
         <h3 className="font-bold text-sm mb-3 text-gray-800 flex items-center">
           <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
           Sectors & Area Categories
         </h3>
 
+        {/* Classification */}
+        {sectorClasses && (
+          <ClassificationLegend classes={sectorClasses} settings={symbology.classification} />
+        )}
+
         {/* Sector Colors */}
         <div className="space-y-2 mb-4 pb-4 border-b border-gray-200">
           <p className="text-xs font-semibold text-gray-600 mb-2">DIVISIONS</p>
@@ -304,7 +234,7 @@ export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCa
                 <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: 0.3 }}></div>
                 <span className="text-gray-700">Small</span>
               </div>
-              <span className="text-gray-500">&lt; 500F</span>
+              <span className="text-gray-500">{areaRanges.small}</span>
             </button>
             <button
               onClick={() => onAreaCategoryChange?.(selectedAreaCategory === 'medium' ? null : 'medium')}
@@ -318,7 +248,7 @@ export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCa
                 <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: 0.5 }}></div>
                 <span className="text-gray-700">Medium</span>
               </div>
-              <span className="text-gray-500">500-1000F</span>
+              <span className="text-gray-500">{areaRanges.medium}</span>
             </button>
             <button
               onClick={() => onAreaCategoryChange?.(selectedAreaCategory === 'large' ? null : 'large')}
@@ -332,7 +262,7 @@ export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCa
                 <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: 0.7 }}></div>
                 <span className="text-gray-700">Large</span>
               </div>
-              <span className="text-gray-500">1-2K F</span>
+              <span className="text-gray-500">{areaRanges.large}</span>
             </button>
             <button
               onClick={() => onAreaCategoryChange?.(selectedAreaCategory === 'very-large' ? null : 'very-large')}
@@ -346,22 +276,62 @@ export default function LeafletMap({ sectorsData, selectedSector, selectedAreaCa
                 <div className="w-4 h-4 rounded border-2 border-dashed border-gray-600" style={{ opacity: 0.9 }}></div>
                 <span className="text-gray-700 font-semibold">V. Large</span>
               </div>
-              <span className="text-gray-500">&gt; 2000F</span>
+              <span className="text-gray-500">{areaRanges['very-large']}</span>
             </button>
           </div>
         </div>
         </div>
       )}
 
+        {/* Action Buttons - Always Visible */}
+        <div className="flex justify-end gap-2 mt-2">
+          {canEdit && <SnapControl />}
+          <FileImport onLayerImport={addImportedLayer} />
+        </div>
+      </div>
+
+      {/* Layer Manager */}
+      <LayerManager
+        layers={importedLayers}
+        {...layerHandlers}
+        onZoomToLayer={zoomToImportedLayer}
+        onTrackPlayback={showTrackPlayback}
+      />
+
       {/* Advanced Drawing Tools */}
-      {mapReady && (
+      {adapter && (
         <AdvancedDrawingTools
-          map={mapRef.current}
+          map={adapter.map}
           onFeatureCreated={onDataUpdate}
           showInstructions={showDrawingInstructions}
           sectorsData={sectorsData}
         />
       )}
+
+      {/* Vertex editing of the selected nemra */}
+      {adapter && (
+        <GeometryEditor
+          map={adapter.map}
+          feature={selectedFeature}
+          onSaved={(feature) => {
+            setSelectedFeature(feature);
+            onDataUpdate?.();
+          }}
+        />
+      )}
+
+      {/* Split and merge of nemras */}
+      {adapter && (
+        <SplitMergeTools
+          adapter={adapter}
+          selectedFeature={selectedFeature}
+          sectorsData={sectorsData}
+          onCompleted={() => {
+            setSelectedFeature(null);
+            onDataUpdate?.();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,27 +1,45 @@
-import type { MapLibrary, SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
+import type { MapLibrary, SectorAttributeData, SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
 import LeafletMap from './LeafletMap';
 import EnhancedMapLibreMap from './EnhancedMapLibreMap';
 import OpenLayersMap from './OpenLayersMap';
+import type { SectorTileSource } from './adapters';
 
 interface MapContainerProps {
   mapLibrary: MapLibrary;
   sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  // Attributes of all sectors (as filtered), for symbology classes
+  sectorAttributes: SectorAttributeData;
   selectedSector: SectorDivision | null;
   selectedAreaCategory?: AreaCategory;
   onAreaCategoryChange?: (category: AreaCategory) => void;
   onFeatureClick?: (feature: SectorFeature) => void;
   onDataUpdate?: () => void;
+  // Vector tiles to draw the sectors from instead of sectorsData's geometry
+  sectorTiles?: SectorTileSource | null;
 }
 
 export default function MapContainer({
   mapLibrary,
   sectorsData,
+  sectorAttributes,
   selectedSector,
   selectedAreaCategory,
   onAreaCategoryChange,
   onFeatureClick,
-  onDataUpdate
+  onDataUpdate,
+  sectorTiles
 }: MapContainerProps) {
+  // Imported layers, symbology, selection and the view are shared through MapSessionProvider
+  const sharedProps = {
+    sectorsData,
+    sectorAttributes,
+    selectedSector,
+    selectedAreaCategory,
+    onAreaCategoryChange,
+    onFeatureClick,
+    sectorTiles,
+  };
+
   return (
     <div className="w-full h-full relative">
       {/* Map Library Indicator */}
@@ -32,11 +50,7 @@ export default function MapContainer({
       {mapLibrary === 'leaflet' && (
         <LeafletMap
           key="leaflet-map"
-          sectorsData={sectorsData}
-          selectedSector={selectedSector}
-          selectedAreaCategory={selectedAreaCategory}
-          onAreaCategoryChange={onAreaCategoryChange}
-          onFeatureClick={onFeatureClick}
+          {...sharedProps}
           onDataUpdate={onDataUpdate}
         />
       )}
@@ -44,22 +58,14 @@ export default function MapContainer({
       {mapLibrary === 'maplibre' && (
         <EnhancedMapLibreMap
           key="maplibre-map"
-          sectorsData={sectorsData}
-          selectedSector={selectedSector}
-          selectedAreaCategory={selectedAreaCategory}
-          onAreaCategoryChange={onAreaCategoryChange}
-          onFeatureClick={onFeatureClick}
+          {...sharedProps}
         />
       )}
 
       {mapLibrary === 'openlayers' && (
         <OpenLayersMap
           key="openlayers-map"
-          sectorsData={sectorsData}
-          selectedSector={selectedSector}
-          selectedAreaCategory={selectedAreaCategory}
-          onAreaCategoryChange={onAreaCategoryChange}
-          onFeatureClick={(props) => onFeatureClick?.({ type: 'Feature', properties: props, geometry: { type: 'Polygon', coordinates: [] } })}
+          {...sharedProps}
         />
       )}
     </div>
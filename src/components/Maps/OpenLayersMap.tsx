@@ -1,48 +1,49 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import 'ol/ol.css';
 import { Map, View } from 'ol';
 import TileLayer from 'ol/layer/Tile';
 import OSM from 'ol/source/OSM';
 import XYZ from 'ol/source/XYZ';
-import VectorLayer from 'ol/layer/Vector';
-import VectorSource from 'ol/source/Vector';
-import GeoJSON from 'ol/format/GeoJSON';
-import { Style, Fill, Stroke } from 'ol/style';
-import Overlay from 'ol/Overlay';
 import { defaults as defaultControls, ScaleLine } from 'ol/control';
 import { fromLonLat } from 'ol/proj';
-import type { Feature } from 'ol';
-import type { Geometry } from 'ol/geom';
-import type { SectorFeatureCollection, SectorDivision, SectorProperties, AreaCategory } from '../../types';
-import { sectorColors, getAreaColor, getPatternStyle } from '../../utils/symbology';
+import type { SectorAttributeData, SectorFeatureCollection, SectorDivision, SectorFeature, AreaCategory } from '../../types';
+import { sectorColors, getAreaCategoryRanges } from '../../utils/symbology';
+import { classifySectors } from '../../utils/classification';
+import { useMapAdapterBindings } from '../../hooks/useMapAdapterBindings';
+import { useMapSession } from '../../context/MapSessionContext';
+import FileImport from './FileImport';
+import LayerManager from './LayerManager';
+import ClassificationLegend from './ClassificationLegend';
+import { createOpenLayersAdapter, type OpenLayersAdapter, type SectorTileSource } from './adapters';
 
 interface OpenLayersMapProps {
   sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  // Attributes of all sectors, which the classes are computed over
+  sectorAttributes: SectorAttributeData;
   selectedSector: SectorDivision | null;
   selectedAreaCategory?: AreaCategory;
   onAreaCategoryChange?: (category: AreaCategory) => void;
-  onFeatureClick?: (feature: SectorProperties) => void;
+  onFeatureClick?: (feature: SectorFeature) => void;
+  // Vector tiles to draw the sectors from instead of sectorsData's geometry
+  sectorTiles?: SectorTileSource | null;
 }
 
-export default function OpenLayersMap({ sectorsData, selectedSector, selectedAreaCategory, onAreaCategoryChange, onFeatureClick }: OpenLayersMapProps) {
+export default function OpenLayersMap({
+  sectorsData,
+  sectorAttributes,
+  selectedSector,
+  selectedAreaCategory,
+  onAreaCategoryChange,
+  onFeatureClick,
+  sectorTiles
+}: OpenLayersMapProps) {
+  const { importedLayers, addImportedLayer, layerHandlers, symbology, sectorLabels, areaThresholds } = useMapSession();
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const popupRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<Map | null>(null);
-  const overlayRef = useRef<Overlay | null>(null);
-  const vectorLayersRef = useRef<VectorLayer<VectorSource>[]>([]);
+  const [adapter, setAdapter] = useState<OpenLayersAdapter | null>(null);
 
   useEffect(() => {
-    if (!mapContainerRef.current || !popupRef.current) return;
-
-    // Create popup overlay
-    overlayRef.current = new Overlay({
-      element: popupRef.current,
-      autoPan: {
-        animation: {
-          duration: 250,
-        },
-      },
-    });
+    if (!mapContainerRef.current) return;
 
     // Define base layers
     const osmLayer = new TileLayer({
@@ -87,7 +88,6 @@ export default function OpenLayersMap({ sectorsData, selectedSector, selectedAre
           units: 'metric',
         }),
       ]),
-      overlays: [overlayRef.current],
     });
 
     // Add basemap switcher
@@ -121,167 +121,54 @@ export default function OpenLayersMap({ sectorsData, selectedSector, selectedAre
 
     mapRef.current.getTargetElement().appendChild(basemapControl);
 
-    // Enhanced click handler with modern popup
-    mapRef.current.on('click', (evt) => {
-      const feature = mapRef.current!.forEachFeatureAtPixel(evt.pixel, (feature) => feature);
-
-      if (feature) {
-        const props = feature.getProperties() as SectorProperties;
-        const geometry = feature.getGeometry();
-        const area = props.Design_A_F || 0;
-
-        if (!geometry) return;
-
-        // Find sector color
-        const division = props.Division as SectorDivision;
-        const sectorColor = sectorColors[division] || sectorColors.East;
-
-        const popupContent = `
-          <div class="bg-white rounded-lg shadow-lg min-w-[250px] overflow-hidden">
-            <button class="popup-closer absolute top-2 right-2 text-white hover:text-gray-200 z-10">&times;</button>
-            <div class="p-3 text-white" style="background: ${sectorColor.gradient};">
-              <h3 class="font-bold text-lg mb-1">${props.Canal_Name || 'N/A'}</h3>
-              <p class="text-sm opacity-90 arabic-text" style="font-family: 'Cairo', sans-serif; direction: rtl;">${props.Name_AR || ''}</p>
-            </div>
-            <div class="p-3">
-              <div class="grid grid-cols-2 gap-2 text-sm mb-3">
-                <div class="bg-gray-50 p-2 rounded">
-                  <p class="text-xs text-gray-500 uppercase">Division</p>
-                  <p class="font-semibold text-gray-800">${props.Division || 'N/A'}</p>
-                </div>
-                <div class="bg-gray-50 p-2 rounded">
-                  <p class="text-xs text-gray-500 uppercase">Office</p>
-                  <p class="font-semibold text-gray-800">${props.Office || 'N/A'}</p>
-                </div>
-              </div>
-              <div class="space-y-2 text-sm border-t pt-2">
-                <div class="flex justify-between items-center">
-                  <span class="text-gray-600">Nemra No:</span>
-                  <span class="font-semibold text-gray-800">${props.No_Nemra || 'N/A'}</span>
-                </div>
-                <div class="flex justify-between items-center">
-                  <span class="text-gray-600">Design Area:</span>
-                  <span class="font-semibold text-gray-800">${props.Design_A_F || 'N/A'} Feddan</span>
-                </div>
-                ${area > 2000 ? '<div class="mt-2 px-2 py-1 bg-amber-100 text-amber-800 rounded text-xs font-medium">🏆 Very Large Plot</div>' : ''}
-                ${props.Remarks_1 ? `<p class="text-xs italic mt-2 p-2 bg-blue-50 rounded text-gray-700">${props.Remarks_1}</p>` : ''}
-              </div>
-            </div>
-          </div>
-        `;
-
-        if (popupRef.current) {
-          popupRef.current.innerHTML = popupContent;
-          overlayRef.current?.setPosition(evt.coordinate);
-
-          // Close button handler
-          const closer = popupRef.current.querySelector('.popup-closer');
-          if (closer) {
-            closer.addEventListener('click', () => {
-              overlayRef.current?.setPosition(undefined);
-            });
-          }
-        }
-
-        if (onFeatureClick) {
-          onFeatureClick(props);
-        }
-      } else {
-        overlayRef.current?.setPosition(undefined);
-      }
-    });
-
-    // Change cursor on hover
-    mapRef.current.on('pointermove', (evt) => {
-      const pixel = mapRef.current!.getEventPixel(evt.originalEvent);
-      const hit = mapRef.current!.hasFeatureAtPixel(pixel);
-      mapRef.current!.getTargetElement().style.cursor = hit ? 'pointer' : '';
-    });
+    const olAdapter = createOpenLayersAdapter(mapRef.current);
+    setAdapter(olAdapter);
 
     return () => {
+      olAdapter.destroy();
+      setAdapter(null);
       if (mapRef.current) {
         mapRef.current.setTarget(undefined);
         mapRef.current = null;
       }
     };
-  }, [onFeatureClick]);
-
-  useEffect(() => {
-    if (!mapRef.current) return;
-
-    // Remove existing vector layers
-    vectorLayersRef.current.forEach((layer) => {
-      mapRef.current!.removeLayer(layer);
-    });
-    vectorLayersRef.current = [];
-
-    const allFeatures: any[] = [];
-
-    // Add sector layers with enhanced styling
-    Object.entries(sectorsData).forEach(([division, data]) => {
-      if (!data) return;
-      if (selectedSector && division !== selectedSector) return;
-
-      const sectorColor = sectorColors[division as SectorDivision];
-
-      const vectorSource = new VectorSource({
-        features: new GeoJSON().readFeatures(data, {
-          featureProjection: 'EPSG:3857',
-        }),
-      });
-
-      const vectorLayer = new VectorLayer({
-        source: vectorSource,
-        style: (feature: Feature<Geometry>) => {
-          const props = feature.getProperties() as SectorProperties;
-          const area = props.Design_A_F || 0;
-          const style = getPatternStyle(props);
-
-          return new Style({
-            fill: new Fill({
-              color: getAreaColor(area, sectorColor.primary),
-            }),
-            stroke: new Stroke({
-              color: sectorColor.dark,
-              width: style.strokeWidth,
-              lineDash: area > 2000 ? [5, 5] : undefined,
-            }),
-          });
-        },
-      });
-
-      mapRef.current!.addLayer(vectorLayer);
-      vectorLayersRef.current.push(vectorLayer);
-
-      allFeatures.push(...vectorSource.getFeatures());
-    });
-
-    // Fit to extent
-    if (allFeatures.length > 0) {
-      const extent = vectorLayersRef.current[0].getSource()?.getExtent();
-      if (extent) {
-        mapRef.current!.getView().fit(extent, {
-          padding: [50, 50, 50, 50],
-          duration: 1000,
-        });
-      }
-    }
-  }, [sectorsData, selectedSector, onFeatureClick]);
+  }, []);
+
+  // Sectors, imported layers, highlight and the shared viewport
+  // Symbology, classes and labels are shared with the other engines through the session;
+  // classes cover all sectors so colours stay put when the map is panned
+  const sectorClasses = useMemo(
+    () => classifySectors(sectorAttributes, symbology.classification),
+    [sectorAttributes, symbology.classification]
+  );
+  const { zoomToImportedLayer, showTrackPlayback } = useMapAdapterBindings(adapter, sectorsData, {
+    selectedSector,
+    symbology,
+    classes: sectorClasses,
+    areaThresholds,
+    labels: sectorLabels,
+    tiles: sectorTiles,
+    attributes: sectorAttributes,
+  }, onFeatureClick);
+  const areaRanges = getAreaCategoryRanges(areaThresholds);
 
   return (
     <div className="relative w-full h-full">
       <div ref={mapContainerRef} className="w-full h-full" />
 
-      {/* Popup container */}
-      <div ref={popupRef} className="absolute z-10" />
-
+      <div className="absolute top-4 right-4 z-10">
       {/* Enhanced Legend */}
-      <div className="absolute top-4 right-4 bg-white rounded-lg shadow-xl p-4 z-10 border border-gray-200">
+      <div className="bg-white rounded-lg shadow-xl p-4 border border-gray-200">
         <h3 className="font-bold text-sm mb-3 text-gray-800 flex items-center">
           <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
           Sectors & Area Categories
         </h3>
 
+        {/* Classification */}
+        {sectorClasses && (
+          <ClassificationLegend classes={sectorClasses} settings={symbology.classification} />
+        )}
+
         {/* Sector Colors */}
         <div className="space-y-2 mb-4 pb-4 border-b border-gray-200">
           <p className="text-xs font-semibold text-gray-600 mb-2">DIVISIONS</p>
@@ -325,7 +212,7 @@ export default function OpenLayersMap({ sectorsData, selectedSector, selectedAre
                 <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: 0.3 }}></div>
                 <span className="text-gray-700">Small</span>
               </div>
-              <span className="text-gray-500">&lt; 500F</span>
+              <span className="text-gray-500">{areaRanges.small}</span>
             </button>
             <button
               onClick={() => onAreaCategoryChange?.(selectedAreaCategory === 'medium' ? null : 'medium')}
@@ -339,7 +226,7 @@ export default function OpenLayersMap({ sectorsData, selectedSector, selectedAre
                 <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: 0.5 }}></div>
                 <span className="text-gray-700">Medium</span>
               </div>
-              <span className="text-gray-500">500-1000F</span>
+              <span className="text-gray-500">{areaRanges.medium}</span>
             </button>
             <button
               onClick={() => onAreaCategoryChange?.(selectedAreaCategory === 'large' ? null : 'large')}
@@ -353,7 +240,7 @@ export default function OpenLayersMap({ sectorsData, selectedSector, selectedAre
                 <div className="w-4 h-4 rounded border border-gray-300" style={{ opacity: 0.7 }}></div>
                 <span className="text-gray-700">Large</span>
               </div>
-              <span className="text-gray-500">1-2K F</span>
+              <span className="text-gray-500">{areaRanges.large}</span>
             </button>
             <button
               onClick={() => onAreaCategoryChange?.(selectedAreaCategory === 'very-large' ? null : 'very-large')}
@@ -367,11 +254,25 @@ export default function OpenLayersMap({ sectorsData, selectedSector, selectedAre
                 <div className="w-4 h-4 rounded border-2 border-dashed border-gray-600" style={{ opacity: 0.9 }}></div>
                 <span className="text-gray-700 font-semibold">V. Large</span>
               </div>
-              <span className="text-gray-500">&gt; 2000F</span>
+              <span className="text-gray-500">{areaRanges['very-large']}</span>
             </button>
           </div>
         </div>
       </div>
+
+        {/* Action Buttons - Always Visible */}
+        <div className="flex justify-end gap-2 mt-2">
+          <FileImport onLayerImport={addImportedLayer} />
+        </div>
+      </div>
+
+      {/* Layer Manager */}
+      <LayerManager
+        layers={importedLayers}
+        {...layerHandlers}
+        onZoomToLayer={zoomToImportedLayer}
+        onTrackPlayback={showTrackPlayback}
+      />
     </div>
   );
 }
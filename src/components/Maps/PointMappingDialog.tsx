@@ -0,0 +1,151 @@
+import { useMemo, useState } from 'react';
+import { builtInCRS } from '../../utils/crs';
+import { spreadsheetToPoints, type PointMapping, type SpreadsheetTable } from '../../utils/spreadsheetImport';
+
+interface PointMappingDialogProps {
+  fileName: string;
+  table: SpreadsheetTable;
+  initialMapping: PointMapping | null;
+  onConfirm: (mapping: PointMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export default function PointMappingDialog({ fileName, table, initialMapping, onConfirm, onCancel }: PointMappingDialogProps) {
+  const [mapping, setMapping] = useState<PointMapping>(initialMapping ?? {
+    xColumn: table.headers[0] ?? '',
+    yColumn: table.headers[1] ?? table.headers[0] ?? '',
+    crs: builtInCRS[0].code,
+  });
+
+  const result = useMemo(() => {
+    try {
+      return spreadsheetToPoints(table, mapping);
+    } catch {
+      return null;
+    }
+  }, [table, mapping]);
+
+  const validCount = result?.data.features.length ?? 0;
+  const preview = result?.data.features.slice(0, PREVIEW_ROWS) ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[3000] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold">Point Coordinates</h2>
+            <p className="text-sm opacity-90 truncate">{fileName} • {table.rows.length} rows</p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-white/20 rounded-lg transition"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!initialMapping && (
+          <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+            No coordinate columns were recognised. Choose the X and Y columns below.
+          </div>
+        )}
+
+        <div className="p-6 space-y-6">
+          {/* Column Mapping */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">X / Longitude / Easting</label>
+              <select
+                value={mapping.xColumn}
+                onChange={(e) => setMapping({ ...mapping, xColumn: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Y / Latitude / Northing</label>
+              <select
+                value={mapping.yColumn}
+                onChange={(e) => setMapping({ ...mapping, yColumn: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Coordinate system</label>
+              <select
+                value={mapping.crs}
+                onChange={(e) => setMapping({ ...mapping, crs: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {builtInCRS.map(crs => <option key={crs.code} value={crs.code}>{crs.name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              Preview <span className="font-normal text-gray-500">({validCount} of {table.rows.length} rows have valid coordinates)</span>
+            </h3>
+            {preview.length > 0 ? (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold">Longitude</th>
+                      <th className="px-3 py-2 text-left font-semibold">Latitude</th>
+                      {table.headers.filter(h => h !== mapping.xColumn && h !== mapping.yColumn).slice(0, 4).map(header => (
+                        <th key={header} className="px-3 py-2 text-left font-semibold">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.map((feature, index) => {
+                      const [lng, lat] = (feature.geometry as GeoJSON.Point).coordinates;
+                      return (
+                        <tr key={index}>
+                          <td className="px-3 py-1.5 font-mono">{lng.toFixed(6)}</td>
+                          <td className="px-3 py-1.5 font-mono">{lat.toFixed(6)}</td>
+                          {Object.values(feature.properties ?? {}).slice(0, 4).map((value, i) => (
+                            <td key={i} className="px-3 py-1.5 text-gray-700 truncate max-w-[10rem]">{String(value ?? '')}</td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-red-600">No row has valid coordinates with these columns and coordinate system.</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+            <button
+              onClick={onCancel}
+              className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition text-gray-700 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(mapping)}
+              disabled={validCount === 0}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium disabled:opacity-50"
+            >
+              Import {validCount} points
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
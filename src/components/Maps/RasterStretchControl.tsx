@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { COLOR_RAMPS, getRampGradient, type ColorRampName } from '../../utils/colorRamps';
+import type { ImportedLayer, RasterData } from '../../utils/fileImport';
+import {
+  HISTOGRAM_BINS,
+  STRETCH_MODES,
+  defaultStretch,
+  getBandHistogram,
+  getStretchRange,
+  getStretchValues,
+  type RasterStretch,
+  type StretchMode,
+} from '../../utils/rasterStretch';
+
+interface RasterStretchControlProps {
+  layer: ImportedLayer;
+  onChangeStretch: (layerId: string, stretch: RasterStretch) => void;
+  onChangeColorRamp: (layerId: string, ramp: ColorRampName | null) => void;
+}
+
+const PARAMETERS: Record<Exclude<StretchMode, 'minmax'>, { key: 'percentile' | 'stdDevs'; min: number; max: number; step: number; format: (value: number) => string }> = {
+  percentile: { key: 'percentile', min: 0, max: 10, step: 0.5, format: (value) => `${value}% clipped each end` },
+  stddev: { key: 'stdDevs', min: 0.5, max: 4, step: 0.25, format: (value) => `mean ± ${value}σ` },
+};
+
+const formatValue = (value: number) => (Math.abs(value) >= 1000 || Number.isInteger(value) ? value.toFixed(0) : value.toPrecision(3));
+
+/**
+ * Stretch of a raster layer: min–max, percentile clip or standard deviation, shown on each
+ * displayed band's histogram, and a colour ramp for single-band display
+ */
+export default function RasterStretchControl({ layer, onChangeStretch, onChangeColorRamp }: RasterStretchControlProps) {
+  const raster = layer.data as RasterData;
+  const stretch = layer.stretch ?? defaultStretch;
+  // Slider position while dragging; the image is only rebuilt on release
+  const [draft, setDraft] = useState<RasterStretch | null>(null);
+  const shown = draft ?? stretch;
+  const fixedRange = layer.colorRamp && layer.rampRange ? layer.rampRange : null;
+
+  const rgb = layer.displayMode === 'rgb' && raster.numBands >= 3;
+  const bands = rgb
+    ? [
+        { index: layer.redBand ?? 0, color: '#dc2626' },
+        { index: layer.greenBand ?? 1, color: '#16a34a' },
+        { index: layer.blueBand ?? 2, color: '#2563eb' },
+      ]
+    : [{ index: layer.grayscaleBand ?? 0, color: '#4b5563' }];
+
+  const commit = (next: RasterStretch) => {
+    setDraft(null);
+    onChangeStretch(layer.id, next);
+  };
+
+  const parameter = shown.mode === 'minmax' ? null : PARAMETERS[shown.mode];
+
+  return (
+    <div className="pt-3 border-t border-gray-100">
+      <p className="text-xs font-semibold text-gray-600 mb-2">STRETCH</p>
+
+      <div className="grid grid-cols-3 gap-1 mb-2">
+        {STRETCH_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => commit({ ...stretch, mode })}
+            className={`px-2 py-1.5 text-xs font-medium rounded transition-colors ${
+              !fixedRange && stretch.mode === mode ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {fixedRange ? (
+        <p className="text-[10px] text-gray-500 mb-2">Fixed range from the band math preset; choose a stretch to fit the data instead.</p>
+      ) : parameter && (
+        <div className="mb-2">
+          <label className="block text-xs text-gray-500 mb-1">{parameter.format(shown[parameter.key])}</label>
+          <input
+            type="range"
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            value={shown[parameter.key]}
+            onChange={(e) => setDraft({ ...shown, [parameter.key]: parseFloat(e.target.value) })}
+            onPointerUp={() => draft && commit(draft)}
+            onKeyUp={() => draft && commit(draft)}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {/* Histograms of the displayed bands, with the stretched range shaded */}
+      {bands.map(({ index, color }) => {
+        const values = getStretchValues(raster, index);
+        if (!values) return null;
+        const histogram = getBandHistogram(values, raster.noData);
+        if (histogram.total === 0) {
+          return <p key={index} className="text-xs text-gray-500 mb-2">Band {index + 1} has no valid pixels</p>;
+        }
+
+        const [low, high] = fixedRange ?? getStretchRange(histogram, shown);
+        const span = histogram.binMax - histogram.binMin || 1;
+        const position = (value: number) => Math.max(0, Math.min(HISTOGRAM_BINS, ((value - histogram.binMin) / span) * HISTOGRAM_BINS));
+        // Square root so a few tall bins (e.g. a flat background) do not flatten the rest
+        const peak = Math.sqrt(Math.max(...histogram.counts));
+        const noDataCount = values.length - histogram.total;
+
+        return (
+          <div key={index} className="mb-2">
+            <svg viewBox={`0 0 ${HISTOGRAM_BINS} 40`} preserveAspectRatio="none" className="w-full h-10 bg-gray-50 rounded border border-gray-200">
+              <rect x={position(low)} width={Math.max(1, position(high) - position(low))} y={0} height={40} fill={color} opacity={0.12} />
+              {Array.from(histogram.counts, (count, bin) => count > 0 && (
+                <rect key={bin} x={bin} width={1} y={40 - (Math.sqrt(count) / peak) * 38} height={(Math.sqrt(count) / peak) * 38} fill={color} />
+              ))}
+              <line x1={position(low)} x2={position(low)} y1={0} y2={40} stroke="#111827" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              <line x1={position(high)} x2={position(high)} y1={0} y2={40} stroke="#111827" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-500 font-mono">
+              <span>{formatValue(low)}</span>
+              <span>
+                Band {index + 1}
+                {raster.cog ? ' (overview)' : ''}
+                {noDataCount > 0 ? ` · ${noDataCount.toLocaleString()} nodata` : ''}
+              </span>
+              <span>{formatValue(high)}</span>
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Pseudo-colour for single-band display */}
+      {!rgb && (
+        <>
+          <label className="block text-xs text-gray-500 mb-1">Colour ramp:</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={layer.colorRamp ?? ''}
+              onChange={(e) => onChangeColorRamp(layer.id, (e.target.value || null) as ColorRampName | null)}
+              className="flex-1 px-2 py-1.5 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">None (grayscale)</option>
+              {(Object.keys(COLOR_RAMPS) as ColorRampName[]).map(name => (
+                <option key={name} value={name}>{COLOR_RAMPS[name].label}</option>
+              ))}
+            </select>
+            {layer.colorRamp && (
+              <div className="w-16 h-4 rounded border border-gray-200" style={{ background: getRampGradient(layer.colorRamp) }} />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
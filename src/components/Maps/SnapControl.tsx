@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useMapSession } from '../../context/MapSessionContext';
+import type { SnapSettings } from '../../utils/snapping';
+
+interface SnapControlProps {
+  // Which way the settings panel opens from the button
+  align?: 'left' | 'right';
+  // For engines without polygon drawing and vertex editing, where only measurement points snap
+  measurementOnly?: boolean;
+}
+
+export default function SnapControl({ align = 'right', measurementOnly = false }: SnapControlProps) {
+  const { snapSettings, setSnapSettings } = useMapSession();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (updates: Partial<SnapSettings>) => {
+    setSnapSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  const checkbox = (field: keyof SnapSettings, label: string) => (
+    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={snapSettings[field] as boolean}
+        onChange={(e) => update({ [field]: e.target.checked })}
+        disabled={field !== 'enabled' && !snapSettings.enabled}
+        className="rounded text-purple-600 focus:ring-purple-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 py-2 rounded-lg shadow-lg border text-sm font-medium flex items-center gap-2 transition-all ${
+          snapSettings.enabled
+            ? 'bg-purple-600 hover:bg-purple-700 text-white border-purple-700'
+            : 'bg-white hover:bg-gray-50 text-gray-700 border-gray-200'
+        }`}
+        title="Snapping settings"
+      >
+        <span>🧲</span>
+        <span>Snap {snapSettings.enabled ? 'ON' : 'OFF'}</span>
+      </button>
+
+      {/* Settings Panel */}
+      {isOpen && (
+        <div className={`absolute top-full mt-2 ${align === 'right' ? 'right-0' : 'left-0'} bg-white rounded-xl shadow-2xl border border-gray-200 p-4 w-64 z-[1100]`}>
+          <div className="flex items-center justify-between mb-3 pb-2 border-b border-gray-100">
+            <h3 className="font-bold text-gray-900 text-sm">🧲 Snapping</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-gray-400 hover:text-gray-700 hover:bg-gray-100 p-1 rounded-lg transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {checkbox('enabled', measurementOnly ? 'Snap measurement points' : 'Snap while drawing and editing')}
+            {measurementOnly && (
+              <p className="text-xs text-gray-500">
+                This map engine has no polygon drawing or vertex editing; switch to Leaflet to draw and edit with snapping.
+              </p>
+            )}
+
+            <div>
+              <p className="text-xs font-semibold text-gray-600 mb-1">SNAP TO</p>
+              <div className="space-y-1">
+                {checkbox('vertex', 'Vertices')}
+                {checkbox('edge', 'Edges')}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-600 mb-1">LAYERS</p>
+              <div className="space-y-1">
+                {checkbox('sectors', 'Sector layers')}
+                {checkbox('importedLayers', 'Imported vector layers')}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs font-semibold text-gray-600 block mb-1">
+                TOLERANCE: {snapSettings.tolerance}px
+              </label>
+              <input
+                type="range"
+                min="2"
+                max="40"
+                step="1"
+                value={snapSettings.tolerance}
+                onChange={(e) => update({ tolerance: parseInt(e.target.value) })}
+                disabled={!snapSettings.enabled}
+                className="w-full"
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              <span className="inline-block w-2.5 h-2.5 rounded-full bg-fuchsia-600 align-middle mr-1"></span>vertex
+              <span className="inline-block w-2.5 h-2.5 rounded-full border-2 border-fuchsia-600 align-middle mx-1 ml-3"></span>edge
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
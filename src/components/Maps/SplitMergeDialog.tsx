@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { GeoJSONGeometry, SectorDivision, SectorFeature, SectorFeatureCollection } from '../../types';
+import type { SectorAttributes } from '../../services/api';
+import { measureSectorGeometry } from '../../utils/sectorGeometry';
+
+export type SplitMergeMode = 'split' | 'merge';
+
+export type SplitMergeResult =
+  | { mode: 'split'; children: Array<{ geometry: GeoJSONGeometry; attributes: SectorAttributes }> }
+  | { mode: 'merge'; attributes: SectorAttributes };
+
+interface SplitMergeDialogProps {
+  mode: SplitMergeMode;
+  parents: SectorFeature[];
+  // Split: the pieces of the parent (largest first). Merge: the single merged shape.
+  geometries: GeoJSONGeometry[];
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  saving: boolean;
+  error: string | null;
+  onClose: () => void;
+  onConfirm: (result: SplitMergeResult) => void;
+}
+
+interface PieceForm {
+  no_nemra: string;
+  canal_name: string;
+}
+
+type DesignAreaMode = 'inherit' | 'measured';
+
+export default function SplitMergeDialog({
+  mode,
+  parents,
+  geometries,
+  sectorsData,
+  saving,
+  error,
+  onClose,
+  onConfirm,
+}: SplitMergeDialogProps) {
+  const measurements = useMemo(() => geometries.map(measureSectorGeometry), [geometries]);
+  const totalArea = measurements.reduce((sum, m) => sum + m.shapeArea, 0);
+  const parent = parents[0];
+
+  // Next free nemra numbers in the parent's office, for the pieces that need a new one
+  const freeNemraNumbers = useMemo(() => {
+    const used = new Set<number>();
+    Object.values(sectorsData).forEach(data => {
+      data?.features.forEach(feature => {
+        if (feature.properties.Office === parent.properties.Office && feature.properties.Division === parent.properties.Division) {
+          used.add(Number(feature.properties.No_Nemra));
+        }
+      });
+    });
+
+    const result: number[] = [];
+    for (let candidate = Math.max(0, ...used) + 1; result.length < geometries.length; candidate++) {
+      if (!used.has(candidate)) result.push(candidate);
+    }
+    return result;
+  }, [sectorsData, parent, geometries.length]);
+
+  const [pieces, setPieces] = useState<PieceForm[]>([]);
+  const [keepIndex, setKeepIndex] = useState(0);
+  const [designAreaMode, setDesignAreaMode] = useState<DesignAreaMode>('inherit');
+
+  // The largest piece keeps the parent's number, the others get the next free ones
+  useEffect(() => {
+    setPieces(geometries.map((_, index) => ({
+      no_nemra: String(index === 0 ? parent.properties.No_Nemra ?? '' : freeNemraNumbers[index - 1]),
+      canal_name: parent.properties.Canal_Name || '',
+    })));
+    setKeepIndex(0);
+    setDesignAreaMode('inherit');
+  }, [geometries, parent, freeNemraNumbers]);
+
+  const designAreaFor = (index: number) => {
+    if (designAreaMode === 'measured') return measurements[index].feddan;
+    if (mode === 'merge') {
+      return parents.reduce((sum, p) => sum + (Number(p.properties.Design_A_F) || 0), 0);
+    }
+    // Prorate the parent's design area by each piece's share of the measured area
+    return (Number(parent.properties.Design_A_F) || 0) * (measurements[index].shapeArea / totalArea);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (mode === 'split') {
+      onConfirm({
+        mode: 'split',
+        children: geometries.map((geometry, index) => ({
+          geometry,
+          attributes: {
+            no_nemra: pieces[index]?.no_nemra ? parseInt(pieces[index].no_nemra) : null,
+            canal_name: pieces[index]?.canal_name,
+            design_a_f: designAreaFor(index),
+          },
+        })),
+      });
+      return;
+    }
+
+    const kept = parents[keepIndex].properties;
+    onConfirm({
+      mode: 'merge',
+      attributes: {
+        no_nemra: kept.No_Nemra,
+        canal_name: kept.Canal_Name,
+        office: kept.Office,
+        division: kept.Division,
+        name_ar: kept.Name_AR,
+        remarks_1: kept.Remarks_1,
+        design_a_f: designAreaFor(0),
+      },
+    });
+  };
+
+  const handlePieceChange = (index: number, field: keyof PieceForm, value: string) => {
+    setPieces(prev => prev.map((piece, i) => (i === index ? { ...piece, [field]: value } : piece)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[3000] flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-green-600 to-blue-600 text-white px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold">{mode === 'split' ? 'Split Nemra' : 'Merge Nemras'}</h2>
+            <p className="text-sm opacity-90">
+              {mode === 'split'
+                ? `${parent.properties.Canal_Name || 'N/A'} · No. ${parent.properties.No_Nemra ?? 'N/A'} into ${geometries.length} pieces`
+                : `${parents.length} adjacent nemras into one`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+          {/* Split: attributes per piece */}
+          {mode === 'split' && pieces.length === geometries.length && geometries.map((_, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-800">Piece {index + 1}</h3>
+                <span className="text-sm text-gray-600">
+                  {measurements[index].feddan.toFixed(2)} Feddan measured · {designAreaFor(index).toFixed(2)} Feddan design
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Nemra Number</label>
+                  <input
+                    type="number"
+                    value={pieces[index].no_nemra}
+                    onChange={(e) => handlePieceChange(index, 'no_nemra', e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Canal Name</label>
+                  <input
+                    type="text"
+                    value={pieces[index].canal_name}
+                    onChange={(e) => handlePieceChange(index, 'canal_name', e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {/* Merge: which parent's attributes the result keeps */}
+          {mode === 'merge' && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Keep attributes of</label>
+              <div className="space-y-2">
+                {parents.map((p, index) => (
+                  <label key={index} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="radio"
+                      name="keep"
+                      checked={keepIndex === index}
+                      onChange={() => setKeepIndex(index)}
+                    />
+                    <span className="text-sm text-gray-800">
+                      {p.properties.Canal_Name || 'N/A'} · No. {p.properties.No_Nemra ?? 'N/A'} · {p.properties.Office}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-500">{(Number(p.properties.Design_A_F) || 0).toFixed(2)} F</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-sm text-gray-600 mt-2">
+                Merged area: {measurements[0].feddan.toFixed(2)} Feddan measured · {designAreaFor(0).toFixed(2)} Feddan design
+              </p>
+            </div>
+          )}
+
+          {/* Design Area */}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Design Area (Feddan)</label>
+            <select
+              value={designAreaMode}
+              onChange={(e) => setDesignAreaMode(e.target.value as DesignAreaMode)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="inherit">
+                {mode === 'split' ? "Prorate the parent's design area by piece area" : "Sum of the parents' design areas"}
+              </option>
+              <option value="measured">Use the measured area</option>
+            </select>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {/* Buttons */}
+          <div className="flex items-center justify-end gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition text-gray-700 font-medium disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : mode === 'split' ? '✂️ Split' : '🔗 Merge'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
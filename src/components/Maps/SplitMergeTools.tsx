@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet-draw';
+import type { GeoJSONGeometry, SectorDivision, SectorFeature, SectorFeatureCollection } from '../../types';
+import type { LeafletAdapter } from './adapters';
+import { useAuth } from '../../context/AuthContext';
+import { SectorConflictError, sectorsAPI } from '../../services/api';
+import { getNemraId } from '../../utils/permalink';
+import { splitPolygonByLine, mergePolygons, SPLIT_LINE_TYPE } from '../../utils/sectorGeometry';
+import SplitMergeDialog, { type SplitMergeMode, type SplitMergeResult } from './SplitMergeDialog';
+
+interface SplitMergeToolsProps {
+  adapter: LeafletAdapter;
+  selectedFeature: SectorFeature | null;
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>;
+  onCompleted?: () => void;
+}
+
+const previewStyle: L.PathOptions = {
+  color: '#7c3aed',
+  weight: 3,
+  dashArray: '6, 4',
+  fillColor: '#7c3aed',
+  fillOpacity: 0.2,
+};
+
+export default function SplitMergeTools({ adapter, selectedFeature, sectorsData, onCompleted }: SplitMergeToolsProps) {
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(['admin', 'editor']);
+  const map = adapter.map;
+
+  const [mode, setMode] = useState<SplitMergeMode | null>(null);
+  const [mergeSelection, setMergeSelection] = useState<SectorFeature[]>([]);
+  const [pieces, setPieces] = useState<GeoJSONGeometry[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hint, setHint] = useState('');
+  const previewRef = useRef<L.FeatureGroup | null>(null);
+  const drawHandlerRef = useRef<L.Draw.Polyline | null>(null);
+  // Nemra the split in progress was started on
+  const splitIdRef = useRef<number | null>(null);
+
+  const clearPreview = useCallback(() => {
+    if (previewRef.current) {
+      map.removeLayer(previewRef.current);
+      previewRef.current = null;
+    }
+  }, [map]);
+
+  const showPreview = useCallback((geometries: GeoJSONGeometry[]) => {
+    clearPreview();
+    previewRef.current = L.featureGroup(
+      geometries.map(geometry => L.geoJSON(geometry as GeoJSON.Geometry, { style: previewStyle }))
+    ).addTo(map);
+  }, [map, clearPreview]);
+
+  const reset = useCallback(() => {
+    drawHandlerRef.current?.disable();
+    drawHandlerRef.current = null;
+    clearPreview();
+    setMode(null);
+    setMergeSelection([]);
+    setPieces(null);
+    setError(null);
+    setHint('');
+  }, [clearPreview]);
+
+  // Tear down on unmount
+  useEffect(() => reset, [reset]);
+
+  // Split: cut the selected nemra along the drawn line
+  useEffect(() => {
+    if (mode !== 'split' || !selectedFeature) return;
+
+    const onCreated: L.LeafletEventHandlerFn = (event) => {
+      const e = event as L.DrawEvents.Created;
+      if (e.layerType !== SPLIT_LINE_TYPE) return;
+
+      const line = (e.layer as L.Polyline).toGeoJSON().geometry.coordinates as [number, number][];
+      const result = splitPolygonByLine(selectedFeature.geometry, line);
+
+      if (result.length < 2) {
+        setHint('⚠️ The line must cross the nemra from one edge to another. Draw it again.');
+        drawHandlerRef.current?.enable();
+        return;
+      }
+
+      console.log(`✂️ Nemra ${selectedFeature.properties.No_Nemra} cut into ${result.length} pieces`);
+      showPreview(result);
+      setPieces(result);
+      setHint('');
+    };
+
+    map.on(L.Draw.Event.CREATED, onCreated);
+    return () => {
+      map.off(L.Draw.Event.CREATED, onCreated);
+    };
+  }, [map, mode, selectedFeature, showPreview]);
+
+  // Merge: clicking nemras toggles them in the selection
+  useEffect(() => {
+    if (mode !== 'merge') return;
+
+    const unsubscribe = adapter.onFeatureClick((feature) => {
+      map.closePopup();
+      const id = getNemraId(feature);
+      setMergeSelection(prev => (
+        prev.some(f => getNemraId(f) === id)
+          ? prev.filter(f => getNemraId(f) !== id)
+          : [...prev, feature]
+      ));
+    });
+
+    return unsubscribe;
+  }, [adapter, map, mode]);
+
+  useEffect(() => {
+    if (mode !== 'merge') return;
+    if (mergeSelection.length > 0) {
+      showPreview(mergeSelection.map(f => f.geometry));
+    } else {
+      clearPreview();
+    }
+  }, [mode, mergeSelection, showPreview, clearPreview]);
+
+  // Another nemra selected mid-split: start over
+  const selectedId = selectedFeature ? getNemraId(selectedFeature) : null;
+  useEffect(() => {
+    if (mode === 'split' && selectedId !== splitIdRef.current) reset();
+  }, [mode, selectedId, reset]);
+
+  const startSplit = () => {
+    if (!selectedFeature) return;
+    if (getNemraId(selectedFeature) === null) {
+      setHint('⚠️ This nemra has no database id. Load data from the server to split it.');
+      return;
+    }
+    if (selectedFeature.simplified) {
+      setHint('⚠️ This outline is simplified for the zoom level. Zoom in until it loads in full, then select the nemra again.');
+      return;
+    }
+
+    reset();
+    splitIdRef.current = getNemraId(selectedFeature);
+    setMode('split');
+    setHint('✂️ Draw a line across the nemra. Double-click to finish.');
+
+    const handler = new L.Draw.Polyline(map as L.DrawMap, { shapeOptions: { color: '#7c3aed', weight: 3 } });
+    // The handler fires draw:created with its type as layerType
+    (handler as unknown as { type: string }).type = SPLIT_LINE_TYPE;
+    handler.enable();
+    drawHandlerRef.current = handler;
+  };
+
+  const startMerge = () => {
+    reset();
+    setMode('merge');
+    setHint('🔗 Click adjacent nemras to select them for merging.');
+  };
+
+  const mergedGeometry = mode === 'merge' && mergeSelection.length >= 2
+    ? mergePolygons(mergeSelection.map(f => f.geometry))
+    : null;
+
+  const openMergeDialog = () => {
+    if (mergeSelection.some(f => getNemraId(f) === null)) {
+      setHint('⚠️ Some selected nemras have no database id. Load data from the server to merge them.');
+      return;
+    }
+    if (mergeSelection.some(f => f.simplified)) {
+      setHint('⚠️ Some selected outlines are simplified for the zoom level. Zoom in until they load in full, then select them again.');
+      return;
+    }
+    if (!mergedGeometry) {
+      setHint('⚠️ The selected nemras are not adjacent.');
+      return;
+    }
+    setPieces([mergedGeometry]);
+  };
+
+  const parents = useMemo(
+    () => (mode === 'split' ? (selectedFeature ? [selectedFeature] : []) : mergeSelection),
+    [mode, selectedFeature, mergeSelection]
+  );
+
+  const handleConfirm = async (result: SplitMergeResult) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      // The versions the nemras were loaded with; changed ones make the backend refuse the edit
+      const response = result.mode === 'split'
+        ? await sectorsAPI.split(getNemraId(selectedFeature!)!, result.children, selectedFeature!.properties.updated_at ?? null)
+        : await sectorsAPI.merge(
+            mergeSelection.map(f => getNemraId(f)!),
+            result.attributes,
+            Object.fromEntries(mergeSelection.map(f => [getNemraId(f)!, f.properties.updated_at ?? null]))
+          );
+
+      if (response.success) {
+        console.log(`✅ ${result.mode === 'split' ? 'Split' : 'Merge'} saved:`, response.data);
+        reset();
+        onCompleted?.();
+      }
+    } catch (err) {
+      console.error(`❌ Error saving ${result.mode}:`, err);
+      if (err instanceof SectorConflictError) {
+        setError(`${err.message}. Reload the map and ${result.mode} again.`);
+      } else {
+        setError(err instanceof Error ? err.message : `Failed to save ${result.mode}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!canEdit) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex flex-col items-center gap-2">
+        <div className="flex gap-2 bg-white rounded-lg shadow-xl border-2 border-purple-400 p-1.5">
+          {mode === null ? (
+            <>
+              <button
+                onClick={startSplit}
+                disabled={!selectedFeature}
+                title={selectedFeature ? 'Split the selected nemra along a line' : 'Select a nemra to split'}
+                className="bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+              >
+                ✂️ Split
+              </button>
+              <button
+                onClick={startMerge}
+                className="bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors"
+              >
+                🔗 Merge
+              </button>
+            </>
+          ) : (
+            <>
+              {mode === 'merge' && (
+                <button
+                  onClick={openMergeDialog}
+                  disabled={mergeSelection.length < 2}
+                  className="bg-green-600 hover:bg-green-700 text-white text-sm font-medium px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Merge {mergeSelection.length} selected
+                </button>
+              )}
+              <button
+                onClick={reset}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium px-3 py-1.5 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+        </div>
+
+        {hint && (
+          <div className="bg-white/95 rounded-lg shadow px-3 py-1.5 text-xs text-gray-700">{hint}</div>
+        )}
+      </div>
+
+      {/* Attributes of the resulting nemras */}
+      {mode && pieces && parents.length > 0 && (
+        <SplitMergeDialog
+          mode={mode}
+          parents={parents}
+          geometries={pieces}
+          sectorsData={sectorsData}
+          saving={saving}
+          error={error}
+          onClose={mode === 'split' ? reset : () => setPieces(null)}
+          onConfirm={handleConfirm}
+        />
+      )}
+    </>
+  );
+}
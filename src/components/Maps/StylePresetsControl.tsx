@@ -0,0 +1,263 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useStylePresets } from '../../hooks/useStylePresets';
+import { presetsAPI, type StylePreset } from '../../services/api';
+import { parseStylePresetFile, stylePresetToJSON } from '../../utils/stylePresets';
+
+export default function StylePresetsControl() {
+  const { user, hasRole } = useAuth();
+  const isAdmin = hasRole(['admin']);
+  const { currentSettings, applySettings } = useStylePresets();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [name, setName] = useState('');
+  const [share, setShare] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const loadPresets = async () => {
+    setLoading(true);
+    try {
+      const response = await presetsAPI.getAll();
+      setPresets(response.data.presets);
+    } catch (error) {
+      console.error('❌ Error loading style presets:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load presets' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleOpen = () => {
+    if (!isOpen) {
+      setMessage(null);
+      loadPresets();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  // Runs a server change, then reloads the list
+  const run = async (action: () => Promise<{ message: string }>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await action();
+      setMessage({ type: 'success', text: response.message });
+      await loadPresets();
+    } catch (error) {
+      console.error('❌ Style preset error:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Request failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    await run(() => presetsAPI.create(name.trim(), currentSettings, share));
+    setName('');
+    setShare(false);
+  };
+
+  const handleApply = (preset: StylePreset) => {
+    applySettings(preset.settings);
+    setMessage({ type: 'success', text: `Applied "${preset.name}"` });
+  };
+
+  const handleExport = (preset: StylePreset) => {
+    const blob = new Blob([stylePresetToJSON(preset.name, preset.settings)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${preset.name.replace(/[^\w-]+/g, '_')}.style.json`;
+    link.click();
+  };
+
+  const handleDelete = (preset: StylePreset) => {
+    if (!confirm(`Delete style preset "${preset.name}"?`)) return;
+    run(() => presetsAPI.delete(preset.id));
+  };
+
+  // Imported presets are applied right away and saved as the user's own
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseStylePresetFile(await file.text());
+      applySettings(imported.settings);
+      await run(() => presetsAPI.create(imported.name, imported.settings));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    }
+  };
+
+  return (
+    <div className="relative">
+      {/* Toggle Button */}
+      <button
+        onClick={toggleOpen}
+        className={`
+          bg-gradient-to-br from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700
+          text-white px-5 py-2.5 rounded-xl shadow-lg border border-teal-400
+          flex items-center gap-2.5 transition-all duration-200
+          hover:shadow-xl hover:scale-105 active:scale-95
+          ${isOpen ? 'ring-2 ring-teal-300 ring-offset-2' : ''}
+        `}
+        title="Style Presets"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2.5} viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+        </svg>
+        <span className="text-sm font-semibold tracking-wide">Presets</span>
+      </button>
+
+      {/* Presets Panel */}
+      {isOpen && (
+        <div className="absolute top-full mt-2 right-0 bg-white rounded-xl shadow-2xl border border-gray-200 p-5 w-96 max-h-[600px] overflow-y-auto animate-fadeIn">
+          <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-100">
+            <h3 className="font-bold text-gray-900 text-base">🎨 Style Presets</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-gray-400 hover:text-gray-700 hover:bg-gray-100 p-1.5 rounded-lg transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Save Current Style */}
+          <div className="mb-4">
+            <label className="block text-xs font-semibold text-gray-600 mb-2">
+              SAVE CURRENT STYLE
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                maxLength={100}
+                placeholder="Preset name"
+                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+              <button
+                onClick={handleSave}
+                disabled={busy || !name.trim()}
+                className="bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium px-3 py-1 rounded transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600 mt-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={share}
+                onChange={(e) => setShare(e.target.checked)}
+                className="rounded text-teal-600 focus:ring-teal-500"
+              />
+              Share with the team
+            </label>
+          </div>
+
+          {/* Import */}
+          <div className="mb-4 pb-4 border-b border-gray-100">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+              className="w-full px-3 py-2 text-xs bg-gray-100 hover:bg-gray-200 rounded border border-gray-300 disabled:opacity-50"
+            >
+              📂 Import preset from JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          {message && (
+            <p className={`text-xs mb-3 ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+              {message.text}
+            </p>
+          )}
+
+          {/* Preset List */}
+          <label className="block text-xs font-semibold text-gray-600 mb-2">
+            PRESETS
+          </label>
+          {loading && presets.length === 0 && <p className="text-xs text-gray-500">Loading...</p>}
+          {!loading && presets.length === 0 && (
+            <p className="text-xs text-gray-500">No presets yet. Save the current style to create one.</p>
+          )}
+          <div className="space-y-2">
+            {presets.map(preset => {
+              const isOwner = preset.user_id === user?.id;
+              return (
+                <div key={preset.id} className="p-2 rounded-lg border border-gray-200">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-800 truncate flex-1" title={preset.name}>{preset.name}</span>
+                    {preset.is_default && <span className="text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">Default</span>}
+                    {preset.is_shared && <span className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-700">Shared</span>}
+                  </div>
+                  {!isOwner && (
+                    <p className="text-xs text-gray-500">by {preset.full_name || preset.username || 'unknown'}</p>
+                  )}
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5 text-xs font-medium">
+                    <button onClick={() => handleApply(preset)} className="text-teal-700 hover:text-teal-900">Apply</button>
+                    <button onClick={() => handleExport(preset)} className="text-gray-600 hover:text-gray-900">Export</button>
+                    {isOwner && (
+                      <>
+                        <button
+                          onClick={() => run(() => presetsAPI.update(preset.id, { settings: currentSettings }))}
+                          disabled={busy}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                          title="Replace this preset with the current style"
+                        >
+                          Overwrite
+                        </button>
+                        {!preset.is_default && (
+                          <button
+                            onClick={() => run(() => presetsAPI.update(preset.id, { isShared: !preset.is_shared }))}
+                            disabled={busy}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            {preset.is_shared ? 'Unshare' : 'Share'}
+                          </button>
+                        )}
+                      </>
+                    )}
+                    {isAdmin && (
+                      <button
+                        onClick={() => run(() => preset.is_default ? presetsAPI.clearDefault(preset.id) : presetsAPI.setDefault(preset.id))}
+                        disabled={busy}
+                        className="text-amber-700 hover:text-amber-900 disabled:opacity-50"
+                      >
+                        {preset.is_default ? 'Clear default' : 'Make default'}
+                      </button>
+                    )}
+                    {(isOwner || isAdmin) && (
+                      <button
+                        onClick={() => handleDelete(preset)}
+                        disabled={busy}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,15 @@
 import { useState } from 'react';
 import type { SectorDivision } from '../../types';
+import type { AreaThresholds } from '../../utils/symbology';
+import {
+  classificationMethodLabels,
+  colorRamps,
+  defaultClassification,
+  type ClassificationField,
+  type ClassificationMethod,
+  type ClassificationMode,
+  type ClassificationSettings,
+} from '../../utils/classification';
 
 interface SymbologySettings {
   fillStyle: 'solid' | 'hollow' | 'pattern';
@@ -7,15 +17,29 @@ interface SymbologySettings {
   outlineColor: string;
   outlineWidth: number;
   colors: Record<SectorDivision, string>;
+  classification: ClassificationSettings;
 }
 
 interface SymbologyControlProps {
+  initialSettings?: SymbologySettings;
   onSymbologyChange: (settings: SymbologySettings) => void;
+  // Attribute fields of the loaded sectors, offered for classification
+  fields?: ClassificationField[];
+  areaThresholds?: AreaThresholds;
+  onAreaThresholdsChange?: (thresholds: AreaThresholds) => void;
 }
 
-export default function SymbologyControl({ onSymbologyChange }: SymbologyControlProps) {
+const rampGradient = (stops: string[]) => `linear-gradient(to right, ${stops.join(', ')})`;
+
+export default function SymbologyControl({
+  initialSettings,
+  onSymbologyChange,
+  fields = [],
+  areaThresholds,
+  onAreaThresholdsChange,
+}: SymbologyControlProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [settings, setSettings] = useState<SymbologySettings>({
+  const [settings, setSettings] = useState<SymbologySettings>(initialSettings ?? {
     fillStyle: 'solid',
     fillOpacity: 0.6,
     outlineColor: '#333333',
@@ -26,7 +50,23 @@ export default function SymbologyControl({ onSymbologyChange }: SymbologyControl
       North: '#f59e0b',
       South: '#ef4444',
     },
+    classification: defaultClassification,
   });
+  const [manualBreaksInput, setManualBreaksInput] = useState(settings.classification.manualBreaks.join(', '));
+  const [thresholdInputs, setThresholdInputs] = useState(areaThresholds?.map(String) ?? []);
+
+  // Settings replaced from outside (e.g. a style preset was applied)
+  const [syncedSettings, setSyncedSettings] = useState(initialSettings);
+  if (initialSettings && initialSettings !== syncedSettings) {
+    setSyncedSettings(initialSettings);
+    setSettings(initialSettings);
+    setManualBreaksInput(initialSettings.classification.manualBreaks.join(', '));
+  }
+  const [syncedThresholds, setSyncedThresholds] = useState(areaThresholds);
+  if (areaThresholds !== syncedThresholds) {
+    setSyncedThresholds(areaThresholds);
+    setThresholdInputs(areaThresholds?.map(String) ?? []);
+  }
 
   const updateSettings = (updates: Partial<SymbologySettings>) => {
     const newSettings = { ...settings, ...updates };
@@ -39,6 +79,45 @@ export default function SymbologyControl({ onSymbologyChange }: SymbologyControl
     updateSettings({ colors: newColors });
   };
 
+  const classification = settings.classification;
+  const numericFields = fields.filter(f => f.numeric);
+  const fieldOptions = classification.mode === 'graduated' ? numericFields : fields;
+
+  const updateClassification = (updates: Partial<ClassificationSettings>) => {
+    updateSettings({ classification: { ...classification, ...updates } });
+  };
+
+  const setMode = (mode: ClassificationMode) => {
+    // Graduated needs a numeric field; prefer the design area when the current one is text
+    if (mode === 'graduated' && !numericFields.some(f => f.name === classification.field)) {
+      const field = numericFields.find(f => f.name === 'Design_A_F') ?? numericFields[0];
+      updateClassification({ mode, field: field?.name ?? classification.field });
+      return;
+    }
+    updateClassification({ mode });
+  };
+
+  // Thresholds must stay increasing; anything else is put back on blur
+  const applyThresholds = () => {
+    const values = thresholdInputs.map(value => parseFloat(value));
+    const valid = values.length === 3 && values.every((value, i) => Number.isFinite(value) && value > 0 && (i === 0 || value > values[i - 1]));
+    if (valid) {
+      onAreaThresholdsChange?.(values as AreaThresholds);
+    } else {
+      setThresholdInputs(areaThresholds?.map(String) ?? []);
+    }
+  };
+
+  const applyManualBreaks = () => {
+    const breaks = manualBreaksInput
+      .split(',')
+      .map(part => parseFloat(part.trim()))
+      .filter(value => Number.isFinite(value))
+      .sort((a, b) => a - b);
+    setManualBreaksInput(breaks.join(', '));
+    updateClassification({ manualBreaks: breaks });
+  };
+
   return (
     <div className="relative">
       {/* Toggle Button */}
@@ -143,7 +222,119 @@ export default function SymbologyControl({ onSymbologyChange }: SymbologyControl
             </div>
           )}
 
+          {/* Classification */}
+          <div className="mb-4">
+            <label className="block text-xs font-semibold text-gray-600 mb-2">
+              COLOR BY
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['division', '🗺️ Division'],
+                ['categorized', '🏷️ Category'],
+                ['graduated', '📶 Graduated'],
+              ] as [ClassificationMode, string][]).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setMode(mode)}
+                  className={`px-2 py-2 text-xs rounded border-2 transition-all ${
+                    classification.mode === mode
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 font-semibold'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {classification.mode !== 'division' && (
+              <div className="space-y-3 mt-3">
+                {/* Field */}
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Field:</label>
+                  <select
+                    value={classification.field}
+                    onChange={(e) => updateClassification({ field: e.target.value })}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                  >
+                    {!fieldOptions.some(f => f.name === classification.field) && (
+                      <option value={classification.field}>{classification.field}</option>
+                    )}
+                    {fieldOptions.map(f => (
+                      <option key={f.name} value={f.name}>{f.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {classification.mode === 'graduated' && (
+                  <>
+                    {/* Method */}
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Method:</label>
+                      <select
+                        value={classification.method}
+                        onChange={(e) => updateClassification({ method: e.target.value as ClassificationMethod })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                      >
+                        {(Object.keys(classificationMethodLabels) as ClassificationMethod[]).map(method => (
+                          <option key={method} value={method}>{classificationMethodLabels[method]}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {/* Class Count or Manual Breaks */}
+                    {classification.method === 'manual' ? (
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Breaks (comma separated):</label>
+                        <input
+                          type="text"
+                          value={manualBreaksInput}
+                          onChange={(e) => setManualBreaksInput(e.target.value)}
+                          onBlur={applyManualBreaks}
+                          onKeyDown={(e) => e.key === 'Enter' && applyManualBreaks()}
+                          placeholder="500, 1000, 2000"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                        />
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Classes: {classification.classCount}</label>
+                        <input
+                          type="range"
+                          min="2"
+                          max="9"
+                          value={classification.classCount}
+                          onChange={(e) => updateClassification({ classCount: parseInt(e.target.value) })}
+                          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                      </div>
+                    )}
+
+                    {/* Color Ramp */}
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Color ramp:</label>
+                      <div className="grid grid-cols-3 gap-1.5">
+                        {Object.entries(colorRamps).map(([name, stops]) => (
+                          <button
+                            key={name}
+                            onClick={() => updateClassification({ ramp: name })}
+                            title={name}
+                            className={`h-6 rounded border-2 transition-all ${
+                              classification.ramp === name ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+                            }`}
+                            style={{ background: rampGradient(stops) }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Division Colors */}
+          {classification.mode === 'division' && (
           <div className="mb-4">
             <label className="block text-xs font-semibold text-gray-600 mb-2">
               DIVISION COLORS
@@ -170,6 +361,32 @@ export default function SymbologyControl({ onSymbologyChange }: SymbologyControl
               ))}
             </div>
           </div>
+          )}
+
+          {/* Area Categories */}
+          {areaThresholds && onAreaThresholdsChange && (
+            <div className="mb-4 pt-4 border-t">
+              <label className="block text-xs font-semibold text-gray-600 mb-2">
+                AREA CATEGORIES (Feddan)
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {['Small <', 'Medium <', 'Large <'].map((label, index) => (
+                  <div key={label}>
+                    <span className="block text-xs text-gray-500 mb-1">{label}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={thresholdInputs[index] ?? ''}
+                      onChange={(e) => setThresholdInputs(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                      onBlur={applyThresholds}
+                      onKeyDown={(e) => e.key === 'Enter' && applyThresholds()}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
           {/* Outline/Boundary Settings */}
           <div className="mb-4 pt-4 border-t">
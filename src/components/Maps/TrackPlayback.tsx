@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ImportedLayer } from '../../utils/fileImport';
+import {
+  formatDistance,
+  formatDuration,
+  formatSpeed,
+  getTrackFeatures,
+  getTrackPoints,
+  getTrackStats,
+  getTrackTimeline,
+  sampleTrack,
+} from '../../utils/gpsTrack';
+import type { TrackPlaybackFrame } from './adapters';
+
+interface TrackPlaybackProps {
+  layer: ImportedLayer;
+  onTrackPlayback: (frame: TrackPlaybackFrame | null) => void;
+}
+
+// Playback seconds per real second
+const PLAYBACK_SPEEDS = [10, 60, 300, 900];
+
+/**
+ * Time, speed and distance of a GPS track, with a control that animates the walked route
+ */
+export default function TrackPlayback({ layer, onTrackPlayback }: TrackPlaybackProps) {
+  const tracks = useMemo(() => getTrackFeatures(layer.data as GeoJSON.FeatureCollection), [layer.data]);
+  const [trackIndex, setTrackIndex] = useState(0);
+  const track = tracks[Math.min(trackIndex, tracks.length - 1)];
+
+  const points = useMemo(() => (track ? getTrackPoints(track) : []), [track]);
+  const stats = useMemo(() => getTrackStats(points), [points]);
+  const timeline = useMemo(() => getTrackTimeline(points), [points]);
+  const total = timeline[timeline.length - 1] ?? 0;
+
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+  const [elapsed, setElapsed] = useState(0);
+  // Mirror of elapsed for the animation loop, so it does not restart on every frame
+  const elapsedRef = useRef(0);
+
+  const seek = (seconds: number) => {
+    elapsedRef.current = seconds;
+    setElapsed(seconds);
+  };
+
+  const sample = useMemo(() => sampleTrack(points, timeline, elapsed), [points, timeline, elapsed]);
+  const showing = playing || elapsed > 0;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frameId = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      const next = Math.min(total, elapsedRef.current + ((now - last) / 1000) * speed);
+      last = now;
+      elapsedRef.current = next;
+      setElapsed(next);
+      if (next >= total) {
+        setPlaying(false);
+        return;
+      }
+      frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [playing, speed, total]);
+
+  useEffect(() => {
+    onTrackPlayback(showing && sample ? { walked: sample.walked, position: sample.position } : null);
+  }, [showing, sample, onTrackPlayback]);
+
+  // Clear the map when the details close or the layer is removed
+  useEffect(() => () => onTrackPlayback(null), [onTrackPlayback]);
+
+  if (!track) return null;
+
+  const handlePlay = () => {
+    if (elapsedRef.current >= total) seek(0);
+    setPlaying(true);
+  };
+
+  const handleStop = () => {
+    setPlaying(false);
+    seek(0);
+  };
+
+  const selectTrack = (index: number) => {
+    setPlaying(false);
+    seek(0);
+    setTrackIndex(index);
+  };
+
+  const hasTimes = stats.duration !== null;
+  const clock = sample?.time ? new Date(sample.time).toLocaleTimeString() : formatDuration(elapsed);
+  const stat = (label: string, value: string) => (
+    <div>
+      <p className="text-gray-500">{label}</p>
+      <p className="font-semibold text-gray-800">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-100">
+      <p className="text-xs font-medium text-gray-600">GPS Track</p>
+
+      {tracks.length > 1 && (
+        <select
+          value={trackIndex}
+          onChange={(e) => selectTrack(Number(e.target.value))}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+        >
+          {tracks.map((feature, index) => (
+            <option key={index} value={index}>
+              {String(feature.properties?.name ?? `Track ${index + 1}`)}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Time, Speed and Distance */}
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {stat('Distance', formatDistance(stats.distance))}
+        {stat('Duration', hasTimes ? formatDuration(stats.duration!) : '—')}
+        {stat('Average speed', stats.averageSpeed !== null ? formatSpeed(stats.averageSpeed) : '—')}
+        {stat('Max speed', stats.maxSpeed !== null ? formatSpeed(stats.maxSpeed) : '—')}
+        {stat('Start', stats.startTime ? new Date(stats.startTime).toLocaleString() : '—')}
+        {stat('End', stats.endTime ? new Date(stats.endTime).toLocaleString() : '—')}
+        {stats.elevationGain !== null && stat('Elevation gain', `${Math.round(stats.elevationGain)} m`)}
+        {stat('Points', String(stats.pointCount))}
+      </div>
+      {!hasTimes && (
+        <p className="text-xs text-gray-500">No timestamps recorded; playback assumes walking pace.</p>
+      )}
+
+      {/* Playback */}
+      <div className="space-y-2">
+        <input
+          type="range"
+          min="0"
+          max={total}
+          step="any"
+          value={elapsed}
+          onChange={(e) => seek(parseFloat(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={playing ? () => setPlaying(false) : handlePlay}
+            className="px-3 py-1.5 text-xs bg-orange-100 hover:bg-orange-200 text-orange-700 font-medium rounded transition-colors"
+          >
+            {playing ? '⏸ Pause' : '▶ Play'}
+          </button>
+          <button
+            onClick={handleStop}
+            disabled={!showing}
+            className="px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded transition-colors disabled:opacity-50"
+          >
+            ⏹ Stop
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+            title="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+          <span className="ml-auto text-xs font-mono text-gray-600">{clock}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
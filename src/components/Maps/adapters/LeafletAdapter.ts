@@ -0,0 +1,559 @@
+import L from 'leaflet';
+import MVT from 'ol/format/MVT';
+import type RenderFeature from 'ol/render/Feature';
+import type { SectorDivision, SectorFeature, SectorProperties } from '../../../types';
+import { COG_TILE_SIZE, renderCOGTile } from '../../../utils/cog';
+import type { ImportedLayer, RasterData } from '../../../utils/fileImport';
+import type { FeatureClickHandler, MapAdapter, MapViewport, SectorLabelSettings, SectorRenderOptions, SectorTileSource, SectorsData, TrackPlaybackFrame } from './MapAdapter';
+import {
+  HIGHLIGHT_COLOR,
+  TRACK_PLAYBACK_COLOR,
+  buildImportedPopupHTML,
+  buildRasterPopupHTML,
+  buildSectorPopupHTML,
+  fetchSectorTile,
+  getDrawOrder,
+  getRasterFilter,
+  getSectorStyle,
+  getVisibleDivisions,
+  indexAttributesById,
+  indexSectorsById,
+  type SectorStyle,
+} from './shared';
+
+export interface LeafletAdapter extends MapAdapter {
+  readonly map: L.Map;
+}
+
+// Imported layers and the highlight sit in their own panes above the sector canvas.
+// They use SVG so empty areas let clicks through to the sectors underneath.
+const IMPORTED_PANE = 'importedLayersPane';
+const HIGHLIGHT_PANE = 'sectorHighlightPane';
+const TRACK_PANE = 'trackPlaybackPane';
+
+const SECTOR_TILE_SIZE = 256;
+// Coordinate extent of a layer in the backend's vector tiles
+const MVT_EXTENT = 4096;
+
+function labelHTML(text: string, labels: Pick<SectorLabelSettings, 'size' | 'color' | 'haloColor' | 'haloWidth'>): string {
+  const halo = labels.haloWidth > 0
+    ? `text-shadow: 0 0 ${labels.haloWidth}px ${labels.haloColor}, 0 0 ${labels.haloWidth}px ${labels.haloColor};`
+    : '';
+  return `<span style="font-size: ${labels.size}px; font-weight: 700; color: ${labels.color}; ${halo}">${text}</span>`;
+}
+
+// Tiles of a Cloud-Optimized GeoTIFF layer, rendered from the overview matching the zoom
+class COGGridLayer extends L.GridLayer {
+  private readonly layer: ImportedLayer;
+
+  constructor(layer: ImportedLayer, options: L.GridLayerOptions) {
+    super(options);
+    this.layer = layer;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = Object.assign(document.createElement('canvas'), { width: COG_TILE_SIZE, height: COG_TILE_SIZE });
+    tile.style.filter = getRasterFilter(this.layer);
+    renderCOGTile(this.layer, coords.z, coords.x, coords.y)
+      .then(canvas => {
+        if (canvas) tile.getContext('2d')?.drawImage(canvas, 0, 0);
+        done(undefined, tile);
+      })
+      .catch(error => done(error, tile));
+    return tile;
+  }
+}
+
+type SectorTileStyler = (id: number, props: SectorProperties) => SectorStyle | null;
+
+interface SectorTileHit {
+  path: Path2D;
+  id: number;
+  props: SectorProperties;
+}
+
+interface SectorTile {
+  canvas: HTMLCanvasElement;
+  features: RenderFeature[];
+  hits: SectorTileHit[];
+}
+
+// Sector vector tiles drawn to canvas. Leaflet cannot read vector tiles itself, so they are
+// parsed in tile pixels and kept per tile, to restyle without fetching again and to find the
+// sector under a click.
+class SectorTileGridLayer extends L.GridLayer {
+  readonly source: SectorTileSource;
+  private styleFor: SectorTileStyler;
+  private readonly format: MVT;
+  private readonly tiles = new Map<string, SectorTile>();
+  private readonly hitContext = document.createElement('canvas').getContext('2d');
+
+  constructor(source: SectorTileSource, styleFor: SectorTileStyler, options: L.GridLayerOptions) {
+    super(options);
+    this.source = source;
+    this.styleFor = styleFor;
+    this.format = new MVT({ layers: [source.sourceLayer], idProperty: 'id' });
+    this.on('tileunload', (event: L.TileEvent) => this.tiles.delete(this.keyOf(event.coords)));
+  }
+
+  private keyOf(coords: L.Coords): string {
+    return `${coords.z}/${coords.x}/${coords.y}`;
+  }
+
+  private draw(tile: SectorTile) {
+    const context = tile.canvas.getContext('2d');
+    if (!context) return;
+    const scale = SECTOR_TILE_SIZE / MVT_EXTENT;
+    context.clearRect(0, 0, SECTOR_TILE_SIZE, SECTOR_TILE_SIZE);
+    tile.hits = [];
+
+    tile.features.forEach(feature => {
+      const id = feature.getId() as number;
+      const props = feature.getProperties() as SectorProperties;
+      const style = this.styleFor(id, props);
+      if (!style) return;
+
+      const flat = feature.getFlatCoordinates();
+      const path = new Path2D();
+      let start = 0;
+      (feature.getEnds() as number[]).forEach(end => {
+        for (let i = start; i < end; i += 2) {
+          if (i === start) path.moveTo(flat[i] * scale, flat[i + 1] * scale);
+          else path.lineTo(flat[i] * scale, flat[i + 1] * scale);
+        }
+        path.closePath();
+        start = end;
+      });
+
+      context.globalAlpha = style.fillOpacity;
+      context.fillStyle = style.fillColor;
+      context.fill(path, 'evenodd');
+      context.globalAlpha = 1;
+      context.strokeStyle = style.strokeColor;
+      context.lineWidth = style.strokeWidth;
+      context.setLineDash(style.lineDash ?? []);
+      context.stroke(path);
+      tile.hits.push({ path, id, props });
+    });
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const canvas = Object.assign(document.createElement('canvas'), { width: SECTOR_TILE_SIZE, height: SECTOR_TILE_SIZE });
+    fetchSectorTile(this.source, coords.z, coords.x, coords.y)
+      .then(buffer => {
+        // Without a projection the features stay in tile coordinates, y down
+        const tile: SectorTile = { canvas, features: buffer ? this.format.readFeatures(buffer) : [], hits: [] };
+        this.tiles.set(this.keyOf(coords), tile);
+        this.draw(tile);
+        done(undefined, canvas);
+      })
+      .catch(error => done(error, canvas));
+    return canvas;
+  }
+
+  /**
+   * Draw the loaded tiles again with new styling, e.g. after more sectors loaded
+   */
+  restyle(styleFor: SectorTileStyler) {
+    this.styleFor = styleFor;
+    this.tiles.forEach(tile => this.draw(tile));
+  }
+
+  /**
+   * Sector drawn at a point, topmost first
+   */
+  sectorAt(latlng: L.LatLng): SectorTileHit | null {
+    const map = this._map as L.Map | undefined;
+    if (!map || !this.hitContext) return null;
+    const z = Math.round(map.getZoom());
+    const point = map.project(latlng, z);
+    const x = Math.floor(point.x / SECTOR_TILE_SIZE);
+    const y = Math.floor(point.y / SECTOR_TILE_SIZE);
+    const hits = this.tiles.get(`${z}/${x}/${y}`)?.hits ?? [];
+    const localX = point.x - x * SECTOR_TILE_SIZE;
+    const localY = point.y - y * SECTOR_TILE_SIZE;
+    for (let i = hits.length - 1; i >= 0; i--) {
+      if (this.hitContext.isPointInPath(hits[i].path, localX, localY, 'evenodd')) return hits[i];
+    }
+    return null;
+  }
+}
+
+export function createLeafletAdapter(map: L.Map): LeafletAdapter {
+  const handlers = new Set<FeatureClickHandler>();
+  let sectorLayers: L.Layer[] = [];
+  // Set while the sectors are drawn from vector tiles, for map clicks to hit-test
+  let sectorTiles: { layer: SectorTileGridLayer; index: Map<number, SectorFeature> } | null = null;
+  let importedLayers: L.Layer[] = [];
+  let highlightLayer: L.GeoJSON | null = null;
+  let trackLine: L.Polyline | null = null;
+  let trackMarker: L.CircleMarker | null = null;
+
+  map.createPane(IMPORTED_PANE).style.zIndex = '420';
+  map.createPane(HIGHLIGHT_PANE).style.zIndex = '440';
+  map.createPane(TRACK_PANE).style.zIndex = '450';
+  map.getPane(HIGHLIGHT_PANE)!.style.pointerEvents = 'none';
+  map.getPane(TRACK_PANE)!.style.pointerEvents = 'none';
+  const importedRenderer = L.svg({ pane: IMPORTED_PANE });
+  const highlightRenderer = L.svg({ pane: HIGHLIGHT_PANE });
+  const trackRenderer = L.svg({ pane: TRACK_PANE });
+
+  const removeAll = (layers: L.Layer[]) => {
+    layers.forEach(layer => {
+      try {
+        map.removeLayer(layer);
+      } catch (e) {
+        console.warn('Error removing layer:', e);
+      }
+    });
+  };
+
+  // Clicks on tiles reach the map; ones on imported layers above them are left to those layers
+  const handleTileClick = (event: L.LeafletMouseEvent) => {
+    if (!sectorTiles || map.getPane(IMPORTED_PANE)!.contains(event.originalEvent.target as Node)) return;
+    const hit = sectorTiles.layer.sectorAt(event.latlng);
+    if (!hit) return;
+
+    const division = hit.props.Division as SectorDivision;
+    const feature = sectorTiles.index.get(hit.id);
+    L.popup({ maxWidth: 300, className: 'custom-popup' })
+      .setLatLng(event.latlng)
+      .setContent(buildSectorPopupHTML(feature?.properties ?? hit.props, division))
+      .openOn(map);
+    // Sectors not loaded yet only get a popup of the division and area the tile carries
+    if (feature) handlers.forEach(handler => handler(feature, division));
+  };
+  map.on('click', handleTileClick);
+
+  // The tile layer outlives redraws with the same tile URL; loading more sectors only restyles it
+  const renderSectorTiles = (data: SectorsData, options: SectorRenderOptions, source: SectorTileSource) => {
+    const divisions = getVisibleDivisions(data, options);
+    const index = indexSectorsById(data);
+    const attributes = indexAttributesById(options.attributes);
+    const styleFor: SectorTileStyler = (id, props) => {
+      const division = props.Division as SectorDivision;
+      if (!divisions.includes(division)) return null;
+      return getSectorStyle(index.get(id)?.properties ?? attributes.get(id) ?? props, division, options);
+    };
+
+    let layer = sectorTiles?.layer;
+    if (layer?.source.url === source.url) {
+      layer.restyle(styleFor);
+    } else {
+      if (layer) removeAll([layer]);
+      // Over the basemap tiles, where the GeoJSON sectors are drawn
+      layer = new SectorTileGridLayer(source, styleFor, { tileSize: SECTOR_TILE_SIZE, pane: 'overlayPane' });
+      layer.addTo(map);
+    }
+    sectorTiles = { layer, index };
+
+    // Labels of the loaded sectors, at the centre of their bounds
+    if (options.labels?.enabled && options.labels.field) {
+      const labels = options.labels;
+      const tooltips = L.layerGroup();
+      divisions.forEach(division => data[division]?.features.forEach(feature => {
+        const text = feature.properties[labels.field as keyof SectorProperties];
+        if (text === null || text === undefined || text === '') return;
+        const center = L.geoJSON(feature as unknown as GeoJSON.GeoJsonObject).getBounds().getCenter();
+        L.tooltip({ permanent: true, direction: 'center', className: 'sector-label' })
+          .setLatLng(center)
+          .setContent(labelHTML(String(text), labels))
+          .addTo(tooltips);
+      }));
+      tooltips.addTo(map);
+      sectorLayers.push(tooltips);
+    }
+  };
+
+  const renderSectors = (data: SectorsData, options: SectorRenderOptions) => {
+    removeAll(sectorLayers);
+    sectorLayers = [];
+
+    if (options.tiles) {
+      renderSectorTiles(data, options, options.tiles);
+      return;
+    }
+    if (sectorTiles) removeAll([sectorTiles.layer]);
+    sectorTiles = null;
+
+    getVisibleDivisions(data, options).forEach((division: SectorDivision) => {
+      const styleFor = (props: SectorProperties) => {
+        const style = getSectorStyle(props, division, options);
+        return {
+          fillColor: style.fillColor,
+          fillOpacity: style.fillOpacity,
+          color: style.strokeColor,
+          weight: style.strokeWidth,
+          opacity: 1,
+          dashArray: style.lineDash?.join(', '),
+        };
+      };
+
+      const layer = L.geoJSON(data[division] as GeoJSON.GeoJsonObject, {
+        style: (feature) => styleFor(feature?.properties),
+        // Simplify geometries for better performance
+        // @ts-expect-error - Leaflet options
+        smoothFactor: 1.0,
+        onEachFeature: (feature, featureLayer) => {
+          const props = feature.properties as SectorProperties;
+
+          featureLayer.bindPopup(buildSectorPopupHTML(props, division), {
+            maxWidth: 300,
+            className: 'custom-popup'
+          });
+
+          featureLayer.on('click', () => {
+            handlers.forEach(handler => handler(feature as unknown as SectorFeature, division));
+          });
+
+          if (options.labels?.enabled && options.labels.field) {
+            const text = props[options.labels.field as keyof SectorProperties];
+            if (text !== null && text !== undefined && text !== '') {
+              featureLayer.bindTooltip(labelHTML(String(text), options.labels), {
+                permanent: true,
+                direction: 'center',
+                className: 'sector-label',
+              });
+            }
+          }
+
+          // Hover emphasis
+          featureLayer.on('mouseover', function(this: L.Path) {
+            const style = styleFor(props);
+            this.setStyle({
+              fillOpacity: Math.min(style.fillOpacity + 0.2, 1),
+              weight: style.weight * 1.5,
+            });
+          });
+
+          featureLayer.on('mouseout', function(this: L.Path) {
+            const style = styleFor(props);
+            this.setStyle({
+              fillOpacity: style.fillOpacity,
+              weight: style.weight,
+            });
+          });
+        },
+      });
+
+      layer.addTo(map);
+      sectorLayers.push(layer);
+    });
+  };
+
+  const addRasterLayer = (layer: ImportedLayer) => {
+    const rasterData = layer.data as RasterData;
+    const [[west, south], [east, north]] = rasterData.bounds;
+
+    if (rasterData.cog) {
+      const tiles = new COGGridLayer(layer, {
+        tileSize: COG_TILE_SIZE,
+        bounds: [[south, west], [north, east]],
+        opacity: layer.opacity,
+        pane: IMPORTED_PANE,
+      });
+      tiles.addTo(map);
+      importedLayers.push(tiles);
+      return;
+    }
+
+    const overlay = L.imageOverlay(rasterData.imageUrl, [[south, west], [north, east]], {
+      opacity: layer.opacity,
+      interactive: true,
+      pane: IMPORTED_PANE,
+    });
+    overlay.bindPopup(buildRasterPopupHTML(layer), { maxWidth: 300 });
+    overlay.on('load', () => {
+      const element = overlay.getElement();
+      if (element) element.style.filter = getRasterFilter(layer);
+    });
+
+    overlay.addTo(map);
+    importedLayers.push(overlay);
+  };
+
+  const addVectorLayer = (layer: ImportedLayer) => {
+    if (!('features' in layer.data)) {
+      console.error('Invalid vector layer data');
+      return;
+    }
+
+    const vectorLayer = L.geoJSON(layer.data, {
+      pane: IMPORTED_PANE,
+      // @ts-expect-error - renderer is passed through to the created paths
+      renderer: importedRenderer,
+      style: (feature) => {
+        const isLine = feature?.geometry.type === 'LineString' || feature?.geometry.type === 'MultiLineString';
+        return {
+          color: layer.color,
+          weight: isLine ? 3 : 2,
+          opacity: isLine ? layer.opacity : 1,
+          fillColor: layer.color,
+          fillOpacity: layer.opacity,
+        };
+      },
+      pointToLayer: (_feature, latlng) => L.circleMarker(latlng, {
+        pane: IMPORTED_PANE,
+        renderer: importedRenderer,
+        radius: 6,
+        fillColor: layer.color,
+        fillOpacity: layer.opacity,
+        color: '#ffffff',
+        weight: 2,
+      }),
+      onEachFeature: (feature, featureLayer) => {
+        featureLayer.bindPopup(buildImportedPopupHTML(layer, feature.properties, feature.geometry.type), { maxWidth: 300 });
+
+        if (layer.showLabels && layer.labelField) {
+          const text = feature.properties?.[layer.labelField];
+          if (text !== null && text !== undefined && text !== '') {
+            featureLayer.bindTooltip(labelHTML(String(text), {
+              size: layer.labelSize,
+              color: layer.labelColor,
+              haloColor: layer.labelHaloColor,
+              haloWidth: layer.labelHaloWidth,
+            }), {
+              permanent: true,
+              direction: 'top',
+              className: 'sector-label',
+            });
+          }
+        }
+      },
+    });
+
+    vectorLayer.addTo(map);
+    importedLayers.push(vectorLayer);
+  };
+
+  const renderImportedLayers = (layers: ImportedLayer[]) => {
+    removeAll(importedLayers);
+    importedLayers = [];
+
+    getDrawOrder(layers).forEach(layer => {
+      if (layer.type === 'raster') {
+        addRasterLayer(layer);
+      } else {
+        addVectorLayer(layer);
+      }
+    });
+  };
+
+  const highlightFeature = (feature: SectorFeature | null) => {
+    if (highlightLayer) {
+      map.removeLayer(highlightLayer);
+      highlightLayer = null;
+    }
+    if (!feature) return;
+
+    highlightLayer = L.geoJSON(feature as unknown as GeoJSON.GeoJsonObject, {
+      pane: HIGHLIGHT_PANE,
+      interactive: false,
+      // @ts-expect-error - renderer is passed through to the created paths
+      renderer: highlightRenderer,
+      style: {
+        color: HIGHLIGHT_COLOR,
+        weight: 4,
+        fillColor: HIGHLIGHT_COLOR,
+        fillOpacity: 0.15,
+      },
+    }).addTo(map);
+  };
+
+  // Playback moves the existing marker and line rather than recreating them every frame
+  const renderTrackPlayback = (frame: TrackPlaybackFrame | null) => {
+    if (!frame) {
+      if (trackLine) removeAll([trackLine]);
+      if (trackMarker) removeAll([trackMarker]);
+      trackLine = null;
+      trackMarker = null;
+      return;
+    }
+
+    const walked = frame.walked.map(([lng, lat]) => L.latLng(lat, lng));
+    const position = L.latLng(frame.position[1], frame.position[0]);
+    if (trackLine && trackMarker) {
+      trackLine.setLatLngs(walked);
+      trackMarker.setLatLng(position);
+      return;
+    }
+
+    trackLine = L.polyline(walked, {
+      pane: TRACK_PANE,
+      renderer: trackRenderer,
+      interactive: false,
+      color: TRACK_PLAYBACK_COLOR,
+      weight: 4,
+    }).addTo(map);
+    trackMarker = L.circleMarker(position, {
+      pane: TRACK_PANE,
+      renderer: trackRenderer,
+      interactive: false,
+      radius: 7,
+      fillColor: TRACK_PLAYBACK_COLOR,
+      fillOpacity: 1,
+      color: '#ffffff',
+      weight: 3,
+    }).addTo(map);
+  };
+
+  const getViewport = (): MapViewport => {
+    const center = map.getCenter();
+    const bounds = map.getBounds();
+    return {
+      center: [center.lng, center.lat],
+      zoom: map.getZoom(),
+      bearing: 0,
+      pitch: 0,
+      bounds: [[bounds.getWest(), bounds.getSouth()], [bounds.getEast(), bounds.getNorth()]],
+    };
+  };
+
+  return {
+    library: 'leaflet',
+    capabilities: { extrusion: false, terrain: false, globe: false },
+    map,
+    renderSectors,
+    renderImportedLayers,
+    highlightFeature,
+    renderTrackPlayback,
+    fitBounds: ([[west, south], [east, north]], options = {}) => {
+      const padding = options.padding ?? 50;
+      const duration = options.duration ?? 0;
+      map.fitBounds([[south, west], [north, east]], {
+        padding: [padding, padding],
+        animate: duration > 0,
+        duration: duration / 1000,
+      });
+    },
+    getViewport,
+    setViewport: ({ center, zoom }) => {
+      map.setView([center[1], center[0]], zoom, { animate: false });
+    },
+    onViewportChange: (handler) => {
+      const listener = () => handler(getViewport());
+      map.on('moveend', listener);
+      return () => {
+        map.off('moveend', listener);
+      };
+    },
+    onFeatureClick: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    destroy: () => {
+      handlers.clear();
+      map.off('click', handleTileClick);
+      removeAll([...sectorLayers, ...importedLayers]);
+      if (sectorTiles) removeAll([sectorTiles.layer]);
+      if (highlightLayer) removeAll([highlightLayer]);
+      renderTrackPlayback(null);
+      sectorLayers = [];
+      sectorTiles = null;
+      importedLayers = [];
+      highlightLayer = null;
+    },
+  };
+}
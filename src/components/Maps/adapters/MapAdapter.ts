@@ -0,0 +1,101 @@
+import type { MapLibrary, SectorAttributeData, SectorDivision, SectorFeature, SectorFeatureCollection } from '../../../types';
+import type { ImportedLayer } from '../../../utils/fileImport';
+import type { SymbologySettings } from '../SymbologyControl';
+import type { SectorClasses } from '../../../utils/classification';
+import type { AreaThresholds } from '../../../utils/symbology';
+
+// [[west, south], [east, north]] in WGS84, same layout as calculateBounds()
+export type MapBounds = [[number, number], [number, number]];
+
+export type SectorsData = Record<SectorDivision, SectorFeatureCollection | null>;
+
+export interface SectorLabelSettings {
+  enabled: boolean;
+  field: string;
+  size: number;
+  color: string;
+  haloColor: string;
+  haloWidth: number;
+}
+
+// Mapbox Vector Tiles the sectors are drawn from when they come from the backend
+export interface SectorTileSource {
+  // Tile URL with {z}, {x} and {y} placeholders
+  url: string;
+  // Layer in the tiles holding the sectors
+  sourceLayer: string;
+  // Sent with every tile request (authentication)
+  headers: Record<string, string>;
+}
+
+export interface SectorRenderOptions {
+  selectedSector: SectorDivision | null;
+  // When omitted, engines fall back to the area-category styling from utils/symbology
+  symbology?: SymbologySettings;
+  // Result of classifySectors() for symbology.classification; null in division mode
+  classes?: SectorClasses | null;
+  // Area-category bounds for the fallback styling (defaults to 500/1000/2000 Feddan)
+  areaThresholds?: AreaThresholds;
+  visibility?: Record<SectorDivision, boolean>;
+  labels?: SectorLabelSettings;
+  // Extrude polygons by Design_A_F (only honoured when capabilities.extrusion is true)
+  extrude?: boolean;
+  // Draw the sectors from vector tiles; the GeoJSON then only resolves clicks and supplies
+  // the attributes, classes and zonal statistics the tiles lack
+  tiles?: SectorTileSource | null;
+  // Attributes of all sectors: over tiles they style the sectors not loaded yet, so the
+  // symbology applies to every tile feature in every engine
+  attributes?: SectorAttributeData;
+}
+
+// Zoom is on the 256px-tile scale shared by Leaflet and OpenLayers (MapLibre converts).
+// Bearing is in degrees clockwise from north; pitch in degrees.
+export interface MapViewport {
+  center: [number, number]; // [lng, lat]
+  zoom: number;
+  bearing: number;
+  pitch: number;
+  // Area currently shown; reported by adapters, absent in viewports parsed from a link
+  bounds?: MapBounds;
+}
+
+export interface FitBoundsOptions {
+  padding?: number;
+  duration?: number;
+}
+
+export interface MapAdapterCapabilities {
+  extrusion: boolean;
+  terrain: boolean;
+  globe: boolean;
+}
+
+// One frame of a GPS track playback: the walked part of the route and the current position
+export interface TrackPlaybackFrame {
+  walked: [number, number][];
+  position: [number, number];
+}
+
+export type FeatureClickHandler = (feature: SectorFeature, division: SectorDivision) => void;
+
+/**
+ * Engine-agnostic map operations shared by the Leaflet, MapLibre and OpenLayers views.
+ * Each adapter wraps an already-created native map; the owning component keeps its own
+ * basemaps, controls and UI chrome.
+ */
+export interface MapAdapter {
+  readonly library: MapLibrary;
+  readonly capabilities: MapAdapterCapabilities;
+  renderSectors(data: SectorsData, options: SectorRenderOptions): void;
+  renderImportedLayers(layers: ImportedLayer[]): void;
+  highlightFeature(feature: SectorFeature | null): void;
+  // Drawn above everything else; null clears it. Called every animation frame while playing.
+  renderTrackPlayback(frame: TrackPlaybackFrame | null): void;
+  fitBounds(bounds: MapBounds, options?: FitBoundsOptions): void;
+  getViewport(): MapViewport;
+  setViewport(viewport: MapViewport): void;
+  // Subscriptions return an unsubscribe function
+  onViewportChange(handler: (viewport: MapViewport) => void): () => void;
+  onFeatureClick(handler: FeatureClickHandler): () => void;
+  destroy(): void;
+}
@@ -0,0 +1,725 @@
+import maplibregl from 'maplibre-gl';
+import type { SectorDivision, SectorFeature } from '../../../types';
+import { sectorColors } from '../../../utils/symbology';
+import { getClassColor } from '../../../utils/classification';
+import { COG_TILE_SIZE, getCOGBandKey, renderCOGTile } from '../../../utils/cog';
+import type { ImportedLayer, RasterData } from '../../../utils/fileImport';
+import type { FeatureClickHandler, MapAdapter, MapViewport, SectorRenderOptions, SectorTileSource, SectorsData, TrackPlaybackFrame } from './MapAdapter';
+import {
+  DIVISIONS,
+  HIGHLIGHT_COLOR,
+  TRACK_PLAYBACK_COLOR,
+  buildImportedPopupHTML,
+  buildRasterPopupHTML,
+  buildSectorPopupHTML,
+  defaultSymbology,
+  findRasterAt,
+  getDrawOrder,
+  getVisibleDivisions,
+  indexSectorsById,
+  lookupSectorFeature,
+} from './shared';
+
+export interface MapLibreAdapter extends MapAdapter {
+  readonly map: maplibregl.Map;
+}
+
+const HIGHLIGHT_SOURCE = 'sector-highlight';
+const HIGHLIGHT_LAYERS = ['highlight-fill', 'highlight-line'];
+const TRACK_SOURCE = 'track-playback';
+const TRACK_LAYERS = ['track-playback-line', 'track-playback-point'];
+
+// MapLibre renders 512px tiles, so its zoom levels are one below Leaflet/OpenLayers
+const ZOOM_OFFSET = 1;
+
+const sectorLayerId = (division: SectorDivision) => `sector-${division.toLowerCase()}`;
+
+// Per-feature fill under a classification, computed up front so every engine classifies alike
+const CLASS_COLOR_PROPERTY = '__classColor';
+
+// Vector tile source shared by the division layers when sectors come from the backend.
+// Tiles lack client-side attributes, so class colours are set as feature state by id.
+const SECTOR_TILE_SOURCE = 'sector-tiles';
+const CLASS_COLOR_STATE = 'classColor';
+
+// COG tiles are requested as cog://<layer id>/{z}/{x}/{y}; the protocol is global to maplibre,
+// so the layers it draws are looked up here
+const COG_PROTOCOL = 'cog';
+const cogLayers = new Map<string, ImportedLayer>();
+let cogProtocolAdded = false;
+
+function addCOGProtocol() {
+  if (cogProtocolAdded) return;
+  cogProtocolAdded = true;
+
+  maplibregl.addProtocol(COG_PROTOCOL, async (params) => {
+    const [, layerId, z, x, y] = params.url.match(/^cog:\/\/([^/]+)\/(\d+)\/(\d+)\/(\d+)/) ?? [];
+    const layer = cogLayers.get(layerId);
+    const tile = layer ? await renderCOGTile(layer, Number(z), Number(x), Number(y)) : null;
+
+    // Tiles outside the image come back transparent rather than as errors
+    const canvas = tile ?? Object.assign(document.createElement('canvas'), { width: COG_TILE_SIZE, height: COG_TILE_SIZE });
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Failed to encode COG tile');
+    return { data: await blob.arrayBuffer() };
+  });
+}
+
+export function createMapLibreAdapter(map: maplibregl.Map): MapLibreAdapter {
+  const handlers = new Set<FeatureClickHandler>();
+  const popup = new maplibregl.Popup({
+    closeButton: true,
+    closeOnClick: true,
+    maxWidth: '350px',
+  });
+
+  // Last requested state, re-applied whenever the style is replaced (basemap switch, globe mode)
+  let sectors: { data: SectorsData; options: SectorRenderOptions } | null = null;
+  let imported: ImportedLayer[] = [];
+  let highlighted: SectorFeature | null = null;
+  let trackFrame: TrackPlaybackFrame | null = null;
+
+  // Style layer id -> what it renders, used to resolve clicks
+  const sectorLayerDivisions = new Map<string, SectorDivision>();
+  const importedLayerSources = new Map<string, ImportedLayer>();
+  let importedSourceIds: string[] = [];
+  let cogLayerIds: string[] = [];
+  let hovered: { source: string; sourceLayer?: string; id: number } | null = null;
+  // Tile source in use and the loaded sectors by id its features resolve to
+  let tileSource: SectorTileSource | null = null;
+  let sectorIndex = new Map<number, SectorFeature>();
+
+  // Sector tile requests carry the session's credentials
+  map.setTransformRequest((url) => (
+    tileSource && url.startsWith(tileSource.url.split('{z}')[0]) ? { url, headers: tileSource.headers } : { url }
+  ));
+  let hoverCursor = false;
+
+  // Draws are deferred until the style can accept sources/layers
+  const pendingDraws = new Set<() => void>();
+  let waitingForStyle = false;
+
+  const flushDraws = () => {
+    waitingForStyle = false;
+    if (!map.isStyleLoaded()) {
+      waitingForStyle = true;
+      map.once('styledata', flushDraws);
+      return;
+    }
+    const draws = [...pendingDraws];
+    pendingDraws.clear();
+    draws.forEach(draw => draw());
+  };
+
+  const schedule = (draw: () => void) => {
+    if (map.isStyleLoaded()) {
+      draw();
+      return;
+    }
+    pendingDraws.add(draw);
+    if (!waitingForStyle) {
+      waitingForStyle = true;
+      map.once('styledata', flushDraws);
+    }
+  };
+
+  // First layer at or above the given group, so groups keep their stacking order when redrawn
+  const firstLayerWithPrefix = (prefixes: string[]): string | undefined => {
+    const layers = map.getStyle()?.layers || [];
+    return layers.find(layer => prefixes.some(prefix => layer.id.startsWith(prefix)))?.id;
+  };
+
+  const removeLayers = (layerIds: string[]) => {
+    layerIds.forEach(layerId => {
+      if (map.getLayer(layerId)) map.removeLayer(layerId);
+    });
+  };
+
+  const drawSectors = () => {
+    DIVISIONS.forEach((division) => {
+      const layerId = sectorLayerId(division);
+      removeLayers([layerId, `${layerId}-line`, `${layerId}-label`]);
+      if (map.getSource(layerId)) map.removeSource(layerId);
+      if (map.getSource(`${layerId}-label`)) map.removeSource(`${layerId}-label`);
+    });
+    sectorLayerDivisions.clear();
+    hovered = null;
+
+    // The tile source survives redraws (more sectors loaded, new colours) so its tiles are
+    // not fetched again; only a new URL (reloaded data) or leaving tile mode replaces it
+    const tiles = sectors?.options.tiles ?? null;
+    if (map.getSource(SECTOR_TILE_SOURCE)) {
+      if (!tiles || tiles.url !== tileSource?.url) {
+        map.removeSource(SECTOR_TILE_SOURCE);
+      } else {
+        map.removeFeatureState({ source: SECTOR_TILE_SOURCE, sourceLayer: tiles.sourceLayer });
+      }
+    }
+    tileSource = tiles;
+
+    if (!sectors) return;
+    const { data, options } = sectors;
+    const symbology = options.symbology ?? defaultSymbology;
+    const beforeId = firstLayerWithPrefix(['imported-', 'highlight-', 'track-']);
+
+    if (tiles && !map.getSource(SECTOR_TILE_SOURCE)) {
+      map.addSource(SECTOR_TILE_SOURCE, { type: 'vector', tiles: [tiles.url], promoteId: 'id' });
+    }
+
+    getVisibleDivisions(data, options).forEach((division) => {
+      const layerId = sectorLayerId(division);
+      const lineLayerId = `${layerId}-line`;
+      const collection = data[division]!;
+      const classes = options.classes;
+      const divisionColor = symbology.colors[division] || sectorColors[division].primary;
+      const fillColor: maplibregl.ExpressionSpecification | string = !classes
+        ? divisionColor
+        : tiles
+          ? ['coalesce', ['feature-state', CLASS_COLOR_STATE], divisionColor]
+          : ['get', CLASS_COLOR_PROPERTY];
+
+      // From tiles each division is a filter on the shared source, with database ids as
+      // feature ids; from GeoJSON ids are the index into the source collection
+      const source: Pick<maplibregl.FillLayerSpecification, 'source' | 'source-layer' | 'filter'> = tiles
+        ? { source: SECTOR_TILE_SOURCE, 'source-layer': tiles.sourceLayer, filter: ['==', ['get', 'Division'], division] }
+        : { source: layerId };
+
+      if (tiles) {
+        if (classes) {
+          // Every sector of the division, not just the loaded ones, when their attributes are known
+          const rows = options.attributes?.[division] ?? collection.features.map(feature => feature.properties);
+          rows.forEach((properties) => {
+            const id = (properties as typeof properties & { id?: number }).id;
+            if (typeof id !== 'number') return;
+            map.setFeatureState(
+              { source: SECTOR_TILE_SOURCE, sourceLayer: tiles.sourceLayer, id },
+              { [CLASS_COLOR_STATE]: getClassColor(classes, properties) }
+            );
+          });
+        }
+      } else {
+        map.addSource(layerId, {
+          type: 'geojson',
+          data: {
+            ...collection,
+            features: collection.features.map((feature, index) => ({
+              ...feature,
+              id: index,
+              properties: classes
+                ? { ...feature.properties, [CLASS_COLOR_PROPERTY]: getClassColor(classes, feature.properties) }
+                : feature.properties,
+            })),
+          } as GeoJSON.FeatureCollection,
+        });
+      }
+
+      // Fill layer or Fill-extrusion layer based on 3D mode
+      if (options.extrude) {
+        map.addLayer({
+          id: layerId,
+          type: 'fill-extrusion',
+          ...source,
+          paint: {
+            'fill-extrusion-color': fillColor,
+            'fill-extrusion-height': [
+              '*',
+              ['coalesce', ['get', 'Design_A_F'], 0],
+              5 // Scale factor: 1 Feddan = 5 units height
+            ],
+            'fill-extrusion-base': 0,
+            'fill-extrusion-opacity': symbology.fillStyle === 'hollow' ? 0 : symbology.fillOpacity,
+          },
+        }, beforeId);
+      } else {
+        map.addLayer({
+          id: layerId,
+          type: 'fill',
+          ...source,
+          paint: {
+            'fill-color': fillColor,
+            'fill-opacity': symbology.fillStyle === 'hollow' ? 0 : [
+              'case',
+              ['boolean', ['feature-state', 'hover'], false],
+              Math.min(symbology.fillOpacity + 0.2, 1),
+              symbology.fillOpacity
+            ],
+          },
+        }, beforeId);
+      }
+
+      map.addLayer({
+        id: lineLayerId,
+        type: 'line',
+        ...source,
+        paint: {
+          'line-color': symbology.outlineColor,
+          'line-width': symbology.outlineWidth,
+        },
+      }, beforeId);
+
+      if (options.labels?.enabled && options.labels.field) {
+        // Tiles carry no label fields, so over tiles the labels come from the loaded sectors
+        if (tiles) {
+          map.addSource(`${layerId}-label`, { type: 'geojson', data: collection as GeoJSON.FeatureCollection });
+        }
+        map.addLayer({
+          id: `${layerId}-label`,
+          type: 'symbol',
+          ...(tiles ? { source: `${layerId}-label` } : source),
+          layout: {
+            'text-field': ['get', options.labels.field],
+            'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
+            'text-size': options.labels.size,
+            'text-offset': [0, 0],
+            'text-anchor': 'center',
+            'text-max-width': 12
+          },
+          paint: {
+            'text-color': options.labels.color,
+            'text-halo-color': options.labels.haloColor,
+            'text-halo-width': options.labels.haloWidth,
+            'text-halo-blur': 1
+          }
+        }, beforeId);
+      }
+
+      sectorLayerDivisions.set(layerId, division);
+    });
+  };
+
+  const addRasterLayer = (layer: ImportedLayer, beforeId: string | undefined) => {
+    const rasterData = layer.data as RasterData;
+    const bounds = rasterData.bounds;
+
+    if (rasterData.cog) {
+      addCOGProtocol();
+      cogLayers.set(layer.id, layer);
+      cogLayerIds.push(layer.id);
+      try {
+        map.addSource(layer.id, {
+          type: 'raster',
+          // The band selection is part of the URL so changing it fetches new tiles
+          tiles: [`${COG_PROTOCOL}://${layer.id}/{z}/{x}/{y}?${getCOGBandKey(layer)}`],
+          tileSize: COG_TILE_SIZE,
+          bounds: [bounds[0][0], bounds[0][1], bounds[1][0], bounds[1][1]],
+        });
+        importedSourceIds.push(layer.id);
+        addRasterStyleLayer(layer, beforeId);
+      } catch (error) {
+        console.error('❌ Error adding COG layer:', error);
+      }
+      return;
+    }
+
+    // MapLibre image source requires coordinates: [top-left, top-right, bottom-right, bottom-left]
+    const coordinates: [[number, number], [number, number], [number, number], [number, number]] = [
+      [bounds[0][0], bounds[1][1]], // top-left: [west, north]
+      [bounds[1][0], bounds[1][1]], // top-right: [east, north]
+      [bounds[1][0], bounds[0][1]], // bottom-right: [east, south]
+      [bounds[0][0], bounds[0][1]]  // bottom-left: [west, south]
+    ];
+
+    const isValidLatLon = coordinates.every(coord =>
+      coord[0] >= -180 && coord[0] <= 180 &&
+      coord[1] >= -90 && coord[1] <= 90
+    );
+
+    if (!isValidLatLon) {
+      console.warn('⚠️ Raster bounds are outside valid lat/lon range, using Sudan region as default');
+      coordinates[0] = [21.8, 23.0];  // top-left
+      coordinates[1] = [38.6, 23.0];  // top-right
+      coordinates[2] = [38.6, 8.0];   // bottom-right
+      coordinates[3] = [21.8, 8.0];   // bottom-left
+    }
+
+    try {
+      map.addSource(layer.id, {
+        type: 'image',
+        url: rasterData.imageUrl,
+        coordinates: coordinates
+      });
+      importedSourceIds.push(layer.id);
+      addRasterStyleLayer(layer, beforeId);
+    } catch (error) {
+      console.error('❌ Error adding raster layer:', error);
+    }
+  };
+
+  const addRasterStyleLayer = (layer: ImportedLayer, beforeId: string | undefined) => {
+    // Convert brightness/contrast/saturation to valid MapLibre ranges
+    const brightness = layer.brightness || 0;
+    const contrast = layer.contrast || 0;
+    const saturation = layer.saturation || 0;
+
+    map.addLayer({
+      id: `imported-raster-${layer.id}`,
+      type: 'raster',
+      source: layer.id,
+      paint: {
+        'raster-opacity': layer.opacity,
+        'raster-fade-duration': 0,
+        'raster-brightness-min': Math.max(0, brightness),
+        'raster-brightness-max': Math.min(1, 1 + brightness),
+        'raster-contrast': contrast * 0.5 + 0.5, // Convert -1,1 to 0,1
+        'raster-saturation': saturation
+      }
+    }, beforeId);
+  };
+
+  const addVectorLayer = (layer: ImportedLayer, beforeId: string | undefined) => {
+    if (!('features' in layer.data)) {
+      console.error('Invalid vector layer data');
+      return;
+    }
+
+    const vectorData = layer.data;
+    map.addSource(layer.id, {
+      type: 'geojson',
+      data: vectorData
+    });
+    importedSourceIds.push(layer.id);
+
+    const hasPolygons = vectorData.features.some(f =>
+      f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon'
+    );
+    const hasLines = vectorData.features.some(f =>
+      f.geometry.type === 'LineString' || f.geometry.type === 'MultiLineString'
+    );
+    const hasPoints = vectorData.features.some(f =>
+      f.geometry.type === 'Point' || f.geometry.type === 'MultiPoint'
+    );
+
+    if (hasPolygons) {
+      map.addLayer({
+        id: `imported-fill-${layer.id}`,
+        type: 'fill',
+        source: layer.id,
+        filter: ['any',
+          ['==', ['geometry-type'], 'Polygon'],
+          ['==', ['geometry-type'], 'MultiPolygon']
+        ],
+        paint: {
+          'fill-color': layer.color,
+          'fill-opacity': layer.opacity
+        }
+      }, beforeId);
+
+      map.addLayer({
+        id: `imported-line-${layer.id}`,
+        type: 'line',
+        source: layer.id,
+        filter: ['any',
+          ['==', ['geometry-type'], 'Polygon'],
+          ['==', ['geometry-type'], 'MultiPolygon'],
+          ['==', ['geometry-type'], 'LineString'],
+          ['==', ['geometry-type'], 'MultiLineString']
+        ],
+        paint: {
+          'line-color': layer.color,
+          'line-width': 2
+        }
+      }, beforeId);
+    } else if (hasLines) {
+      map.addLayer({
+        id: `imported-line-${layer.id}`,
+        type: 'line',
+        source: layer.id,
+        filter: ['any',
+          ['==', ['geometry-type'], 'LineString'],
+          ['==', ['geometry-type'], 'MultiLineString']
+        ],
+        paint: {
+          'line-color': layer.color,
+          'line-width': 3,
+          'line-opacity': layer.opacity
+        }
+      }, beforeId);
+    }
+
+    if (hasPoints) {
+      map.addLayer({
+        id: `imported-point-${layer.id}`,
+        type: 'circle',
+        source: layer.id,
+        filter: ['any',
+          ['==', ['geometry-type'], 'Point'],
+          ['==', ['geometry-type'], 'MultiPoint']
+        ],
+        paint: {
+          'circle-radius': 6,
+          'circle-color': layer.color,
+          'circle-opacity': layer.opacity,
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2
+        }
+      }, beforeId);
+    }
+
+    if (layer.showLabels && layer.labelField) {
+      map.addLayer({
+        id: `imported-label-${layer.id}`,
+        type: 'symbol',
+        source: layer.id,
+        layout: {
+          'text-field': ['get', layer.labelField],
+          'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
+          'text-size': layer.labelSize,
+          'text-offset': [0, 1.5],
+          'text-anchor': 'top',
+          'text-max-width': 12
+        },
+        paint: {
+          'text-color': layer.labelColor,
+          'text-halo-color': layer.labelHaloColor,
+          'text-halo-width': layer.labelHaloWidth,
+          'text-halo-blur': 1
+        }
+      }, beforeId);
+    }
+  };
+
+  const drawImportedLayers = () => {
+    const layers = map.getStyle()?.layers || [];
+    removeLayers(layers.filter(layer => layer.id.startsWith('imported-')).map(layer => layer.id));
+    importedSourceIds.forEach(sourceId => {
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    });
+    importedSourceIds = [];
+    importedLayerSources.clear();
+    cogLayerIds.forEach(layerId => cogLayers.delete(layerId));
+    cogLayerIds = [];
+
+    const beforeId = firstLayerWithPrefix(['highlight-', 'track-']);
+    getDrawOrder(imported).forEach(layer => {
+      importedLayerSources.set(layer.id, layer);
+      if (layer.type === 'raster') {
+        addRasterLayer(layer, beforeId);
+      } else {
+        addVectorLayer(layer, beforeId);
+      }
+    });
+  };
+
+  const drawHighlight = () => {
+    removeLayers(HIGHLIGHT_LAYERS);
+    if (map.getSource(HIGHLIGHT_SOURCE)) map.removeSource(HIGHLIGHT_SOURCE);
+    if (!highlighted) return;
+
+    map.addSource(HIGHLIGHT_SOURCE, {
+      type: 'geojson',
+      data: highlighted as unknown as GeoJSON.Feature,
+    });
+    const beforeId = firstLayerWithPrefix(['track-']);
+    map.addLayer({
+      id: 'highlight-fill',
+      type: 'fill',
+      source: HIGHLIGHT_SOURCE,
+      paint: {
+        'fill-color': HIGHLIGHT_COLOR,
+        'fill-opacity': 0.15,
+      },
+    }, beforeId);
+    map.addLayer({
+      id: 'highlight-line',
+      type: 'line',
+      source: HIGHLIGHT_SOURCE,
+      paint: {
+        'line-color': HIGHLIGHT_COLOR,
+        'line-width': 4,
+      },
+    }, beforeId);
+  };
+
+  const trackPlaybackData = (frame: TrackPlaybackFrame): GeoJSON.FeatureCollection => ({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: frame.walked } },
+      { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: frame.position } },
+    ],
+  });
+
+  // Playback updates the source data in place; layers are only added once per style
+  const drawTrackPlayback = () => {
+    const source = map.getSource(TRACK_SOURCE) as maplibregl.GeoJSONSource | undefined;
+    if (!trackFrame) {
+      removeLayers(TRACK_LAYERS);
+      if (source) map.removeSource(TRACK_SOURCE);
+      return;
+    }
+    if (source) {
+      source.setData(trackPlaybackData(trackFrame));
+      return;
+    }
+
+    map.addSource(TRACK_SOURCE, { type: 'geojson', data: trackPlaybackData(trackFrame) });
+    map.addLayer({
+      id: 'track-playback-line',
+      type: 'line',
+      source: TRACK_SOURCE,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      layout: { 'line-cap': 'round', 'line-join': 'round' },
+      paint: {
+        'line-color': TRACK_PLAYBACK_COLOR,
+        'line-width': 4,
+      },
+    });
+    map.addLayer({
+      id: 'track-playback-point',
+      type: 'circle',
+      source: TRACK_SOURCE,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 7,
+        'circle-color': TRACK_PLAYBACK_COLOR,
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 3,
+      },
+    });
+  };
+
+  const interactiveLayerIds = () => {
+    const layers = map.getStyle()?.layers || [];
+    return layers
+      .map(layer => layer.id)
+      .filter(id => sectorLayerDivisions.has(id) || /^imported-(fill|line|point)-/.test(id));
+  };
+
+  const handleClick = (e: maplibregl.MapMouseEvent) => {
+    const layers = interactiveLayerIds();
+    const hit = layers.length > 0 ? map.queryRenderedFeatures(e.point, { layers })[0] : undefined;
+
+    if (hit) {
+      const division = sectorLayerDivisions.get(hit.layer.id);
+      if (division && sectors) {
+        const feature = tileSource
+          ? sectorIndex.get(hit.id as number) ?? null
+          : lookupSectorFeature(sectors.data, division, hit.id as number);
+        if (!feature) {
+          // A tile feature whose sector is not loaded yet: show the division and area the tile carries
+          if (tileSource) {
+            popup.setLngLat(e.lngLat).setHTML(buildSectorPopupHTML(hit.properties as SectorFeature['properties'], division)).addTo(map);
+          }
+          return;
+        }
+        popup.setLngLat(e.lngLat).setHTML(buildSectorPopupHTML(feature.properties, division)).addTo(map);
+        handlers.forEach(handler => handler(feature, division));
+        return;
+      }
+
+      const layer = importedLayerSources.get(hit.source);
+      if (layer) {
+        popup.setLngLat(e.lngLat).setHTML(buildImportedPopupHTML(layer, hit.properties, hit.geometry.type)).addTo(map);
+      }
+      return;
+    }
+
+    const raster = findRasterAt(imported, e.lngLat.lng, e.lngLat.lat);
+    if (raster) {
+      popup.setLngLat(e.lngLat).setHTML(buildRasterPopupHTML(raster)).addTo(map);
+    }
+  };
+
+  const handleMouseMove = (e: maplibregl.MapMouseEvent) => {
+    const layers = interactiveLayerIds();
+    const hit = layers.length > 0 ? map.queryRenderedFeatures(e.point, { layers })[0] : undefined;
+
+    if (hovered && (!hit || hovered.source !== hit.source || hovered.id !== hit.id)) {
+      if (map.getSource(hovered.source)) {
+        map.setFeatureState(hovered, { hover: false });
+      }
+      hovered = null;
+    }
+    if (hit && sectorLayerDivisions.has(hit.layer.id) && hit.id !== undefined) {
+      hovered = { source: hit.source, sourceLayer: hit.sourceLayer, id: hit.id as number };
+      map.setFeatureState(hovered, { hover: true });
+    }
+
+    // Only touch the cursor on enter/leave so measurement and street view cursors survive
+    if (hit && !hoverCursor) {
+      map.getCanvas().style.cursor = 'pointer';
+      hoverCursor = true;
+    } else if (!hit && hoverCursor) {
+      map.getCanvas().style.cursor = '';
+      hoverCursor = false;
+    }
+  };
+
+  const getViewport = (): MapViewport => {
+    const center = map.getCenter();
+    return {
+      center: [center.lng, center.lat],
+      zoom: map.getZoom() + ZOOM_OFFSET,
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+      bounds: map.getBounds().toArray() as MapViewport['bounds'],
+    };
+  };
+
+  const handleStyleLoad = () => {
+    schedule(drawSectors);
+    schedule(drawImportedLayers);
+    schedule(drawHighlight);
+    schedule(drawTrackPlayback);
+  };
+
+  map.on('click', handleClick);
+  map.on('mousemove', handleMouseMove);
+  map.on('style.load', handleStyleLoad);
+
+  return {
+    library: 'maplibre',
+    capabilities: { extrusion: true, terrain: true, globe: true },
+    map,
+    renderSectors: (data, options) => {
+      sectors = { data, options };
+      sectorIndex = options.tiles ? indexSectorsById(data) : new Map();
+      schedule(drawSectors);
+    },
+    renderImportedLayers: (layers) => {
+      imported = layers;
+      schedule(drawImportedLayers);
+    },
+    highlightFeature: (feature) => {
+      highlighted = feature;
+      schedule(drawHighlight);
+    },
+    renderTrackPlayback: (frame) => {
+      trackFrame = frame;
+      schedule(drawTrackPlayback);
+    },
+    fitBounds: (bounds, options = {}) => {
+      map.fitBounds(bounds, {
+        padding: options.padding ?? 50,
+        duration: options.duration ?? 1000,
+      });
+    },
+    getViewport,
+    setViewport: ({ center, zoom, bearing, pitch }) => {
+      map.jumpTo({ center, zoom: zoom - ZOOM_OFFSET, bearing, pitch });
+    },
+    onViewportChange: (handler) => {
+      const listener = () => handler(getViewport());
+      map.on('moveend', listener);
+      return () => {
+        map.off('moveend', listener);
+      };
+    },
+    onFeatureClick: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    destroy: () => {
+      handlers.clear();
+      pendingDraws.clear();
+      map.off('click', handleClick);
+      map.off('mousemove', handleMouseMove);
+      map.off('style.load', handleStyleLoad);
+      map.off('styledata', flushDraws);
+      cogLayerIds.forEach(layerId => cogLayers.delete(layerId));
+      map.setTransformRequest(null);
+      popup.remove();
+    },
+  };
+}
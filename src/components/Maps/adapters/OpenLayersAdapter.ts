@@ -0,0 +1,472 @@
+import type { Map as OLMap, MapBrowserEvent } from 'ol';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import VectorTileLayer from 'ol/layer/VectorTile';
+import VectorTileSource from 'ol/source/VectorTile';
+import type VectorTile from 'ol/VectorTile';
+import type RenderFeature from 'ol/render/Feature';
+import MVT from 'ol/format/MVT';
+import ImageLayer from 'ol/layer/Image';
+import Static from 'ol/source/ImageStatic';
+import TileLayer from 'ol/layer/Tile';
+import XYZ from 'ol/source/XYZ';
+import TileState from 'ol/TileState';
+import type ImageTile from 'ol/ImageTile';
+import GeoJSON from 'ol/format/GeoJSON';
+import Overlay from 'ol/Overlay';
+import Feature from 'ol/Feature';
+import { LineString, Point } from 'ol/geom';
+import { Style, Fill, Stroke, Text, Circle as CircleStyle } from 'ol/style';
+import { fromLonLat, toLonLat, transformExtent } from 'ol/proj';
+import { unByKey } from 'ol/Observable';
+import type { EventsKey } from 'ol/events';
+import type { FeatureLike } from 'ol/Feature';
+import type BaseLayer from 'ol/layer/Base';
+import type RenderEvent from 'ol/render/Event';
+import type { SectorDivision, SectorFeature, SectorProperties } from '../../../types';
+import { hexWithOpacity } from '../../../utils/symbology';
+import { COG_TILE_SIZE, getCOGBandKey, renderCOGTile } from '../../../utils/cog';
+import type { ImportedLayer, RasterData } from '../../../utils/fileImport';
+import type { FeatureClickHandler, MapAdapter, MapBounds, MapViewport, SectorRenderOptions, SectorTileSource, SectorsData, TrackPlaybackFrame } from './MapAdapter';
+import {
+  HIGHLIGHT_COLOR,
+  TRACK_PLAYBACK_COLOR,
+  buildImportedPopupHTML,
+  buildRasterPopupHTML,
+  buildSectorPopupHTML,
+  fetchSectorTile,
+  findRasterAt,
+  getDrawOrder,
+  getRasterFilter,
+  getSectorStyle,
+  getVisibleDivisions,
+  indexAttributesById,
+  indexSectorsById,
+  lookupSectorFeature,
+} from './shared';
+
+export interface OpenLayersAdapter extends MapAdapter {
+  readonly map: OLMap;
+}
+
+// Layer properties used to resolve what a clicked feature belongs to
+const SECTOR_DIVISION_KEY = 'sectorDivision';
+const IMPORTED_LAYER_KEY = 'importedLayerId';
+
+const SECTOR_Z_INDEX = 10;
+const IMPORTED_Z_INDEX = 100;
+const HIGHLIGHT_Z_INDEX = 1000;
+const TRACK_Z_INDEX = 1100;
+
+const toMapExtent = ([[west, south], [east, north]]: MapBounds) =>
+  transformExtent([west, south, east, north], 'EPSG:4326', 'EPSG:3857');
+
+function labelText(value: unknown, size: number, color: string, haloColor: string, haloWidth: number, offsetY = 0): Text | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  return new Text({
+    text: String(value),
+    font: `bold ${size}px Inter, sans-serif`,
+    fill: new Fill({ color }),
+    stroke: haloWidth > 0 ? new Stroke({ color: haloColor, width: haloWidth }) : undefined,
+    offsetY,
+    overflow: true,
+  });
+}
+
+export function createOpenLayersAdapter(map: OLMap): OpenLayersAdapter {
+  const handlers = new Set<FeatureClickHandler>();
+  let sectorsData: SectorsData | null = null;
+  let imported: ImportedLayer[] = [];
+  let sectorLayers: BaseLayer[] = [];
+  // Vector tiles shared by the division layers, kept while the tile URL stays the same, and
+  // the loaded sectors by id that tile features resolve to
+  let tileSource: { source: SectorTileSource; tiles: VectorTileSource } | null = null;
+  let sectorIndex = new Map<number, SectorFeature>();
+  let importedLayers: BaseLayer[] = [];
+  let highlightLayer: VectorLayer<VectorSource> | null = null;
+  let trackLayer: VectorLayer<VectorSource> | null = null;
+  const trackLine = new Feature(new LineString([]));
+  const trackPoint = new Feature(new Point([0, 0]));
+
+  // Popup overlay
+  const popupElement = document.createElement('div');
+  popupElement.className = 'absolute z-10';
+  const overlay = new Overlay({
+    element: popupElement,
+    autoPan: {
+      animation: {
+        duration: 250,
+      },
+    },
+  });
+  map.addOverlay(overlay);
+
+  const showPopup = (html: string, coordinate: number[]) => {
+    popupElement.innerHTML = `
+      <div class="relative bg-white rounded-lg shadow-lg overflow-hidden">
+        <button class="popup-closer absolute top-2 right-2 text-white hover:text-gray-200 z-10">&times;</button>
+        ${html}
+      </div>
+    `;
+    overlay.setPosition(coordinate);
+
+    const closer = popupElement.querySelector('.popup-closer');
+    closer?.addEventListener('click', () => {
+      overlay.setPosition(undefined);
+    });
+  };
+
+  const sectorStyle = (props: SectorProperties, division: SectorDivision, options: SectorRenderOptions) => {
+    const style = getSectorStyle(props, division, options);
+    const labels = options.labels;
+
+    return new Style({
+      fill: new Fill({
+        color: options.symbology ? hexWithOpacity(style.fillColor, style.fillOpacity) : style.fillColor,
+      }),
+      stroke: new Stroke({
+        color: style.strokeColor,
+        width: style.strokeWidth,
+        lineDash: style.lineDash,
+      }),
+      text: labels?.enabled && labels.field
+        ? labelText(props[labels.field as keyof SectorProperties], labels.size, labels.color, labels.haloColor, labels.haloWidth)
+        : undefined,
+    });
+  };
+
+  const getTileSource = (source: SectorTileSource): VectorTileSource => {
+    if (tileSource?.source.url === source.url) return tileSource.tiles;
+
+    const format = new MVT({ layers: [source.sourceLayer], idProperty: 'id' });
+    const tiles = new VectorTileSource({
+      format,
+      url: source.url,
+      tileLoadFunction: (tile) => {
+        const vectorTile = tile as VectorTile<RenderFeature>;
+        vectorTile.setLoader((extent, _resolution, projection) => {
+          const [z, x, y] = vectorTile.getTileCoord();
+          fetchSectorTile(source, z, x, y)
+            .then(buffer => vectorTile.setFeatures(buffer ? format.readFeatures(buffer, { extent, featureProjection: projection }) : []))
+            .catch(() => vectorTile.setState(TileState.ERROR));
+        });
+      },
+    });
+    tileSource = { source, tiles };
+    return tiles;
+  };
+
+  const renderSectors = (data: SectorsData, options: SectorRenderOptions) => {
+    sectorLayers.forEach(layer => map.removeLayer(layer));
+    sectorLayers = [];
+    sectorsData = data;
+    sectorIndex = options.tiles ? indexSectorsById(data) : new Map();
+    const attributes = options.tiles ? indexAttributesById(options.attributes) : new Map<number, SectorProperties>();
+    if (!options.tiles) tileSource = null;
+
+    getVisibleDivisions(data, options).forEach((division) => {
+      let layer: BaseLayer;
+
+      if (options.tiles) {
+        // Tile features carry only the division and design area; loaded sectors and the
+        // attributes of all sectors supply the rest
+        layer = new VectorTileLayer({
+          source: getTileSource(options.tiles),
+          zIndex: SECTOR_Z_INDEX,
+          style: (feature: FeatureLike) => {
+            const props = feature.getProperties() as SectorProperties;
+            if (props.Division !== division) return undefined;
+            const id = feature.getId() as number;
+            return sectorStyle(sectorIndex.get(id)?.properties ?? attributes.get(id) ?? props, division, options);
+          },
+        });
+      } else {
+        const features = new GeoJSON().readFeatures(data[division], {
+          featureProjection: 'EPSG:3857',
+        });
+        // Index ids let clicks resolve back to the original GeoJSON feature
+        features.forEach((feature, index) => feature.setId(index));
+
+        layer = new VectorLayer({
+          source: new VectorSource({ features }),
+          zIndex: SECTOR_Z_INDEX,
+          style: (feature: FeatureLike) => sectorStyle(feature.getProperties() as SectorProperties, division, options),
+        });
+      }
+      layer.set(SECTOR_DIVISION_KEY, division);
+
+      map.addLayer(layer);
+      sectorLayers.push(layer);
+    });
+  };
+
+  const createRasterLayer = (layer: ImportedLayer, zIndex: number) => {
+    const rasterData = layer.data as RasterData;
+    const filter = getRasterFilter(layer);
+
+    const imageLayer = rasterData.cog
+      ? new TileLayer({
+          source: new XYZ({
+            // The band selection is part of the URL so changing it fetches new tiles
+            url: `cog://${layer.id}/{z}/{x}/{y}?${getCOGBandKey(layer)}`,
+            tileSize: COG_TILE_SIZE,
+            tileLoadFunction: (tile) => {
+              const [z, x, y] = tile.getTileCoord();
+              renderCOGTile(layer, z, x, y)
+                .then(canvas => {
+                  if (canvas) (tile as ImageTile).setImage(canvas);
+                  else tile.setState(TileState.EMPTY);
+                })
+                .catch(() => tile.setState(TileState.ERROR));
+            },
+          }),
+          extent: toMapExtent(rasterData.bounds),
+          opacity: layer.opacity,
+          zIndex,
+        })
+      : new ImageLayer({
+          source: new Static({
+            url: rasterData.imageUrl,
+            imageExtent: toMapExtent(rasterData.bounds),
+            projection: 'EPSG:3857',
+          }),
+          opacity: layer.opacity,
+          zIndex,
+        });
+
+    // Brightness/contrast/saturation via the canvas filter while this layer draws
+    imageLayer.on('prerender', (event: RenderEvent) => {
+      const context = event.context as CanvasRenderingContext2D | undefined;
+      if (context) context.filter = filter;
+    });
+    imageLayer.on('postrender', (event: RenderEvent) => {
+      const context = event.context as CanvasRenderingContext2D | undefined;
+      if (context) context.filter = 'none';
+    });
+
+    return imageLayer;
+  };
+
+  const createVectorLayer = (layer: ImportedLayer, zIndex: number) => {
+    if (!('features' in layer.data)) {
+      console.error('Invalid vector layer data');
+      return null;
+    }
+
+    const vectorLayer = new VectorLayer({
+      source: new VectorSource({
+        features: new GeoJSON().readFeatures(layer.data, {
+          featureProjection: 'EPSG:3857',
+        }),
+      }),
+      zIndex,
+      style: (feature: FeatureLike) => {
+        const geometryType = feature.getGeometry()?.getType();
+        const isPoint = geometryType === 'Point' || geometryType === 'MultiPoint';
+        const isLine = geometryType === 'LineString' || geometryType === 'MultiLineString';
+
+        return new Style({
+          fill: new Fill({ color: hexWithOpacity(layer.color, layer.opacity) }),
+          stroke: new Stroke({
+            color: isLine ? hexWithOpacity(layer.color, layer.opacity) : layer.color,
+            width: isLine ? 3 : 2,
+          }),
+          image: isPoint
+            ? new CircleStyle({
+                radius: 6,
+                fill: new Fill({ color: hexWithOpacity(layer.color, layer.opacity) }),
+                stroke: new Stroke({ color: '#ffffff', width: 2 }),
+              })
+            : undefined,
+          text: layer.showLabels && layer.labelField
+            ? labelText(feature.get(layer.labelField), layer.labelSize, layer.labelColor, layer.labelHaloColor, layer.labelHaloWidth, isPoint ? -14 : 0)
+            : undefined,
+        });
+      },
+    });
+    vectorLayer.set(IMPORTED_LAYER_KEY, layer.id);
+    return vectorLayer;
+  };
+
+  const renderImportedLayers = (layers: ImportedLayer[]) => {
+    importedLayers.forEach(layer => map.removeLayer(layer));
+    importedLayers = [];
+    imported = layers;
+
+    getDrawOrder(layers).forEach((layer, index) => {
+      const zIndex = IMPORTED_Z_INDEX + index;
+      const olLayer = layer.type === 'raster'
+        ? createRasterLayer(layer, zIndex)
+        : createVectorLayer(layer, zIndex);
+      if (!olLayer) return;
+
+      map.addLayer(olLayer);
+      importedLayers.push(olLayer);
+    });
+  };
+
+  const highlightFeature = (feature: SectorFeature | null) => {
+    if (highlightLayer) {
+      map.removeLayer(highlightLayer);
+      highlightLayer = null;
+    }
+    if (!feature) return;
+
+    highlightLayer = new VectorLayer({
+      source: new VectorSource({
+        features: [new GeoJSON().readFeature(feature, { featureProjection: 'EPSG:3857' })].flat(),
+      }),
+      zIndex: HIGHLIGHT_Z_INDEX,
+      style: new Style({
+        fill: new Fill({ color: hexWithOpacity(HIGHLIGHT_COLOR, 0.15) }),
+        stroke: new Stroke({ color: HIGHLIGHT_COLOR, width: 4 }),
+      }),
+    });
+    map.addLayer(highlightLayer);
+  };
+
+  // Playback moves the two features in place; the layer is created on the first frame
+  const renderTrackPlayback = (frame: TrackPlaybackFrame | null) => {
+    if (!frame) {
+      if (trackLayer) map.removeLayer(trackLayer);
+      trackLayer = null;
+      return;
+    }
+
+    trackLine.getGeometry()!.setCoordinates(frame.walked.map(position => fromLonLat(position)));
+    trackPoint.getGeometry()!.setCoordinates(fromLonLat(frame.position));
+    if (trackLayer) return;
+
+    trackLayer = new VectorLayer({
+      source: new VectorSource({ features: [trackLine, trackPoint] }),
+      zIndex: TRACK_Z_INDEX,
+      style: new Style({
+        stroke: new Stroke({ color: TRACK_PLAYBACK_COLOR, width: 4 }),
+        image: new CircleStyle({
+          radius: 7,
+          fill: new Fill({ color: TRACK_PLAYBACK_COLOR }),
+          stroke: new Stroke({ color: '#ffffff', width: 3 }),
+        }),
+      }),
+    });
+    map.addLayer(trackLayer);
+  };
+
+  const isInteractive = (layer: BaseLayer) => Boolean(layer.get(SECTOR_DIVISION_KEY) || layer.get(IMPORTED_LAYER_KEY));
+
+  const handleClick = (evt: MapBrowserEvent<PointerEvent | KeyboardEvent | WheelEvent>) => {
+    const handled = map.forEachFeatureAtPixel(evt.pixel, (olFeature, layer) => {
+      const division = layer?.get(SECTOR_DIVISION_KEY) as SectorDivision | undefined;
+      if (division && sectorsData) {
+        const feature = tileSource
+          ? sectorIndex.get(olFeature.getId() as number) ?? null
+          : lookupSectorFeature(sectorsData, division, olFeature.getId() as number);
+        if (!feature) {
+          // A tile feature whose sector is not loaded yet: show the division and area the tile carries
+          if (!tileSource) return false;
+          showPopup(buildSectorPopupHTML(olFeature.getProperties() as SectorProperties, division), evt.coordinate);
+          return true;
+        }
+        showPopup(buildSectorPopupHTML(feature.properties, division), evt.coordinate);
+        handlers.forEach(handler => handler(feature, division));
+        return true;
+      }
+
+      const importedLayer = imported.find(l => l.id === layer?.get(IMPORTED_LAYER_KEY));
+      if (importedLayer) {
+        const properties = { ...olFeature.getProperties() };
+        delete properties.geometry;
+        showPopup(
+          buildImportedPopupHTML(importedLayer, properties, olFeature.getGeometry()?.getType() || 'Unknown'),
+          evt.coordinate
+        );
+        return true;
+      }
+      return false;
+    }, { layerFilter: isInteractive });
+
+    if (handled) return;
+
+    const [lng, lat] = toLonLat(evt.coordinate);
+    const raster = findRasterAt(imported, lng, lat);
+    if (raster) {
+      showPopup(buildRasterPopupHTML(raster), evt.coordinate);
+    } else {
+      overlay.setPosition(undefined);
+    }
+  };
+
+  const handlePointerMove = (evt: MapBrowserEvent<PointerEvent | KeyboardEvent | WheelEvent>) => {
+    if (evt.dragging) return;
+    const hit = map.hasFeatureAtPixel(evt.pixel, { layerFilter: isInteractive });
+    map.getTargetElement().style.cursor = hit ? 'pointer' : '';
+  };
+
+  // OpenLayers rotation is radians with the opposite sign of a compass bearing
+  const getViewport = (): MapViewport => {
+    const view = map.getView();
+    const [lng, lat] = toLonLat(view.getCenter() || fromLonLat([33.0, 14.35]));
+    const size = map.getSize();
+    const [west, south, east, north] = size
+      ? transformExtent(view.calculateExtent(size), 'EPSG:3857', 'EPSG:4326')
+      : [0, 0, 0, 0];
+    return {
+      center: [lng, lat],
+      zoom: view.getZoom() ?? 9,
+      bearing: (-view.getRotation() * 180) / Math.PI,
+      pitch: 0,
+      bounds: size ? [[west, south], [east, north]] : undefined,
+    };
+  };
+
+  const listenerKeys: EventsKey[] = [
+    map.on('click', handleClick),
+    map.on('pointermove', handlePointerMove),
+  ];
+
+  return {
+    library: 'openlayers',
+    capabilities: { extrusion: false, terrain: false, globe: false },
+    map,
+    renderSectors,
+    renderImportedLayers,
+    highlightFeature,
+    renderTrackPlayback,
+    fitBounds: (bounds, options = {}) => {
+      const padding = options.padding ?? 50;
+      map.getView().fit(toMapExtent(bounds), {
+        padding: [padding, padding, padding, padding],
+        duration: options.duration ?? 1000,
+      });
+    },
+    getViewport,
+    setViewport: ({ center, zoom, bearing }) => {
+      const view = map.getView();
+      view.cancelAnimations();
+      view.setCenter(fromLonLat(center));
+      view.setZoom(zoom);
+      view.setRotation((-bearing * Math.PI) / 180);
+    },
+    onViewportChange: (handler) => {
+      const key = map.on('moveend', () => handler(getViewport()));
+      return () => unByKey(key);
+    },
+    onFeatureClick: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    destroy: () => {
+      handlers.clear();
+      unByKey(listenerKeys);
+      [...sectorLayers, ...importedLayers].forEach(layer => map.removeLayer(layer));
+      if (highlightLayer) map.removeLayer(highlightLayer);
+      renderTrackPlayback(null);
+      map.removeOverlay(overlay);
+      sectorLayers = [];
+      importedLayers = [];
+      highlightLayer = null;
+    },
+  };
+}
@@ -0,0 +1,17 @@
+export type {
+  MapAdapter,
+  MapAdapterCapabilities,
+  MapBounds,
+  MapViewport,
+  SectorsData,
+  SectorLabelSettings,
+  SectorRenderOptions,
+  SectorTileSource,
+  FitBoundsOptions,
+  FeatureClickHandler,
+  TrackPlaybackFrame,
+} from './MapAdapter';
+export { createLeafletAdapter, type LeafletAdapter } from './LeafletAdapter';
+export { createMapLibreAdapter, type MapLibreAdapter } from './MapLibreAdapter';
+export { createOpenLayersAdapter, type OpenLayersAdapter } from './OpenLayersAdapter';
+export { getSectorsBounds, getImportedLayerBounds, defaultSymbology, defaultSectorLabels } from './shared';
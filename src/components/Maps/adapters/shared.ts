@@ -0,0 +1,317 @@
+import type { SectorAttributeData, SectorDivision, SectorFeature, SectorProperties } from '../../../types';
+import { sectorColors, defaultAreaThresholds, getAreaColor, getPatternStyle } from '../../../utils/symbology';
+import { defaultClassification, getClassColor } from '../../../utils/classification';
+import { calculateBounds, type ImportedLayer, type RasterData } from '../../../utils/fileImport';
+import type { SymbologySettings } from '../SymbologyControl';
+import type { MapBounds, SectorsData, SectorLabelSettings, SectorRenderOptions, SectorTileSource } from './MapAdapter';
+
+export const DIVISIONS: SectorDivision[] = ['East', 'West', 'North', 'South'];
+
+export const HIGHLIGHT_COLOR = '#facc15';
+export const TRACK_PLAYBACK_COLOR = '#f97316';
+
+// Matches the initial state of SymbologyControl
+export const defaultSymbology: SymbologySettings = {
+  fillStyle: 'solid',
+  fillOpacity: 0.6,
+  outlineColor: '#333333',
+  outlineWidth: 2,
+  colors: {
+    East: '#3b82f6',
+    West: '#10b981',
+    North: '#f59e0b',
+    South: '#ef4444',
+  },
+  classification: defaultClassification,
+};
+
+export const defaultSectorLabels: SectorLabelSettings = {
+  enabled: false,
+  field: 'Canal_Name',
+  size: 12,
+  color: '#000000',
+  haloColor: '#ffffff',
+  haloWidth: 2
+};
+
+export interface SectorStyle {
+  fillColor: string;
+  fillOpacity: number;
+  strokeColor: string;
+  strokeWidth: number;
+  lineDash?: number[];
+}
+
+/**
+ * Resolve the fill/stroke for a sector feature. Without symbology settings this is the
+ * area-category styling the Leaflet and OpenLayers views have always used.
+ * Classes, when given, replace the per-division colour.
+ */
+export function getSectorStyle(
+  props: SectorProperties,
+  division: SectorDivision,
+  options: Pick<SectorRenderOptions, 'symbology' | 'classes' | 'areaThresholds'> = {}
+): SectorStyle {
+  const { symbology, classes, areaThresholds = defaultAreaThresholds } = options;
+  const sectorColor = sectorColors[division] || sectorColors.East;
+  const area = props.Design_A_F || 0;
+
+  if (symbology) {
+    return {
+      fillColor: classes ? getClassColor(classes, props) : symbology.colors[division] || sectorColor.primary,
+      fillOpacity: symbology.fillStyle === 'hollow' ? 0 : symbology.fillOpacity,
+      strokeColor: symbology.outlineColor,
+      strokeWidth: symbology.outlineWidth,
+    };
+  }
+
+  const style = getPatternStyle(props, areaThresholds);
+  return {
+    fillColor: getAreaColor(area, sectorColor.primary, areaThresholds),
+    fillOpacity: style.fillOpacity,
+    strokeColor: sectorColor.dark,
+    strokeWidth: style.strokeWidth,
+    lineDash: area > areaThresholds[2] ? [5, 5] : undefined,
+  };
+}
+
+/**
+ * Divisions that should be drawn for the given render options
+ */
+export function getVisibleDivisions(data: SectorsData, options: SectorRenderOptions): SectorDivision[] {
+  return DIVISIONS.filter((division) => {
+    if (!data[division]) return false;
+    if (options.selectedSector && division !== options.selectedSector) return false;
+    if (options.visibility && !options.visibility[division]) return false;
+    return true;
+  });
+}
+
+/**
+ * Combined bounds of the sectors that are currently drawn. A division loaded by viewport
+ * carries its full extent as bbox, which is used instead of the sectors loaded so far.
+ */
+export function getSectorsBounds(data: SectorsData, options: SectorRenderOptions): MapBounds | null {
+  const bounds = getVisibleDivisions(data, options)
+    .map((division): MapBounds | null => {
+      const { bbox, features } = data[division]!;
+      if (bbox) return [[bbox[0], bbox[1]], [bbox[2], bbox[3]]];
+      if (features.length === 0) return null;
+      return calculateBounds({ type: 'FeatureCollection', features } as unknown as GeoJSON.FeatureCollection);
+    })
+    .filter((b): b is MapBounds => b !== null);
+  if (bounds.length === 0) return null;
+
+  return [
+    [Math.min(...bounds.map(([[west]]) => west)), Math.min(...bounds.map(([[, south]]) => south))],
+    [Math.max(...bounds.map(([, [east]]) => east)), Math.max(...bounds.map(([, [, north]]) => north))],
+  ];
+}
+
+/**
+ * Bounds of a single imported layer (raster extent or vector features)
+ */
+export function getImportedLayerBounds(layer: ImportedLayer): MapBounds | null {
+  if (layer.type === 'raster') {
+    return (layer.data as RasterData).bounds;
+  }
+  return calculateBounds(layer.data as GeoJSON.FeatureCollection);
+}
+
+/**
+ * Visible imported layers in draw order (lowest zIndex first, so it ends up at the bottom)
+ */
+export function getDrawOrder(layers: ImportedLayer[]): ImportedLayer[] {
+  return layers.filter(layer => layer.visible).sort((a, b) => a.zIndex - b.zIndex);
+}
+
+/**
+ * Topmost visible raster covering the given coordinate
+ */
+export function findRasterAt(layers: ImportedLayer[], lng: number, lat: number): ImportedLayer | null {
+  const hits = getDrawOrder(layers).filter((layer) => {
+    if (layer.type !== 'raster') return false;
+    const [[west, south], [east, north]] = (layer.data as RasterData).bounds;
+    return lng >= west && lng <= east && lat >= south && lat <= north;
+  });
+  return hits.length > 0 ? hits[hits.length - 1] : null;
+}
+
+/**
+ * CSS filter equivalent of a raster layer's brightness/contrast/saturation (-1..1) sliders,
+ * for engines that draw rasters as plain images
+ */
+export function getRasterFilter(layer: ImportedLayer): string {
+  const brightness = 1 + (layer.brightness || 0);
+  const contrast = 1 + (layer.contrast || 0);
+  const saturation = 1 + (layer.saturation || 0);
+  return `brightness(${brightness}) contrast(${contrast}) saturate(${saturation})`;
+}
+
+/**
+ * Find the source feature for a division/index pair produced by an engine
+ */
+export function lookupSectorFeature(data: SectorsData, division: SectorDivision, index: number): SectorFeature | null {
+  return data[division]?.features[index] ?? null;
+}
+
+/**
+ * Attributes of all sectors by database id, for styling tile features not loaded yet
+ */
+export function indexAttributesById(attributes?: SectorAttributeData): Map<number, SectorProperties> {
+  const index = new Map<number, SectorProperties>();
+  DIVISIONS.forEach((division) => {
+    attributes?.[division]?.forEach((properties) => {
+      const id = (properties as SectorProperties & { id?: number }).id;
+      if (typeof id === 'number') index.set(id, properties);
+    });
+  });
+  return index;
+}
+
+/**
+ * Loaded sectors by database id, for resolving features drawn from vector tiles
+ */
+export function indexSectorsById(data: SectorsData): Map<number, SectorFeature> {
+  const index = new Map<number, SectorFeature>();
+  DIVISIONS.forEach((division) => {
+    data[division]?.features.forEach((feature) => {
+      const id = (feature.properties as SectorProperties & { id?: number }).id;
+      if (typeof id === 'number') index.set(id, feature);
+    });
+  });
+  return index;
+}
+
+/**
+ * Raw bytes of one sector vector tile; null for an empty tile
+ */
+export async function fetchSectorTile(source: SectorTileSource, z: number, x: number, y: number, signal?: AbortSignal): Promise<ArrayBuffer | null> {
+  const url = source.url.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+  const response = await fetch(url, { headers: source.headers, signal });
+  if (response.status === 204) return null;
+  if (!response.ok) throw new Error(`Sector tile ${z}/${x}/${y} failed: HTTP ${response.status}`);
+  return response.arrayBuffer();
+}
+
+/**
+ * Popup markup for a sector (nemra) feature
+ */
+export function buildSectorPopupHTML(props: SectorProperties, division: SectorDivision): string {
+  const area = props.Design_A_F || 0;
+  const sectorColor = sectorColors[division] || sectorColors.East;
+
+  return `
+    <div class="min-w-[250px] overflow-hidden rounded-lg">
+      <div class="p-3 text-white" style="background: ${sectorColor.gradient};">
+        <h3 class="font-bold text-lg mb-1">${props.Canal_Name || 'N/A'}</h3>
+        <p class="text-sm opacity-90 arabic-text" style="font-family: 'Cairo', sans-serif; direction: rtl;">${props.Name_AR || ''}</p>
+      </div>
+      <div class="p-3 bg-white">
+        <div class="grid grid-cols-2 gap-2 text-sm mb-3">
+          <div class="bg-gray-50 p-2 rounded">
+            <p class="text-xs text-gray-500 uppercase">Division</p>
+            <p class="font-semibold text-gray-800">${props.Division || division}</p>
+          </div>
+          <div class="bg-gray-50 p-2 rounded">
+            <p class="text-xs text-gray-500 uppercase">Office</p>
+            <p class="font-semibold text-gray-800">${props.Office || 'N/A'}</p>
+          </div>
+        </div>
+        <div class="space-y-2 text-sm border-t pt-2">
+          <div class="flex justify-between items-center">
+            <span class="text-gray-600">Nemra No:</span>
+            <span class="font-semibold text-gray-800">${props.No_Nemra ?? 'N/A'}</span>
+          </div>
+          <div class="flex justify-between items-center">
+            <span class="text-gray-600">Design Area:</span>
+            <span class="font-semibold text-gray-800">${area.toFixed(2)} Feddan</span>
+          </div>
+          ${props.Shape_Area ? `
+          <div class="flex justify-between items-center">
+            <span class="text-gray-600">Shape Area:</span>
+            <span class="font-semibold text-gray-800">${(props.Shape_Area / 1000000).toFixed(2)} km²</span>
+          </div>` : ''}
+          ${area > 2000 ? '<div class="mt-2 px-2 py-1 bg-amber-100 text-amber-800 rounded text-xs font-medium">🏆 Very Large Plot</div>' : ''}
+          ${props.Remarks_1 ? `<p class="text-xs italic mt-2 p-2 bg-blue-50 rounded text-gray-700">${props.Remarks_1}</p>` : ''}
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Popup markup for a feature from an imported vector layer
+ */
+export function buildImportedPopupHTML(layer: ImportedLayer, properties: Record<string, unknown> | null, geometryType: string): string {
+  const propsHTML = Object.entries(properties || {})
+    // Per-vertex GPX/KML arrays (MapLibre hands them back as JSON strings) and other nested
+    // values do not fit a popup row
+    .filter(([key, value]) => key !== 'geometry' && key !== 'coordinateProperties' && (value === null || typeof value !== 'object'))
+    .map(([key, value]) => `
+      <div class="flex justify-between border-b border-gray-200 py-1">
+        <span class="text-xs text-gray-600 font-medium">${key}:</span>
+        <span class="text-xs text-gray-800 ml-2">${value}</span>
+      </div>
+    `)
+    .join('');
+
+  return `
+    <div class="min-w-[200px] max-w-[300px]">
+      <div class="p-2 text-white" style="background: ${layer.color};">
+        <h3 class="font-bold text-sm">${layer.name}</h3>
+        <p class="text-xs opacity-90">${geometryType}</p>
+      </div>
+      <div class="p-2 bg-white max-h-64 overflow-y-auto">
+        ${propsHTML || '<p class="text-xs text-gray-500">No properties</p>'}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Popup markup for an imported raster layer
+ */
+export function buildRasterPopupHTML(layer: ImportedLayer): string {
+  const rasterData = layer.data as RasterData;
+
+  return `
+    <div class="min-w-[200px]">
+      <div class="p-2 text-white" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);">
+        <h3 class="font-bold text-sm">${layer.name}</h3>
+        <p class="text-xs opacity-90">Raster Image</p>
+      </div>
+      <div class="p-2 bg-white">
+        <div class="text-xs space-y-1">
+          <div class="flex justify-between">
+            <span class="text-gray-600">Type:</span>
+            <span class="font-semibold">Raster</span>
+          </div>
+          <div class="flex justify-between">
+            <span class="text-gray-600">Dimensions:</span>
+            <span class="font-semibold">${rasterData.width}x${rasterData.height}</span>
+          </div>
+          ${rasterData.expression ? `
+          <div class="flex justify-between gap-2">
+            <span class="text-gray-600">Expression:</span>
+            <span class="font-semibold font-mono truncate">${rasterData.expression}</span>
+          </div>` : ''}
+          ${rasterData.cog ? `
+          <div class="flex justify-between">
+            <span class="text-gray-600">Overviews:</span>
+            <span class="font-semibold">${rasterData.cog.overviews} (streamed)</span>
+          </div>` : ''}
+          ${rasterData.noData != null ? `
+          <div class="flex justify-between">
+            <span class="text-gray-600">NoData:</span>
+            <span class="font-semibold">${rasterData.noData}</span>
+          </div>` : ''}
+          <div class="flex justify-between">
+            <span class="text-gray-600">Opacity:</span>
+            <span class="font-semibold">${Math.round(layer.opacity * 100)}%</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  `;
+}
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { authAPI, getCurrentUser, isAuthenticated } from '../services/api';
+import { deleteOfflineValue, SECTOR_CACHE_KEY } from '../utils/offlineStore';
 
 interface User {
   id: number;
@@ -64,6 +65,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       await authAPI.logout();
     } finally {
       setUser(null);
+      // Sector data saved for offline use belongs to this session; unsent edits are kept
+      // for the user's next login
+      deleteOfflineValue(SECTOR_CACHE_KEY).catch(err => console.warn('Failed to clear offline data:', err));
     }
   };
 
@@ -0,0 +1,105 @@
+import { createContext, useCallback, useContext, useMemo, useState, type Dispatch, type ReactNode, type SetStateAction } from 'react';
+import type { SectorFeature } from '../types';
+import type { ImportedLayer } from '../utils/fileImport';
+import type { SymbologySettings } from '../components/Maps/SymbologyControl';
+import {
+  defaultSymbology,
+  defaultSectorLabels,
+  type MapViewport,
+  type SectorLabelSettings
+} from '../components/Maps/adapters';
+import { useImportedLayers, type ImportedLayerHandlers } from '../hooks/useImportedLayers';
+import { defaultSnapSettings, type SnapSettings } from '../utils/snapping';
+import { defaultAreaThresholds, type AreaThresholds } from '../utils/symbology';
+import type { ZonalStatsRun } from '../utils/zonalStats';
+
+interface MapSessionContextType {
+  // Last reported view of whichever engine is mounted; null until the first map move
+  viewport: MapViewport | null;
+  setViewport: (viewport: MapViewport) => void;
+  // Set from outside the map (e.g. a permalink); the mounted engine moves there
+  viewportRequest: MapViewport | null;
+  jumpToViewport: (viewport: MapViewport) => void;
+  importedLayers: ImportedLayer[];
+  addImportedLayer: (layer: ImportedLayer) => void;
+  layerHandlers: ImportedLayerHandlers;
+  symbology: SymbologySettings;
+  setSymbology: Dispatch<SetStateAction<SymbologySettings>>;
+  sectorLabels: SectorLabelSettings;
+  setSectorLabels: Dispatch<SetStateAction<SectorLabelSettings>>;
+  areaThresholds: AreaThresholds;
+  setAreaThresholds: Dispatch<SetStateAction<AreaThresholds>>;
+  selectedFeature: SectorFeature | null;
+  setSelectedFeature: Dispatch<SetStateAction<SectorFeature | null>>;
+  snapSettings: SnapSettings;
+  setSnapSettings: Dispatch<SetStateAction<SnapSettings>>;
+  // Raster statistics per nemra, added to the sectors as attributes
+  zonalStats: ZonalStatsRun[];
+  setZonalStats: Dispatch<SetStateAction<ZonalStatsRun[]>>;
+}
+
+const MapSessionContext = createContext<MapSessionContextType | undefined>(undefined);
+
+/**
+ * Map workspace that outlives a single map engine, so switching library keeps the
+ * current view, imported layers, symbology, area categories, selection, snap settings and
+ * zonal statistics.
+ */
+interface MapSessionProviderProps {
+  children: ReactNode;
+  initialViewport?: MapViewport | null;
+}
+
+export function MapSessionProvider({ children, initialViewport = null }: MapSessionProviderProps) {
+  const [viewport, setViewport] = useState<MapViewport | null>(initialViewport);
+  const [viewportRequest, setViewportRequest] = useState<MapViewport | null>(null);
+  const { importedLayers, addLayer, layerHandlers } = useImportedLayers();
+  const [symbology, setSymbology] = useState<SymbologySettings>(defaultSymbology);
+  const [sectorLabels, setSectorLabels] = useState<SectorLabelSettings>(defaultSectorLabels);
+  const [areaThresholds, setAreaThresholds] = useState<AreaThresholds>(defaultAreaThresholds);
+  const [selectedFeature, setSelectedFeature] = useState<SectorFeature | null>(null);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(defaultSnapSettings);
+  const [zonalStats, setZonalStats] = useState<ZonalStatsRun[]>([]);
+
+  const jumpToViewport = useCallback((next: MapViewport) => {
+    setViewport(next);
+    setViewportRequest(next);
+  }, []);
+
+  // Setters are stable, so only state changes give consumers a new value
+  const value = useMemo<MapSessionContextType>(() => ({
+    viewport,
+    setViewport,
+    viewportRequest,
+    jumpToViewport,
+    importedLayers,
+    addImportedLayer: addLayer,
+    layerHandlers,
+    symbology,
+    setSymbology,
+    sectorLabels,
+    setSectorLabels,
+    areaThresholds,
+    setAreaThresholds,
+    selectedFeature,
+    setSelectedFeature,
+    snapSettings,
+    setSnapSettings,
+    zonalStats,
+    setZonalStats,
+  }), [viewport, viewportRequest, jumpToViewport, importedLayers, addLayer, layerHandlers, symbology, sectorLabels, areaThresholds, selectedFeature, snapSettings, zonalStats]);
+
+  return (
+    <MapSessionContext.Provider value={value}>
+      {children}
+    </MapSessionContext.Provider>
+  );
+}
+
+export function useMapSession() {
+  const context = useContext(MapSessionContext);
+  if (context === undefined) {
+    throw new Error('useMapSession must be used within a MapSessionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,246 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { SectorConflictError, sectorsAPI } from '../services/api';
+import { editQueueKey, getOfflineValue, setOfflineValue } from '../utils/offlineStore';
+import {
+  diffQueuedUpdate,
+  isNetworkError,
+  mergeQueuedUpdates,
+  pickEditableFields,
+  toBackendChanges,
+  type EditConflict,
+  type EditableSectorField,
+  type QueuedEdit,
+  type QueuedUpdate,
+} from '../utils/editQueue';
+import { useAuth } from './AuthContext';
+import type { NewSectorData } from '../types';
+
+// How often queued edits are retried while any are waiting
+const REPLAY_INTERVAL_MS = 30000;
+
+export type NewQueuedUpdate = Omit<QueuedUpdate, 'kind' | 'queueId' | 'queuedAt'>;
+
+interface OfflineEditsContextType {
+  queue: QueuedEdit[];
+  // Queued updates the server changed too; they wait for a decision in the merge dialog
+  conflicts: EditConflict[];
+  syncing: boolean;
+  // Bumped when replayed edits reached the server, so the sectors can be loaded again
+  syncGeneration: number;
+  queueUpdates: (updates: NewQueuedUpdate[]) => void;
+  queueCreate: (label: string, sector: NewSectorData, createKey: string) => void;
+  replay: () => Promise<void>;
+  // Write the queued values of the given conflicting fields and the server's for the rest
+  resolveConflict: (queueId: string, keepMine: EditableSectorField[]) => Promise<void>;
+  discardEdit: (queueId: string) => void;
+}
+
+const OfflineEditsContext = createContext<OfflineEditsContextType | undefined>(undefined);
+
+const newQueueId = () => `edit-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Queue of sector edits made without a connection. The queue is kept in IndexedDB per user and
+ * replayed when the browser comes back online, every so often while edits are waiting, and
+ * on request; updates the server changed meanwhile become conflicts to merge.
+ */
+export function OfflineEditsProvider({ children }: { children: ReactNode }) {
+  const { user, isAuthenticated } = useAuth();
+  const queueKey = user ? editQueueKey(user.id) : null;
+  const [queue, setQueue] = useState<QueuedEdit[]>([]);
+  const [conflicts, setConflicts] = useState<EditConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [syncGeneration, setSyncGeneration] = useState(0);
+  const queueRef = useRef<QueuedEdit[]>([]);
+  const replayingRef = useRef(false);
+  // Not saved until the stored queue was read, so an empty start does not overwrite it
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    queueRef.current = queue;
+    if (!restored || !queueKey) return;
+    setOfflineValue(queueKey, queue).catch((err) => {
+      console.warn('Failed to save the offline edit queue:', err);
+    });
+  }, [queue, restored, queueKey]);
+
+  useEffect(() => {
+    if (!queueKey) {
+      setQueue([]);
+      setConflicts([]);
+      setRestored(false);
+      return;
+    }
+    getOfflineValue<QueuedEdit[]>(queueKey)
+      .then((stored) => {
+        if (stored?.length) {
+          console.log(`📥 ${stored.length} offline edit(s) waiting to be sent`);
+          setQueue(current => [...stored, ...current]);
+        }
+      })
+      .catch((err) => console.warn('Failed to read the offline edit queue:', err))
+      .finally(() => setRestored(true));
+  }, [queueKey]);
+
+  const queueUpdates = useCallback((updates: NewQueuedUpdate[]) => {
+    const queuedAt = new Date().toISOString();
+    setQueue(current => {
+      const next = [...current];
+      updates.forEach((update) => {
+        const incoming: QueuedUpdate = { ...update, kind: 'update', queueId: newQueueId(), queuedAt };
+        const index = next.findIndex(edit => edit.kind === 'update' && edit.sectorId === update.sectorId);
+        if (index >= 0) {
+          next[index] = mergeQueuedUpdates(next[index] as QueuedUpdate, incoming);
+        } else {
+          next.push(incoming);
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  const queueCreate = useCallback((label: string, sector: NewSectorData, createKey: string) => {
+    setQueue(current => [
+      ...current,
+      { kind: 'create', queueId: newQueueId(), queuedAt: new Date().toISOString(), label, sector, createKey },
+    ]);
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current || queueRef.current.length === 0) return;
+    replayingRef.current = true;
+    setSyncing(true);
+
+    const sent = new Set<string>();
+    const errors = new Map<string, string>();
+    const found: EditConflict[] = [];
+
+    try {
+      for (const edit of queueRef.current) {
+        try {
+          if (edit.kind === 'create') {
+            await sectorsAPI.create(edit.sector, edit.createKey);
+            sent.add(edit.queueId);
+            continue;
+          }
+
+          const current = await sectorsAPI.getById(edit.sectorId);
+          const theirs = pickEditableFields(current.data.properties);
+          const theirsUpdatedAt: string | null = current.data.properties.updated_at ?? null;
+
+          // Untouched on the server since the edit: everything queued can be written
+          const unchanged = edit.baseUpdatedAt !== null && edit.baseUpdatedAt === theirsUpdatedAt;
+          const { apply, conflicts: fields } = unchanged
+            ? { apply: edit.changes, conflicts: [] }
+            : diffQueuedUpdate(edit, theirs);
+
+          if (fields.length > 0) {
+            found.push({ edit, theirs, theirsUpdatedAt, fields });
+            continue;
+          }
+          if (Object.keys(apply).length > 0) {
+            await sectorsAPI.batchUpdate([{ id: edit.sectorId, updated_at: theirsUpdatedAt, ...toBackendChanges(apply) }]);
+          }
+          sent.add(edit.queueId);
+        } catch (error) {
+          // Still offline: the rest waits for the next attempt, in order
+          if (isNetworkError(error)) break;
+          // Changed again between reading and writing it: compared anew on the next attempt
+          if (error instanceof SectorConflictError) continue;
+          errors.set(edit.queueId, error instanceof Error ? error.message : 'Failed to save');
+        }
+      }
+    } finally {
+      setQueue(current => current
+        .filter(edit => !sent.has(edit.queueId))
+        .map(edit => (errors.has(edit.queueId) ? { ...edit, error: errors.get(edit.queueId) } : edit)));
+      setConflicts(found);
+      if (sent.size > 0) {
+        console.log(`📤 Sent ${sent.size} offline edit(s)${found.length ? `, ${found.length} in conflict` : ''}`);
+        setSyncGeneration(generation => generation + 1);
+      }
+      replayingRef.current = false;
+      setSyncing(false);
+    }
+  }, []);
+
+  const discardEdit = useCallback((queueId: string) => {
+    setQueue(current => current.filter(edit => edit.queueId !== queueId));
+    setConflicts(current => current.filter(conflict => conflict.edit.queueId !== queueId));
+  }, []);
+
+  const resolveConflict = useCallback(async (queueId: string, keepMine: EditableSectorField[]) => {
+    const conflict = conflicts.find(c => c.edit.queueId === queueId);
+    if (!conflict) return;
+
+    // Queued fields the server did not touch go in as well
+    const { apply } = diffQueuedUpdate(conflict.edit, conflict.theirs);
+    keepMine.forEach((field) => {
+      apply[field] = conflict.edit.changes[field];
+    });
+
+    if (Object.keys(apply).length > 0) {
+      try {
+        await sectorsAPI.batchUpdate([
+          { id: conflict.edit.sectorId, updated_at: conflict.theirsUpdatedAt, ...toBackendChanges(apply) },
+        ]);
+      } catch (error) {
+        // Changed once more while the dialog was open: show the new server values instead
+        if (error instanceof SectorConflictError && error.conflicts[0]) {
+          const theirs = pickEditableFields(error.conflicts[0].properties);
+          const { conflicts: fields } = diffQueuedUpdate(conflict.edit, theirs);
+          setConflicts(current => current.map(c => (c.edit.queueId === queueId
+            ? { ...c, theirs, theirsUpdatedAt: error.conflicts[0].updated_at, fields }
+            : c)));
+          throw new Error('The nemra was changed again on the server. Review its new values and save again.');
+        }
+        throw error;
+      }
+      setSyncGeneration(generation => generation + 1);
+    }
+    discardEdit(queueId);
+  }, [conflicts, discardEdit]);
+
+  // Replay on start, when the browser is back online, and now and then while edits wait.
+  // Conflicts wait for the merge dialog and failed edits for the user.
+  const hasPending = queue.some(edit => !edit.error && !conflicts.some(c => c.edit.queueId === edit.queueId));
+  useEffect(() => {
+    if (!isAuthenticated || !restored || !hasPending) return;
+    const attempt = () => {
+      if (navigator.onLine) void replay();
+    };
+    attempt();
+    window.addEventListener('online', attempt);
+    const timer = setInterval(attempt, REPLAY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', attempt);
+      clearInterval(timer);
+    };
+  }, [isAuthenticated, restored, hasPending, replay]);
+
+  return (
+    <OfflineEditsContext.Provider
+      value={{
+        queue,
+        conflicts,
+        syncing,
+        syncGeneration,
+        queueUpdates,
+        queueCreate,
+        replay,
+        resolveConflict,
+        discardEdit,
+      }}
+    >
+      {children}
+    </OfflineEditsContext.Provider>
+  );
+}
+
+export function useOfflineEdits() {
+  const context = useContext(OfflineEditsContext);
+  if (context === undefined) {
+    throw new Error('useOfflineEdits must be used within an OfflineEditsProvider');
+  }
+  return context;
+}
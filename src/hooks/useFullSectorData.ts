@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { sectorsAPI } from '../services/api';
+import type { SectorDivision, SectorFeature, SectorFeatureCollection } from '../types';
+
+type SectorsData = Record<SectorDivision, SectorFeatureCollection | null>;
+
+const DIVISIONS: SectorDivision[] = ['East', 'West', 'North', 'South'];
+
+function groupByDivision(features: SectorFeature[]): SectorsData {
+  const data: SectorsData = { East: null, West: null, North: null, South: null };
+  features.forEach((feature) => {
+    const division = feature.properties.Division as SectorDivision;
+    if (!DIVISIONS.includes(division)) return;
+    (data[division] ??= {
+      type: 'FeatureCollection',
+      name: division,
+      crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:OGC:1.3:CRS84' } },
+      features: [],
+    }).features.push(feature);
+  });
+  return data;
+}
+
+/**
+ * Sectors with full geometry for work over the whole scheme (topology checks, zonal
+ * statistics), as the map only holds the area in view. Editors and admins fetch them from
+ * the backend when asked; viewers may not fetch more than a few, so they work on the
+ * sectors of the map view (`viewOnly`).
+ */
+export function useFullSectorData(viewSectors: SectorsData) {
+  const { hasRole } = useAuth();
+  const canFetchAll = hasRole(['admin', 'editor']);
+
+  const loadSectors = useCallback(async (division: SectorDivision | null = null): Promise<SectorsData> => {
+    if (!canFetchAll) return viewSectors;
+    const response = await sectorsAPI.getFeatures({ division: division ?? undefined });
+    return groupByDivision(response.data.features);
+  }, [canFetchAll, viewSectors]);
+
+  return { loadSectors, viewOnly: !canFetchAll };
+}
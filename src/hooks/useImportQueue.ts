@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { validateFile, type ImportedLayer } from '../utils/fileImport';
+import type { ParseProgress } from '../utils/fileReading';
+import { createImportWorker, IMPORT_CANCELLED, type ImportWorker, type WorkerParseOptions } from '../utils/importWorker';
+import { isSpreadsheetFile, type PointMapping, type SpreadsheetTable } from '../utils/spreadsheetImport';
+
+export type ImportStatus = 'queued' | 'parsing' | 'done' | 'error' | 'cancelled';
+
+export interface ImportQueueItem {
+  id: number;
+  file: File;
+  // Captured when the file was dropped, so changing the CRS later does not affect queued files
+  options: WorkerParseOptions;
+  status: ImportStatus;
+  progress: ParseProgress;
+  // Summary when done, reason when failed
+  message?: string;
+}
+
+interface ImportQueueCallbacks {
+  onLayerImport: (layer: ImportedLayer) => void;
+  // CSV/Excel points need their coordinate columns confirmed; null skips the file
+  requestPointMapping: (file: File, table: SpreadsheetTable) => Promise<PointMapping | null>;
+}
+
+const isFinished = (item: ImportQueueItem) => item.status === 'done' || item.status === 'error' || item.status === 'cancelled';
+
+/**
+ * Files dropped on the import panel, parsed one after another in the import worker
+ */
+export function useImportQueue(callbacks: ImportQueueCallbacks) {
+  const [items, setItems] = useState<ImportQueueItem[]>([]);
+  // The processing loop outlives renders, so it works on refs
+  const itemsRef = useRef<ImportQueueItem[]>([]);
+  const callbacksRef = useRef(callbacks);
+  const workerRef = useRef<ImportWorker | null>(null);
+  const processingRef = useRef(false);
+  const nextIdRef = useRef(1);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  });
+
+  const setQueue = useCallback((update: (items: ImportQueueItem[]) => ImportQueueItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const updateItem = useCallback((id: number, updates: Partial<ImportQueueItem>) => {
+    setQueue(queue => queue.map(item => (item.id === id ? { ...item, ...updates } : item)));
+  }, [setQueue]);
+
+  const processQueue = useCallback(async () => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+    workerRef.current = workerRef.current ?? createImportWorker();
+    const worker = workerRef.current;
+
+    let item: ImportQueueItem | undefined;
+    while ((item = itemsRef.current.find(queued => queued.status === 'queued'))) {
+      const { id, file } = item;
+      const onProgress = (progress: ParseProgress) => updateItem(id, { progress });
+      updateItem(id, { status: 'parsing' });
+
+      try {
+        const options = { ...item.options };
+        if (isSpreadsheetFile(file)) {
+          const table = await worker.readSpreadsheet(file, onProgress);
+          const pointMapping = await callbacksRef.current.requestPointMapping(file, table);
+          if (!pointMapping) {
+            updateItem(id, { status: 'cancelled' });
+            continue;
+          }
+          options.pointMapping = pointMapping;
+        }
+
+        // A GeoPackage, TopoJSON or GPX file can yield several layers
+        const layers = await worker.parseLayers(file, options, onProgress);
+        layers.forEach(callbacksRef.current.onLayerImport);
+
+        const features = layers.reduce((count, layer) => count + ('features' in layer.data ? layer.data.features.length : 0), 0);
+        updateItem(id, {
+          status: 'done',
+          message: layers.length > 1 ? `${layers.length} layers` : features > 0 ? `${features} features` : 'Imported',
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to import file';
+        updateItem(id, message === IMPORT_CANCELLED ? { status: 'cancelled' } : { status: 'error', message });
+      }
+    }
+
+    processingRef.current = false;
+  }, [updateItem]);
+
+  const enqueue = useCallback((files: File[], options: WorkerParseOptions) => {
+    const added = files.map((file): ImportQueueItem => {
+      const validation = validateFile(file);
+      return {
+        id: nextIdRef.current++,
+        file,
+        options,
+        status: validation.valid ? 'queued' : 'error',
+        progress: {},
+        message: validation.error,
+      };
+    });
+    setQueue(queue => [...queue, ...added]);
+    processQueue();
+  }, [setQueue, processQueue]);
+
+  // A queued file is skipped; the running one has its worker stopped
+  const cancel = useCallback((id: number) => {
+    const item = itemsRef.current.find(queued => queued.id === id);
+    if (item?.status === 'queued') updateItem(id, { status: 'cancelled' });
+    else if (item?.status === 'parsing') workerRef.current?.cancel();
+  }, [updateItem]);
+
+  const cancelAll = useCallback(() => {
+    setQueue(queue => queue.map(item => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+    workerRef.current?.cancel();
+  }, [setQueue]);
+
+  const clearFinished = useCallback(() => {
+    setQueue(queue => queue.filter(item => !isFinished(item)));
+  }, [setQueue]);
+
+  // Stop everything when the map view unmounts
+  useEffect(() => () => {
+    itemsRef.current = itemsRef.current.map(item => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+    workerRef.current?.destroy();
+    workerRef.current = null;
+  }, []);
+
+  return {
+    items,
+    busy: items.some(item => !isFinished(item)),
+    enqueue,
+    cancel,
+    cancelAll,
+    clearFinished,
+  };
+}
@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { regenerateRasterImage, type ImportedLayer, type RasterData } from '../utils/fileImport';
+import type { LayerManagerProps } from '../components/Maps/LayerManager';
+
+// Everything LayerManager needs except zooming and track playback, which depend on the active map engine
+export type ImportedLayerHandlers = Omit<LayerManagerProps, 'layers' | 'onZoomToLayer' | 'onTrackPlayback'>;
+
+/**
+ * Imported (user-uploaded) layers and their LayerManager handlers, shared by all map engines
+ */
+export function useImportedLayers(initialLayers: ImportedLayer[] = []) {
+  const [importedLayers, setImportedLayers] = useState<ImportedLayer[]>(initialLayers);
+
+  const handlers = useMemo(() => {
+    const updateLayer = (layerId: string, updates: Partial<ImportedLayer>) => {
+      setImportedLayers(prev =>
+        prev.map(layer =>
+          layer.id === layerId ? { ...layer, ...updates } : layer
+        )
+      );
+    };
+
+    // Band changes need the raster image rebuilt from the stored bands
+    const updateRasterBands = (layerId: string, updates: Partial<ImportedLayer>) => {
+      setImportedLayers(prev =>
+        prev.map(layer => {
+          if (layer.id !== layerId) return layer;
+          const updatedLayer = { ...layer, ...updates };
+          return {
+            ...updatedLayer,
+            data: {
+              ...(updatedLayer.data as RasterData),
+              imageUrl: regenerateRasterImage(updatedLayer)
+            }
+          };
+        })
+      );
+    };
+
+    const addLayer = (layer: ImportedLayer) => {
+      setImportedLayers(prev => [...prev, layer]);
+    };
+
+    const layerHandlers: ImportedLayerHandlers = {
+      onToggleVisibility: (layerId) => {
+        setImportedLayers(prev =>
+          prev.map(layer =>
+            layer.id === layerId ? { ...layer, visible: !layer.visible } : layer
+          )
+        );
+      },
+      onRemoveLayer: (layerId) => {
+        setImportedLayers(prev => prev.filter(layer => layer.id !== layerId));
+      },
+      onChangeColor: (layerId, color) => updateLayer(layerId, { color }),
+      onChangeOpacity: (layerId, opacity) => updateLayer(layerId, { opacity }),
+      onMoveLayer: (layerId, direction) => {
+        setImportedLayers(prev => {
+          const index = prev.findIndex(l => l.id === layerId);
+          if (index === -1) return prev;
+
+          const newLayers = [...prev];
+          if (direction === 'up' && index > 0) {
+            [newLayers[index - 1], newLayers[index]] = [newLayers[index], newLayers[index - 1]];
+          } else if (direction === 'down' && index < newLayers.length - 1) {
+            [newLayers[index], newLayers[index + 1]] = [newLayers[index + 1], newLayers[index]];
+          }
+
+          // Update z-indices
+          return newLayers.map((layer, i) => ({ ...layer, zIndex: newLayers.length - i }));
+        });
+      },
+      onToggleLabels: (layerId) => {
+        setImportedLayers(prev =>
+          prev.map(layer =>
+            layer.id === layerId ? { ...layer, showLabels: !layer.showLabels } : layer
+          )
+        );
+      },
+      onChangeLabelField: (layerId, field) => updateLayer(layerId, { labelField: field }),
+      onChangeLabelSize: (layerId, size) => updateLayer(layerId, { labelSize: size }),
+      onChangeLabelColor: (layerId, color) => updateLayer(layerId, { labelColor: color }),
+      onChangeLabelHaloColor: (layerId, color) => updateLayer(layerId, { labelHaloColor: color }),
+      onChangeLabelHaloWidth: (layerId, width) => updateLayer(layerId, { labelHaloWidth: width }),
+      onChangeBrightness: (layerId, brightness) => updateLayer(layerId, { brightness }),
+      onChangeContrast: (layerId, contrast) => updateLayer(layerId, { contrast }),
+      onChangeSaturation: (layerId, saturation) => updateLayer(layerId, { saturation }),
+      onChangeRedBand: (layerId, band) => updateRasterBands(layerId, { redBand: band }),
+      onChangeGreenBand: (layerId, band) => updateRasterBands(layerId, { greenBand: band }),
+      onChangeBlueBand: (layerId, band) => updateRasterBands(layerId, { blueBand: band }),
+      onChangeGrayscaleBand: (layerId, band) => updateRasterBands(layerId, { grayscaleBand: band }),
+      onChangeDisplayMode: (layerId, mode) => updateRasterBands(layerId, { displayMode: mode }),
+      // A chosen stretch replaces a band math preset's fixed range
+      onChangeStretch: (layerId, stretch) => updateRasterBands(layerId, { stretch, rampRange: undefined }),
+      onChangeColorRamp: (layerId, ramp) => updateRasterBands(layerId, { colorRamp: ramp ?? undefined }),
+      onAddLayer: addLayer,
+    };
+
+    return { layerHandlers, addLayer };
+  }, []);
+
+  return {
+    importedLayers,
+    setImportedLayers,
+    addLayer: handlers.addLayer,
+    layerHandlers: handlers.layerHandlers,
+  };
+}
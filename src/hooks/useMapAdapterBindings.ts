@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SectorFeature } from '../types';
+import { useMapSession } from '../context/MapSessionContext';
+import {
+  getSectorsBounds,
+  getImportedLayerBounds,
+  type MapAdapter,
+  type SectorRenderOptions,
+  type SectorsData,
+  type TrackPlaybackFrame
+} from '../components/Maps/adapters';
+
+/**
+ * Keep a map adapter in sync with the shared map session: restores the session viewport
+ * on mount, reports moves back, and renders sectors, imported layers and the highlight.
+ */
+export function useMapAdapterBindings(
+  adapter: MapAdapter | null,
+  sectorsData: SectorsData,
+  sectorOptions: SectorRenderOptions,
+  onFeatureClick?: (feature: SectorFeature) => void
+) {
+  const {
+    viewport,
+    setViewport,
+    viewportRequest,
+    importedLayers,
+    selectedFeature,
+    setSelectedFeature
+  } = useMapSession();
+
+  // Viewport carried over from the previously mounted engine (captured once on mount)
+  const [initialViewport] = useState(viewport);
+  const skipInitialFitRef = useRef(initialViewport !== null);
+  // Requests made before mount are already part of initialViewport
+  const appliedRequestRef = useRef(viewportRequest);
+
+  useEffect(() => {
+    if (!adapter) return;
+    if (initialViewport) adapter.setViewport(initialViewport);
+    return adapter.onViewportChange(setViewport);
+  }, [adapter, initialViewport, setViewport]);
+
+  useEffect(() => {
+    if (!adapter) return;
+    return adapter.onFeatureClick((feature) => {
+      setSelectedFeature(feature);
+      onFeatureClick?.(feature);
+    });
+  }, [adapter, onFeatureClick, setSelectedFeature]);
+
+  const { selectedSector, symbology, classes, areaThresholds, visibility, labels, extrude, tiles, attributes } = sectorOptions;
+
+  useEffect(() => {
+    adapter?.renderSectors(sectorsData, { selectedSector, symbology, classes, areaThresholds, visibility, labels, extrude, tiles, attributes });
+  }, [adapter, sectorsData, selectedSector, symbology, classes, areaThresholds, visibility, labels, extrude, tiles, attributes]);
+
+  // Fit to the visible sectors when their bounds or the selected division change, except
+  // right after mount when the view was restored from the session. Sectors loaded by
+  // viewport do not move the map: their divisions' bounds are the full extents.
+  const lastFitRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!adapter) return;
+    const bounds = getSectorsBounds(sectorsData, { selectedSector });
+    const fitKey = bounds ? `${selectedSector}:${bounds.flat().join(',')}` : null;
+    if (fitKey === lastFitRef.current) return;
+    lastFitRef.current = fitKey;
+    if (skipInitialFitRef.current) {
+      skipInitialFitRef.current = false;
+      return;
+    }
+    if (bounds) adapter.fitBounds(bounds, { padding: 50 });
+  }, [adapter, sectorsData, selectedSector]);
+
+  // Explicit view requests run after the fit so they win when both change together
+  useEffect(() => {
+    if (!adapter || !viewportRequest || viewportRequest === appliedRequestRef.current) return;
+    appliedRequestRef.current = viewportRequest;
+    adapter.setViewport(viewportRequest);
+  }, [adapter, viewportRequest]);
+
+  useEffect(() => {
+    adapter?.renderImportedLayers(importedLayers);
+  }, [adapter, importedLayers]);
+
+  useEffect(() => {
+    adapter?.highlightFeature(selectedFeature);
+  }, [adapter, selectedFeature]);
+
+  const zoomToImportedLayer = (layerId: string) => {
+    const layer = importedLayers.find(l => l.id === layerId);
+    const bounds = layer ? getImportedLayerBounds(layer) : null;
+    if (bounds) adapter?.fitBounds(bounds, { padding: 50, duration: 1000 });
+  };
+
+  // Playback frames bypass session state: they arrive every animation frame
+  const showTrackPlayback = useCallback((frame: TrackPlaybackFrame | null) => {
+    adapter?.renderTrackPlayback(frame);
+  }, [adapter]);
+
+  return { zoomToImportedLayer, showTrackPlayback };
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { buildPermalink, parsePermalink, type PermalinkState } from '../utils/permalink';
+
+// Wait for the view to settle (fit animations run for 1s) so typing, panning and a sector
+// change with its zoom-to-fit each produce one history entry
+const HISTORY_DEBOUNCE_MS = 1200;
+
+/**
+ * Mirror map state into the URL hash and restore it on back/forward navigation.
+ * Nothing is written while `enabled` is false, so a shared link survives the login screen.
+ */
+export function usePermalink(
+  state: PermalinkState,
+  onNavigate: (state: PermalinkState) => void,
+  enabled = true
+) {
+  const hash = buildPermalink(state);
+  const onNavigateRef = useRef(onNavigate);
+  // The first write and the write following a back/forward step replace the current entry
+  const replaceNextRef = useRef(true);
+
+  useEffect(() => {
+    onNavigateRef.current = onNavigate;
+  }, [onNavigate]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = window.setTimeout(() => {
+      if (hash === window.location.hash) {
+        replaceNextRef.current = false;
+        return;
+      }
+      if (replaceNextRef.current) {
+        window.history.replaceState(window.history.state, '', hash);
+        replaceNextRef.current = false;
+      } else {
+        window.history.pushState(window.history.state, '', hash);
+      }
+    }, HISTORY_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [hash, enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handlePopState = () => {
+      console.log('🔗 Restoring view from URL:', window.location.hash);
+      replaceNextRef.current = true;
+      onNavigateRef.current(parsePermalink(window.location.hash));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [enabled]);
+
+  return hash;
+}
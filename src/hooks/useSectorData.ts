@@ -1,9 +1,121 @@
-import { useState, useEffect, useCallback } from 'react';
-import { sectorsAPI, isAuthenticated } from '../services/api';
-import type { SectorFeatureCollection, SectorDivision } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { sectorsAPI } from '../services/api';
+import type { SectorAttributeData, SectorFeatureCollection, SectorDivision, SectorFeature, SectorProperties } from '../types';
+import type { MapBounds, MapViewport } from '../components/Maps/adapters';
+import { getOfflineValue, setOfflineValue, SECTOR_CACHE_KEY } from '../utils/offlineStore';
+import {
+  bboxIntersects,
+  bboxWithinSpan,
+  getDetailLevel,
+  getDetailRank,
+  getKeysRange,
+  getRequestZoom,
+  getTileKeys,
+  getTileRange,
+  getTileRangeBBox,
+  getViewportBounds,
+} from '../utils/sectorTiles';
 
-export function useSectorData() {
-  const [sectorsData, setSectorsData] = useState<Record<SectorDivision, SectorFeatureCollection | null>>({
+type SectorsState = Record<SectorDivision, SectorFeatureCollection | null>;
+type BBox = [number, number, number, number];
+
+const DIVISIONS: SectorDivision[] = ['East', 'West', 'North', 'South'];
+
+// Pause after the map stops moving before asking for its sectors
+const VIEWPORT_DEBOUNCE_MS = 400;
+// Spacing between viewport requests; the backend allows one every 3 s (300 per 15 minutes)
+const MIN_REQUEST_INTERVAL_MS = 3000;
+// Loaded sectors kept in memory before those outside the view are dropped
+const MAX_CACHED_FEATURES = 20000;
+// Zoom used before the map has reported a viewport (the whole scheme in view)
+const OVERVIEW_ZOOM = 8;
+// How often to try the backend again while working from the offline copy
+const OFFLINE_RETRY_MS = 60000;
+
+// Format of the offline copy of the loaded sectors; bump it when its shape changes
+const SECTOR_CACHE_FORMAT = 2;
+
+interface CachedSector {
+  id: number;
+  division: SectorDivision;
+  feature: SectorFeature;
+  bbox: BBox;
+  // getDetailRank() of the level it was loaded at
+  rank: number;
+}
+
+interface DivisionExtent {
+  count: number;
+  bbox: BBox;
+}
+
+interface SectorCachePayload {
+  format: number;
+  // ETag of the backend's sector data the copy matches
+  version: string | null;
+  syncedAt: string;
+  extents: Partial<Record<SectorDivision, DivisionExtent>>;
+  sectors: CachedSector[];
+  // Attributes of all sectors, from getAttributes
+  attributes: SectorProperties[] | null;
+  loadedTiles: string[];
+  truncatedTiles: string[];
+}
+
+export interface SectorSyncState {
+  // live: checked against the backend; checking: started from the offline copy and asking
+  // the backend; offline: the backend cannot be reached, the offline copy is shown
+  status: 'live' | 'checking' | 'offline';
+  // When the backend last confirmed the data was current
+  syncedAt: string | null;
+}
+
+export interface ViewportLoadState {
+  loading: boolean;
+  // The view holds more sectors than one request returns; zoom in to load them all
+  partial: boolean;
+  error: string | null;
+  loadedCount: number;
+  totalCount: number;
+}
+
+const initialViewportState: ViewportLoadState = { loading: false, partial: false, error: null, loadedCount: 0, totalCount: 0 };
+
+function getFeatureBBox(feature: SectorFeature): BBox {
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  const polygons = feature.geometry.type === 'Polygon'
+    ? [feature.geometry.coordinates as number[][][]]
+    : feature.geometry.coordinates as number[][][][];
+  polygons.forEach(rings => rings[0]?.forEach(([lng, lat]) => {
+    bbox[0] = Math.min(bbox[0], lng);
+    bbox[1] = Math.min(bbox[1], lat);
+    bbox[2] = Math.max(bbox[2], lng);
+    bbox[3] = Math.max(bbox[3], lat);
+  }));
+  return bbox;
+}
+
+function toDivisionExtents(extents: { division: string; count: number; bbox: BBox }[]): Partial<Record<SectorDivision, DivisionExtent>> {
+  return Object.fromEntries(
+    extents
+      .filter(({ division }) => DIVISIONS.includes(division as SectorDivision))
+      .map(({ division, count, bbox }) => [division, { count, bbox }])
+  );
+}
+
+const toBBox = ([[west, south], [east, north]]: MapBounds): BBox => [west, south, east, north];
+
+function groupByDivision(rows: SectorProperties[]): SectorAttributeData {
+  const data: SectorAttributeData = { East: null, West: null, North: null, South: null };
+  rows.forEach((row) => {
+    const division = row.Division as SectorDivision;
+    if (DIVISIONS.includes(division)) (data[division] ??= []).push(row);
+  });
+  return data;
+}
+
+export function useSectorData(viewport: MapViewport | null = null, authenticated = true) {
+  const [sectorsData, setSectorsData] = useState<SectorsState>({
     East: null,
     West: null,
     North: null,
@@ -11,60 +123,192 @@ export function useSectorData() {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [dataSource, setDataSource] = useState<'local' | 'backend'>('local');
+  // none until the first load
+  const [dataSource, setDataSource] = useState<'none' | 'backend'>('none');
+  const [viewportState, setViewportState] = useState<ViewportLoadState>(initialViewportState);
+  // Bumped to load the current view again after a reload
+  const [loadGeneration, setLoadGeneration] = useState(0);
+  const [syncState, setSyncState] = useState<SectorSyncState>({ status: 'live', syncedAt: null });
+  // Version of the backend data the loaded sectors match (its ETag)
+  const [dataVersion, setDataVersion] = useState<string | null>(null);
+  // Attributes of all sectors, loaded on their own while sectorsData holds the sectors of
+  // the area in view
+  const [sectorAttributes, setSectorAttributes] = useState<SectorAttributeData>({
+    East: null,
+    West: null,
+    North: null,
+    South: null,
+  });
 
-  const loadSectors = useCallback(async () => {
-    try {
-      setLoading(true);
+  // Backend mode: per-division extents, loaded sectors by id and the tiles they cover
+  const extentsRef = useRef<Partial<Record<SectorDivision, DivisionExtent>>>({});
+  const cacheRef = useRef(new Map<number, CachedSector>());
+  const loadedTilesRef = useRef(new Set<string>());
+  // Tiles whose request hit the backend's feature cap; not asked for again at that level
+  const truncatedTilesRef = useRef(new Set<string>());
+  const lastRequestRef = useRef(0);
+  const versionRef = useRef<string | null>(null);
+  const attributesRef = useRef<SectorProperties[] | null>(null);
+  const syncedAtRef = useRef<string | null>(null);
 
-      // Try to load from backend if authenticated
-      if (isAuthenticated()) {
-        try {
-          console.log('Loading sectors from backend API...');
-
-          const [eastData, westData, northData, southData] = await Promise.all([
-            sectorsAPI.getByDivision('East'),
-            sectorsAPI.getByDivision('West'),
-            sectorsAPI.getByDivision('North'),
-            sectorsAPI.getByDivision('South'),
-          ]);
-
-          console.log('Loaded sector data from backend:', { eastData, westData, northData, southData });
-
-          setSectorsData({
-            East: eastData.data as SectorFeatureCollection,
-            West: westData.data as SectorFeatureCollection,
-            North: northData.data as SectorFeatureCollection,
-            South: southData.data as SectorFeatureCollection,
-          });
+  // Turn the cache into division collections, each carrying its full extent as bbox
+  const publishCache = useCallback(() => {
+    const features: Record<SectorDivision, SectorFeature[]> = { East: [], West: [], North: [], South: [] };
+    [...cacheRef.current.values()]
+      .sort((a, b) => a.id - b.id)
+      .forEach(({ division, feature }) => features[division].push(feature));
 
-          setDataSource('backend');
-          setError(null);
-          return;
-        } catch (backendError) {
-          console.warn('Failed to load from backend, falling back to local files:', backendError);
+    const data = {} as SectorsState;
+    DIVISIONS.forEach((division) => {
+      const extent = extentsRef.current[division];
+      data[division] = extent || features[division].length > 0
+        ? {
+            type: 'FeatureCollection',
+            name: division,
+            crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:OGC:1.3:CRS84' } },
+            bbox: extent?.bbox,
+            features: features[division],
+          }
+        : null;
+    });
+    setSectorsData(data);
+  }, []);
+
+  // Merge a bbox response into the cache. A complete response is the truth for its box,
+  // so cached sectors in it that were not returned (deleted, split, merged) are dropped.
+  const mergeResponse = useCallback((
+    response: Awaited<ReturnType<typeof sectorsAPI.getInBBox>>['data'],
+    bbox: BBox,
+    rank: number
+  ) => {
+    const cache = cacheRef.current;
+    const returned = new Set<number>();
+
+    response.features.forEach((raw) => {
+      const id = (raw.properties as SectorFeature['properties'] & { id?: number }).id;
+      const division = raw.properties.Division as SectorDivision;
+      if (typeof id !== 'number' || !DIVISIONS.includes(division)) return;
+      returned.add(id);
+
+      // Keep more detailed geometry, but take the fresh attributes
+      const existing = cache.get(id);
+      if (existing && existing.rank > rank) {
+        cache.set(id, { ...existing, feature: { ...existing.feature, properties: raw.properties } });
+        return;
+      }
+      const feature: SectorFeature = {
+        type: 'Feature',
+        properties: raw.properties,
+        geometry: raw.geometry,
+        ...(response.simplified && { simplified: true }),
+      };
+      cache.set(id, { id, division, feature, bbox: getFeatureBBox(feature), rank });
+    });
+
+    if (!response.truncated) {
+      cache.forEach((cached, id) => {
+        if (!returned.has(id) && bboxIntersects(cached.bbox, bbox)) cache.delete(id);
+      });
+    }
+  }, []);
+
+  // Save what is loaded for the next start, e.g. without a connection
+  const persistCache = useCallback(() => {
+    const payload: SectorCachePayload = {
+      format: SECTOR_CACHE_FORMAT,
+      version: versionRef.current,
+      syncedAt: syncedAtRef.current ?? new Date().toISOString(),
+      extents: extentsRef.current,
+      sectors: [...cacheRef.current.values()],
+      attributes: attributesRef.current,
+      loadedTiles: [...loadedTilesRef.current],
+      truncatedTiles: [...truncatedTilesRef.current],
+    };
+    setOfflineValue(SECTOR_CACHE_KEY, payload).catch((err) => {
+      console.warn('Failed to save sectors for offline use:', err);
+    });
+  }, []);
+
+  // Fetch the extents and attributes unless the backend data is still the version loaded.
+  // When it changed, every area is loaded again once in view. Resolves to false when the
+  // backend is unreachable.
+  const revalidate = useCallback(async () => {
+    try {
+      const response = await sectorsAPI.getExtent(versionRef.current);
+      if (response) {
+        extentsRef.current = toDivisionExtents(response.data);
+        loadedTilesRef.current.clear();
+        truncatedTilesRef.current.clear();
+        versionRef.current = response.version;
+        console.log(`🔄 Sector data is at ${response.version ?? 'an unknown version'}, last changed ${response.lastModified ?? 'at an unknown time'}`);
+      } else {
+        console.log('✅ Sectors saved for offline use are current');
+      }
+
+      if (response || !attributesRef.current) {
+        const attributes: SectorProperties[] = [];
+        let hasMore = true;
+        while (hasMore) {
+          const page = await sectorsAPI.getAttributes(attributes.length);
+          attributes.push(...page.data.sectors);
+          hasMore = page.data.pagination.hasMore && page.data.sectors.length > 0;
         }
+        attributesRef.current = attributes;
+        console.log(`📋 Loaded the attributes of ${attributes.length} sectors`);
       }
 
-      // Fallback to local GeoJSON files
-      console.log('Loading sectors from local files...');
-      const [eastData, westData, northData, southData] = await Promise.all([
-        fetch('/src/assets/data/East.geojson').then(r => r.json()),
-        fetch('/src/assets/data/West.geojson').then(r => r.json()),
-        fetch('/src/assets/data/North.geojson').then(r => r.json()),
-        fetch('/src/assets/data/South.geojson').then(r => r.json()),
-      ]);
-
-      console.log('Loaded sector data from local files:', { eastData, westData, northData, southData });
-
-      setSectorsData({
-        East: eastData as SectorFeatureCollection,
-        West: westData as SectorFeatureCollection,
-        North: northData as SectorFeatureCollection,
-        South: southData as SectorFeatureCollection,
+      syncedAtRef.current = new Date().toISOString();
+      setSectorAttributes(groupByDivision(attributesRef.current ?? []));
+      publishCache();
+      setDataSource('backend');
+      setDataVersion(versionRef.current);
+      setSyncState({ status: 'live', syncedAt: syncedAtRef.current });
+      setLoadGeneration(generation => generation + 1);
+      persistCache();
+      return true;
+    } catch (err) {
+      console.warn('Could not reach the backend for sector data:', err);
+      setSyncState(state => ({ ...state, status: 'offline' }));
+      return false;
+    }
+  }, [publishCache, persistCache]);
+
+  const loadSectors = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      // Start from the copy saved last time, then check it against the backend
+      const cached = await getOfflineValue<SectorCachePayload>(SECTOR_CACHE_KEY).catch((err) => {
+        console.warn('Failed to read sectors saved for offline use:', err);
+        return null;
       });
+      if (cached?.format === SECTOR_CACHE_FORMAT) {
+        extentsRef.current = cached.extents;
+        cacheRef.current = new Map(cached.sectors.map(sector => [sector.id, sector]));
+        loadedTilesRef.current = new Set(cached.loadedTiles);
+        truncatedTilesRef.current = new Set(cached.truncatedTiles);
+        versionRef.current = cached.version;
+        attributesRef.current = cached.attributes;
+        syncedAtRef.current = cached.syncedAt;
+        console.log(`💾 Starting from ${cached.sectors.length} sectors saved ${cached.syncedAt}`);
+
+        setSectorAttributes(groupByDivision(cached.attributes ?? []));
+        publishCache();
+        setDataSource('backend');
+        setSyncState({ status: 'checking', syncedAt: cached.syncedAt });
+        setError(null);
+        void revalidate();
+        return;
+      }
 
-      setDataSource('local');
+      // Only the extents up front; sectors follow the map viewport. Without a connection
+      // and nothing saved on this device there is nothing to show until the backend is
+      // reachable; it is asked again like for an offline copy.
+      console.log('Loading sector extents from backend API...');
+      if (!(await revalidate())) {
+        console.warn('Backend unreachable and no sectors saved on this device');
+        setDataSource('backend');
+      }
       setError(null);
     } catch (err) {
       console.error('Error loading sector data:', err);
@@ -72,16 +316,146 @@ export function useSectorData() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [publishCache, revalidate]);
 
+  // Sectors come from the backend, so they load once signed in
   useEffect(() => {
-    loadSectors();
-  }, [loadSectors]);
+    if (authenticated) loadSectors();
+  }, [authenticated, loadSectors]);
+
+  // Working from the backend: check again when the browser is back online, and now and
+  // then while it cannot be reached
+  useEffect(() => {
+    if (dataSource !== 'backend') return;
+    const check = () => {
+      void revalidate();
+    };
+    window.addEventListener('online', check);
+    const timer = syncState.status === 'offline' ? setInterval(check, OFFLINE_RETRY_MS) : undefined;
+    return () => {
+      window.removeEventListener('online', check);
+      clearInterval(timer);
+    };
+  }, [dataSource, syncState.status, revalidate]);
+
+  // Backend mode: load the tiles of the current view that are not loaded yet, as one request.
+  // Waits while the offline copy is checked or the backend is unreachable.
+  useEffect(() => {
+    if (dataSource !== 'backend' || syncState.status !== 'live') return;
+
+    let bounds: MapBounds | null = viewport ? getViewportBounds(viewport) : null;
+    if (!bounds) {
+      const extents = Object.values(extentsRef.current);
+      if (extents.length === 0) return;
+      bounds = [
+        [Math.min(...extents.map(e => e.bbox[0])), Math.min(...extents.map(e => e.bbox[1]))],
+        [Math.max(...extents.map(e => e.bbox[2])), Math.max(...extents.map(e => e.bbox[3]))],
+      ];
+    }
+
+    const level = getDetailLevel(Math.floor(viewport?.zoom ?? OVERVIEW_ZOOM));
+    const viewKeys = getTileKeys(getTileRange(bounds, level.tileZoom));
+    const controller = new AbortController();
+    const delay = Math.max(VIEWPORT_DEBOUNCE_MS, lastRequestRef.current + MIN_REQUEST_INTERVAL_MS - Date.now());
+
+    const timer = setTimeout(async () => {
+      const totalCount = Object.values(extentsRef.current).reduce((sum, extent) => sum + extent.count, 0);
+      const partial = viewKeys.some(key => truncatedTilesRef.current.has(key));
+      const missing = viewKeys.filter(key => !loadedTilesRef.current.has(key) && !truncatedTilesRef.current.has(key));
+      if (missing.length === 0) {
+        setViewportState(state => ({ ...state, partial, totalCount, loadedCount: cacheRef.current.size }));
+        return;
+      }
+
+      const range = getKeysRange(missing);
+      const bbox = getTileRangeBBox(range);
+      const zoom = getRequestZoom(level);
+      // Too wide to load at once: the map shows the vector tiles until zoomed in
+      if (!bboxWithinSpan(bbox, zoom)) {
+        setViewportState(state => ({ ...state, partial: true, totalCount, loadedCount: cacheRef.current.size }));
+        return;
+      }
+
+      lastRequestRef.current = Date.now();
+      setViewportState(state => ({ ...state, loading: true, error: null }));
+
+      try {
+        const response = await sectorsAPI.getInBBox(bbox, zoom, controller.signal);
+        mergeResponse(response.data, bbox, getDetailRank(level));
+
+        // The union of the missing tiles may include loaded ones; all of it is loaded now
+        const covered = getTileKeys(range);
+        const tiles = response.data.truncated ? truncatedTilesRef.current : loadedTilesRef.current;
+        covered.forEach(key => tiles.add(key));
+        if (response.data.truncated) {
+          console.warn(`⚠️ ${response.data.features.length} sectors returned for ${bbox.join(',')}; more in view than one request allows`);
+        }
+
+        // Over the cap: keep what is in view and forget which tiles elsewhere were loaded
+        if (cacheRef.current.size > MAX_CACHED_FEATURES) {
+          const viewBBox = toBBox(bounds);
+          cacheRef.current.forEach((cached, id) => {
+            if (!bboxIntersects(cached.bbox, viewBBox)) cacheRef.current.delete(id);
+          });
+          loadedTilesRef.current = new Set(viewKeys.filter(key => loadedTilesRef.current.has(key)));
+          truncatedTilesRef.current = new Set(viewKeys.filter(key => truncatedTilesRef.current.has(key)));
+        }
+
+        console.log(`🗺️ Loaded ${response.data.features.length} sectors for ${missing.length} tiles (z${level.tileZoom}), ${cacheRef.current.size} in memory`);
+        publishCache();
+        persistCache();
+        setViewportState({
+          loading: false,
+          partial: partial || response.data.truncated,
+          error: null,
+          loadedCount: cacheRef.current.size,
+          totalCount,
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          setViewportState(state => ({ ...state, loading: false }));
+          return;
+        }
+        // fetch rejects with a TypeError when the request never reached the backend
+        if (err instanceof TypeError) {
+          console.warn('Backend unreachable, continuing with the sectors in memory:', err);
+          setSyncState(state => ({ ...state, status: 'offline' }));
+          setViewportState(state => ({ ...state, loading: false }));
+          return;
+        }
+        console.error('Error loading sectors for viewport:', err);
+        setViewportState(state => ({
+          ...state,
+          loading: false,
+          error: err instanceof Error ? err.message : 'Failed to load sectors for this area',
+        }));
+      }
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [dataSource, syncState.status, viewport, loadGeneration, mergeResponse, publishCache, persistCache]);
+
+  // Function to reload data (can be called after edits). From the backend the extents and
+  // the current view are fetched again without the full-screen loader.
+  const reloadData = useCallback(async () => {
+    if (dataSource !== 'backend') return loadSectors();
+
+    loadedTilesRef.current.clear();
+    truncatedTilesRef.current.clear();
+    await revalidate();
+  }, [dataSource, loadSectors, revalidate]);
 
-  // Function to reload data (can be called after edits)
-  const reloadData = useCallback(() => {
-    return loadSectors();
-  }, [loadSectors]);
+  // Online, the maps draw sectors from vector tiles; each data version gets fresh tiles.
+  // Offline they draw the sectors in memory.
+  const sectorTiles = useMemo(
+    () => (dataSource === 'backend' && syncState.status === 'live'
+      ? sectorsAPI.getTileSource(dataVersion ?? String(loadGeneration))
+      : null),
+    [dataSource, syncState.status, dataVersion, loadGeneration]
+  );
 
-  return { sectorsData, loading, error, dataSource, reloadData };
+  return { sectorsData, sectorAttributes, loading, error, dataSource, reloadData, viewportState, sectorTiles, syncState };
 }
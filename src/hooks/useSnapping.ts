@@ -0,0 +1,27 @@
+import { useCallback, useMemo } from 'react';
+import type { SectorDivision, SectorFeatureCollection } from '../types';
+import { useMapSession } from '../context/MapSessionContext';
+import { buildSnapIndex, snapPoint, type LngLat, type SnapProjector } from '../utils/snapping';
+
+/**
+ * Snapping to the sector layers and imported vector layers with the session's snap settings.
+ * Returns a `snap` function the engines call with their own projector.
+ */
+export function useSnapping(sectorsData: Record<SectorDivision, SectorFeatureCollection | null>) {
+  const { importedLayers, snapSettings } = useMapSession();
+
+  // Only the sources change the index; tolerance and snap types apply at query time
+  const { sectors: snapSectors, importedLayers: snapImportedLayers } = snapSettings;
+  const index = useMemo(
+    () => buildSnapIndex(sectorsData, importedLayers, { sectors: snapSectors, importedLayers: snapImportedLayers }),
+    [sectorsData, importedLayers, snapSectors, snapImportedLayers]
+  );
+
+  const snap = useCallback(
+    (lngLat: LngLat, projector: SnapProjector, ignore?: object | null) =>
+      snapPoint(index, lngLat, projector, snapSettings, ignore),
+    [index, snapSettings]
+  );
+
+  return { snapSettings, snap };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useMapSession } from '../context/MapSessionContext';
+import { presetsAPI } from '../services/api';
+import { normalizePresetSettings, type StylePresetSettings } from '../utils/stylePresets';
+
+/**
+ * The session's current style as preset settings, and a way to apply a preset to it
+ */
+export function useStylePresets() {
+  const {
+    symbology,
+    setSymbology,
+    sectorLabels,
+    setSectorLabels,
+    areaThresholds,
+    setAreaThresholds
+  } = useMapSession();
+
+  const currentSettings = useMemo<StylePresetSettings>(
+    () => ({ symbology, sectorLabels, areaThresholds }),
+    [symbology, sectorLabels, areaThresholds]
+  );
+
+  const applySettings = useCallback((settings: StylePresetSettings) => {
+    const normalized = normalizePresetSettings(settings);
+    setSymbology(normalized.symbology);
+    setSectorLabels(normalized.sectorLabels);
+    setAreaThresholds(normalized.areaThresholds);
+  }, [setSymbology, setSectorLabels, setAreaThresholds]);
+
+  return { currentSettings, applySettings };
+}
+
+/**
+ * Apply the organisation default preset once per login
+ */
+export function useDefaultStylePreset(isAuthenticated: boolean) {
+  const { applySettings } = useStylePresets();
+  const appliedRef = useRef(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      appliedRef.current = false;
+      return;
+    }
+    if (appliedRef.current) return;
+    appliedRef.current = true;
+
+    presetsAPI.getDefault()
+      .then((response) => {
+        const preset = response.data.preset;
+        if (!preset) return;
+        applySettings(preset.settings);
+        console.log('🎨 Applied default style preset:', preset.name);
+      })
+      .catch((error) => {
+        // Without the backend the built-in style stays
+        console.warn('⚠️ Could not load default style preset:', error);
+      });
+  }, [isAuthenticated, applySettings]);
+}
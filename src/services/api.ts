@@ -1,5 +1,8 @@
 // API Service Layer for Backend Communication
 
+import type { GeoJSONGeometry, NewSectorData, SectorDivision, SectorFeature, SectorProperties } from '../types';
+import type { StylePresetSettings } from '../utils/stylePresets';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
 // Helper to get auth token from localStorage
@@ -16,6 +19,26 @@ const getAuthHeaders = (): HeadersInit => {
   };
 };
 
+// A sector as the server has it when an update was made against an older updated_at
+export interface SectorVersionConflict {
+  id: number;
+  updated_at: string | null;
+  updated_by: number | null;
+  properties: Record<string, unknown>;
+}
+
+// Thrown for a 409 VERSION_CONFLICT: the sectors changed since they were loaded and the
+// update was not written
+export class SectorConflictError extends Error {
+  readonly conflicts: SectorVersionConflict[];
+
+  constructor(message: string, conflicts: SectorVersionConflict[]) {
+    super(message);
+    this.name = 'SectorConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
 // Generic fetch wrapper with error handling
 async function fetchAPI<T>(
   endpoint: string,
@@ -39,6 +62,9 @@ async function fetchAPI<T>(
     const data = await response.json();
     console.log('📦 API Response data:', data);
 
+    if (response.status === 409 && data.code === 'VERSION_CONFLICT') {
+      throw new SectorConflictError(data.message, data.data?.conflicts ?? []);
+    }
     if (!response.ok) {
       throw new Error(data.message || `HTTP error! status: ${response.status}`);
     }
@@ -129,6 +155,61 @@ export const authAPI = {
 };
 
 // Sectors API
+
+// Attribute columns (backend naming) for sectors created by split/merge
+export interface SectorAttributes {
+  no_nemra?: number | null;
+  canal_name?: string;
+  office?: string;
+  division?: string;
+  name_ar?: string;
+  design_a_f?: number;
+  remarks_1?: string | null;
+}
+
+// Sector property names to backend column names, for create and update bodies
+const SECTOR_COLUMNS: Partial<Record<keyof SectorProperties, string>> = {
+  OBJECTID_1: 'objectid_1',
+  OBJECTID: 'objectid',
+  Id: 'feature_id',
+  No_Nemra: 'no_nemra',
+  Canal_Name: 'canal_name',
+  Office: 'office',
+  Division: 'division',
+  Name_AR: 'name_ar',
+  Design_A_F: 'design_a_f',
+  Remarks_1: 'remarks_1',
+  Shape_Leng: 'shape_leng',
+  Shape_Le_1: 'shape_le_1',
+  Shape_Area: 'shape_area',
+};
+
+// Other keys are sent as they are, e.g. from creates queued offline with backend naming
+const toSectorColumns = (properties: Partial<SectorProperties>) => {
+  const columns: Record<string, unknown> = {};
+  Object.entries(properties).forEach(([key, value]) => {
+    columns[SECTOR_COLUMNS[key as keyof SectorProperties] ?? key] = value;
+  });
+  return columns;
+};
+
+// Zonal statistics of a raster saved for one sector and date
+export interface SectorObservation {
+  id: number;
+  variable: string;
+  observed_on: string;
+  source: string | null;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  std_dev: number | null;
+  pixel_count: number;
+  coverage: number;
+  created_at: string;
+  username: string | null;
+  full_name: string | null;
+}
+
 export const sectorsAPI = {
   getAll: async (params?: {
     division?: string;
@@ -188,34 +269,168 @@ export const sectorsAPI = {
     }>(`/sectors/division/${division}`);
   },
 
-  create: async (sectorData: any) => {
+  // Sectors intersecting [west, south, east, north], simplified for the zoom below full detail
+  getInBBox: async (bbox: [number, number, number, number], zoom: number, signal?: AbortSignal) => {
+    const queryParams = new URLSearchParams({ bbox: bbox.join(','), zoom: String(zoom) });
+
+    return fetchAPI<{
+      success: boolean;
+      data: {
+        type: 'FeatureCollection';
+        bbox: [number, number, number, number];
+        features: SectorFeature[];
+        zoom: number;
+        simplified: boolean;
+        truncated: boolean;
+      };
+    }>(`/sectors/bbox?${queryParams}`, { signal });
+  },
+
+  // Sectors with full geometry by id, by division or all of them. Viewers may only name up
+  // to VIEWER_EXPORT_LIMIT sectors by id.
+  getFeatures: async (params: { ids?: number[]; division?: SectorDivision }) => {
+    const queryParams = new URLSearchParams();
+    if (params.ids) queryParams.append('ids', params.ids.join(','));
+    if (params.division) queryParams.append('division', params.division);
+
+    return fetchAPI<{
+      success: boolean;
+      data: {
+        type: 'FeatureCollection';
+        features: SectorFeature[];
+      };
+    }>(`/sectors/features?${queryParams}`);
+  },
+
+  // Attributes of every sector without geometry, one page from the offset
+  getAttributes: async (offset = 0) => {
+    return fetchAPI<{
+      success: boolean;
+      data: {
+        sectors: (SectorProperties & { id: number })[];
+        pagination: { total: number; limit: number; offset: number; hasMore: boolean };
+      };
+    }>(`/sectors/attributes?offset=${offset}`);
+  },
+
+  // Extents with the version of the sector data (its ETag). Given the version a copy was
+  // loaded at, resolves to null while the data has not changed since.
+  getExtent: async (knownVersion?: string | null) => {
+    const url = `${API_BASE_URL}/sectors/extent`;
+    const response = await fetch(url, {
+      headers: {
+        ...getAuthHeaders(),
+        ...(knownVersion && { 'If-None-Match': knownVersion }),
+      },
+      // The browser's own cache would answer 304s with its stored copy
+      cache: 'no-store',
+    });
+    console.log('📡 API Response status:', response.status, response.statusText);
+    if (response.status === 304) return null;
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || `HTTP error! status: ${response.status}`);
+    }
+    return {
+      ...(data as {
+        success: boolean;
+        data: { division: string; count: number; bbox: [number, number, number, number] }[];
+      }),
+      version: response.headers.get('ETag'),
+      lastModified: response.headers.get('Last-Modified'),
+    };
+  },
+
+  // Vector tile template the maps draw sectors from; the data version (from getExtent)
+  // changes the URL after edits so cached tiles are not reused
+  getTileSource: (version: string) => {
+    const token = getAuthToken();
+    return {
+      url: `${API_BASE_URL}/sectors/tiles/{z}/{x}/{y}.pbf?v=${encodeURIComponent(version)}`,
+      sourceLayer: 'sectors',
+      headers: token ? { Authorization: `Bearer ${token}` } : {} as Record<string, string>,
+    };
+  },
+
+  // With a createKey, sending the same create again (e.g. after a lost response) returns the
+  // sector created the first time instead of adding another
+  create: async (sectorData: NewSectorData, createKey?: string) => {
+    const { geometry, ...properties } = sectorData;
     return fetchAPI<{ success: boolean; data: { id: number } }>('/sectors', {
       method: 'POST',
-      body: JSON.stringify(sectorData),
+      body: JSON.stringify({ ...toSectorColumns(properties), geometry }),
+      headers: createKey ? { 'Idempotency-Key': createKey } : undefined,
     });
   },
 
-  update: async (id: number, updates: any) => {
-    return fetchAPI<{ success: boolean; message: string }>(`/sectors/${id}`, {
+  // updatedAt is the sector's updated_at when it was read; a newer one on the server
+  // rejects the update with a SectorConflictError
+  update: async (id: number, updates: Partial<SectorProperties>, updatedAt: string | null) => {
+    return fetchAPI<{ success: boolean; message: string; data: { id: number; updated_at: string } }>(`/sectors/${id}`, {
       method: 'PUT',
-      body: JSON.stringify(updates),
+      body: JSON.stringify({ ...toSectorColumns(updates), updated_at: updatedAt }),
+    });
+  },
+
+  // keepDesignArea updates only the measured area and length, e.g. for topology fixes
+  updateGeometry: async (id: number, geometry: GeoJSONGeometry, updatedAt: string | null, keepDesignArea = false) => {
+    return fetchAPI<{
+      success: boolean;
+      message: string;
+      data: {
+        id: number;
+        Shape_Area: number;
+        Shape_Leng: number;
+        Design_A_F: number;
+        updated_at: string;
+      };
+    }>(`/sectors/${id}/geometry`, {
+      method: 'PUT',
+      body: JSON.stringify({ geometry, updated_at: updatedAt, keepDesignArea }),
     });
   },
 
-  batchUpdate: async (updates: Array<{ id: number; [key: string]: any }>) => {
+  // Each update names the updated_at it was made against; if any sector changed since,
+  // nothing is written and a SectorConflictError lists them
+  batchUpdate: async (updates: Array<{ id: number; updated_at: string | null; [key: string]: any }>) => {
     return fetchAPI<{
       success: boolean;
       message: string;
-      data: { updatedCount: number };
+      data: { updatedCount: number; versions: { id: number; updated_at: string }[] };
     }>('/sectors/batch-update', {
       method: 'POST',
       body: JSON.stringify({ updates }),
     });
   },
 
-  delete: async (id: number) => {
+  // Like update, split, merge and delete send the updated_at of each sector they consume
+  split: async (sectorId: number, children: Array<{ geometry: GeoJSONGeometry; attributes: SectorAttributes }>, updatedAt: string | null) => {
+    return fetchAPI<{
+      success: boolean;
+      message: string;
+      data: { operationId: number; childIds: number[] };
+    }>('/sectors/split', {
+      method: 'POST',
+      body: JSON.stringify({ sectorId, updated_at: updatedAt, children }),
+    });
+  },
+
+  merge: async (sectorIds: number[], attributes: SectorAttributes, versions: Record<number, string | null>) => {
+    return fetchAPI<{
+      success: boolean;
+      message: string;
+      data: { operationId: number; childIds: number[] };
+    }>('/sectors/merge', {
+      method: 'POST',
+      body: JSON.stringify({ sectorIds, versions, attributes }),
+    });
+  },
+
+  delete: async (id: number, updatedAt: string | null) => {
     return fetchAPI<{ success: boolean; message: string }>(`/sectors/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ updated_at: updatedAt }),
     });
   },
 
@@ -229,6 +444,14 @@ export const sectorsAPI = {
           field_name: string;
           old_value: string;
           new_value: string;
+          diff: {
+            added: [number, number][];
+            removed: [number, number][];
+            oldVertexCount: number;
+            newVertexCount: number;
+            oldRingCount: number;
+            newRingCount: number;
+          } | null;
           changed_at: string;
           username: string;
           full_name: string;
@@ -236,6 +459,113 @@ export const sectorsAPI = {
       };
     }>(`/sectors/${id}/history`);
   },
+
+  getLineage: async (id: number) => {
+    type LineageEntry = {
+      operation_id: number;
+      operation: 'SPLIT' | 'MERGE';
+      created_at: string;
+      username: string | null;
+      full_name: string | null;
+      parent_id: number;
+      child_id: number | null;
+      parent_snapshot: Record<string, any>;
+    };
+
+    return fetchAPI<{
+      success: boolean;
+      data: {
+        parents: LineageEntry[];
+        children: LineageEntry[];
+      };
+    }>(`/sectors/${id}/lineage`);
+  },
+
+  getObservations: async (id: number, variable?: string) => {
+    const query = variable ? `?variable=${encodeURIComponent(variable)}` : '';
+    return fetchAPI<{
+      success: boolean;
+      data: { observations: SectorObservation[] };
+    }>(`/sectors/${id}/observations${query}`);
+  },
+
+  saveObservations: async (
+    variable: string,
+    observedOn: string,
+    source: string,
+    observations: Array<Omit<SectorObservation, 'id' | 'variable' | 'observed_on' | 'source' | 'created_at' | 'username' | 'full_name'> & { sector_id: number }>
+  ) => {
+    return fetchAPI<{
+      success: boolean;
+      message: string;
+      data: { savedCount: number };
+    }>('/sectors/observations', {
+      method: 'POST',
+      body: JSON.stringify({ variable, observedOn, source, observations }),
+    });
+  },
+};
+
+export interface StylePreset {
+  id: number;
+  name: string;
+  user_id: number;
+  settings: StylePresetSettings;
+  is_shared: boolean;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+  username: string | null;
+  full_name: string | null;
+}
+
+// Style presets API
+export const presetsAPI = {
+  getAll: async () => {
+    return fetchAPI<{
+      success: boolean;
+      data: { presets: StylePreset[] };
+    }>('/presets');
+  },
+
+  getDefault: async () => {
+    return fetchAPI<{
+      success: boolean;
+      data: { preset: StylePreset | null };
+    }>('/presets/default');
+  },
+
+  create: async (name: string, settings: StylePresetSettings, isShared = false) => {
+    return fetchAPI<{ success: boolean; message: string; data: StylePreset }>('/presets', {
+      method: 'POST',
+      body: JSON.stringify({ name, settings, isShared }),
+    });
+  },
+
+  update: async (id: number, updates: { name?: string; settings?: StylePresetSettings; isShared?: boolean }) => {
+    return fetchAPI<{ success: boolean; message: string; data: StylePreset }>(`/presets/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  delete: async (id: number) => {
+    return fetchAPI<{ success: boolean; message: string }>(`/presets/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  setDefault: async (id: number) => {
+    return fetchAPI<{ success: boolean; message: string }>(`/presets/${id}/default`, {
+      method: 'PUT',
+    });
+  },
+
+  clearDefault: async (id: number) => {
+    return fetchAPI<{ success: boolean; message: string }>(`/presets/${id}/default`, {
+      method: 'DELETE',
+    });
+  },
 };
 
 // Check if user is authenticated
@@ -258,6 +588,7 @@ export const hasRole = (requiredRoles: string[]): boolean => {
 export default {
   auth: authAPI,
   sectors: sectorsAPI,
+  presets: presetsAPI,
   isAuthenticated,
   getCurrentUser,
   hasRole,
@@ -14,6 +14,8 @@ export interface SectorProperties {
   Shape_Leng: number;
   Shape_Le_1: number;
   Shape_Area: number;
+  // Version of the sector on the server; every update sends it back
+  updated_at?: string | null;
 }
 
 // GeoJSON Geometry
@@ -22,11 +24,16 @@ export interface GeoJSONGeometry {
   coordinates: number[][][] | number[][][][];
 }
 
+// A sector to create: its properties and geometry
+export type NewSectorData = Partial<SectorProperties> & { geometry: GeoJSONGeometry };
+
 // GeoJSON Feature
 export interface SectorFeature {
   type: 'Feature';
   properties: SectorProperties;
   geometry: GeoJSONGeometry;
+  // Geometry simplified for the zoom it was loaded at; reload at full detail before editing
+  simplified?: boolean;
 }
 
 // GeoJSON FeatureCollection
@@ -39,12 +46,18 @@ export interface SectorFeatureCollection {
       name: string;
     };
   };
+  // [west, south, east, north] of the whole division, when only part of it is loaded
+  bbox?: [number, number, number, number];
   features: SectorFeature[];
 }
 
 // Sector Division
 export type SectorDivision = 'East' | 'West' | 'North' | 'South';
 
+// Attributes of every sector by division, without geometry. From the backend the map
+// loads geometry only for the area in view; these cover the whole scheme.
+export type SectorAttributeData = Record<SectorDivision, SectorProperties[] | null>;
+
 // Area Category
 export type AreaCategory = 'small' | 'medium' | 'large' | 'very-large' | null;
 
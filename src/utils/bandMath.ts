@@ -0,0 +1,326 @@
+import type { ColorRampName } from './colorRamps';
+
+/**
+ * Band math on imported rasters: expressions such as (b8-b4)/(b8+b4) over 1-based band numbers,
+ * evaluated for every pixel. No eval: the expression is parsed into a tree first.
+ */
+
+export interface BandMathSensor {
+  id: string;
+  label: string;
+  // 1-based band numbers in the imported file
+  bands: { blue: number; green: number; red: number; nir: number };
+  // Stored value to surface reflectance: value * scale + offset
+  scale: number;
+  offset: number;
+}
+
+export const BAND_MATH_SENSORS: BandMathSensor[] = [
+  {
+    id: 'sentinel2',
+    label: 'Sentinel-2 (reflectance × 10000)',
+    bands: { blue: 2, green: 3, red: 4, nir: 8 },
+    scale: 0.0001,
+    offset: 0,
+  },
+  {
+    id: 'landsat',
+    label: 'Landsat 8/9 Collection 2 Level-2',
+    bands: { blue: 2, green: 3, red: 4, nir: 5 },
+    scale: 0.0000275,
+    offset: -0.2,
+  },
+  {
+    id: 'bgrn',
+    label: 'Blue, green, red, NIR stack (0–1)',
+    bands: { blue: 1, green: 2, red: 3, nir: 4 },
+    scale: 1,
+    offset: 0,
+  },
+];
+
+type SpectralBand = keyof BandMathSensor['bands'];
+
+export interface BandMathPreset {
+  id: string;
+  label: string;
+  description: string;
+  ramp: ColorRampName;
+  range: [number, number];
+  // Normalized differences can use stored values unless the sensor has an offset;
+  // indices with constant terms always need reflectance
+  needsReflectance: boolean;
+  build: (band: (name: SpectralBand) => string) => string;
+}
+
+export const BAND_MATH_PRESETS: BandMathPreset[] = [
+  {
+    id: 'ndvi',
+    label: 'NDVI',
+    description: 'Vegetation vigour',
+    ramp: 'vegetation',
+    range: [-0.2, 0.9],
+    needsReflectance: false,
+    build: (b) => `(${b('nir')}-${b('red')})/(${b('nir')}+${b('red')})`,
+  },
+  {
+    id: 'ndwi',
+    label: 'NDWI',
+    description: 'Open water (McFeeters)',
+    ramp: 'water',
+    range: [-0.8, 0.8],
+    needsReflectance: false,
+    build: (b) => `(${b('green')}-${b('nir')})/(${b('green')}+${b('nir')})`,
+  },
+  {
+    id: 'evi',
+    label: 'EVI',
+    description: 'Vegetation, less saturated over dense crops',
+    ramp: 'vegetation',
+    range: [-0.2, 0.9],
+    needsReflectance: true,
+    build: (b) => `2.5*(${b('nir')}-${b('red')})/(${b('nir')}+6*${b('red')}-7.5*${b('blue')}+1)`,
+  },
+  {
+    id: 'savi',
+    label: 'SAVI',
+    description: 'Vegetation on sparse cover and bare soil',
+    ramp: 'vegetation',
+    range: [-0.2, 0.9],
+    needsReflectance: true,
+    build: (b) => `1.5*(${b('nir')}-${b('red')})/(${b('nir')}+${b('red')}+0.5)`,
+  },
+];
+
+/**
+ * Expression of a preset for a sensor's band numbers and scaling
+ */
+export function buildPresetExpression(preset: BandMathPreset, sensor: BandMathSensor): string {
+  const reflectance = preset.needsReflectance || sensor.offset !== 0;
+  return preset.build((name) => {
+    const band = `b${sensor.bands[name]}`;
+    if (!reflectance || (sensor.scale === 1 && sensor.offset === 0)) return band;
+    const offset = sensor.offset === 0 ? '' : sensor.offset > 0 ? `+${sensor.offset}` : `${sensor.offset}`;
+    return `(${band}*${sensor.scale}${offset})`;
+  });
+}
+
+type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'band'; index: number }
+  | { kind: 'negate'; arg: ExpressionNode }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+const FUNCTIONS: Record<string, { arity: number; fn: (...args: number[]) => number }> = {
+  abs: { arity: 1, fn: Math.abs },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  log: { arity: 1, fn: Math.log },
+  exp: { arity: 1, fn: Math.exp },
+  min: { arity: 2, fn: Math.min },
+  max: { arity: 2, fn: Math.max },
+};
+
+const OPERATORS: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': (a, b) => a ** b,
+};
+
+const TOKEN_PATTERN = /\s*(\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?|[A-Za-z_]\w*|[-+*/^(),])/y;
+
+class ExpressionParser {
+  private tokens: string[] = [];
+  private index = 0;
+  private numBands: number;
+
+  constructor(text: string, numBands: number) {
+    this.numBands = numBands;
+    let position = 0;
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+      this.tokens.push(match[1]);
+      position = TOKEN_PATTERN.lastIndex;
+    }
+    const rest = text.slice(position).trim();
+    if (rest) {
+      throw new Error(`Unexpected "${rest.slice(0, 10)}" in expression`);
+    }
+  }
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Expression is empty');
+    }
+    const node = this.parseSum();
+    if (this.index < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.index]}" in expression`);
+    }
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.index++];
+    if (token === undefined) {
+      throw new Error('Expression ends unexpectedly');
+    }
+    return token;
+  }
+
+  private expect(token: string) {
+    const found = this.next();
+    if (found !== token) {
+      throw new Error(`Expected "${token}" but found "${found}"`);
+    }
+  }
+
+  private parseSum(): ExpressionNode {
+    let node = this.parseProduct();
+    while (this.peek() === '+' || this.peek() === '-') {
+      const op = this.next();
+      node = { kind: 'binary', op, left: node, right: this.parseProduct() };
+    }
+    return node;
+  }
+
+  private parseProduct(): ExpressionNode {
+    let node = this.parseUnary();
+    while (this.peek() === '*' || this.peek() === '/') {
+      const op = this.next();
+      node = { kind: 'binary', op, left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.peek() === '-') {
+      this.next();
+      return { kind: 'negate', arg: this.parseUnary() };
+    }
+    if (this.peek() === '+') {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  // Right-associative, and binds tighter than a leading minus: -b1^2 is -(b1^2)
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.peek() === '^') {
+      this.next();
+      return { kind: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token === '(') {
+      const node = this.parseSum();
+      this.expect(')');
+      return node;
+    }
+    if (/^[\d.]/.test(token)) {
+      return { kind: 'number', value: parseFloat(token) };
+    }
+
+    const name = token.toLowerCase();
+    const band = /^b(\d+)$/.exec(name);
+    if (band) {
+      const number = parseInt(band[1], 10);
+      if (number < 1 || number > this.numBands) {
+        throw new Error(`Band ${token} does not exist (the raster has ${this.numBands} band${this.numBands === 1 ? '' : 's'})`);
+      }
+      return { kind: 'band', index: number - 1 };
+    }
+
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+      throw new Error(`Unknown name "${token}"; use b1, b2, … for bands`);
+    }
+    this.expect('(');
+    const args = [this.parseSum()];
+    while (this.peek() === ',') {
+      this.next();
+      args.push(this.parseSum());
+    }
+    this.expect(')');
+    if (args.length !== fn.arity) {
+      throw new Error(`${name}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}`);
+    }
+    return { kind: 'call', name, args };
+  }
+}
+
+/**
+ * Check an expression against a raster's band count. Throws with a message for the user.
+ */
+export function validateBandExpression(expression: string, numBands: number) {
+  new ExpressionParser(expression, numBands).parse();
+}
+
+// A constant sub-expression stays a number; anything involving a band has one value per pixel
+type Values = number | ArrayLike<number>;
+
+function unary(arg: Values, length: number, fn: (value: number) => number): Values {
+  if (typeof arg === 'number') return fn(arg);
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) out[i] = fn(arg[i]);
+  return out;
+}
+
+function binary(left: Values, right: Values, length: number, fn: (a: number, b: number) => number): Values {
+  if (typeof left === 'number' && typeof right === 'number') return fn(left, right);
+  const out = new Float32Array(length);
+  if (typeof left === 'number') {
+    for (let i = 0; i < length; i++) out[i] = fn(left, (right as ArrayLike<number>)[i]);
+  } else if (typeof right === 'number') {
+    for (let i = 0; i < length; i++) out[i] = fn(left[i], right);
+  } else {
+    for (let i = 0; i < length; i++) out[i] = fn(left[i], right[i]);
+  }
+  return out;
+}
+
+/**
+ * Evaluate an expression over every pixel of the given bands. Pixels where the result is not
+ * a finite number (e.g. 0/0 outside the image) come out as NaN.
+ */
+export function evaluateBandExpression(expression: string, bands: ArrayLike<number>[], length: number): Float32Array {
+  const root = new ExpressionParser(expression, bands.length).parse();
+
+  const evaluate = (node: ExpressionNode): Values => {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'band':
+        return bands[node.index];
+      case 'negate':
+        return unary(evaluate(node.arg), length, (value) => -value);
+      case 'binary':
+        return binary(evaluate(node.left), evaluate(node.right), length, OPERATORS[node.op]);
+      case 'call': {
+        const { fn } = FUNCTIONS[node.name];
+        const args = node.args.map(evaluate);
+        return args.length === 1 ? unary(args[0], length, fn) : binary(args[0], args[1], length, fn);
+      }
+    }
+  };
+
+  const result = evaluate(root);
+  // A bare band ("b4") is copied rather than returned as the source array
+  const values = typeof result === 'number' ? new Float32Array(length).fill(result) : Float32Array.from(result);
+  for (let i = 0; i < length; i++) {
+    if (!Number.isFinite(values[i])) values[i] = NaN;
+  }
+  return values;
+}
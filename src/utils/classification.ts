@@ -0,0 +1,309 @@
+import type { SectorAttributeData, SectorProperties } from '../types';
+import { rgbToHex } from './symbology';
+
+export type ClassificationMode = 'division' | 'categorized' | 'graduated';
+export type ClassificationMethod = 'equal-interval' | 'quantile' | 'jenks' | 'manual';
+
+export interface ClassificationSettings {
+  // 'division' keeps the single colour per division
+  mode: ClassificationMode;
+  field: string;
+  method: ClassificationMethod;
+  classCount: number;
+  // Upper bounds of every class but the last, used by the manual method
+  manualBreaks: number[];
+  ramp: string; // key of colorRamps
+}
+
+export const defaultClassification: ClassificationSettings = {
+  mode: 'division',
+  field: 'Office',
+  method: 'quantile',
+  classCount: 5,
+  manualBreaks: [500, 1000, 2000],
+  ramp: 'YlOrRd',
+};
+
+export const classificationMethodLabels: Record<ClassificationMethod, string> = {
+  'equal-interval': 'Equal Interval',
+  'quantile': 'Quantile',
+  'jenks': 'Natural Breaks (Jenks)',
+  'manual': 'Manual',
+};
+
+// Sequential and diverging ramps (ColorBrewer / viridis stops), interpolated to the class count
+export const colorRamps: Record<string, string[]> = {
+  YlOrRd: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'],
+  YlGnBu: ['#ffffcc', '#a1dab4', '#41b6c4', '#2c7fb8', '#253494'],
+  Blues: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'],
+  Greens: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'],
+  Reds: ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15'],
+  Purples: ['#f2f0f7', '#cbc9e2', '#9e9ac8', '#756bb1', '#54278f'],
+  Viridis: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  RdYlGn: ['#d7191c', '#fdae61', '#ffffbf', '#a6d96a', '#1a9641'],
+  Spectral: ['#d7191c', '#fdae61', '#ffffbf', '#abdda4', '#2b83ba'],
+};
+
+// Qualitative palette for categorized mode; further values get evenly spread hues
+const categoricalPalette = [
+  '#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f',
+  '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac',
+];
+
+export const NO_DATA_COLOR = '#9ca3af';
+
+export interface SymbologyClass {
+  label: string;
+  color: string;
+  count: number;
+  value?: string; // categorized
+  max?: number; // graduated, inclusive upper bound
+}
+
+export interface SectorClasses {
+  mode: 'categorized' | 'graduated';
+  field: string;
+  classes: SymbologyClass[];
+  // Features without a usable value (graduated only)
+  noDataCount: number;
+  colorByValue: Map<string, string>;
+}
+
+export interface ClassificationField {
+  name: string;
+  numeric: boolean;
+}
+
+const allProperties = (sectorAttributes: SectorAttributeData) =>
+  Object.values(sectorAttributes).flatMap(rows => rows ?? []);
+
+const fieldValue = (props: SectorProperties, field: string) =>
+  (props as unknown as Record<string, unknown>)[field];
+
+const categoryKey = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const numericValue = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+/**
+ * Attribute fields present in the sectors. The division files do not share one
+ * schema, so the list comes from the data rather than from SectorProperties.
+ */
+export function getClassificationFields(sectorAttributes: SectorAttributeData): ClassificationField[] {
+  const fields = new Map<string, boolean>();
+
+  allProperties(sectorAttributes).forEach(props => {
+    Object.entries(props ?? {}).forEach(([name, value]) => {
+      const numeric = fields.get(name) ?? true;
+      fields.set(name, numeric && (value === null || typeof value === 'number'));
+    });
+  });
+
+  return Array.from(fields, ([name, numeric]) => ({ name, numeric }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return rgbToHex(channel(0), channel(8), channel(4));
+}
+
+/**
+ * Colour at position t (0..1) along a ramp
+ */
+export function sampleRamp(ramp: string, t: number): string {
+  const stops = colorRamps[ramp] ?? colorRamps[defaultClassification.ramp];
+  const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const from = hexToRgb(stops[index]);
+  const to = hexToRgb(stops[index + 1]);
+  const f = position - index;
+  return rgbToHex(
+    Math.round(from[0] + (to[0] - from[0]) * f),
+    Math.round(from[1] + (to[1] - from[1]) * f),
+    Math.round(from[2] + (to[2] - from[2]) * f)
+  );
+}
+
+/**
+ * Colour for the nth category
+ */
+export function categoryColor(index: number): string {
+  if (index < categoricalPalette.length) return categoricalPalette[index];
+  // Golden angle keeps neighbouring categories apart however many there are
+  return hslToHex((index * 137.508) % 360, 0.6, 0.5);
+}
+
+function equalIntervalBreaks(sorted: number[], count: number): number[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  return Array.from({ length: count }, (_, i) => (i === count - 1 ? max : min + ((max - min) * (i + 1)) / count));
+}
+
+function quantileBreaks(sorted: number[], count: number): number[] {
+  return Array.from({ length: count }, (_, i) => sorted[Math.ceil((sorted.length * (i + 1)) / count) - 1]);
+}
+
+/**
+ * Fisher-Jenks natural breaks: minimises the summed within-class variance
+ */
+function jenksBreaks(sorted: number[], count: number): number[] {
+  const n = sorted.length;
+  const lower: number[][] = Array.from({ length: n + 1 }, () => new Array(count + 1).fill(0));
+  const variance: number[][] = Array.from({ length: n + 1 }, () => new Array(count + 1).fill(Infinity));
+
+  for (let j = 1; j <= count; j++) {
+    lower[1][j] = 1;
+    variance[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let v = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const i3 = l - m + 1;
+      const value = sorted[i3 - 1];
+      sum += value;
+      sumSquares += value * value;
+      v = sumSquares - (sum * sum) / m;
+
+      const i4 = i3 - 1;
+      if (i4 === 0) continue;
+      for (let j = 2; j <= count; j++) {
+        if (variance[l][j] >= v + variance[i4][j - 1]) {
+          lower[l][j] = i3;
+          variance[l][j] = v + variance[i4][j - 1];
+        }
+      }
+    }
+
+    lower[l][1] = 1;
+    variance[l][1] = v;
+  }
+
+  const breaks = new Array<number>(count);
+  breaks[count - 1] = sorted[n - 1];
+  let k = n;
+  for (let j = count; j >= 2; j--) {
+    const id = lower[k][j] - 2;
+    breaks[j - 2] = sorted[id];
+    k = lower[k][j] - 1;
+  }
+  return breaks;
+}
+
+/**
+ * Upper bounds of the graduated classes (the last one is the maximum value)
+ */
+export function computeBreaks(values: number[], settings: ClassificationSettings): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const max = sorted[sorted.length - 1];
+  const uniqueCount = new Set(sorted).size;
+  const count = Math.max(1, Math.min(settings.classCount, uniqueCount));
+
+  let breaks: number[];
+  switch (settings.method) {
+    case 'equal-interval':
+      breaks = equalIntervalBreaks(sorted, count);
+      break;
+    case 'quantile':
+      breaks = quantileBreaks(sorted, count);
+      break;
+    case 'jenks':
+      breaks = jenksBreaks(sorted, count);
+      break;
+    case 'manual':
+      breaks = [...settings.manualBreaks.filter(b => b >= sorted[0] && b < max), max];
+      break;
+  }
+
+  // Quantiles of skewed data repeat; a class that can never match is dropped
+  return Array.from(new Set(breaks)).sort((a, b) => a - b);
+}
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Classes for the chosen classification over the attributes of all sectors, not just those
+ * loaded for the map view, or null in division mode
+ */
+export function classifySectors(sectorAttributes: SectorAttributeData, settings: ClassificationSettings): SectorClasses | null {
+  if (settings.mode === 'division' || !settings.field) return null;
+
+  const values = allProperties(sectorAttributes).map(props => fieldValue(props, settings.field));
+
+  if (settings.mode === 'categorized') {
+    const counts = new Map<string, number>();
+    values.forEach(value => {
+      const key = categoryKey(value);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+
+    const keys = Array.from(counts.keys()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const classes = keys.map((key, index) => ({
+      label: key === '' ? '(no value)' : key,
+      color: categoryColor(index),
+      count: counts.get(key)!,
+      value: key,
+    }));
+
+    return {
+      mode: 'categorized',
+      field: settings.field,
+      classes,
+      noDataCount: 0,
+      colorByValue: new Map(classes.map(c => [c.value, c.color])),
+    };
+  }
+
+  const numbers = values.map(numericValue).filter((value): value is number => value !== null);
+  const breaks = computeBreaks(numbers, settings);
+  const counts = new Array<number>(breaks.length).fill(0);
+  numbers.forEach(value => {
+    const index = breaks.findIndex(b => value <= b);
+    counts[index === -1 ? breaks.length - 1 : index]++;
+  });
+
+  const min = numbers.length > 0 ? Math.min(...numbers) : 0;
+  const classes = breaks.map((max, index) => ({
+    label: `${formatValue(index === 0 ? min : breaks[index - 1])} – ${formatValue(max)}`,
+    color: sampleRamp(settings.ramp, breaks.length === 1 ? 1 : index / (breaks.length - 1)),
+    count: counts[index],
+    max,
+  }));
+
+  return {
+    mode: 'graduated',
+    field: settings.field,
+    classes,
+    noDataCount: values.length - numbers.length,
+    colorByValue: new Map(),
+  };
+}
+
+/**
+ * Fill colour of a sector under the given classes
+ */
+export function getClassColor(classes: SectorClasses, props: SectorProperties): string {
+  const value = fieldValue(props, classes.field);
+
+  if (classes.mode === 'categorized') {
+    return classes.colorByValue.get(categoryKey(value)) ?? NO_DATA_COLOR;
+  }
+
+  const number = numericValue(value);
+  if (number === null || classes.classes.length === 0) return NO_DATA_COLOR;
+  const match = classes.classes.find(c => number <= c.max!);
+  return (match ?? classes.classes[classes.classes.length - 1]).color;
+}
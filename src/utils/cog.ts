@@ -0,0 +1,319 @@
+import * as GeoTIFF from 'geotiff';
+import {
+  getTransformFromWGS84,
+  getTransformToWGS84,
+  guessCRSFromCoordinates,
+  type CoordinateTransform,
+} from './crs';
+import { getRampLookup } from './colorRamps';
+import type { ImportedLayer, RasterData, RasterValues } from './fileImport';
+import { defaultStretch, getBandDisplayRange, getStretchKey, isNoData } from './rasterStretch';
+
+/**
+ * Cloud-Optimized GeoTIFF streaming: map tiles are rendered from only the overview level and
+ * internal tiles they need, read from a local file or an HTTP server with range requests
+ */
+
+export interface COGInfo {
+  // Local file, or URL of a server that supports range requests
+  source: File | string;
+  // Source CRS: built-in code, or a WKT / proj4 definition
+  crs: string;
+  overviews: number;
+  // Bands of the smallest overview, for the histogram and stretch of each band
+  overview: RasterValues[];
+}
+
+export const COG_TILE_SIZE = 256;
+
+// Source coordinates are projected on this grid per tile and interpolated in between
+const GRID_STEPS = 16;
+
+// Rendered tiles kept for re-adding sources after style changes (256 KB each)
+const TILE_CACHE_SIZE = 128;
+
+// GeoKey value for a user-defined (non-EPSG) coordinate system
+const USER_DEFINED = 32767;
+
+interface Level {
+  image: GeoTIFF.GeoTIFFImage;
+  width: number;
+  height: number;
+  resX: number;
+  resY: number;
+}
+
+interface COGReader {
+  // Full resolution first, then overviews from finest to coarsest
+  levels: Level[];
+  origin: [number, number];
+  bbox: [number, number, number, number];
+}
+
+const readers = new Map<File | string, Promise<COGReader>>();
+const transforms = new Map<string, CoordinateTransform>();
+const tileCache = new Map<string, Promise<HTMLCanvasElement | null>>();
+
+async function openReader(source: File | string): Promise<COGReader> {
+  const tiff = typeof source === 'string' ? await GeoTIFF.fromUrl(source) : await GeoTIFF.fromBlob(source);
+  const first = await tiff.getImage();
+  const count = await tiff.getImageCount();
+
+  const levels: Level[] = [];
+  for (let i = 0; i < count; i++) {
+    const image = i === 0 ? first : await tiff.getImage(i);
+    // Skip masks and other sub-images that are not reduced-resolution copies
+    const { SubfileType: subfileType, NewSubfileType: newSubfileType } = image.fileDirectory;
+    if (i > 0 && subfileType !== 2 && !(newSubfileType & 1)) continue;
+
+    const [resX, resY] = image.getResolution(first);
+    levels.push({ image, width: image.getWidth(), height: image.getHeight(), resX, resY });
+  }
+  levels.sort((a, b) => b.width - a.width);
+
+  const [originX, originY] = first.getOrigin();
+  return {
+    levels,
+    origin: [originX, originY],
+    bbox: first.getBoundingBox() as [number, number, number, number],
+  };
+}
+
+function getReader(source: File | string): Promise<COGReader> {
+  let reader = readers.get(source);
+  if (!reader) {
+    reader = openReader(source);
+    reader.catch(() => readers.delete(source));
+    readers.set(source, reader);
+  }
+  return reader;
+}
+
+function getFromWGS84(crs: string): CoordinateTransform {
+  let transform = transforms.get(crs);
+  if (!transform) {
+    transform = getTransformFromWGS84(crs);
+    transforms.set(crs, transform);
+  }
+  return transform;
+}
+
+function geoKeyCRS(image: GeoTIFF.GeoTIFFImage): string | null {
+  const keys = image.geoKeys ?? {};
+  const code = keys.ProjectedCSTypeGeoKey ?? keys.GeographicTypeGeoKey;
+  return code && code !== USER_DEFINED ? `EPSG:${code}` : null;
+}
+
+/**
+ * True for a tiled GeoTIFF with overviews, which can be streamed instead of read whole
+ */
+export async function isCloudOptimizedGeoTIFF(file: File): Promise<boolean> {
+  const tiff = await GeoTIFF.fromBlob(file);
+  const image = await tiff.getImage();
+  return image.isTiled && (await tiff.getImageCount()) > 1;
+}
+
+/**
+ * Read a COG's header and smallest overview. No image is built: tiles are rendered on demand
+ * by renderCOGTile. The CRS comes from the GeoKeys unless one is given.
+ */
+export async function openCOG(source: File | string, crs?: string): Promise<RasterData> {
+  const reader = await getReader(source);
+  const full = reader.levels[0].image;
+  const [minX, minY, maxX, maxY] = reader.bbox;
+  const sourceCRS = crs ?? geoKeyCRS(full) ?? guessCRSFromCoordinates([minX, maxX], [minY, maxY]);
+
+  // Edge midpoints as well as corners, as projected edges are not straight in lon/lat
+  const toWGS84 = getTransformToWGS84(sourceCRS);
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+  const points = [
+    [minX, minY], [midX, minY], [maxX, minY], [maxX, midY],
+    [maxX, maxY], [midX, maxY], [minX, maxY], [minX, midY],
+  ].map(([x, y]) => toWGS84(x, y));
+  const lngs = points.map(point => point[0]);
+  const lats = points.map(point => point[1]);
+
+  const smallest = reader.levels[reader.levels.length - 1].image;
+  const overview = Array.from(await smallest.readRasters({ interleave: false }) as unknown as RasterValues[]);
+
+  console.log(`🛰️ COG ${typeof source === 'string' ? source : source.name}: ${full.getWidth()}x${full.getHeight()}px, ${reader.levels.length - 1} overviews`);
+
+  return {
+    type: 'raster',
+    imageUrl: '',
+    bounds: [[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]],
+    width: full.getWidth(),
+    height: full.getHeight(),
+    numBands: overview.length,
+    noData: full.getGDALNoData(),
+    cog: {
+      source,
+      crs: sourceCRS,
+      overviews: reader.levels.length - 1,
+      overview,
+    },
+  };
+}
+
+/**
+ * Bands, stretch and colour ramp a COG layer is drawn with, which change the tiles (used as
+ * a cache key)
+ */
+export function getCOGBandKey(layer: ImportedLayer): string {
+  const { numBands } = layer.data as RasterData;
+  const bands = layer.displayMode === 'rgb' && numBands >= 3
+    ? `rgb-${layer.redBand ?? 0}-${layer.greenBand ?? 1}-${layer.blueBand ?? 2}`
+    : `gray-${layer.grayscaleBand ?? 0}${layer.colorRamp ? `-${layer.colorRamp}` : ''}`;
+  return `${bands}-${getStretchKey(layer.stretch ?? defaultStretch)}`;
+}
+
+// Web Mercator tile pixel to lon/lat
+const tileLng = (x: number, size: number) => (x / size) * 360 - 180;
+const tileLat = (y: number, size: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / size))) * 180) / Math.PI;
+
+async function drawTile(layer: ImportedLayer, z: number, x: number, y: number): Promise<HTMLCanvasElement | null> {
+  const raster = layer.data as RasterData;
+  const info = raster.cog;
+  if (!info) return null;
+
+  // Skip tiles outside the image
+  const worldSize = COG_TILE_SIZE * 2 ** z;
+  const [[west, south], [east, north]] = raster.bounds;
+  if (tileLng((x + 1) * COG_TILE_SIZE, worldSize) < west || tileLng(x * COG_TILE_SIZE, worldSize) > east ||
+      tileLat(y * COG_TILE_SIZE, worldSize) < south || tileLat((y + 1) * COG_TILE_SIZE, worldSize) > north) {
+    return null;
+  }
+
+  const reader = await getReader(info.source);
+  const fromWGS84 = getFromWGS84(info.crs);
+
+  // Source coordinates of the grid points
+  const step = COG_TILE_SIZE / GRID_STEPS;
+  const gridX = new Float64Array((GRID_STEPS + 1) ** 2);
+  const gridY = new Float64Array((GRID_STEPS + 1) ** 2);
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let gy = 0; gy <= GRID_STEPS; gy++) {
+    for (let gx = 0; gx <= GRID_STEPS; gx++) {
+      const [sx, sy] = fromWGS84(
+        tileLng(x * COG_TILE_SIZE + gx * step, worldSize),
+        tileLat(y * COG_TILE_SIZE + gy * step, worldSize)
+      );
+      const i = gy * (GRID_STEPS + 1) + gx;
+      gridX[i] = sx;
+      gridY[i] = sy;
+      if (Number.isFinite(sx) && Number.isFinite(sy)) {
+        minX = Math.min(minX, sx);
+        maxX = Math.max(maxX, sx);
+        minY = Math.min(minY, sy);
+        maxY = Math.max(maxY, sy);
+      }
+    }
+  }
+  if (!Number.isFinite(minX)) return null;
+
+  // Coarsest level that still has at least one source pixel per tile pixel
+  const tileResolution = Math.max(maxX - minX, maxY - minY) / COG_TILE_SIZE;
+  const level = [...reader.levels].reverse().find(l => Math.abs(l.resX) <= tileResolution) ?? reader.levels[0];
+
+  const [originX, originY] = reader.origin;
+  const toPixel = (sx: number, sy: number) => [(sx - originX) / level.resX, (sy - originY) / level.resY];
+  const [px0, py0] = toPixel(minX, maxY);
+  const [px1, py1] = toPixel(maxX, minY);
+  const left = Math.max(0, Math.floor(Math.min(px0, px1)));
+  const top = Math.max(0, Math.floor(Math.min(py0, py1)));
+  const right = Math.min(level.width, Math.ceil(Math.max(px0, px1)));
+  const bottom = Math.min(level.height, Math.ceil(Math.max(py0, py1)));
+  if (right <= left || bottom <= top) return null;
+
+  const bandKey = getCOGBandKey(layer);
+  const samples = bandKey.startsWith('rgb')
+    ? [layer.redBand ?? 0, layer.greenBand ?? 1, layer.blueBand ?? 2]
+    : [layer.grayscaleBand ?? 0];
+  const bands = await level.image.readRasters({
+    window: [left, top, right, bottom],
+    samples,
+    interleave: false,
+  }) as unknown as ArrayLike<number>[];
+  const windowWidth = right - left;
+  const windowHeight = bottom - top;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = COG_TILE_SIZE;
+  canvas.height = COG_TILE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to create canvas context');
+  const imageData = ctx.createImageData(COG_TILE_SIZE, COG_TILE_SIZE);
+  const pixels = imageData.data;
+  const ranges = samples.map(band => getBandDisplayRange(layer, band));
+  const lookup = samples.length === 1 && layer.colorRamp ? getRampLookup(layer.colorRamp) : null;
+
+  for (let ty = 0; ty < COG_TILE_SIZE; ty++) {
+    const fy = (ty + 0.5) / step;
+    const gy = Math.min(GRID_STEPS - 1, Math.floor(fy));
+    const v = fy - gy;
+    for (let tx = 0; tx < COG_TILE_SIZE; tx++) {
+      const fx = (tx + 0.5) / step;
+      const gx = Math.min(GRID_STEPS - 1, Math.floor(fx));
+      const u = fx - gx;
+
+      // Bilinear interpolation between the four surrounding grid points
+      const i00 = gy * (GRID_STEPS + 1) + gx;
+      const i10 = i00 + 1;
+      const i01 = i00 + GRID_STEPS + 1;
+      const i11 = i01 + 1;
+      const sx = (gridX[i00] * (1 - u) + gridX[i10] * u) * (1 - v) + (gridX[i01] * (1 - u) + gridX[i11] * u) * v;
+      const sy = (gridY[i00] * (1 - u) + gridY[i10] * u) * (1 - v) + (gridY[i01] * (1 - u) + gridY[i11] * u) * v;
+
+      const col = Math.floor((sx - originX) / level.resX) - left;
+      const row = Math.floor((sy - originY) / level.resY) - top;
+      // NaN fails these checks too, leaving the pixel transparent
+      if (!(col >= 0 && col < windowWidth && row >= 0 && row < windowHeight)) continue;
+
+      const index = row * windowWidth + col;
+      const out = (ty * COG_TILE_SIZE + tx) * 4;
+      let empty = true;
+      for (let b = 0; b < bands.length; b++) {
+        const value = bands[b][index];
+        if (isNoData(value, raster.noData)) continue;
+        empty = false;
+        const [min, max] = ranges[b];
+        pixels[out + b] = max > min ? ((value - min) / (max - min)) * 255 : 128;
+      }
+      if (empty) continue;
+      if (bands.length === 1) {
+        // Single band: grey, or the colour ramp's entry for the stretched value
+        const value = Math.max(0, Math.min(255, Math.round(pixels[out])));
+        pixels[out] = lookup ? lookup[value * 3] : value;
+        pixels[out + 1] = lookup ? lookup[value * 3 + 1] : value;
+        pixels[out + 2] = lookup ? lookup[value * 3 + 2] : value;
+      }
+      pixels[out + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+/**
+ * Render one Web Mercator XYZ tile of a COG layer with its selected bands. Null for tiles
+ * with no image data. Tiles are cached, so sources can be re-added cheaply.
+ */
+export function renderCOGTile(layer: ImportedLayer, z: number, x: number, y: number): Promise<HTMLCanvasElement | null> {
+  const key = `${layer.id}/${getCOGBandKey(layer)}/${z}/${x}/${y}`;
+  let tile = tileCache.get(key);
+  if (tile) {
+    // Most recently used last
+    tileCache.delete(key);
+  } else {
+    tile = drawTile(layer, z, x, y);
+    tile.catch(() => tileCache.delete(key));
+  }
+  tileCache.set(key, tile);
+
+  if (tileCache.size > TILE_CACHE_SIZE) {
+    tileCache.delete(tileCache.keys().next().value!);
+  }
+  return tile;
+}
@@ -0,0 +1,64 @@
+/**
+ * Colour ramps for single-band rasters such as vegetation indices
+ */
+
+export type ColorRampName = 'vegetation' | 'water' | 'viridis' | 'magma' | 'grayscale';
+
+interface ColorRamp {
+  label: string;
+  // Evenly spaced colour stops from the low to the high end of the range
+  stops: string[];
+}
+
+export const COLOR_RAMPS: Record<ColorRampName, ColorRamp> = {
+  vegetation: {
+    label: 'Vegetation (red–yellow–green)',
+    stops: ['#a50026', '#f46d43', '#fee08b', '#d9ef8b', '#66bd63', '#006837'],
+  },
+  water: {
+    label: 'Water (brown–blue)',
+    stops: ['#8c510a', '#d8b365', '#f6e8c3', '#c7eae5', '#5ab4ac', '#01665e', '#08306b'],
+  },
+  viridis: {
+    label: 'Viridis',
+    stops: ['#440154', '#414487', '#2a788e', '#22a884', '#7ad151', '#fde725'],
+  },
+  magma: {
+    label: 'Magma',
+    stops: ['#000004', '#3b0f70', '#8c2981', '#de4968', '#fe9f6d', '#fcfdbf'],
+  },
+  grayscale: {
+    label: 'Grayscale',
+    stops: ['#000000', '#ffffff'],
+  },
+};
+
+const hexToRGB = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+/**
+ * 256-entry RGB lookup table of a ramp, for colouring pixels without per-pixel interpolation
+ */
+export function getRampLookup(name: ColorRampName): Uint8Array {
+  const stops = COLOR_RAMPS[name].stops.map(hexToRGB);
+  const lookup = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - index;
+    for (let c = 0; c < 3; c++) {
+      lookup[i * 3 + c] = Math.round(stops[index][c] * (1 - t) + stops[index + 1][c] * t);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * CSS gradient of a ramp, for legends
+ */
+export function getRampGradient(name: ColorRampName): string {
+  return `linear-gradient(to right, ${COLOR_RAMPS[name].stops.join(', ')})`;
+}
@@ -0,0 +1,227 @@
+import proj4 from 'proj4';
+
+/**
+ * Coordinate reference systems known to the importers. Definitions are built in so that
+ * reprojection never needs a network lookup.
+ */
+export interface CRSDefinition {
+  code: string;
+  name: string;
+  proj4: string;
+  // Names used in .prj files (ESRI) and OGC WKT, matched ignoring case and punctuation
+  aliases: string[];
+}
+
+export const WGS84 = 'EPSG:4326';
+
+// Adindan datum with the EPSG Adindan to WGS 84 parameters for Sudan
+const ADINDAN = '+ellps=clrk80 +towgs84=-161,-14,205,0,0,0,0';
+
+const utm = (code: string, datum: 'WGS 84' | 'Adindan', zone: number): CRSDefinition => ({
+  code,
+  name: `${datum} / UTM zone ${zone}N`,
+  proj4: `+proj=utm +zone=${zone} ${datum === 'WGS 84' ? '+datum=WGS84' : ADINDAN} +units=m +no_defs`,
+  aliases: [
+    `${datum} / UTM zone ${zone}N`,
+    `${datum === 'WGS 84' ? 'WGS_1984' : 'Adindan'}_UTM_Zone_${zone}N`,
+  ],
+});
+
+export const builtInCRS: CRSDefinition[] = [
+  {
+    code: 'EPSG:4326',
+    name: 'WGS 84 (lon/lat)',
+    proj4: '+proj=longlat +datum=WGS84 +no_defs',
+    aliases: ['WGS 84', 'WGS84', 'GCS_WGS_1984', 'CRS84'],
+  },
+  {
+    code: 'EPSG:3857',
+    name: 'Web Mercator',
+    proj4: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +wktext +no_defs',
+    aliases: ['WGS 84 / Pseudo-Mercator', 'WGS_1984_Web_Mercator_Auxiliary_Sphere', 'WGS_1984_Web_Mercator'],
+  },
+  utm('EPSG:32634', 'WGS 84', 34),
+  utm('EPSG:32635', 'WGS 84', 35),
+  utm('EPSG:32636', 'WGS 84', 36),
+  utm('EPSG:32637', 'WGS 84', 37),
+  {
+    code: 'EPSG:4201',
+    name: 'Adindan (lon/lat)',
+    proj4: `+proj=longlat ${ADINDAN} +no_defs`,
+    aliases: ['Adindan', 'GCS_Adindan'],
+  },
+  utm('EPSG:20135', 'Adindan', 35),
+  utm('EPSG:20136', 'Adindan', 36),
+  utm('EPSG:20137', 'Adindan', 37),
+];
+
+// The Gezira scheme lies in UTM zone 36N
+export const DEFAULT_PROJECTED_CRS = 'EPSG:32636';
+
+export type CoordinateTransform = (x: number, y: number) => [number, number];
+
+export function getCRS(code: string): CRSDefinition | undefined {
+  return builtInCRS.find(crs => crs.code === code);
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const fromEPSGNumber = (code: string | number) => {
+  const crs = getCRS(`EPSG:${code}`);
+  return crs ? crs.code : null;
+};
+
+/**
+ * Built-in CRS code for a .prj / OGC WKT string. Unknown systems come back as the WKT itself,
+ * which proj4 can often still use; null when the text is not WKT at all.
+ */
+export function detectCRSFromWKT(wkt: string): string | null {
+  const text = wkt.trim();
+  const name = text.match(/^(?:PROJCS|GEOGCS|PROJCRS|GEOGCRS|GEODCRS)\s*\[\s*"([^"]+)"/i)?.[1];
+  if (!name) return null;
+
+  // The outermost AUTHORITY / ID is the last one in the string
+  const authority = Array.from(text.matchAll(/(?:AUTHORITY|ID)\s*\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/gi)).pop();
+  const byAuthority = authority ? fromEPSGNumber(authority[1]) : null;
+  if (byAuthority) return byAuthority;
+
+  const normalized = normalizeName(name);
+  const byName = builtInCRS.find(crs => crs.aliases.some(alias => normalizeName(alias) === normalized));
+  return byName ? byName.code : text;
+}
+
+/**
+ * CRS of a GeoJSON `crs` member (named "urn:ogc:def:crs:EPSG::32636" / "EPSG:32636", or the
+ * legacy {type: "EPSG", properties: {code}}). Null when absent or not understood.
+ */
+export function detectCRSFromGeoJSON(crs: unknown): string | null {
+  if (!crs || typeof crs !== 'object') return null;
+  const { type, properties } = crs as { type?: string; properties?: { name?: string; code?: number | string } };
+
+  if (type === 'EPSG' && properties?.code !== undefined) {
+    return fromEPSGNumber(properties.code) ?? `EPSG:${properties.code}`;
+  }
+
+  const name = properties?.name;
+  if (typeof name !== 'string') return null;
+  if (/CRS:?84$/i.test(name)) return WGS84;
+
+  const epsg = name.match(/EPSG:{1,2}(?:[\d.]*:)?(\d+)$/i)?.[1];
+  return epsg ? fromEPSGNumber(epsg) ?? `EPSG:${epsg}` : null;
+}
+
+const within = (values: number[], min: number, max: number) => values.length > 0 && values.every(v => v >= min && v <= max);
+
+/**
+ * Guess the CRS from the coordinate ranges: degrees, UTM metres or Web Mercator metres
+ */
+export function guessCRSFromCoordinates(xs: number[], ys: number[]): string {
+  if (within(xs, -180, 180) && within(ys, -90, 90)) return WGS84;
+  if (within(xs, 100000, 900000) && within(ys, 0, 10000000)) return DEFAULT_PROJECTED_CRS;
+  if (within(xs, -20037508.35, 20037508.35) && within(ys, -20037508.35, 20037508.35)) return 'EPSG:3857';
+  return DEFAULT_PROJECTED_CRS;
+}
+
+function getConverter(crs: string) {
+  const definition = getCRS(crs)?.proj4 ?? (/^\+proj=|\[/.test(crs) ? crs : null);
+  if (!definition) {
+    throw new Error(`Unsupported coordinate system: ${crs}. Choose the source coordinate system when importing.`);
+  }
+
+  try {
+    return proj4(definition, builtInCRS[0].proj4);
+  } catch {
+    throw new Error('Unsupported coordinate system in the file. Choose the source coordinate system when importing.');
+  }
+}
+
+/**
+ * Transform from the given CRS to WGS84 lon/lat. Accepts a built-in code, or a WKT / proj4
+ * definition for systems that are not built in. Throws when the CRS cannot be used.
+ */
+export function getTransformToWGS84(crs: string): CoordinateTransform {
+  if (crs === WGS84) return (x, y) => [x, y];
+  const converter = getConverter(crs);
+  return (x, y) => converter.forward([x, y]) as [number, number];
+}
+
+/**
+ * Transform from WGS84 lon/lat to the given CRS, e.g. to find source pixels for map tiles
+ */
+export function getTransformFromWGS84(crs: string): CoordinateTransform {
+  if (crs === WGS84) return (x, y) => [x, y];
+  const converter = getConverter(crs);
+  return (x, y) => converter.inverse([x, y]) as [number, number];
+}
+
+/**
+ * Every x/y in a GeoJSON object, for range checks
+ */
+function collectPositions(data: GeoJSON.FeatureCollection): { xs: number[]; ys: number[] } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const visit = (coords: unknown): void => {
+    if (!Array.isArray(coords)) return;
+    if (typeof coords[0] === 'number') {
+      xs.push(coords[0]);
+      ys.push(coords[1]);
+    } else {
+      coords.forEach(visit);
+    }
+  };
+  const visitGeometry = (geometry: GeoJSON.Geometry | null): void => {
+    if (!geometry) return;
+    if (geometry.type === 'GeometryCollection') geometry.geometries.forEach(visitGeometry);
+    else visit(geometry.coordinates);
+  };
+  data.features.forEach(feature => visitGeometry(feature.geometry));
+  return { xs, ys };
+}
+
+function transformGeometry(geometry: GeoJSON.Geometry | null, transform: CoordinateTransform): GeoJSON.Geometry | null {
+  if (!geometry) return geometry;
+  if (geometry.type === 'GeometryCollection') {
+    return { ...geometry, geometries: geometry.geometries.map(g => transformGeometry(g, transform)!) };
+  }
+
+  const visit = (coords: unknown): unknown => {
+    if (!Array.isArray(coords)) return coords;
+    if (typeof coords[0] === 'number') {
+      const [x, y] = transform(coords[0], coords[1]);
+      return coords.length > 2 ? [x, y, ...coords.slice(2)] : [x, y];
+    }
+    return coords.map(visit);
+  };
+  return { ...geometry, coordinates: visit(geometry.coordinates) } as GeoJSON.Geometry;
+}
+
+/**
+ * Reproject a FeatureCollection to WGS84. The source is the chosen CRS, else the one detected
+ * from the file, else a guess from the coordinate ranges (logged, as it may be wrong).
+ */
+export function reprojectToWGS84(
+  data: GeoJSON.FeatureCollection,
+  sourceCRS: string | null,
+  label = 'layer'
+): GeoJSON.FeatureCollection {
+  let crs = sourceCRS;
+  if (!crs) {
+    const { xs, ys } = collectPositions(data);
+    crs = guessCRSFromCoordinates(xs, ys);
+    if (crs !== WGS84) {
+      console.warn(`⚠️ ${label} has no coordinate system; coordinates look like ${getCRS(crs)?.name ?? crs}`);
+    }
+  }
+
+  // Drop any source crs member: the result is plain RFC 7946 GeoJSON
+  const collection = { ...data } as GeoJSON.FeatureCollection & { crs?: unknown };
+  delete collection.crs;
+  if (crs === WGS84) return collection;
+
+  const transform = getTransformToWGS84(crs);
+  console.log(`🌐 Reprojecting ${label} from ${getCRS(crs)?.name ?? 'file CRS'} to WGS 84`);
+  return {
+    ...collection,
+    features: data.features.map(feature => ({ ...feature, geometry: transformGeometry(feature.geometry, transform)! })),
+  };
+}
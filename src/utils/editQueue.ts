@@ -0,0 +1,166 @@
+/**
+ * Sector edits kept while the backend cannot be reached, replayed in order once it can.
+ * Attribute edits remember the values they were made against, so a change made on the
+ * server meanwhile is noticed (original, server and queued value) instead of overwritten.
+ */
+
+import type { NewSectorData } from '../types';
+
+// Attribute table fields that can be edited, with their backend column names
+export const EDITABLE_SECTOR_FIELDS = {
+  Canal_Name: 'canal_name',
+  Name_AR: 'name_ar',
+  Office: 'office',
+  Design_A_F: 'design_a_f',
+  Remarks_1: 'remarks_1',
+} as const;
+
+export type EditableSectorField = keyof typeof EDITABLE_SECTOR_FIELDS;
+
+export type SectorFieldValues = Partial<Record<EditableSectorField, unknown>>;
+
+export const EDITABLE_FIELD_LABELS: Record<EditableSectorField, string> = {
+  Canal_Name: 'Canal Name',
+  Name_AR: 'Arabic Name',
+  Office: 'Office',
+  Design_A_F: 'Design Area (F)',
+  Remarks_1: 'Remarks',
+};
+
+export interface QueuedUpdate {
+  kind: 'update';
+  queueId: string;
+  queuedAt: string;
+  sectorId: number;
+  // Canal name shown in the queue and the merge dialog
+  label: string;
+  changes: SectorFieldValues;
+  // Values the changes were made against, and the sector's updated_at at the time
+  base: SectorFieldValues;
+  baseUpdatedAt: string | null;
+  // Last replay failure other than the network, e.g. the nemra was deleted
+  error?: string;
+}
+
+export interface QueuedCreate {
+  kind: 'create';
+  queueId: string;
+  queuedAt: string;
+  label: string;
+  // Body for sectorsAPI.create
+  sector: NewSectorData;
+  // Idempotency key of the create, the same as on the attempt before it was queued
+  createKey: string;
+  error?: string;
+}
+
+export type QueuedEdit = QueuedUpdate | QueuedCreate;
+
+export interface EditConflict {
+  edit: QueuedUpdate;
+  // The server's current values of the edited fields, and its updated_at
+  theirs: SectorFieldValues;
+  theirsUpdatedAt: string | null;
+  // Fields changed both on the server and in the queued edit, to different values
+  fields: EditableSectorField[];
+}
+
+/**
+ * Idempotency key for a sector create, kept across retries so the server creates it once
+ */
+export function newCreateKey(): string {
+  return `create-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * True when a request failed without reaching the backend; fetch rejects with a TypeError
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+/**
+ * A field value as shown when comparing versions, with a dash for an empty one
+ */
+export function displayFieldValue(value: unknown): string {
+  return isBlank(value) ? '—' : String(value);
+}
+
+/**
+ * Attribute values compared as the table shows them: inputs give strings, the backend may
+ * send numbers (or numeric strings), and an empty cell is null
+ */
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  if (isBlank(a) || isBlank(b)) return isBlank(a) && isBlank(b);
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (Number.isFinite(numberA) && Number.isFinite(numberB)) return numberA === numberB;
+  return String(a) === String(b);
+}
+
+/**
+ * Table field names to backend column names, for sectorsAPI.batchUpdate
+ */
+export function toBackendChanges(changes: SectorFieldValues): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([field, value]) => {
+    mapped[EDITABLE_SECTOR_FIELDS[field as EditableSectorField] ?? field] = value;
+  });
+  return mapped;
+}
+
+/**
+ * The editable fields of a sector's properties
+ */
+export function pickEditableFields(properties: Record<string, unknown>): SectorFieldValues {
+  const values: SectorFieldValues = {};
+  (Object.keys(EDITABLE_SECTOR_FIELDS) as EditableSectorField[]).forEach(field => {
+    values[field] = properties[field];
+  });
+  return values;
+}
+
+/**
+ * Three-way comparison of edited values with the server's: fields the server still has as
+ * they were when edited (safe to write), and fields changed on both sides. Fields the
+ * server already holds the edited value for need neither.
+ */
+export function diffFieldChanges(changes: SectorFieldValues, base: SectorFieldValues, theirs: SectorFieldValues) {
+  const apply: SectorFieldValues = {};
+  const conflicts: EditableSectorField[] = [];
+
+  (Object.keys(changes) as EditableSectorField[]).forEach(field => {
+    const mine = changes[field];
+    if (sameFieldValue(theirs[field], mine)) return;
+    if (sameFieldValue(theirs[field], base[field])) {
+      apply[field] = mine;
+    } else {
+      conflicts.push(field);
+    }
+  });
+
+  return { apply, conflicts };
+}
+
+export function diffQueuedUpdate(edit: QueuedUpdate, theirs: SectorFieldValues) {
+  return diffFieldChanges(edit.changes, edit.base, theirs);
+}
+
+/**
+ * A further edit of a sector that already has one queued: the newer values win, the
+ * original values stay those of the first edit. It takes the new queue id, so a replay
+ * already sending the first edit does not drop the merged one.
+ */
+export function mergeQueuedUpdates(queued: QueuedUpdate, next: QueuedUpdate): QueuedUpdate {
+  return {
+    ...queued,
+    queueId: next.queueId,
+    queuedAt: next.queuedAt,
+    label: next.label,
+    changes: { ...queued.changes, ...next.changes },
+    base: { ...next.base, ...queued.base },
+    error: undefined,
+  };
+}
@@ -0,0 +1,438 @@
+import JSZip from 'jszip';
+import type { SectorAttributeData, SectorDivision, SectorFeature, SectorProperties } from '../types';
+import type { SymbologySettings } from '../components/Maps/SymbologyControl';
+import { getSectorStyle } from '../components/Maps/adapters/shared';
+import type { SectorClasses } from './classification';
+import type { ImportedLayer } from './fileImport';
+import { writeGeoPackage } from './geopackage';
+
+export type ExportFormat = 'geojson' | 'shapefile' | 'geopackage' | 'kml' | 'csv';
+
+export const exportFormats: Record<ExportFormat, { label: string; extension: string; description: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', description: 'Geometry and attributes, WGS84' },
+  shapefile: { label: 'Shapefile', extension: 'zip', description: 'Zipped .shp/.shx/.dbf with .prj' },
+  geopackage: { label: 'GeoPackage', extension: 'gpkg', description: 'Sectors and imported layers in one file' },
+  kml: { label: 'KML', extension: 'kml', description: 'Google Earth, styled as on the map' },
+  csv: { label: 'CSV', extension: 'csv', description: 'Attributes with WKT geometry' },
+};
+
+// Viewers may not take more per export than the API hands out per request; the backend
+// enforces it (VIEWER_FEATURE_LIMIT in sectorsController.js)
+export const VIEWER_EXPORT_LIMIT = 100;
+
+// Holds the division key; properties.Division is the sub-division name
+export const SECTOR_FIELD = 'Sector';
+
+export interface ExportFeature {
+  division: SectorDivision;
+  feature: SectorFeature;
+}
+
+// A sector to export before its geometry is fetched
+export interface ExportRow {
+  division: SectorDivision;
+  properties: SectorProperties;
+}
+
+export interface ExportOptions {
+  fields: string[];
+  symbology?: SymbologySettings;
+  classes?: SectorClasses | null;
+  exportedBy?: string;
+  // Imported vector layers written next to the sectors (GeoPackage only)
+  importedLayers?: ImportedLayer[];
+}
+
+type Polygons = number[][][][];
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+/**
+ * Sectors as listed in the table: the (already filtered) attributes of all sectors, narrowed
+ * to the selected sector
+ */
+export function collectExportRows(sectorAttributes: SectorAttributeData, selectedSector: SectorDivision | null): ExportRow[] {
+  return (Object.keys(sectorAttributes) as SectorDivision[])
+    .filter(division => !selectedSector || division === selectedSector)
+    .flatMap(division => sectorAttributes[division]?.map(properties => ({ division, properties })) ?? []);
+}
+
+/**
+ * Sector plus every attribute present in the rows, in first-seen order
+ */
+export function getExportFields(rows: ExportRow[]): string[] {
+  const fields = new Set<string>([SECTOR_FIELD]);
+  rows.forEach(({ properties }) => Object.keys(properties ?? {}).forEach(name => fields.add(name)));
+  return Array.from(fields);
+}
+
+/**
+ * Rows with the geometry fetched for them, matched by sector id. The rows' attributes are
+ * kept, as they carry the zonal statistics; rows without geometry (deleted meanwhile) drop out.
+ */
+export function attachGeometry(rows: ExportRow[], features: SectorFeature[]): ExportFeature[] {
+  const sectorId = (properties: SectorProperties) => (properties as SectorProperties & { id?: number }).id;
+  const geometryById = new Map(features.map(feature => [sectorId(feature.properties), feature.geometry]));
+  return rows.flatMap(({ division, properties }) => {
+    const geometry = geometryById.get(sectorId(properties));
+    return geometry ? [{ division, feature: { type: 'Feature' as const, properties, geometry } }] : [];
+  });
+}
+
+function exportProperties({ division, feature }: ExportFeature, fields: string[]): Record<string, unknown> {
+  const props = (feature.properties ?? {}) as unknown as Record<string, unknown>;
+  return Object.fromEntries(fields.map(field => [field, field === SECTOR_FIELD ? division : props[field] ?? null]));
+}
+
+const toPolygons = (geometry: SectorFeature['geometry'] | null): Polygons => {
+  if (!geometry) return [];
+  return geometry.type === 'Polygon'
+    ? [geometry.coordinates as number[][][]]
+    : (geometry.coordinates as number[][][][]);
+};
+
+export function featuresToGeoJSON(features: ExportFeature[], options: ExportOptions): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:OGC:1.3:CRS84' } },
+    features: features.map(item => ({
+      type: 'Feature',
+      properties: exportProperties(item, options.fields),
+      geometry: item.feature.geometry,
+    })),
+    // Same idea as the API watermark: exported files can be traced back
+    _meta: {
+      exportedBy: options.exportedBy ?? null,
+      exportedAt: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Well-known text for a polygon or multipolygon
+ */
+export function geometryToWKT(geometry: SectorFeature['geometry'] | null): string {
+  if (!geometry) return '';
+  const ring = (coords: number[][]) => `(${coords.map(c => `${c[0]} ${c[1]}`).join(', ')})`;
+  const polygon = (rings: number[][][]) => `(${rings.map(ring).join(', ')})`;
+
+  return geometry.type === 'Polygon'
+    ? `POLYGON ${polygon(geometry.coordinates as number[][][])}`
+    : `MULTIPOLYGON (${(geometry.coordinates as number[][][][]).map(polygon).join(', ')})`;
+}
+
+export function featuresToCSV(features: ExportFeature[], options: ExportOptions): string {
+  const escape = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+    return `"${String(value).replace(/"/g, '""')}"`;
+  };
+
+  const rows = [
+    [...options.fields, 'WKT'].map(escape).join(','),
+    ...features.map(item => {
+      const props = exportProperties(item, options.fields);
+      return [...options.fields.map(field => escape(props[field])), escape(geometryToWKT(item.feature.geometry))].join(',');
+    }),
+  ];
+
+  // The BOM makes Excel read the Arabic names as UTF-8
+  return '\uFEFF' + rows.join('\r\n');
+}
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// KML colours are aabbggrr
+function kmlColor(hex: string, opacity: number): string {
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toLowerCase();
+}
+
+export function featuresToKML(features: ExportFeature[], options: ExportOptions, name: string): string {
+  // One shared Style per distinct look, keyed by its values
+  const styles = new Map<string, { id: string; xml: string }>();
+
+  const placemarks = features.map(item => {
+    const { feature, division } = item;
+    const style = getSectorStyle(feature.properties, division, { symbology: options.symbology, classes: options.classes });
+    const styleKey = [style.fillColor, style.fillOpacity, style.strokeColor, style.strokeWidth].join('|');
+    if (!styles.has(styleKey)) {
+      const id = `style${styles.size}`;
+      styles.set(styleKey, { id, xml: `
+    <Style id="${id}">
+      <LineStyle><color>${kmlColor(style.strokeColor, 1)}</color><width>${style.strokeWidth}</width></LineStyle>
+      <PolyStyle><color>${kmlColor(style.fillColor, style.fillOpacity)}</color><fill>${style.fillOpacity > 0 ? 1 : 0}</fill></PolyStyle>
+    </Style>` });
+    }
+
+    const props = exportProperties(item, options.fields);
+    const title = feature.properties?.Canal_Name
+      ? `${feature.properties.Canal_Name} ${feature.properties.No_Nemra ?? ''}`.trim()
+      : `${division} sector`;
+    const data = options.fields
+      .map(field => `<Data name="${escapeXML(field)}"><value>${escapeXML(String(props[field] ?? ''))}</value></Data>`)
+      .join('');
+    const polygons = toPolygons(feature.geometry).map(rings => {
+      const [outer, ...holes] = rings.map(ring => `<LinearRing><coordinates>${ring.map(c => `${c[0]},${c[1]}`).join(' ')}</coordinates></LinearRing>`);
+      return `<Polygon><outerBoundaryIs>${outer}</outerBoundaryIs>${holes.map(hole => `<innerBoundaryIs>${hole}</innerBoundaryIs>`).join('')}</Polygon>`;
+    });
+    const geometry = polygons.length === 1 ? polygons[0] : `<MultiGeometry>${polygons.join('')}</MultiGeometry>`;
+
+    return `
+    <Placemark>
+      <name>${escapeXML(title)}</name>
+      <styleUrl>#${styles.get(styleKey)!.id}</styleUrl>
+      <ExtendedData>${data}</ExtendedData>
+      ${geometry}
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXML(name)}</name>${Array.from(styles.values(), style => style.xml).join('')}${placemarks.join('')}
+  </Document>
+</kml>
+`;
+}
+
+// Shapefiles want outer rings clockwise and holes counter-clockwise, the reverse of GeoJSON
+function orientRing(ring: number[][], clockwise: boolean): number[][] {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += (ring[i + 1][0] - ring[i][0]) * (ring[i + 1][1] + ring[i][1]);
+  }
+  return (sum > 0) === clockwise ? ring : [...ring].reverse();
+}
+
+const encoder = new TextEncoder();
+
+// Cut UTF-8 bytes without splitting a character
+function truncateUTF8(bytes: Uint8Array, max: number): Uint8Array {
+  if (bytes.length <= max) return bytes;
+  let end = max;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.slice(0, end);
+}
+
+interface DBFField {
+  name: string;
+  source: string;
+  type: 'N' | 'C';
+  length: number;
+  decimals: number;
+}
+
+function dbfFields(rows: Record<string, unknown>[], fields: string[]): DBFField[] {
+  const usedNames = new Set<string>();
+
+  return fields.map(source => {
+    // DBF field names are at most 10 ASCII characters and must be unique
+    const base = source.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'FIELD';
+    let name = base;
+    for (let i = 1; usedNames.has(name.toUpperCase()); i++) {
+      name = `${base.slice(0, 10 - String(i).length)}${i}`;
+    }
+    usedNames.add(name.toUpperCase());
+
+    const values = rows.map(row => row[source]).filter(value => value !== null && value !== undefined);
+    if (values.length > 0 && values.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      const decimals = Math.min(8, Math.max(0, ...values.map(value => (String(value).split('.')[1] ?? '').length)));
+      const length = Math.min(19, Math.max(1, ...values.map(value => (value as number).toFixed(decimals).length)));
+      return { name, source, type: 'N', length, decimals };
+    }
+
+    const length = Math.min(254, Math.max(1, ...values.map(value => encoder.encode(String(value)).length)));
+    return { name, source, type: 'C', length, decimals: 0 };
+  });
+}
+
+function writeDBF(rows: Record<string, unknown>[], fields: DBFField[]): Uint8Array {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const bytes = new Uint8Array(headerLength + rows.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+  const now = new Date();
+
+  view.setUint8(0, 0x03);
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    bytes.set(encoder.encode(field.name), offset);
+    bytes[offset + 11] = field.type.charCodeAt(0);
+    bytes[offset + 16] = field.length;
+    bytes[offset + 17] = field.decimals;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  let offset = headerLength;
+  rows.forEach(row => {
+    bytes.fill(0x20, offset, offset + recordLength);
+    offset++;
+    fields.forEach(field => {
+      const value = row[field.source];
+      if (value !== null && value !== undefined) {
+        if (field.type === 'N') {
+          const text = (value as number).toFixed(field.decimals).slice(0, field.length).padStart(field.length, ' ');
+          bytes.set(encoder.encode(text), offset);
+        } else {
+          bytes.set(truncateUTF8(encoder.encode(String(value)), field.length), offset);
+        }
+      }
+      offset += field.length;
+    });
+  });
+  bytes[offset] = 0x1a;
+
+  return bytes;
+}
+
+function writeBounds(view: DataView, offset: number, bounds: number[]) {
+  bounds.forEach((value, i) => view.setFloat64(offset + i * 8, value, true));
+}
+
+function ringsBounds(rings: number[][][]): number[] {
+  const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  rings.forEach(ring => ring.forEach(([x, y]) => {
+    bounds[0] = Math.min(bounds[0], x);
+    bounds[1] = Math.min(bounds[1], y);
+    bounds[2] = Math.max(bounds[2], x);
+    bounds[3] = Math.max(bounds[3], y);
+  }));
+  return bounds;
+}
+
+/**
+ * .shp and .shx for polygon features (shape type 5); features without geometry become null shapes
+ */
+function writeSHP(features: ExportFeature[]): { shp: Uint8Array; shx: Uint8Array } {
+  const records = features.map(({ feature }) =>
+    toPolygons(feature.geometry).flatMap(rings => rings.map((ring, i) => orientRing(ring, i === 0)))
+  );
+  const contentLengths = records.map(rings => {
+    if (rings.length === 0) return 4;
+    const points = rings.reduce((sum, ring) => sum + ring.length, 0);
+    return 44 + rings.length * 4 + points * 16;
+  });
+
+  const shpLength = 100 + contentLengths.reduce((sum, length) => sum + 8 + length, 0);
+  const shxLength = 100 + records.length * 8;
+  const shp = new DataView(new ArrayBuffer(shpLength));
+  const shx = new DataView(new ArrayBuffer(shxLength));
+  const allRings = records.flat();
+  const bounds = allRings.length > 0 ? ringsBounds(allRings) : [0, 0, 0, 0];
+
+  [[shp, shpLength], [shx, shxLength]].forEach(([view, length]) => {
+    const header = view as DataView;
+    header.setInt32(0, 9994);
+    header.setInt32(24, (length as number) / 2);
+    header.setInt32(28, 1000, true);
+    header.setInt32(32, 5, true);
+    writeBounds(header, 36, bounds);
+  });
+
+  let offset = 100;
+  records.forEach((rings, index) => {
+    const contentLength = contentLengths[index];
+    shx.setInt32(100 + index * 8, offset / 2);
+    shx.setInt32(104 + index * 8, contentLength / 2);
+
+    shp.setInt32(offset, index + 1);
+    shp.setInt32(offset + 4, contentLength / 2);
+    const content = offset + 8;
+
+    if (rings.length === 0) {
+      shp.setInt32(content, 0, true);
+    } else {
+      shp.setInt32(content, 5, true);
+      writeBounds(shp, content + 4, ringsBounds(rings));
+      shp.setInt32(content + 36, rings.length, true);
+      shp.setInt32(content + 40, rings.reduce((sum, ring) => sum + ring.length, 0), true);
+
+      let partStart = 0;
+      rings.forEach((ring, i) => {
+        shp.setInt32(content + 44 + i * 4, partStart, true);
+        partStart += ring.length;
+      });
+
+      let pointOffset = content + 44 + rings.length * 4;
+      rings.forEach(ring => ring.forEach(([x, y]) => {
+        shp.setFloat64(pointOffset, x, true);
+        shp.setFloat64(pointOffset + 8, y, true);
+        pointOffset += 16;
+      }));
+    }
+
+    offset = content + contentLength;
+  });
+
+  return { shp: new Uint8Array(shp.buffer), shx: new Uint8Array(shx.buffer) };
+}
+
+/**
+ * Zipped shapefile in WGS84, attributes encoded as UTF-8 (declared in the .cpg)
+ */
+export async function featuresToShapefile(features: ExportFeature[], options: ExportOptions, name: string): Promise<Blob> {
+  const rows = features.map(item => exportProperties(item, options.fields));
+  const { shp, shx } = writeSHP(features);
+
+  const zip = new JSZip();
+  zip.file(`${name}.shp`, shp);
+  zip.file(`${name}.shx`, shx);
+  zip.file(`${name}.dbf`, writeDBF(rows, dbfFields(rows, options.fields)));
+  zip.file(`${name}.prj`, WGS84_PRJ);
+  zip.file(`${name}.cpg`, 'UTF-8');
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/**
+ * GeoPackage with a sectors table plus one table per imported vector layer
+ */
+export async function featuresToGeoPackage(features: ExportFeature[], options: ExportOptions): Promise<Blob> {
+  const sectors = features.map(item => ({
+    type: 'Feature' as const,
+    properties: exportProperties(item, options.fields),
+    geometry: item.feature.geometry as GeoJSON.Geometry,
+  }));
+  const layers = (options.importedLayers ?? [])
+    .filter(layer => layer.type !== 'raster' && 'features' in layer.data)
+    .map(layer => ({ name: layer.name, features: (layer.data as GeoJSON.FeatureCollection).features }));
+
+  const bytes = await writeGeoPackage([{ name: 'sectors', features: sectors }, ...layers]);
+  return new Blob([bytes as BlobPart], { type: 'application/geopackage+sqlite3' });
+}
+
+/**
+ * Write the features in the chosen format, ready to download
+ */
+export async function exportSectors(
+  format: ExportFormat,
+  features: ExportFeature[],
+  options: ExportOptions,
+  name: string
+): Promise<{ blob: Blob; filename: string }> {
+  const filename = `${name}.${exportFormats[format].extension}`;
+
+  switch (format) {
+    case 'geojson':
+      return { blob: new Blob([featuresToGeoJSON(features, options)], { type: 'application/geo+json' }), filename };
+    case 'shapefile':
+      return { blob: await featuresToShapefile(features, options, name), filename };
+    case 'geopackage':
+      return { blob: await featuresToGeoPackage(features, options), filename };
+    case 'kml':
+      return { blob: new Blob([featuresToKML(features, options, name)], { type: 'application/vnd.google-earth.kml+xml' }), filename };
+    case 'csv':
+      return { blob: new Blob([featuresToCSV(features, options)], { type: 'text/csv;charset=utf-8;' }), filename };
+  }
+}
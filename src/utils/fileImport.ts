@@ -2,11 +2,36 @@ import * as shapefile from 'shapefile';
 import * as toGeoJSON from '@tmcw/togeojson';
 import JSZip from 'jszip';
 import * as GeoTIFF from 'geotiff';
+import { feature as topojsonFeature } from 'topojson-client';
+import type { Topology } from 'topojson-specification';
+import type { CrsMeta } from 'flatgeobuf';
+import { evaluateBandExpression } from './bandMath';
+import { isCloudOptimizedGeoTIFF, openCOG, type COGInfo } from './cog';
+import { getRampLookup, type ColorRampName } from './colorRamps';
+import { detectCRSFromGeoJSON, detectCRSFromWKT, getCRS, reprojectToWGS84 } from './crs';
+import { readFileBuffer, readFileText, type ProgressCallback } from './fileReading';
+import { readGeoPackage } from './geopackage';
+import { blobToDataURL, createRasterContext, rasterContextToDataURL } from './rasterCanvas';
+import {
+  defaultStretch,
+  getBandDisplayRange,
+  getBandHistogram,
+  getStretchRange,
+  getStretchValues,
+  isNoData,
+  stretchToBytes,
+  type RasterStretch,
+} from './rasterStretch';
+import { parseSpreadsheet, type PointMapping } from './spreadsheetImport';
+import { parseWKT } from './wkt';
+import { parseXML } from './xml';
+
+export type ImportedLayerType = 'geojson' | 'topojson' | 'kml' | 'gpx' | 'shapefile' | 'geopackage' | 'flatgeobuf' | 'wkt' | 'spreadsheet' | 'raster';
 
 export interface ImportedLayer {
   id: string;
   name: string;
-  type: 'geojson' | 'kml' | 'shapefile' | 'raster';
+  type: ImportedLayerType;
   data: GeoJSON.FeatureCollection | RasterData;
   visible: boolean;
   color: string;
@@ -19,6 +44,9 @@ export interface ImportedLayer {
   labelHaloWidth: number;
   zIndex: number;
   // Raster-specific controls
+  // How band values map to display brightness; defaults to a 2% percentile clip
+  stretch?: RasterStretch;
+  // Adjustments applied by the map on top of the stretch
   brightness?: number;  // -1.0 to 1.0
   contrast?: number;    // -1.0 to 1.0
   saturation?: number;  // -1.0 to 1.0
@@ -28,8 +56,14 @@ export interface ImportedLayer {
   blueBand?: number;    // Band index for blue channel (0-based)
   grayscaleBand?: number; // Band index for grayscale display (0-based)
   displayMode?: 'rgb' | 'grayscale'; // Display mode
+  // Pseudo-colour for single-band display; rampRange (band values) overrides the stretch
+  colorRamp?: ColorRampName;
+  rampRange?: [number, number];
 }
 
+// Pixel values of one band as read from the file
+export type RasterValues = Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array | Float64Array;
+
 export interface RasterData {
   type: 'raster';
   imageUrl: string;
@@ -37,16 +71,39 @@ export interface RasterData {
   width: number;
   height: number;
   bands?: Uint8ClampedArray[]; // Individual normalized bands for band selection
+  // Unscaled band values, for band math and statistics
+  rawBands?: RasterValues[];
   numBands: number;
+  // Value marking pixels without data, from the file's metadata; drawn transparent
+  noData?: number | null;
+  // Band math expression this raster was computed from
+  expression?: string;
+  // Cloud-Optimized GeoTIFFs are drawn as tiles read on demand; imageUrl and bands are empty
+  cog?: COGInfo;
+}
+
+export interface ParseOptions {
+  // X/Y columns and CRS for CSV/Excel points; detected from the headers when absent
+  pointMapping?: PointMapping;
+  // Source CRS for GeoJSON, KML and Shapefiles, overriding what the file declares
+  crs?: string;
+  // Bytes read and features parsed so far, for the import progress bar
+  onProgress?: ProgressCallback;
 }
 
 /**
- * Parse GeoJSON file
+ * Parse GeoJSON file, reprojecting from its `crs` member (or the given CRS) to WGS84
  */
-export async function parseGeoJSON(file: File): Promise<GeoJSON.FeatureCollection> {
-  const text = await file.text();
+export async function parseGeoJSON(file: File, options: ParseOptions = {}): Promise<GeoJSON.FeatureCollection> {
+  const text = await readFileText(file, options.onProgress);
   const data = JSON.parse(text);
+  return reprojectToWGS84(toFeatureCollection(data), options.crs ?? detectCRSFromGeoJSON(data.crs), file.name);
+}
 
+/**
+ * Wrap any GeoJSON object in a FeatureCollection
+ */
+function toFeatureCollection(data: GeoJSON.GeoJSON): GeoJSON.FeatureCollection {
   // Handle both FeatureCollection and single Feature
   if (data.type === 'FeatureCollection') {
     return data;
@@ -69,7 +126,7 @@ export async function parseGeoJSON(file: File): Promise<GeoJSON.FeatureCollectio
       type: 'FeatureCollection',
       features: [{
         type: 'Feature',
-        geometry: data,
+        geometry: data as GeoJSON.Geometry,
         properties: {}
       }]
     };
@@ -79,33 +136,145 @@ export async function parseGeoJSON(file: File): Promise<GeoJSON.FeatureCollectio
 }
 
 /**
- * Parse KML file
+ * Parse KML file. KML is always WGS84; a CRS is only given for files written with projected
+ * coordinates by mistake.
+ */
+export async function parseKML(file: File, options: ParseOptions = {}): Promise<GeoJSON.FeatureCollection> {
+  return kmlToGeoJSON(await readFileText(file, options.onProgress), file.name, options.crs);
+}
+
+/**
+ * Parse KMZ file (zipped KML from Google Earth): the root doc.kml, or the first KML inside
+ */
+export async function parseKMZ(file: File, options: ParseOptions = {}): Promise<GeoJSON.FeatureCollection> {
+  const zip = await JSZip.loadAsync(await readFileBuffer(file, options.onProgress));
+  const kmlFiles = Object.keys(zip.files).filter(name => name.toLowerCase().endsWith('.kml'));
+  const kmlFile = kmlFiles.find(name => name.toLowerCase() === 'doc.kml') ?? kmlFiles[0];
+
+  if (!kmlFile) {
+    throw new Error('KMZ must contain a .kml file');
+  }
+
+  return kmlToGeoJSON(await zip.files[kmlFile].async('string'), file.name, options.crs);
+}
+
+function kmlToGeoJSON(text: string, label: string, crs?: string): GeoJSON.FeatureCollection {
+  const kmlDoc = parseXML(text, 'KML');
+  const geojson = toGeoJSON.kml(kmlDoc) as GeoJSON.FeatureCollection;
+  return reprojectToWGS84(geojson, crs ?? null, label);
+}
+
+/**
+ * Parse TopoJSON file: each named object in the topology becomes its own collection
+ */
+export async function parseTopoJSON(file: File, options: ParseOptions = {}): Promise<{ name: string; data: GeoJSON.FeatureCollection }[]> {
+  const topology = JSON.parse(await readFileText(file, options.onProgress)) as Topology;
+  if (topology.type !== 'Topology' || !topology.objects) {
+    throw new Error('Invalid TopoJSON format');
+  }
+
+  return Object.keys(topology.objects).map(name => {
+    const data = topojsonFeature(topology, name) as GeoJSON.Feature | GeoJSON.FeatureCollection;
+    return { name, data: reprojectToWGS84(toFeatureCollection(data), options.crs ?? null, `${file.name} (${name})`) };
+  });
+}
+
+/**
+ * CRS of a FlatGeobuf header: the EPSG code when built in, else the embedded WKT
  */
-export async function parseKML(file: File): Promise<GeoJSON.FeatureCollection> {
-  const text = await file.text();
-  const parser = new DOMParser();
-  const kmlDoc = parser.parseFromString(text, 'text/xml');
+function flatGeobufCRS(crs: CrsMeta | null): string | null {
+  if (!crs) return null;
+  const code = crs.code && (!crs.org || crs.org.toUpperCase() === 'EPSG') ? `EPSG:${crs.code}` : null;
+  if (code && (getCRS(code) || !crs.wkt)) return code;
+  return crs.wkt ? detectCRSFromWKT(crs.wkt) : code;
+}
 
-  // Check for parsing errors
-  const parseError = kmlDoc.querySelector('parsererror');
-  if (parseError) {
-    throw new Error('Invalid KML format');
+/**
+ * Parse FlatGeobuf file (e.g. ogr2ogr exports from PostGIS), reprojecting from the header CRS
+ * (or the given CRS) to WGS84. The reader is loaded on first use.
+ */
+export async function parseFlatGeobuf(file: File, options: ParseOptions = {}): Promise<GeoJSON.FeatureCollection> {
+  const { deserialize } = await import('flatgeobuf/lib/mjs/geojson.js');
+  const bytes = new Uint8Array(await readFileBuffer(file, options.onProgress));
+
+  let headerCRS: CrsMeta | null = null;
+  const features: GeoJSON.Feature[] = [];
+  for await (const feature of deserialize(bytes, { headerMetaFn: (header) => { headerCRS = header.crs; } })) {
+    features.push(feature as GeoJSON.Feature);
+    options.onProgress?.({ featuresParsed: features.length });
   }
 
-  const geojson = toGeoJSON.kml(kmlDoc);
-  return geojson as GeoJSON.FeatureCollection;
+  return reprojectToWGS84({ type: 'FeatureCollection', features }, options.crs ?? flatGeobufCRS(headerCRS), file.name);
 }
 
 /**
- * Parse Shapefile (ZIP containing .shp, .shx, .dbf, .prj)
+ * Parse WKT/EWKT text (one or more geometries). An EWKT SRID is honoured unless a CRS is given.
  */
-export async function parseShapefile(file: File): Promise<GeoJSON.FeatureCollection> {
-  const arrayBuffer = await file.arrayBuffer();
+export function parseWKTText(text: string, crs?: string, label = 'WKT'): GeoJSON.FeatureCollection {
+  const { data, srid } = parseWKT(text);
+  return reprojectToWGS84(data, crs ?? (srid ? `EPSG:${srid}` : null), label);
+}
+
+export interface GPXData {
+  // Tracks and routes as lines, with per-vertex times and elevations in coordinateProperties
+  tracks: GeoJSON.FeatureCollection;
+  // Waypoints as points, with their time and elevation as properties
+  waypoints: GeoJSON.FeatureCollection;
+}
+
+/**
+ * Parse GPX file from a handheld GPS unit into separate track and waypoint collections
+ */
+export async function parseGPX(file: File, options: ParseOptions = {}): Promise<GPXData> {
+  const gpxDoc = parseXML(await readFileText(file, options.onProgress), 'GPX');
+  const features = toGeoJSON.gpx(gpxDoc).features as GeoJSON.Feature[];
+  const elevation = (position: GeoJSON.Position) => position.length > 2 ? position[2] : null;
+
+  const tracks = features
+    .filter(feature => feature.geometry.type === 'LineString' || feature.geometry.type === 'MultiLineString')
+    .map(feature => {
+      const geometry = feature.geometry as GeoJSON.LineString | GeoJSON.MultiLineString;
+      const elevations = geometry.type === 'LineString'
+        ? geometry.coordinates.map(elevation)
+        : geometry.coordinates.map(segment => segment.map(elevation));
+      return {
+        ...feature,
+        properties: {
+          ...feature.properties,
+          coordinateProperties: { ...feature.properties?.coordinateProperties, elevations },
+        },
+      };
+    });
+
+  const waypoints = features
+    .filter(feature => feature.geometry.type === 'Point')
+    .map(feature => ({
+      ...feature,
+      properties: {
+        ...feature.properties,
+        time: feature.properties?.time ?? null,
+        ele: elevation((feature.geometry as GeoJSON.Point).coordinates),
+      },
+    }));
+
+  return {
+    tracks: { type: 'FeatureCollection', features: tracks },
+    waypoints: { type: 'FeatureCollection', features: waypoints },
+  };
+}
+
+/**
+ * Parse Shapefile (ZIP containing .shp, .shx, .dbf, .prj), reprojecting from the .prj (or the
+ * given CRS) to WGS84
+ */
+export async function parseShapefile(file: File, options: ParseOptions = {}): Promise<GeoJSON.FeatureCollection> {
+  const arrayBuffer = await readFileBuffer(file, options.onProgress);
   const zip = await JSZip.loadAsync(arrayBuffer);
 
   // Find required files
   const shpFile = Object.keys(zip.files).find(name => name.toLowerCase().endsWith('.shp'));
   const dbfFile = Object.keys(zip.files).find(name => name.toLowerCase().endsWith('.dbf'));
+  const prjFile = Object.keys(zip.files).find(name => name.toLowerCase().endsWith('.prj'));
 
   if (!shpFile) {
     throw new Error('Shapefile must contain a .shp file');
@@ -114,6 +283,7 @@ export async function parseShapefile(file: File): Promise<GeoJSON.FeatureCollect
   // Extract buffers
   const shpBuffer = await zip.files[shpFile].async('arraybuffer');
   const dbfBuffer = dbfFile ? await zip.files[dbfFile].async('arraybuffer') : null;
+  const prj = prjFile ? await zip.files[prjFile].async('string') : null;
 
   // Parse shapefile
   const features: GeoJSON.Feature[] = [];
@@ -126,60 +296,40 @@ export async function parseShapefile(file: File): Promise<GeoJSON.FeatureCollect
   while (!result.done) {
     if (result.value) {
       features.push(result.value);
+      options.onProgress?.({ featuresParsed: features.length });
     }
     result = await source.read();
   }
 
-  return {
-    type: 'FeatureCollection',
-    features
-  };
+  return reprojectToWGS84(
+    { type: 'FeatureCollection', features },
+    options.crs ?? (prj ? detectCRSFromWKT(prj) : null),
+    file.name
+  );
 }
 
 /**
- * Normalize raster values to 0-255 range
+ * Scale raster values to 0-255 with the default stretch, ignoring nodata
  */
-function normalizeRasterValues(values: any): Uint8ClampedArray {
-  const normalized = new Uint8ClampedArray(values.length);
-
-  // Find min and max values
-  let min = Infinity;
-  let max = -Infinity;
-
-  for (let i = 0; i < values.length; i++) {
-    const val = values[i];
-    if (!isNaN(val) && isFinite(val)) {
-      min = Math.min(min, val);
-      max = Math.max(max, val);
-    }
-  }
-
-  // Handle edge cases
-  if (!isFinite(min) || !isFinite(max) || min === max) {
-    // If all values are the same or invalid, return middle gray
-    normalized.fill(128);
-    return normalized;
-  }
-
-  // Normalize to 0-255
-  const range = max - min;
-  for (let i = 0; i < values.length; i++) {
-    const val = values[i];
-    if (isNaN(val) || !isFinite(val)) {
-      normalized[i] = 0;
-    } else {
-      normalized[i] = Math.round(((val - min) / range) * 255);
-    }
-  }
+function normalizeRasterValues(values: ArrayLike<number>, noData?: number | null): Uint8ClampedArray {
+  return stretchToBytes(values, getStretchRange(getBandHistogram(values, noData), defaultStretch), noData);
+}
 
-  return normalized;
+// A pixel is empty when every band it is drawn from has no data there
+function isNoDataPixel(bands: ArrayLike<number>[], indices: number[], pixel: number, noData: number | null | undefined): boolean {
+  return indices.every(index => isNoData(bands[index][pixel], noData));
 }
 
 /**
- * Parse GeoTIFF file
+ * Parse GeoTIFF file. Cloud-Optimized GeoTIFFs are not read whole: only their header and
+ * smallest overview, with tiles streamed as the map needs them.
  */
-export async function parseGeoTIFF(file: File): Promise<RasterData> {
-  const arrayBuffer = await file.arrayBuffer();
+export async function parseGeoTIFF(file: File, options: ParseOptions = {}): Promise<RasterData> {
+  if (await isCloudOptimizedGeoTIFF(file)) {
+    return openCOG(file, options.crs);
+  }
+
+  const arrayBuffer = await readFileBuffer(file, options.onProgress);
   const tiff = await GeoTIFF.fromArrayBuffer(arrayBuffer);
   const image = await tiff.getImage();
 
@@ -196,26 +346,20 @@ export async function parseGeoTIFF(file: File): Promise<RasterData> {
 
   // Read raster data
   const rasters = await image.readRasters();
+  const noData = image.getGDALNoData();
 
   // Handle different band counts
   const numBands = rasters.length;
+  const rawBands = Array.from({ length: numBands }, (_, i) => rasters[i] as RasterValues);
 
   // Normalize all bands and store them
   const normalizedBands: Uint8ClampedArray[] = [];
   for (let i = 0; i < numBands; i++) {
-    normalizedBands.push(normalizeRasterValues(rasters[i]));
+    normalizedBands.push(normalizeRasterValues(rawBands[i], noData));
   }
 
   // Convert to RGB image for initial display
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Failed to create canvas context');
-  }
-
+  const ctx = createRasterContext(width, height);
   const imageData = ctx.createImageData(width, height);
   const data = imageData.data;
 
@@ -225,7 +369,7 @@ export async function parseGeoTIFF(file: File): Promise<RasterData> {
       data[i * 4] = normalizedBands[0][i];     // R
       data[i * 4 + 1] = normalizedBands[1][i]; // G
       data[i * 4 + 2] = normalizedBands[2][i]; // B
-      data[i * 4 + 3] = 255; // A
+      data[i * 4 + 3] = isNoDataPixel(rawBands, [0, 1, 2], i, noData) ? 0 : 255; // A
     }
   } else if (numBands === 1) {
     // Grayscale - use first band
@@ -234,12 +378,12 @@ export async function parseGeoTIFF(file: File): Promise<RasterData> {
       data[i * 4] = value;
       data[i * 4 + 1] = value;
       data[i * 4 + 2] = value;
-      data[i * 4 + 3] = 255;
+      data[i * 4 + 3] = isNoData(rawBands[0][i], noData) ? 0 : 255;
     }
   }
 
   ctx.putImageData(imageData, 0, 0);
-  const imageUrl = canvas.toDataURL('image/png');
+  const imageUrl = await rasterContextToDataURL(ctx);
 
   return {
     type: 'raster',
@@ -248,14 +392,16 @@ export async function parseGeoTIFF(file: File): Promise<RasterData> {
     width,
     height,
     bands: normalizedBands,
-    numBands
+    rawBands,
+    numBands,
+    noData
   };
 }
 
 /**
  * Parse ENVI format (.hdr + .img/.dat)
  */
-export async function parseENVI(imageFile: File, headerFile?: File): Promise<RasterData> {
+export async function parseENVI(imageFile: File, headerFile?: File, options: ParseOptions = {}): Promise<RasterData> {
   let width = 512;
   let height = 512;
   let bands = 1;
@@ -263,6 +409,7 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
   let interleave = 'bsq';
   let byteOrder = 0; // little endian
   let mapInfo: any = null;
+  let noData: number | null = null;
 
   // Parse header file if provided
   if (headerFile) {
@@ -283,6 +430,9 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
         interleave = trimmed.split('=')[1].trim().toLowerCase();
       } else if (trimmed.startsWith('byte order')) {
         byteOrder = parseInt(trimmed.split('=')[1].trim());
+      } else if (trimmed.startsWith('data ignore value')) {
+        noData = parseFloat(trimmed.split('=')[1].trim());
+        if (isNaN(noData)) noData = null;
       } else if (trimmed.startsWith('map info')) {
         // Parse map info for georeferencing
         const mapInfoStr = trimmed.substring(trimmed.indexOf('{') + 1, trimmed.indexOf('}'));
@@ -292,19 +442,11 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
   }
 
   // Read binary raster data
-  const arrayBuffer = await imageFile.arrayBuffer();
+  const arrayBuffer = await readFileBuffer(imageFile, options.onProgress);
   const dataView = new DataView(arrayBuffer);
 
   // Create canvas
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Failed to create canvas context');
-  }
-
+  const ctx = createRasterContext(width, height);
   const imageData = ctx.createImageData(width, height);
   const pixels = imageData.data;
 
@@ -368,9 +510,10 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
   }
 
   // Normalize all bands
+  const rawBands = allBands.map(values => Float32Array.from(values));
   const normalizedBands: Uint8ClampedArray[] = [];
   for (let b = 0; b < bands; b++) {
-    normalizedBands.push(normalizeRasterValues(allBands[b]));
+    normalizedBands.push(normalizeRasterValues(rawBands[b], noData));
   }
 
   // Apply first band to canvas for initial display
@@ -380,7 +523,7 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
       pixels[i * 4] = normalizedBands[0][i];
       pixels[i * 4 + 1] = normalizedBands[1][i];
       pixels[i * 4 + 2] = normalizedBands[2][i];
-      pixels[i * 4 + 3] = 255;
+      pixels[i * 4 + 3] = isNoDataPixel(rawBands, [0, 1, 2], i, noData) ? 0 : 255;
     }
   } else {
     // Grayscale display with first band
@@ -389,12 +532,12 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
       pixels[i * 4] = value;
       pixels[i * 4 + 1] = value;
       pixels[i * 4 + 2] = value;
-      pixels[i * 4 + 3] = 255;
+      pixels[i * 4 + 3] = isNoData(rawBands[0][i], noData) ? 0 : 255;
     }
   }
 
   ctx.putImageData(imageData, 0, 0);
-  const imageUrl = canvas.toDataURL('image/png');
+  const imageUrl = await rasterContextToDataURL(ctx);
 
   // Calculate bounds from map info or use defaults
   let bounds: [[number, number], [number, number]];
@@ -418,17 +561,19 @@ export async function parseENVI(imageFile: File, headerFile?: File): Promise<Ras
     width,
     height,
     bands: normalizedBands,
-    numBands: bands
+    rawBands,
+    numBands: bands,
+    noData
   };
 }
 
 /**
  * Parse ERDAS Imagine format (.img)
  */
-export async function parseERDAS(file: File): Promise<RasterData> {
+export async function parseERDAS(file: File, options: ParseOptions = {}): Promise<RasterData> {
   // ERDAS Imagine format is complex with embedded header
   // For now, try to read it as a basic binary raster
-  const arrayBuffer = await file.arrayBuffer();
+  const arrayBuffer = await readFileBuffer(file, options.onProgress);
   const dataView = new DataView(arrayBuffer);
 
   // Try to extract basic information from header (first 512 bytes typically)
@@ -437,15 +582,7 @@ export async function parseERDAS(file: File): Promise<RasterData> {
   const height = 512;
 
   // Create canvas
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Failed to create canvas context');
-  }
-
+  const ctx = createRasterContext(width, height);
   const imageData = ctx.createImageData(width, height);
   const pixels = imageData.data;
 
@@ -472,7 +609,7 @@ export async function parseERDAS(file: File): Promise<RasterData> {
   }
 
   ctx.putImageData(imageData, 0, 0);
-  const imageUrl = canvas.toDataURL('image/png');
+  const imageUrl = await rasterContextToDataURL(ctx);
 
   return {
     type: 'raster',
@@ -481,6 +618,7 @@ export async function parseERDAS(file: File): Promise<RasterData> {
     width,
     height,
     bands: [normalized],
+    rawBands: [Uint8Array.from(rawValues)],
     numBands: 1
   };
 }
@@ -489,32 +627,21 @@ export async function parseERDAS(file: File): Promise<RasterData> {
  * Parse image file with world file (PNG, JPEG)
  */
 export async function parseImageWithWorldFile(imageFile: File, worldFile?: File): Promise<RasterData> {
-  // Create image URL
-  const imageUrl = URL.createObjectURL(imageFile);
-
-  // Load image to get dimensions
-  const img = new Image();
-  await new Promise((resolve, reject) => {
-    img.onload = resolve;
-    img.onerror = reject;
-    img.src = imageUrl;
-  });
+  // Data URL of the original image (object URLs made in the import worker die with it)
+  const imageUrl = await blobToDataURL(imageFile);
+
+  // Decode image to get dimensions
+  const img = await createImageBitmap(imageFile);
 
   const width = img.width;
   const height = img.height;
 
   // Extract band data from the image
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Failed to create canvas context');
-  }
+  const ctx = createRasterContext(width, height);
 
   // Draw image to canvas
   ctx.drawImage(img, 0, 0);
+  img.close();
   const imageData = ctx.getImageData(0, 0, width, height);
   const data = imageData.data;
 
@@ -565,27 +692,97 @@ export async function parseImageWithWorldFile(imageFile: File, worldFile?: File)
   };
 }
 
+/**
+ * Wrap parsed data in a layer with the default display settings
+ */
+function createImportedLayer(name: string, type: ImportedLayerType, data: GeoJSON.FeatureCollection | RasterData): ImportedLayer {
+  // Generate random color for the layer
+  const color = `#${Math.floor(Math.random()*16777215).toString(16).padStart(6, '0')}`;
+
+  // Get first property name for default label field (for vector layers)
+  let defaultLabelField: string | null = null;
+  if (type !== 'raster' && 'features' in data) {
+    const firstFeature = data.features[0];
+    const propertyNames = firstFeature?.properties ? Object.keys(firstFeature.properties) : [];
+    defaultLabelField = propertyNames.find(p =>
+      p.toLowerCase().includes('name') ||
+      p.toLowerCase().includes('label') ||
+      p.toLowerCase().includes('id')
+    ) || propertyNames[0] || null;
+  }
+
+  // Set default band selection for raster layers
+  let defaultRedBand, defaultGreenBand, defaultBlueBand, defaultGrayscaleBand, defaultDisplayMode: 'rgb' | 'grayscale';
+  let defaultRasterStretch: RasterStretch | undefined;
+  if (type === 'raster') {
+    const rasterData = data as RasterData;
+    // Plain images are already scaled for display; data rasters get the percentile clip
+    defaultRasterStretch = rasterData.rawBands || rasterData.cog ? defaultStretch : { ...defaultStretch, mode: 'minmax' };
+    if (rasterData.numBands >= 3) {
+      // Default to RGB mode with first 3 bands
+      defaultRedBand = 0;
+      defaultGreenBand = 1;
+      defaultBlueBand = 2;
+      defaultGrayscaleBand = 0;
+      defaultDisplayMode = 'rgb';
+    } else {
+      // Default to grayscale mode with first band
+      defaultRedBand = 0;
+      defaultGreenBand = 0;
+      defaultBlueBand = 0;
+      defaultGrayscaleBand = 0;
+      defaultDisplayMode = 'grayscale';
+    }
+  }
+
+  return {
+    id: `layer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    type,
+    data,
+    visible: true,
+    color,
+    opacity: type === 'raster' ? 1.0 : 0.6,
+    showLabels: false,
+    labelField: defaultLabelField,
+    labelSize: 12,
+    labelColor: '#000000',
+    labelHaloColor: '#ffffff',
+    labelHaloWidth: 2,
+    zIndex: Date.now(),
+    stretch: defaultRasterStretch,
+    brightness: 0,
+    contrast: 0,
+    saturation: 0,
+    redBand: defaultRedBand,
+    greenBand: defaultGreenBand,
+    blueBand: defaultBlueBand,
+    grayscaleBand: defaultGrayscaleBand,
+    displayMode: defaultDisplayMode
+  };
+}
+
 /**
  * Parse file based on extension
  */
-export async function parseFile(file: File): Promise<ImportedLayer> {
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<ImportedLayer> {
   const fileName = file.name;
   const extension = fileName.split('.').pop()?.toLowerCase();
 
   let data: GeoJSON.FeatureCollection | RasterData;
-  let type: 'geojson' | 'kml' | 'shapefile' | 'raster';
+  let type: ImportedLayerType;
 
   try {
     // Handle raster formats
     if (extension === 'tif' || extension === 'tiff') {
-      data = await parseGeoTIFF(file);
+      data = await parseGeoTIFF(file, options);
       type = 'raster';
     } else if (extension === 'png' || extension === 'jpg' || extension === 'jpeg') {
       data = await parseImageWithWorldFile(file);
       type = 'raster';
     } else if (extension === 'img' || extension === 'dat') {
       // ENVI format (.img or .dat) - header file is optional
-      data = await parseENVI(file);
+      data = await parseENVI(file, undefined, options);
       type = 'raster';
     } else if (extension === 'hdr') {
       // ENVI header file - need to wait for the corresponding .img or .dat file
@@ -593,89 +790,198 @@ export async function parseFile(file: File): Promise<ImportedLayer> {
     }
     // Handle vector formats
     else if (extension === 'geojson' || extension === 'json') {
-      data = await parseGeoJSON(file);
+      data = await parseGeoJSON(file, options);
       type = 'geojson';
     } else if (extension === 'kml') {
-      data = await parseKML(file);
+      data = await parseKML(file, options);
       type = 'kml';
+    } else if (extension === 'kmz') {
+      data = await parseKMZ(file, options);
+      type = 'kml';
+    } else if (extension === 'fgb') {
+      data = await parseFlatGeobuf(file, options);
+      type = 'flatgeobuf';
+    } else if (extension === 'wkt') {
+      data = parseWKTText(await readFileText(file, options.onProgress), options.crs, fileName);
+      type = 'wkt';
     } else if (extension === 'zip') {
-      data = await parseShapefile(file);
+      data = await parseShapefile(file, options);
       type = 'shapefile';
+    } else if (extension === 'csv' || extension === 'xlsx') {
+      data = await parseSpreadsheet(file, options.pointMapping, options.onProgress);
+      type = 'spreadsheet';
     } else {
       throw new Error(`Unsupported file format: ${extension}`);
     }
 
-    // Generate random color for the layer
-    const color = `#${Math.floor(Math.random()*16777215).toString(16).padStart(6, '0')}`;
-
-    // Get first property name for default label field (for vector layers)
-    let defaultLabelField: string | null = null;
-    if (type !== 'raster' && 'features' in data) {
-      const firstFeature = data.features[0];
-      const propertyNames = firstFeature?.properties ? Object.keys(firstFeature.properties) : [];
-      defaultLabelField = propertyNames.find(p =>
-        p.toLowerCase().includes('name') ||
-        p.toLowerCase().includes('label') ||
-        p.toLowerCase().includes('id')
-      ) || propertyNames[0] || null;
+    return createImportedLayer(fileName, type, data);
+  } catch (error) {
+    throw new Error(`Failed to parse ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse a GeoPackage: every feature table and tile table becomes its own layer
+ */
+export async function parseGeoPackage(file: File, options: ParseOptions = {}): Promise<ImportedLayer[]> {
+  try {
+    const tables = await readGeoPackage(await readFileBuffer(file, options.onProgress), options.onProgress);
+    if (tables.length === 0) {
+      throw new Error('No readable feature or tile tables found');
     }
 
-    // Set default band selection for raster layers
-    let defaultRedBand, defaultGreenBand, defaultBlueBand, defaultGrayscaleBand, defaultDisplayMode: 'rgb' | 'grayscale';
-    if (type === 'raster') {
-      const rasterData = data as RasterData;
-      if (rasterData.numBands >= 3) {
-        // Default to RGB mode with first 3 bands
-        defaultRedBand = 0;
-        defaultGreenBand = 1;
-        defaultBlueBand = 2;
-        defaultGrayscaleBand = 0;
-        defaultDisplayMode = 'rgb';
-      } else {
-        // Default to grayscale mode with first band
-        defaultRedBand = 0;
-        defaultGreenBand = 0;
-        defaultBlueBand = 0;
-        defaultGrayscaleBand = 0;
-        defaultDisplayMode = 'grayscale';
-      }
+    const baseName = file.name.replace(/\.gpkg$/i, '');
+    return tables.map(table => createImportedLayer(
+      `${baseName} – ${table.name}`,
+      table.type === 'tiles' ? 'raster' : 'geopackage',
+      table.data
+    ));
+  } catch (error) {
+    throw new Error(`Failed to parse ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse a TopoJSON file: every object in the topology becomes its own layer
+ */
+export async function parseTopoJSONLayers(file: File, options: ParseOptions = {}): Promise<ImportedLayer[]> {
+  try {
+    const objects = await parseTopoJSON(file, options);
+    if (objects.length === 0) {
+      throw new Error('No objects found in the topology');
     }
 
-    return {
-      id: `layer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      name: fileName,
-      type,
-      data,
-      visible: true,
-      color,
-      opacity: type === 'raster' ? 1.0 : 0.6,
-      showLabels: false,
-      labelField: defaultLabelField,
-      labelSize: 12,
-      labelColor: '#000000',
-      labelHaloColor: '#ffffff',
-      labelHaloWidth: 2,
-      zIndex: Date.now(),
-      brightness: 0,
-      contrast: 0,
-      saturation: 0,
-      redBand: defaultRedBand,
-      greenBand: defaultGreenBand,
-      blueBand: defaultBlueBand,
-      grayscaleBand: defaultGrayscaleBand,
-      displayMode: defaultDisplayMode
-    };
+    const baseName = file.name.replace(/\.(topo)?json$/i, '');
+    return objects.map(({ name, data }) => createImportedLayer(
+      objects.length > 1 ? `${baseName} – ${name}` : file.name,
+      'topojson',
+      data
+    ));
   } catch (error) {
-    throw new Error(`Failed to parse ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to parse ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Layer streamed from a Cloud-Optimized GeoTIFF on a server that supports range requests
+ */
+export async function openCOGLayer(url: string, options: ParseOptions = {}): Promise<ImportedLayer> {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || url);
+    return createImportedLayer(name, 'raster', await openCOG(url, options.crs));
+  } catch (error) {
+    throw new Error(`Failed to open ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Layer from WKT pasted into the import panel
+ */
+export function createWKTLayer(text: string, name: string, options: ParseOptions = {}): ImportedLayer {
+  try {
+    return createImportedLayer(name, 'wkt', parseWKTText(text, options.crs, name));
+  } catch (error) {
+    throw new Error(`Failed to parse WKT: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Single-band layer computed from a raster's bands, e.g. NDVI, drawn with a colour ramp.
+ * Without a fixed range the layer's stretch applies.
+ */
+export function createBandMathLayer(
+  source: ImportedLayer,
+  expression: string,
+  name: string,
+  colorRamp: ColorRampName,
+  rampRange?: [number, number]
+): ImportedLayer {
+  const raster = source.data as RasterData;
+  const bands = raster.rawBands ?? raster.bands;
+  if (!bands || bands.length === 0) {
+    throw new Error('This raster has no band values to compute with');
+  }
+
+  const totalPixels = raster.width * raster.height;
+  const values = evaluateBandExpression(expression, bands, totalPixels);
+  // Nodata in any input band gives no result
+  if (raster.noData != null) {
+    for (let i = 0; i < totalPixels; i++) {
+      if (bands.some(band => isNoData(band[i], raster.noData))) values[i] = NaN;
+    }
+  }
+
+  const layer = createImportedLayer(name, 'raster', {
+    type: 'raster',
+    imageUrl: '',
+    bounds: raster.bounds,
+    width: raster.width,
+    height: raster.height,
+    bands: [normalizeRasterValues(values)],
+    rawBands: [values],
+    numBands: 1,
+    expression,
+  });
+  layer.colorRamp = colorRamp;
+  layer.rampRange = rampRange;
+  (layer.data as RasterData).imageUrl = regenerateRasterImage(layer);
+  return layer;
+}
+
+// TopoJSON saved as .json is told apart from GeoJSON by its type, which writers put first
+async function isTopoJSON(file: File): Promise<boolean> {
+  const head = await file.slice(0, 1024).text();
+  return /^\s*\{\s*"type"\s*:\s*"Topology"/.test(head);
+}
+
+/**
+ * Parse a GPX file into a track-line layer and a waypoint layer (whichever are present)
+ */
+export async function parseGPXLayers(file: File, options: ParseOptions = {}): Promise<ImportedLayer[]> {
+  try {
+    const { tracks, waypoints } = await parseGPX(file, options);
+    if (tracks.features.length === 0 && waypoints.features.length === 0) {
+      throw new Error('No tracks, routes or waypoints found');
+    }
+
+    const baseName = file.name.replace(/\.gpx$/i, '');
+    const layers: ImportedLayer[] = [];
+    if (tracks.features.length > 0) {
+      layers.push(createImportedLayer(`${baseName} – tracks`, 'gpx', tracks));
+    }
+    if (waypoints.features.length > 0) {
+      layers.push(createImportedLayer(`${baseName} – waypoints`, 'gpx', waypoints));
+    }
+    return layers;
+  } catch (error) {
+    throw new Error(`Failed to parse ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Parse a file into one or more layers (GeoPackages can hold several tables, TopoJSON several
+ * objects, GPX files hold tracks and waypoints)
+ */
+export async function parseFileLayers(file: File, options: ParseOptions = {}): Promise<ImportedLayer[]> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'gpkg') {
+    return parseGeoPackage(file, options);
+  }
+  if (extension === 'gpx') {
+    return parseGPXLayers(file, options);
+  }
+  if (extension === 'topojson' || (extension === 'json' && await isTopoJSON(file))) {
+    return parseTopoJSONLayers(file, options);
+  }
+  return [await parseFile(file, options)];
+}
+
 /**
  * Validate file before parsing
  */
 export function validateFile(file: File): { valid: boolean; error?: string } {
   const maxSize = 500 * 1024 * 1024; // 500MB for raster data
-  const validExtensions = ['geojson', 'json', 'kml', 'zip', 'tif', 'tiff', 'png', 'jpg', 'jpeg', 'img', 'dat', 'hdr'];
+  const validExtensions = ['geojson', 'json', 'topojson', 'kml', 'kmz', 'gpx', 'zip', 'fgb', 'wkt', 'gpkg', 'csv', 'xlsx', 'tif', 'tiff', 'png', 'jpg', 'jpeg', 'img', 'dat', 'hdr'];
   const extension = file.name.split('.').pop()?.toLowerCase();
 
   if (!extension || !validExtensions.includes(extension)) {
@@ -730,3 +1036,67 @@ export function calculateBounds(data: GeoJSON.FeatureCollection): [[number, numb
 
   return [[minLng, minLat], [maxLng, maxLat]];
 }
+
+/**
+ * Rebuild a raster layer's image from its stored bands using the selected band combination,
+ * stretch and colour ramp. Nodata pixels are transparent.
+ */
+export function regenerateRasterImage(layer: ImportedLayer): string {
+  if (layer.type !== 'raster') return '';
+
+  const rasterData = layer.data as RasterData;
+  if (!rasterData.bands || rasterData.bands.length === 0) {
+    return rasterData.imageUrl; // Return original if no bands available
+  }
+
+  const { width, height, noData } = rasterData;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) return rasterData.imageUrl;
+
+  const imageData = ctx.createImageData(width, height);
+  const data = imageData.data;
+  const totalPixels = width * height;
+  const valuesOf = (band: number) => getStretchValues(rasterData, band) ?? rasterData.bands![0];
+
+  if (layer.displayMode === 'rgb' && rasterData.numBands >= 3) {
+    // RGB mode - each selected band stretched over its own range
+    const indices = [layer.redBand ?? 0, layer.greenBand ?? 1, layer.blueBand ?? 2];
+    const sources = indices.map(valuesOf);
+    const [rBand, gBand, bBand] = indices.map((band, i) => stretchToBytes(sources[i], getBandDisplayRange(layer, band), noData));
+
+    for (let i = 0; i < totalPixels; i++) {
+      data[i * 4] = rBand[i];
+      data[i * 4 + 1] = gBand[i];
+      data[i * 4 + 2] = bBand[i];
+      data[i * 4 + 3] = isNoDataPixel(sources, [0, 1, 2], i, noData) ? 0 : 255;
+    }
+  } else {
+    // Single band - pseudo-colour through the ramp, or grayscale
+    const bandIndex = layer.grayscaleBand ?? 0;
+    const values = valuesOf(bandIndex);
+    const band = stretchToBytes(values, getBandDisplayRange(layer, bandIndex), noData);
+    const lookup = layer.colorRamp ? getRampLookup(layer.colorRamp) : null;
+
+    for (let i = 0; i < totalPixels; i++) {
+      if (isNoData(values[i], noData)) continue;
+      const value = band[i];
+      if (lookup) {
+        data[i * 4] = lookup[value * 3];
+        data[i * 4 + 1] = lookup[value * 3 + 1];
+        data[i * 4 + 2] = lookup[value * 3 + 2];
+      } else {
+        data[i * 4] = value;
+        data[i * 4 + 1] = value;
+        data[i * 4 + 2] = value;
+      }
+      data[i * 4 + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
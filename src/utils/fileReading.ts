@@ -0,0 +1,40 @@
+/**
+ * Chunked file reading for imports, so large files can report how much has been read
+ */
+
+export interface ParseProgress {
+  bytesRead?: number;
+  bytesTotal?: number;
+  featuresParsed?: number;
+}
+
+export type ProgressCallback = (progress: ParseProgress) => void;
+
+/**
+ * Read a file into an ArrayBuffer, reporting bytes read after every chunk
+ */
+export async function readFileBuffer(file: Blob, onProgress?: ProgressCallback): Promise<ArrayBuffer> {
+  if (!onProgress) return file.arrayBuffer();
+
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  onProgress({ bytesRead: 0, bytesTotal: file.size });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, offset);
+    offset += value.length;
+    onProgress({ bytesRead: offset, bytesTotal: file.size });
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Read a file as UTF-8 text, reporting bytes read after every chunk
+ */
+export async function readFileText(file: Blob, onProgress?: ProgressCallback): Promise<string> {
+  if (!onProgress) return file.text();
+  return new TextDecoder().decode(await readFileBuffer(file, onProgress));
+}
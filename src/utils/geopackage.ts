@@ -0,0 +1,641 @@
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { detectCRSFromWKT, getCRS, getTransformToWGS84, type CoordinateTransform } from './crs';
+import type { RasterData } from './fileImport';
+import type { ProgressCallback } from './fileReading';
+import { createRasterContext, rasterContextToDataURL } from './rasterCanvas';
+
+/**
+ * GeoPackage (OGC SQLite container) reading and writing, entirely in the browser via sql.js
+ */
+
+export interface GeoPackageVectorTable {
+  name: string;
+  type: 'features';
+  data: GeoJSON.FeatureCollection;
+}
+
+export interface GeoPackageRasterTable {
+  name: string;
+  type: 'tiles';
+  data: RasterData;
+}
+
+export type GeoPackageTable = GeoPackageVectorTable | GeoPackageRasterTable;
+
+// 'GPKG' in the SQLite header, and version 1.3
+const GPKG_APPLICATION_ID = 0x47504b47;
+const GPKG_USER_VERSION = 10300;
+
+// Tile mosaics larger than this are read from a coarser zoom level (canvas size limits)
+const MAX_MOSAIC_SIZE = 4096;
+
+const WGS84_WKT =
+  'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],' +
+  'AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],' +
+  'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its wasm are only fetched once a GeoPackage is actually used
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import('sql.js')
+      .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }))
+      .catch((error) => {
+        sqlJsPromise = null;
+        throw error;
+      });
+  }
+  return sqlJsPromise;
+}
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+function queryRows(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql, params);
+  const rows: Record<string, SqlValue>[] = [];
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Coordinate reference systems
+// ---------------------------------------------------------------------------
+
+const identity: CoordinateTransform = (x, y) => [x, y];
+
+// Geographic systems close enough to WGS84 at map scale, and the old Web Mercator code
+const WGS84_ALIASES = new Set([4326, 4258, 4269]);
+const WEB_MERCATOR_ALIASES = new Set([3857, 900913]);
+
+/**
+ * Transform to WGS84 for a gpkg_spatial_ref_sys entry: a built-in EPSG system, else the
+ * entry's own WKT definition. Null when it cannot be handled here.
+ */
+function getTransform(db: Database, srsId: number): CoordinateTransform | null {
+  // -1 and 0 are the spec's undefined cartesian/geographic systems; treat them as lon/lat
+  if (srsId === -1 || srsId === 0) return identity;
+
+  const [srs] = queryRows(db, 'SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [srsId]);
+  const code = srs && String(srs.organization).toUpperCase() === 'EPSG' ? Number(srs.organization_coordsys_id) : srsId;
+
+  if (WGS84_ALIASES.has(code)) return identity;
+  const crs = WEB_MERCATOR_ALIASES.has(code) ? 'EPSG:3857' : getCRS(`EPSG:${code}`)?.code ?? detectCRSFromWKT(String(srs?.definition ?? ''));
+  if (!crs) return null;
+
+  try {
+    return getTransformToWGS84(crs);
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Geometry encoding (GeoPackage binary header + ISO WKB)
+// ---------------------------------------------------------------------------
+
+const WKB_TYPES: Record<number, GeoJSON.Geometry['type']> = {
+  1: 'Point',
+  2: 'LineString',
+  3: 'Polygon',
+  4: 'MultiPoint',
+  5: 'MultiLineString',
+  6: 'MultiPolygon',
+  7: 'GeometryCollection',
+};
+
+const WKB_CODES = Object.fromEntries(Object.entries(WKB_TYPES).map(([code, type]) => [type, Number(code)])) as Record<GeoJSON.Geometry['type'], number>;
+
+class WKBReader {
+  private offset: number;
+  private view: DataView;
+  private transform: CoordinateTransform;
+
+  constructor(view: DataView, offset: number, transform: CoordinateTransform) {
+    this.view = view;
+    this.offset = offset;
+    this.transform = transform;
+  }
+
+  read(): GeoJSON.Geometry | null {
+    const littleEndian = this.view.getUint8(this.offset) === 1;
+    let typeCode = this.view.getUint32(this.offset + 1, littleEndian);
+    this.offset += 5;
+
+    // ISO WKB adds 1000/2000/3000 for Z/M/ZM; EWKB uses flag bits instead
+    let dimensions = 2;
+    if (typeCode & 0x20000000) this.offset += 4; // EWKB SRID
+    if (typeCode & 0x80000000) dimensions++;
+    if (typeCode & 0x40000000) dimensions++;
+    typeCode &= 0x0fffffff;
+    if (typeCode > 1000) {
+      const iso = Math.floor(typeCode / 1000);
+      dimensions += iso === 3 ? 2 : 1;
+      typeCode %= 1000;
+    }
+
+    const point = (): number[] => {
+      const x = this.view.getFloat64(this.offset, littleEndian);
+      const y = this.view.getFloat64(this.offset + 8, littleEndian);
+      this.offset += dimensions * 8;
+      return this.transform(x, y);
+    };
+    const count = () => {
+      const value = this.view.getUint32(this.offset, littleEndian);
+      this.offset += 4;
+      return value;
+    };
+    const points = () => Array.from({ length: count() }, point);
+    const rings = () => Array.from({ length: count() }, points);
+    const children = () => Array.from({ length: count() }, () => this.read());
+
+    switch (WKB_TYPES[typeCode]) {
+      case 'Point': {
+        const coordinates = point();
+        // An empty point is written as NaN coordinates
+        return Number.isNaN(coordinates[0]) ? null : { type: 'Point', coordinates };
+      }
+      case 'LineString':
+        return { type: 'LineString', coordinates: points() };
+      case 'Polygon':
+        return { type: 'Polygon', coordinates: rings() };
+      case 'MultiPoint':
+        return { type: 'MultiPoint', coordinates: children().flatMap(g => (g ? [(g as GeoJSON.Point).coordinates] : [])) };
+      case 'MultiLineString':
+        return { type: 'MultiLineString', coordinates: children().map(g => (g as GeoJSON.LineString).coordinates) };
+      case 'MultiPolygon':
+        return { type: 'MultiPolygon', coordinates: children().map(g => (g as GeoJSON.Polygon).coordinates) };
+      case 'GeometryCollection':
+        return { type: 'GeometryCollection', geometries: children().filter((g): g is GeoJSON.Geometry => g !== null) };
+      default:
+        throw new Error(`Unsupported WKB geometry type ${typeCode}`);
+    }
+  }
+}
+
+// Envelope sizes by the header's envelope indicator (bits 1-3 of the flags)
+const ENVELOPE_SIZES = [0, 32, 48, 48, 64];
+
+/**
+ * Decode a GeoPackage geometry blob to GeoJSON
+ */
+export function decodeGeoPackageGeometry(blob: Uint8Array, transform: CoordinateTransform = identity): GeoJSON.Geometry | null {
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+  if (blob.length < 8 || blob[0] !== 0x47 || blob[1] !== 0x50) {
+    throw new Error('Not a GeoPackage geometry');
+  }
+
+  const flags = blob[3];
+  const envelope = ENVELOPE_SIZES[(flags >> 1) & 0x07] ?? 0;
+  if (flags & 0x10) return null; // empty geometry
+
+  return new WKBReader(view, 8 + envelope, transform).read();
+}
+
+function wkbSize(geometry: GeoJSON.Geometry): number {
+  switch (geometry.type) {
+    case 'Point':
+      return 21;
+    case 'LineString':
+      return 9 + geometry.coordinates.length * 16;
+    case 'Polygon':
+      return 9 + geometry.coordinates.reduce((sum, ring) => sum + 4 + ring.length * 16, 0);
+    case 'MultiPoint':
+      return 9 + geometry.coordinates.length * 21;
+    case 'MultiLineString':
+      return 9 + geometry.coordinates.reduce((sum, line) => sum + 9 + line.length * 16, 0);
+    case 'MultiPolygon':
+      return 9 + geometry.coordinates.reduce((sum, polygon) => sum + wkbSize({ type: 'Polygon', coordinates: polygon }), 0);
+    case 'GeometryCollection':
+      return 9 + geometry.geometries.reduce((sum, child) => sum + wkbSize(child), 0);
+  }
+}
+
+function writeWKB(view: DataView, start: number, geometry: GeoJSON.Geometry): number {
+  let offset = start;
+  const header = (type: GeoJSON.Geometry['type']) => {
+    view.setUint8(offset, 1);
+    view.setUint32(offset + 1, WKB_CODES[type], true);
+    offset += 5;
+  };
+  const count = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const point = (position: GeoJSON.Position) => {
+    view.setFloat64(offset, position[0], true);
+    view.setFloat64(offset + 8, position[1], true);
+    offset += 16;
+  };
+  const points = (positions: GeoJSON.Position[]) => {
+    count(positions.length);
+    positions.forEach(point);
+  };
+
+  switch (geometry.type) {
+    case 'Point':
+      header('Point');
+      point(geometry.coordinates);
+      break;
+    case 'LineString':
+      header('LineString');
+      points(geometry.coordinates);
+      break;
+    case 'Polygon':
+      header('Polygon');
+      count(geometry.coordinates.length);
+      geometry.coordinates.forEach(points);
+      break;
+    case 'MultiPoint':
+      header('MultiPoint');
+      count(geometry.coordinates.length);
+      geometry.coordinates.forEach(coordinates => { offset = writeWKB(view, offset, { type: 'Point', coordinates }); });
+      break;
+    case 'MultiLineString':
+      header('MultiLineString');
+      count(geometry.coordinates.length);
+      geometry.coordinates.forEach(coordinates => { offset = writeWKB(view, offset, { type: 'LineString', coordinates }); });
+      break;
+    case 'MultiPolygon':
+      header('MultiPolygon');
+      count(geometry.coordinates.length);
+      geometry.coordinates.forEach(coordinates => { offset = writeWKB(view, offset, { type: 'Polygon', coordinates }); });
+      break;
+    case 'GeometryCollection':
+      header('GeometryCollection');
+      count(geometry.geometries.length);
+      geometry.geometries.forEach(child => { offset = writeWKB(view, offset, child); });
+      break;
+  }
+  return offset;
+}
+
+type Envelope = [number, number, number, number]; // minX, minY, maxX, maxY
+
+function geometryEnvelope(geometry: GeoJSON.Geometry, envelope: Envelope = [Infinity, Infinity, -Infinity, -Infinity]): Envelope {
+  const visit = (coords: unknown): void => {
+    if (!Array.isArray(coords)) return;
+    if (typeof coords[0] === 'number') {
+      envelope[0] = Math.min(envelope[0], coords[0]);
+      envelope[1] = Math.min(envelope[1], coords[1]);
+      envelope[2] = Math.max(envelope[2], coords[0]);
+      envelope[3] = Math.max(envelope[3], coords[1]);
+    } else {
+      coords.forEach(visit);
+    }
+  };
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach(child => geometryEnvelope(child, envelope));
+  } else {
+    visit(geometry.coordinates);
+  }
+  return envelope;
+}
+
+/**
+ * Encode GeoJSON as a GeoPackage geometry blob (little-endian, WGS84, xy envelope)
+ */
+export function encodeGeoPackageGeometry(geometry: GeoJSON.Geometry, srsId = 4326): Uint8Array {
+  const envelope = geometryEnvelope(geometry);
+  const hasEnvelope = geometry.type !== 'Point' && Number.isFinite(envelope[0]);
+  const headerSize = 8 + (hasEnvelope ? 32 : 0);
+  const bytes = new Uint8Array(headerSize + wkbSize(geometry));
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = 0x47; // 'G'
+  bytes[1] = 0x50; // 'P'
+  bytes[2] = 0; // version 1
+  bytes[3] = (hasEnvelope ? 0x02 : 0) | 0x01; // envelope type 1, little endian
+  view.setInt32(4, srsId, true);
+  if (hasEnvelope) {
+    // GeoPackage envelopes are ordered minx, maxx, miny, maxy
+    [envelope[0], envelope[2], envelope[1], envelope[3]].forEach((value, i) => view.setFloat64(8 + i * 8, value, true));
+  }
+
+  writeWKB(view, headerSize, geometry);
+  return bytes;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function readFeatureTable(db: Database, tableName: string): GeoJSON.FeatureCollection | null {
+  const [column] = queryRows(db, 'SELECT column_name, srs_id FROM gpkg_geometry_columns WHERE table_name = ?', [tableName]);
+  if (!column) {
+    console.warn(`⚠️ GeoPackage table ${tableName} has no geometry column`);
+    return null;
+  }
+
+  const transform = getTransform(db, Number(column.srs_id));
+  if (!transform) {
+    console.warn(`⚠️ GeoPackage table ${tableName} uses an unsupported CRS (srs_id ${column.srs_id})`);
+    return null;
+  }
+
+  const geometryColumn = String(column.column_name);
+  const features: GeoJSON.Feature[] = queryRows(db, `SELECT * FROM ${quoteIdentifier(tableName)}`).map(row => {
+    const { [geometryColumn]: blob, ...properties } = row;
+    return {
+      type: 'Feature',
+      properties,
+      geometry: blob instanceof Uint8Array ? decodeGeoPackageGeometry(blob, transform) : null,
+    } as GeoJSON.Feature;
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Mosaic a tile pyramid table into one image, at the most detailed zoom level that fits
+ */
+async function readTileTable(db: Database, tableName: string): Promise<RasterData | null> {
+  const [matrixSet] = queryRows(db, 'SELECT min_x, min_y, max_x, max_y, srs_id FROM gpkg_tile_matrix_set WHERE table_name = ?', [tableName]);
+  if (!matrixSet) return null;
+
+  const transform = getTransform(db, Number(matrixSet.srs_id));
+  if (!transform) {
+    console.warn(`⚠️ GeoPackage tiles ${tableName} use an unsupported CRS (srs_id ${matrixSet.srs_id})`);
+    return null;
+  }
+
+  const table = quoteIdentifier(tableName);
+  const levels = queryRows(db, 'SELECT zoom_level, tile_width, tile_height, pixel_x_size, pixel_y_size FROM gpkg_tile_matrix WHERE table_name = ? ORDER BY zoom_level DESC', [tableName])
+    .map(level => {
+      const [extent] = queryRows(db, `SELECT MIN(tile_column) AS min_col, MAX(tile_column) AS max_col, MIN(tile_row) AS min_row, MAX(tile_row) AS max_row FROM ${table} WHERE zoom_level = ?`, [level.zoom_level]);
+      return { ...level, ...extent } as Record<string, number>;
+    })
+    .filter(level => level.min_col !== null);
+
+  if (levels.length === 0) return null;
+  const level = levels.find(l =>
+    (l.max_col - l.min_col + 1) * l.tile_width <= MAX_MOSAIC_SIZE &&
+    (l.max_row - l.min_row + 1) * l.tile_height <= MAX_MOSAIC_SIZE
+  ) ?? levels[levels.length - 1];
+
+  const width = Math.min(MAX_MOSAIC_SIZE, (level.max_col - level.min_col + 1) * level.tile_width);
+  const height = Math.min(MAX_MOSAIC_SIZE, (level.max_row - level.min_row + 1) * level.tile_height);
+  const ctx = createRasterContext(width, height);
+
+  let drawn = 0;
+  const tiles = queryRows(db, `SELECT tile_column, tile_row, tile_data FROM ${table} WHERE zoom_level = ?`, [level.zoom_level]);
+  for (const tile of tiles) {
+    try {
+      const image = await createImageBitmap(new Blob([tile.tile_data as BlobPart]));
+      ctx.drawImage(
+        image,
+        (Number(tile.tile_column) - level.min_col) * level.tile_width,
+        (Number(tile.tile_row) - level.min_row) * level.tile_height
+      );
+      image.close();
+      drawn++;
+    } catch {
+      // Tile formats the browser cannot decode (e.g. WebP in older browsers) are left blank
+    }
+  }
+  if (drawn === 0) {
+    console.warn(`⚠️ No tiles of ${tableName} could be decoded`);
+    return null;
+  }
+
+  // Tile (0, 0) is the top-left of the matrix set extent
+  const tileSpanX = level.tile_width * level.pixel_x_size;
+  const tileSpanY = level.tile_height * level.pixel_y_size;
+  const minX = Number(matrixSet.min_x) + level.min_col * tileSpanX;
+  const maxY = Number(matrixSet.max_y) - level.min_row * tileSpanY;
+  const [west, north] = transform(minX, maxY);
+  const [east, south] = transform(minX + width * level.pixel_x_size, maxY - height * level.pixel_y_size);
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const totalPixels = width * height;
+  const bands = [0, 1, 2].map(channel => {
+    const band = new Uint8ClampedArray(totalPixels);
+    for (let i = 0; i < totalPixels; i++) band[i] = pixels[i * 4 + channel];
+    return band;
+  });
+
+  console.log(`🧱 GeoPackage tiles ${tableName}: zoom ${level.zoom_level}, ${drawn} tiles, ${width}x${height}px`);
+
+  return {
+    type: 'raster',
+    imageUrl: await rasterContextToDataURL(ctx),
+    bounds: [[west, south], [east, north]],
+    width,
+    height,
+    bands,
+    numBands: 3,
+  };
+}
+
+/**
+ * Read every feature table and tile table listed in gpkg_contents, reporting features read
+ */
+export async function readGeoPackage(buffer: ArrayBuffer, onProgress?: ProgressCallback): Promise<GeoPackageTable[]> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(new Uint8Array(buffer));
+
+  try {
+    let contents: Record<string, SqlValue>[];
+    try {
+      contents = queryRows(db, 'SELECT table_name, data_type, identifier FROM gpkg_contents ORDER BY table_name');
+    } catch {
+      throw new Error('File is not a GeoPackage (no gpkg_contents table)');
+    }
+
+    const tables: GeoPackageTable[] = [];
+    let featuresParsed = 0;
+    for (const entry of contents) {
+      const tableName = String(entry.table_name);
+      const name = entry.identifier ? String(entry.identifier) : tableName;
+
+      if (entry.data_type === 'features') {
+        const data = readFeatureTable(db, tableName);
+        if (data) {
+          tables.push({ name, type: 'features', data });
+          featuresParsed += data.features.length;
+          onProgress?.({ featuresParsed });
+        }
+      } else if (entry.data_type === 'tiles') {
+        const data = await readTileTable(db, tableName);
+        if (data) tables.push({ name, type: 'tiles', data });
+      }
+    }
+    return tables;
+  } finally {
+    db.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+export interface GeoPackageLayerInput {
+  name: string;
+  features: GeoJSON.Feature[];
+}
+
+const SCHEMA = `
+  CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL,
+    srs_id INTEGER PRIMARY KEY,
+    organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL,
+    definition TEXT NOT NULL,
+    description TEXT
+  );
+  CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY,
+    data_type TEXT NOT NULL,
+    identifier TEXT UNIQUE,
+    description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE,
+    min_y DOUBLE,
+    max_x DOUBLE,
+    max_y DOUBLE,
+    srs_id INTEGER,
+    CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+  );
+  CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL,
+    column_name TEXT NOT NULL,
+    geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL,
+    z TINYINT NOT NULL,
+    m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+    CONSTRAINT uk_gc_table_name UNIQUE (table_name),
+    CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+  );
+`;
+
+// Names unique ignoring case, as SQLite compares identifiers
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let i = 1; used.has(name.toLowerCase()); i++) {
+    name = `${base}_${i}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function columnType(values: unknown[]): string {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) return 'TEXT';
+  if (present.every(value => typeof value === 'boolean')) return 'BOOLEAN';
+  if (present.every(value => Number.isInteger(value))) return 'INTEGER';
+  if (present.every(value => typeof value === 'number')) return 'DOUBLE';
+  return 'TEXT';
+}
+
+function sqlValue(value: unknown): SqlValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function geometryTypeName(features: GeoJSON.Feature[]): string {
+  const types = new Set(features.filter(f => f.geometry).map(f => f.geometry.type));
+  return types.size === 1 ? Array.from(types)[0].toUpperCase() : 'GEOMETRY';
+}
+
+interface FeatureTableInput {
+  tableName: string;
+  identifier: string;
+  features: GeoJSON.Feature[];
+}
+
+function writeFeatureTable(db: Database, layer: FeatureTableInput) {
+  const { tableName, features } = layer;
+  const usedColumns = new Set(['fid', 'geom']);
+  const properties = Array.from(new Set(features.flatMap(f => Object.keys(f.properties ?? {}))));
+  const columns = properties.map(property => ({
+    property,
+    name: uniqueName(property, usedColumns),
+    type: columnType(features.map(f => f.properties?.[property])),
+  }));
+  const geometryType = geometryTypeName(features);
+
+  db.run(`CREATE TABLE ${quoteIdentifier(tableName)} (
+    fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+    geom ${geometryType}${columns.map(c => `,\n    ${quoteIdentifier(c.name)} ${c.type}`).join('')}
+  )`);
+
+  const envelope: Envelope = [Infinity, Infinity, -Infinity, -Infinity];
+  const insert = db.prepare(
+    `INSERT INTO ${quoteIdentifier(tableName)} (geom${columns.map(c => `, ${quoteIdentifier(c.name)}`).join('')}) ` +
+    `VALUES (?${', ?'.repeat(columns.length)})`
+  );
+  try {
+    features.forEach(feature => {
+      if (feature.geometry) geometryEnvelope(feature.geometry, envelope);
+      insert.run([
+        feature.geometry ? encodeGeoPackageGeometry(feature.geometry) : null,
+        ...columns.map(c => sqlValue(feature.properties?.[c.property])),
+      ]);
+    });
+  } finally {
+    insert.free();
+  }
+
+  const bounds = Number.isFinite(envelope[0]) ? envelope : [null, null, null, null];
+  db.run(
+    'INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, \'features\', ?, ?, ?, ?, ?, 4326)',
+    [tableName, layer.identifier, ...bounds]
+  );
+  db.run(
+    'INSERT INTO gpkg_geometry_columns (table_name, column_name, geometry_type_name, srs_id, z, m) VALUES (?, \'geom\', ?, 4326, 0, 0)',
+    [tableName, geometryType]
+  );
+}
+
+/**
+ * Write vector layers (WGS84) into a new GeoPackage, one feature table per layer
+ */
+export async function writeGeoPackage(layers: GeoPackageLayerInput[]): Promise<Uint8Array> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(`PRAGMA application_id = ${GPKG_APPLICATION_ID}`);
+    db.run(`PRAGMA user_version = ${GPKG_USER_VERSION}`);
+    db.run(SCHEMA);
+    db.run(
+      'INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)',
+      [
+        'Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system',
+        'Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system',
+        'WGS 84 geodetic', 4326, 'EPSG', 4326, WGS84_WKT, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid',
+      ]
+    );
+
+    const usedTables = new Set<string>();
+    const usedIdentifiers = new Set<string>();
+    db.run('BEGIN');
+    layers.forEach(layer => {
+      // Table names are kept to plain identifiers; the original name is the gpkg_contents identifier
+      const base = layer.name.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^(?=[^A-Za-z])/, 't_').slice(0, 60);
+      writeFeatureTable(db, {
+        tableName: uniqueName(base.toLowerCase(), usedTables),
+        identifier: uniqueName(layer.name, usedIdentifiers),
+        features: layer.features,
+      });
+    });
+    db.run('COMMIT');
+
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,197 @@
+import * as turf from '@turf/turf';
+
+/**
+ * Measurements and playback interpolation for GPS tracks imported from GPX
+ */
+
+export interface TrackPoint {
+  position: [number, number];
+  elevation: number | null;
+  // Epoch milliseconds, null when the unit did not record a timestamp
+  time: number | null;
+  // Metres walked from the start of the track
+  distance: number;
+}
+
+export interface TrackStats {
+  distance: number;              // metres
+  duration: number | null;       // seconds
+  startTime: string | null;
+  endTime: string | null;
+  averageSpeed: number | null;   // m/s
+  maxSpeed: number | null;       // m/s
+  elevationGain: number | null;  // metres
+  pointCount: number;
+}
+
+export interface TrackSample {
+  position: [number, number];
+  // Route from the start up to the current position
+  walked: [number, number][];
+  // Recorded time at this position (epoch ms), when the track has timestamps
+  time: number | null;
+}
+
+// Playback pace for tracks without timestamps (a steady walk along the canal bank)
+export const WALKING_SPEED = 1.4;
+
+// Speeds from points closer together than this are GPS noise
+const MIN_SPEED_INTERVAL = 5;
+
+const isTrackGeometry = (geometry: GeoJSON.Geometry | null): geometry is GeoJSON.LineString | GeoJSON.MultiLineString =>
+  geometry?.type === 'LineString' || geometry?.type === 'MultiLineString';
+
+/**
+ * Features of a layer that can be measured and played back
+ */
+export function getTrackFeatures(data: GeoJSON.FeatureCollection): GeoJSON.Feature[] {
+  return data.features.filter(feature => isTrackGeometry(feature.geometry));
+}
+
+/**
+ * Flatten a track (all of its segments) into points with cumulative distance. Per-vertex
+ * timestamps come from properties.coordinateProperties.times, as written by the GPX parser.
+ */
+export function getTrackPoints(feature: GeoJSON.Feature): TrackPoint[] {
+  if (!isTrackGeometry(feature.geometry)) return [];
+
+  const segments = feature.geometry.type === 'LineString' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+  const rawTimes = feature.properties?.coordinateProperties?.times as string[] | string[][] | undefined;
+  const segmentTimes: (string[] | undefined)[] = feature.geometry.type === 'LineString'
+    ? [rawTimes as string[] | undefined]
+    : (rawTimes as string[][] | undefined) ?? [];
+
+  const points: TrackPoint[] = [];
+  let distance = 0;
+  segments.forEach((segment, segmentIndex) => {
+    // Timestamps only line up with the vertices when every point has one
+    const times = segmentTimes[segmentIndex]?.length === segment.length ? segmentTimes[segmentIndex] : undefined;
+    segment.forEach((coordinate, index) => {
+      const position: [number, number] = [coordinate[0], coordinate[1]];
+      // Gaps between segments (lost signal) are not counted as walked
+      if (index > 0) {
+        distance += turf.distance(points[points.length - 1].position, position, { units: 'meters' });
+      }
+      const time = times ? Date.parse(times[index]) : NaN;
+      points.push({
+        position,
+        elevation: coordinate.length > 2 ? coordinate[2] : null,
+        time: Number.isNaN(time) ? null : time,
+        distance,
+      });
+    });
+  });
+  return points;
+}
+
+/**
+ * Distance, duration, speeds and climb of a track
+ */
+export function getTrackStats(points: TrackPoint[]): TrackStats {
+  const timed = points.filter(point => point.time !== null);
+  const hasTimes = timed.length >= 2;
+  const distance = points.length > 0 ? points[points.length - 1].distance : 0;
+  const duration = hasTimes ? (timed[timed.length - 1].time! - timed[0].time!) / 1000 : null;
+
+  let maxSpeed: number | null = null;
+  if (hasTimes) {
+    let anchor = timed[0];
+    for (const point of timed.slice(1)) {
+      const seconds = (point.time! - anchor.time!) / 1000;
+      if (seconds < MIN_SPEED_INTERVAL) continue;
+      maxSpeed = Math.max(maxSpeed ?? 0, (point.distance - anchor.distance) / seconds);
+      anchor = point;
+    }
+  }
+
+  const elevations = points.map(point => point.elevation).filter((value): value is number => value !== null);
+  const elevationGain = elevations.length >= 2
+    ? elevations.slice(1).reduce((gain, value, i) => gain + Math.max(0, value - elevations[i]), 0)
+    : null;
+
+  return {
+    distance,
+    duration,
+    startTime: hasTimes ? new Date(timed[0].time!).toISOString() : null,
+    endTime: hasTimes ? new Date(timed[timed.length - 1].time!).toISOString() : null,
+    averageSpeed: duration ? distance / duration : null,
+    maxSpeed,
+    elevationGain,
+    pointCount: points.length,
+  };
+}
+
+/**
+ * Playback clock for each point, in seconds from the start: recorded time when every point
+ * has a timestamp, otherwise the distance at walking pace
+ */
+export function getTrackTimeline(points: TrackPoint[]): number[] {
+  const timed = points.length > 1 && points.every(point => point.time !== null);
+  let previous = 0;
+  return points.map(point => {
+    const seconds = timed ? (point.time! - points[0].time!) / 1000 : point.distance / WALKING_SPEED;
+    // Clocks on handheld units occasionally step back; never let playback run backwards
+    previous = Math.max(previous, seconds);
+    return previous;
+  });
+}
+
+/**
+ * Position on the track at the given playback time
+ */
+export function sampleTrack(points: TrackPoint[], timeline: number[], seconds: number): TrackSample | null {
+  if (points.length === 0) return null;
+
+  // Last point at or before the requested time
+  let low = 0;
+  let high = timeline.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (timeline[mid] <= seconds) low = mid;
+    else high = mid - 1;
+  }
+
+  const current = points[low];
+  const next = points[low + 1];
+  let position = current.position;
+  let time = current.time;
+  if (next && timeline[low + 1] > timeline[low] && seconds > timeline[low]) {
+    const t = Math.min(1, (seconds - timeline[low]) / (timeline[low + 1] - timeline[low]));
+    position = [
+      current.position[0] + (next.position[0] - current.position[0]) * t,
+      current.position[1] + (next.position[1] - current.position[1]) * t,
+    ];
+    time = current.time !== null && next.time !== null ? current.time + (next.time - current.time) * t : null;
+  }
+
+  return {
+    position,
+    walked: [...points.slice(0, low + 1).map(point => point.position), position],
+    time,
+  };
+}
+
+/**
+ * "1.24 km" / "350 m"
+ */
+export function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${Math.round(metres)} m`;
+}
+
+/**
+ * "1h 05m" / "12m 30s"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m ${String(s).padStart(2, '0')}s`;
+}
+
+/**
+ * Metres per second as km/h
+ */
+export function formatSpeed(metresPerSecond: number): string {
+  return `${(metresPerSecond * 3.6).toFixed(1)} km/h`;
+}
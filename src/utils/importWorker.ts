@@ -0,0 +1,105 @@
+import type { ImportedLayer, ParseOptions } from './fileImport';
+import type { ParseProgress, ProgressCallback } from './fileReading';
+import type { SpreadsheetTable } from './spreadsheetImport';
+
+/**
+ * Main-thread side of the import worker. Files are parsed off the main thread so a 200 MB
+ * GeoTIFF does not freeze the map; one job runs at a time.
+ */
+
+// Options that can be posted to the worker; progress comes back as messages instead
+export type WorkerParseOptions = Omit<ParseOptions, 'onProgress'>;
+
+export type ImportJob =
+  | { kind: 'layers'; file: File; options: WorkerParseOptions }
+  | { kind: 'spreadsheet'; file: File };
+
+export type ImportWorkerRequest = ImportJob & { id: number };
+
+export type ImportWorkerResponse =
+  | { id: number; type: 'progress'; progress: ParseProgress }
+  | { id: number; type: 'layers'; layers: ImportedLayer[] }
+  | { id: number; type: 'spreadsheet'; table: SpreadsheetTable }
+  | { id: number; type: 'error'; message: string };
+
+export const IMPORT_CANCELLED = 'Import cancelled';
+
+export interface ImportWorker {
+  parseLayers(file: File, options: WorkerParseOptions, onProgress?: ProgressCallback): Promise<ImportedLayer[]>;
+  // Table of a CSV/Excel file for the coordinate column dialog
+  readSpreadsheet(file: File, onProgress?: ProgressCallback): Promise<SpreadsheetTable>;
+  // Stop the running job; its promise rejects with IMPORT_CANCELLED
+  cancel(): void;
+  destroy(): void;
+}
+
+interface RunningJob {
+  id: number;
+  resolve: (result: ImportedLayer[] | SpreadsheetTable) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Start an import worker. Cancelling terminates the worker (a long parse cannot be interrupted
+ * any other way); a fresh one is started for the next job.
+ */
+export function createImportWorker(): ImportWorker {
+  let worker: Worker | null = null;
+  let running: RunningJob | null = null;
+  let nextId = 1;
+
+  const stop = (error: Error) => {
+    worker?.terminate();
+    worker = null;
+    const job = running;
+    running = null;
+    job?.reject(error);
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('../workers/fileImport.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const response = event.data;
+      if (!running || response.id !== running.id) return;
+
+      if (response.type === 'progress') {
+        running.onProgress?.(response.progress);
+        return;
+      }
+
+      const job = running;
+      running = null;
+      if (response.type === 'error') job.reject(new Error(response.message));
+      else job.resolve(response.type === 'layers' ? response.layers : response.table);
+    };
+    // Errors outside a job's try/catch, e.g. the worker script failing to load
+    worker.onerror = (event) => {
+      console.error('❌ Import worker error:', event.message);
+      stop(new Error(event.message || 'Import worker failed'));
+    };
+    return worker;
+  };
+
+  const run = <T extends ImportedLayer[] | SpreadsheetTable>(job: ImportJob, onProgress?: ProgressCallback) =>
+    new Promise<T>((resolve, reject) => {
+      if (running) {
+        reject(new Error('Another import is still running'));
+        return;
+      }
+      const id = nextId++;
+      running = { id, resolve: resolve as RunningJob['resolve'], reject, onProgress };
+      getWorker().postMessage({ ...job, id } satisfies ImportWorkerRequest);
+    });
+
+  return {
+    parseLayers: (file, options, onProgress) => run<ImportedLayer[]>({ kind: 'layers', file, options }, onProgress),
+    readSpreadsheet: (file, onProgress) => run<SpreadsheetTable>({ kind: 'spreadsheet', file }, onProgress),
+    cancel: () => {
+      if (running) stop(new Error(IMPORT_CANCELLED));
+    },
+    destroy: () => stop(new Error(IMPORT_CANCELLED)),
+  };
+}
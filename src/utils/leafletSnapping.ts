@@ -0,0 +1,134 @@
+import L from 'leaflet';
+import 'leaflet-draw';
+import type { LngLat, SnapProjector, SnapResult } from './snapping';
+
+export type SnapFunction = (lngLat: LngLat, projector: SnapProjector, ignore?: object | null) => SnapResult | null;
+
+interface LeafletSnapper {
+  snap: SnapFunction;
+  indicator: L.CircleMarker;
+}
+
+// Maps with snapping turned on; the patched leaflet-draw handlers look their map up here
+const snappers = new WeakMap<L.Map, LeafletSnapper>();
+// Source feature to leave out while a layer is edited (its own old outline)
+const ignoredSources = new WeakMap<L.Layer, object>();
+
+export function leafletProjector(map: L.Map): SnapProjector {
+  return {
+    project: ([lng, lat]) => {
+      const point = map.latLngToContainerPoint([lat, lng]);
+      return [point.x, point.y];
+    },
+    unproject: ([x, y]) => {
+      const latlng = map.containerPointToLatLng([x, y]);
+      return [latlng.lng, latlng.lat];
+    },
+  };
+}
+
+function snapLatLng(map: L.Map, latlng: L.LatLng, layer?: L.Layer): L.LatLng | null {
+  const snapper = snappers.get(map);
+  if (!snapper) return null;
+
+  const result = snapper.snap([latlng.lng, latlng.lat], leafletProjector(map), layer ? ignoredSources.get(layer) : null);
+  if (!result) {
+    snapper.indicator.remove();
+    return null;
+  }
+
+  const snapped = L.latLng(result.lngLat[1], result.lngLat[0]);
+  snapper.indicator
+    .setLatLng(snapped)
+    .setStyle({ fillOpacity: result.type === 'vertex' ? 1 : 0 })
+    .addTo(map);
+  return snapped;
+}
+
+// Internals of the leaflet-draw handlers that are patched below; its typings leave them out
+interface DrawPolylineInternals {
+  _map: L.Map;
+  _currentLatLng: L.LatLng;
+  _mouseMarker: L.Marker;
+  _onMouseMove(e: L.LeafletMouseEvent): void;
+  _updateGuide(newPos: L.Point): void;
+  addVertex(latlng: L.LatLng): void;
+}
+
+interface PolyVerticesEditInternals {
+  _map: L.Map;
+  _poly: L.Polyline;
+  _onMarkerDrag(e: L.LeafletEvent): void;
+}
+
+let patched = false;
+
+// leaflet-draw has no snapping hooks, so the polyline/polygon draw handler and the vertex
+// editor are patched once; without a registered snapper they behave exactly as before
+function patchLeafletDraw() {
+  if (patched) return;
+  patched = true;
+
+  const polyline = L.Draw.Polyline.prototype as unknown as DrawPolylineInternals;
+  const onMouseMove = polyline._onMouseMove;
+  polyline._onMouseMove = function (this: DrawPolylineInternals, e: L.LeafletMouseEvent) {
+    onMouseMove.call(this, e);
+    const snapped = snapLatLng(this._map, this._currentLatLng);
+    if (snapped) {
+      this._currentLatLng = snapped;
+      this._mouseMarker.setLatLng(snapped);
+      this._updateGuide(this._map.latLngToLayerPoint(snapped));
+    }
+  };
+
+  const addVertex = polyline.addVertex;
+  polyline.addVertex = function (this: DrawPolylineInternals, latlng: L.LatLng) {
+    return addVertex.call(this, snapLatLng(this._map, latlng) ?? latlng);
+  };
+
+  const vertices = L.Edit.PolyVerticesEdit.prototype as unknown as PolyVerticesEditInternals;
+  const onMarkerDrag = vertices._onMarkerDrag;
+  vertices._onMarkerDrag = function (this: PolyVerticesEditInternals, e: L.LeafletEvent) {
+    const marker = e.target as L.Marker;
+    const snapped = snapLatLng(this._map, marker.getLatLng(), this._poly);
+    if (snapped) marker.setLatLng(snapped);
+    onMarkerDrag.call(this, e);
+  };
+}
+
+/**
+ * Snap leaflet-draw drawing and vertex editing on this map. Returns the cleanup function.
+ */
+export function enableLeafletSnapping(map: L.Map, snap: SnapFunction): () => void {
+  patchLeafletDraw();
+
+  const indicator = L.circleMarker([0, 0], {
+    radius: 7,
+    color: '#c026d3',
+    weight: 3,
+    fillColor: '#c026d3',
+    fillOpacity: 1,
+    interactive: false,
+  });
+  snappers.set(map, { snap, indicator });
+
+  const hideIndicator = () => indicator.remove();
+  map.on(L.Draw.Event.DRAWSTOP, hideIndicator);
+  map.on(L.Draw.Event.EDITVERTEX, hideIndicator);
+  map.on(L.Draw.Event.EDITSTOP, hideIndicator);
+
+  return () => {
+    hideIndicator();
+    map.off(L.Draw.Event.DRAWSTOP, hideIndicator);
+    map.off(L.Draw.Event.EDITVERTEX, hideIndicator);
+    map.off(L.Draw.Event.EDITSTOP, hideIndicator);
+    snappers.delete(map);
+  };
+}
+
+/**
+ * Leave the feature a layer was made from out of snapping while that layer is edited
+ */
+export function ignoreSnapSource(layer: L.Layer, source: object) {
+  ignoredSources.set(layer, source);
+}
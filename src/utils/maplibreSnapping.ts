@@ -0,0 +1,51 @@
+import type maplibregl from 'maplibre-gl';
+import type { SnapProjector, SnapResult } from './snapping';
+
+const INDICATOR_SOURCE = 'snap-indicator';
+
+export function maplibreProjector(map: maplibregl.Map): SnapProjector {
+  return {
+    project: (lngLat) => {
+      const point = map.project(lngLat);
+      return [point.x, point.y];
+    },
+    unproject: (point) => {
+      const lngLat = map.unproject(point);
+      return [lngLat.lng, lngLat.lat];
+    },
+  };
+}
+
+/**
+ * Show the snap target (filled circle for a vertex, ring for an edge), or hide it with null
+ */
+export function updateSnapIndicator(map: maplibregl.Map, result: SnapResult | null) {
+  const data: GeoJSON.FeatureCollection = {
+    type: 'FeatureCollection',
+    features: result
+      ? [{ type: 'Feature', geometry: { type: 'Point', coordinates: result.lngLat }, properties: { type: result.type } }]
+      : [],
+  };
+
+  const source = map.getSource(INDICATOR_SOURCE) as maplibregl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  if (!result) return;
+
+  // Created on first use; a style switch drops it and it is added again here
+  map.addSource(INDICATOR_SOURCE, { type: 'geojson', data });
+  map.addLayer({
+    id: INDICATOR_SOURCE,
+    type: 'circle',
+    source: INDICATOR_SOURCE,
+    paint: {
+      'circle-radius': 7,
+      'circle-color': '#c026d3',
+      'circle-opacity': ['case', ['==', ['get', 'type'], 'vertex'], 1, 0],
+      'circle-stroke-color': '#c026d3',
+      'circle-stroke-width': 3,
+    },
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Key-value storage in IndexedDB for data the app needs without a connection, such as the
+ * last sectors loaded from the backend. Values are stored as structured clones.
+ */
+
+const DB_NAME = 'gezira-scheme-offline';
+const DB_VERSION = 1;
+const STORE = 'keyval';
+
+// Offline copy of the sectors loaded from the backend; it belongs to the session and is
+// removed on logout
+export const SECTOR_CACHE_KEY = 'sectors';
+
+// Sector edits made offline and not sent yet, kept per user so they survive a logout
+export const editQueueKey = (userId: number) => `editQueue:${userId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Stored value of a key, or null when there is none
+ */
+export async function getOfflineValue<T>(key: string): Promise<T | null> {
+  const value = await withStore('readonly', store => store.get(key) as IDBRequest<T | undefined>);
+  return value ?? null;
+}
+
+export async function setOfflineValue<T>(key: string, value: T): Promise<void> {
+  await withStore('readwrite', store => store.put(value, key));
+}
+
+export async function deleteOfflineValue(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
@@ -0,0 +1,134 @@
+import type { AreaCategory, MapLibrary, SectorDivision, SectorFeature, SectorFeatureCollection } from '../types';
+import type { MapViewport } from '../components/Maps/adapters';
+
+// Map view state that can be shared as a link, stored in the URL hash, e.g.
+// #lib=maplibre&map=12.50/14.35000/33.00000/0/45&sector=East&area=large&q=canal&nemra=42
+export interface PermalinkState {
+  mapLibrary: MapLibrary;
+  viewport: MapViewport | null;
+  selectedSector: SectorDivision | null;
+  selectedAreaCategory: AreaCategory;
+  searchQuery: string;
+  nemraId: number | null;
+}
+
+const MAP_LIBRARIES: MapLibrary[] = ['leaflet', 'maplibre', 'openlayers'];
+const DIVISIONS: SectorDivision[] = ['East', 'West', 'North', 'South'];
+const AREA_CATEGORIES: Exclude<AreaCategory, null>[] = ['small', 'medium', 'large', 'very-large'];
+
+export const defaultPermalinkState: PermalinkState = {
+  mapLibrary: 'leaflet',
+  viewport: null,
+  selectedSector: null,
+  selectedAreaCategory: null,
+  searchQuery: '',
+  nemraId: null,
+};
+
+/**
+ * Stable id of a nemra: the database id when loaded from the API, OBJECTID_1 for local files
+ */
+export function getNemraId(feature: SectorFeature): number | null {
+  const featureWithId = feature as SectorFeature & { id?: number; properties: { id?: number } };
+  return featureWithId.properties.id ?? featureWithId.id ?? feature.properties.OBJECTID_1 ?? null;
+}
+
+/**
+ * Find a nemra by the id produced by getNemraId
+ */
+export function findNemraById(
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>,
+  nemraId: number
+): SectorFeature | null {
+  for (const division of DIVISIONS) {
+    const match = sectorsData[division]?.features.find(feature => getNemraId(feature) === nemraId);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Zoom level that fits a lng/lat extent, with some margin around it
+ */
+export function zoomForBBox([minX, minY, maxX, maxY]: [number, number, number, number]): number {
+  const span = Math.max(maxX - minX, maxY - minY, 1e-5);
+  return Math.min(18, Math.max(6, Math.log2(360 / span) - 1));
+}
+
+/**
+ * North-up view that fits a nemra, for opening one from a link without a view
+ */
+export function getNemraViewport(feature: SectorFeature): MapViewport {
+  const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  const polygons = feature.geometry.type === 'Polygon'
+    ? [feature.geometry.coordinates as number[][][]]
+    : feature.geometry.coordinates as number[][][][];
+  polygons.forEach(rings => rings[0]?.forEach(([lng, lat]) => {
+    bbox[0] = Math.min(bbox[0], lng);
+    bbox[1] = Math.min(bbox[1], lat);
+    bbox[2] = Math.max(bbox[2], lng);
+    bbox[3] = Math.max(bbox[3], lat);
+  }));
+  return {
+    center: [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2],
+    zoom: zoomForBBox(bbox),
+    bearing: 0,
+    pitch: 0,
+  };
+}
+
+function parseViewport(value: string | null): MapViewport | null {
+  if (!value) return null;
+  const [zoom, lat, lng, bearing = 0, pitch = 0] = value.split('/').map(Number);
+  if (![zoom, lat, lng, bearing, pitch].every(Number.isFinite)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { center: [lng, lat], zoom, bearing, pitch };
+}
+
+function formatViewport({ center: [lng, lat], zoom, bearing, pitch }: MapViewport): string {
+  return [
+    zoom.toFixed(2),
+    lat.toFixed(5),
+    lng.toFixed(5),
+    Math.round(bearing),
+    Math.round(pitch),
+  ].join('/');
+}
+
+/**
+ * Read map state from a URL hash. Unknown or malformed values fall back to the defaults.
+ */
+export function parsePermalink(hash: string): PermalinkState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const lib = params.get('lib') as MapLibrary | null;
+  const sector = params.get('sector') as SectorDivision | null;
+  const area = params.get('area') as AreaCategory;
+  const nemra = Number(params.get('nemra'));
+
+  return {
+    mapLibrary: lib && MAP_LIBRARIES.includes(lib) ? lib : defaultPermalinkState.mapLibrary,
+    viewport: parseViewport(params.get('map')),
+    selectedSector: sector && DIVISIONS.includes(sector) ? sector : null,
+    selectedAreaCategory: area && AREA_CATEGORIES.includes(area) ? area : null,
+    searchQuery: params.get('q') ?? '',
+    nemraId: params.has('nemra') && Number.isFinite(nemra) ? nemra : null,
+  };
+}
+
+/**
+ * Build the URL hash for a map state. Default values are left out to keep links short.
+ */
+export function buildPermalink(state: PermalinkState): string {
+  const params = new URLSearchParams();
+
+  params.set('lib', state.mapLibrary);
+  if (state.viewport) params.set('map', formatViewport(state.viewport));
+  if (state.selectedSector) params.set('sector', state.selectedSector);
+  if (state.selectedAreaCategory) params.set('area', state.selectedAreaCategory);
+  if (state.searchQuery) params.set('q', state.searchQuery);
+  if (state.nemraId !== null) params.set('nemra', String(state.nemraId));
+
+  // Slashes are valid in a fragment and keep the map=zoom/lat/lng part readable
+  return `#${params.toString().replace(/%2F/g, '/')}`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Canvas for rendering raster imports: an OffscreenCanvas inside the import worker, a DOM canvas
+ * on the main thread
+ */
+
+export type RasterContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function createRasterContext(width: number, height: number): RasterContext {
+  const ctx = typeof document === 'undefined'
+    ? new OffscreenCanvas(width, height).getContext('2d')
+    : Object.assign(document.createElement('canvas'), { width, height }).getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to create canvas context');
+  }
+  return ctx;
+}
+
+/**
+ * Read a blob as a data URL. Unlike object URLs, data URLs made in the worker stay valid after
+ * the worker is terminated.
+ */
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * PNG data URL of the canvas behind a raster context
+ */
+export async function rasterContextToDataURL(ctx: RasterContext): Promise<string> {
+  const canvas = ctx.canvas;
+  if ('toDataURL' in canvas) {
+    return canvas.toDataURL('image/png');
+  }
+  return blobToDataURL(await canvas.convertToBlob({ type: 'image/png' }));
+}
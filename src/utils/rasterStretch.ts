@@ -0,0 +1,191 @@
+import type { ImportedLayer, RasterData } from './fileImport';
+
+/**
+ * Contrast stretches for raster display: band values are mapped to 0-255 over a range taken
+ * from the band's histogram, ignoring nodata, so outliers do not wash out the image
+ */
+
+export type StretchMode = 'minmax' | 'percentile' | 'stddev';
+
+export interface RasterStretch {
+  mode: StretchMode;
+  // Share of pixels clipped at each end in percentile mode
+  percentile: number;
+  // Half-width of the range around the mean in stddev mode
+  stdDevs: number;
+}
+
+export const defaultStretch: RasterStretch = { mode: 'percentile', percentile: 2, stdDevs: 2 };
+
+export const STRETCH_MODES: { mode: StretchMode; label: string }[] = [
+  { mode: 'minmax', label: 'Min–max' },
+  { mode: 'percentile', label: 'Percentile clip' },
+  { mode: 'stddev', label: 'Std dev' },
+];
+
+export const HISTOGRAM_BINS = 256;
+
+// Valid pixels sorted for percentiles; larger bands are sampled evenly
+const PERCENTILE_SAMPLE_SIZE = 100000;
+
+// Share of pixels at each end left out of the histogram's axis, so outliers do not squash it
+const HISTOGRAM_TAIL = 0.001;
+
+export interface BandHistogram {
+  min: number;
+  max: number;
+  // Value range the bins cover; values beyond it are counted in the end bins
+  binMin: number;
+  binMax: number;
+  counts: Uint32Array;
+  // Valid (not nodata) pixels
+  total: number;
+  mean: number;
+  stdDev: number;
+  sample: Float64Array;
+}
+
+const histograms = new WeakMap<ArrayLike<number>, BandHistogram>();
+
+/**
+ * True for pixels without data: NaN, infinities and the file's nodata value. Float32 bands
+ * store the nodata value rounded, so that is matched as well.
+ */
+export function isNoData(value: number, noData: number | null | undefined): boolean {
+  if (!Number.isFinite(value)) return true;
+  return noData != null && (value === noData || value === Math.fround(noData));
+}
+
+// Value below which the given share of the sorted sample falls, interpolated between neighbours
+function sampleQuantile(sample: Float64Array, share: number): number {
+  const position = share * (sample.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(sample.length - 1, below + 1);
+  return sample[below] + (sample[above] - sample[below]) * (position - below);
+}
+
+/**
+ * Histogram and summary of a band's valid pixels; cached per band array
+ */
+export function getBandHistogram(values: ArrayLike<number>, noData: number | null | undefined): BandHistogram {
+  const cached = histograms.get(values);
+  if (cached) return cached;
+
+  // Welford's running mean and variance, with the range
+  let total = 0;
+  let mean = 0;
+  let m2 = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNoData(value, noData)) continue;
+    total++;
+    const delta = value - mean;
+    mean += delta / total;
+    m2 += delta * (value - mean);
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  const counts = new Uint32Array(HISTOGRAM_BINS);
+  if (total === 0) {
+    const histogram = { min: 0, max: 0, binMin: 0, binMax: 0, counts, total, mean: 0, stdDev: 0, sample: new Float64Array(0) };
+    histograms.set(values, histogram);
+    return histogram;
+  }
+
+  const stride = Math.ceil(total / PERCENTILE_SAMPLE_SIZE);
+  const sample = new Float64Array(Math.ceil(total / stride));
+  let valid = 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNoData(value, noData)) continue;
+    if (valid % stride === 0) sample[valid / stride] = value;
+    valid++;
+  }
+  sample.sort();
+
+  let binMin = sampleQuantile(sample, HISTOGRAM_TAIL);
+  let binMax = sampleQuantile(sample, 1 - HISTOGRAM_TAIL);
+  if (!(binMax > binMin)) {
+    binMin = min;
+    binMax = max;
+  }
+  const scale = binMax > binMin ? HISTOGRAM_BINS / (binMax - binMin) : 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNoData(value, noData)) continue;
+    counts[Math.max(0, Math.min(HISTOGRAM_BINS - 1, Math.floor((value - binMin) * scale)))]++;
+  }
+
+  const histogram = { min, max, binMin, binMax, counts, total, mean, stdDev: Math.sqrt(m2 / total), sample };
+  histograms.set(values, histogram);
+  return histogram;
+}
+
+/**
+ * Range of band values a stretch maps to 0-255
+ */
+export function getStretchRange(histogram: BandHistogram, stretch: RasterStretch): [number, number] {
+  const { min, max, mean, stdDev } = histogram;
+  let range: [number, number] = [min, max];
+
+  if (stretch.mode === 'percentile') {
+    const share = Math.min(49, Math.max(0, stretch.percentile)) / 100;
+    range = [sampleQuantile(histogram.sample, share), sampleQuantile(histogram.sample, 1 - share)];
+  } else if (stretch.mode === 'stddev') {
+    range = [Math.max(min, mean - stretch.stdDevs * stdDev), Math.min(max, mean + stretch.stdDevs * stdDev)];
+  }
+
+  // A constant band, or a clip that leaves nothing between the ends
+  return range[1] > range[0] ? range : [min, max];
+}
+
+/**
+ * Values a band's statistics are taken from: the unscaled band, a COG's smallest overview,
+ * or the 8-bit band of a plain image
+ */
+export function getStretchValues(raster: RasterData, band: number): ArrayLike<number> | undefined {
+  return (raster.rawBands ?? raster.cog?.overview ?? raster.bands)?.[band];
+}
+
+/**
+ * Range a layer's band is displayed over: a fixed ramp range (e.g. from a band math preset),
+ * otherwise the layer's stretch
+ */
+export function getBandDisplayRange(layer: ImportedLayer, band: number): [number, number] {
+  if (layer.rampRange && layer.colorRamp) return layer.rampRange;
+  const raster = layer.data as RasterData;
+  const values = getStretchValues(raster, band);
+  if (!values) return [0, 255];
+  return getStretchRange(getBandHistogram(values, raster.noData), layer.stretch ?? defaultStretch);
+}
+
+/**
+ * Scale band values to 0-255 over the given range; nodata pixels become 0
+ */
+export function stretchToBytes(values: ArrayLike<number>, [low, high]: [number, number], noData: number | null | undefined): Uint8ClampedArray {
+  const bytes = new Uint8ClampedArray(values.length);
+  const scale = high > low ? 255 / (high - low) : 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    // Uint8ClampedArray rounds and clamps to 0-255; a constant band is mid gray
+    bytes[i] = isNoData(value, noData) ? 0 : scale === 0 ? 128 : (value - low) * scale;
+  }
+  return bytes;
+}
+
+/**
+ * Short description of a stretch, also used in COG tile cache keys
+ */
+export function getStretchKey(stretch: RasterStretch): string {
+  switch (stretch.mode) {
+    case 'percentile':
+      return `p${stretch.percentile}`;
+    case 'stddev':
+      return `sd${stretch.stdDevs}`;
+    default:
+      return 'minmax';
+  }
+}
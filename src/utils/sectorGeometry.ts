@@ -0,0 +1,98 @@
+import * as turf from '@turf/turf';
+import type { GeoJSONGeometry } from '../types';
+
+// 1 Feddan = 4200 m² (same conversion as the drawing tools and the backend)
+export const SQUARE_METERS_PER_FEDDAN = 4200;
+
+export interface SectorMeasurements {
+  shapeArea: number; // m²
+  shapeLength: number; // perimeter in m
+  feddan: number;
+}
+
+/**
+ * Area, perimeter and feddan of a nemra polygon, matching what the backend stores
+ * in Shape_Area, Shape_Leng and Design_A_F after a geometry edit
+ */
+export function measureSectorGeometry(geometry: GeoJSONGeometry): SectorMeasurements {
+  const feature = turf.feature(geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon);
+  const shapeArea = turf.area(feature);
+  const shapeLength = turf.length(turf.polygonToLine(feature), { units: 'meters' });
+
+  return {
+    shapeArea,
+    shapeLength,
+    feddan: shapeArea / SQUARE_METERS_PER_FEDDAN,
+  };
+}
+
+/**
+ * Self-intersection points of a polygon (empty when the geometry is simple)
+ */
+export function findSelfIntersections(geometry: GeoJSONGeometry): [number, number][] {
+  const kinks = turf.kinks(geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon);
+  return kinks.features.map(point => point.geometry.coordinates as [number, number]);
+}
+
+type PolygonFeature = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>;
+
+// Coordinates closer than this (degrees, ~1 mm) are treated as the same node
+const NODE_EPSILON = 1e-8;
+
+function snapToNodes(line: GeoJSON.Feature<GeoJSON.LineString>, nodes: GeoJSON.Position[]) {
+  const snap = (coord: GeoJSON.Position) =>
+    nodes.find(node => Math.abs(node[0] - coord[0]) < NODE_EPSILON && Math.abs(node[1] - coord[1]) < NODE_EPSILON) ?? coord;
+  const coords = line.geometry.coordinates;
+  return turf.lineString([snap(coords[0]), ...coords.slice(1, -1), snap(coords[coords.length - 1])]);
+}
+
+// Draw handler type of split cut lines, so the regular drawing tools ignore them
+export const SPLIT_LINE_TYPE = 'splitline';
+
+/**
+ * Cut a nemra polygon along a drawn line. Returns the resulting pieces (largest first),
+ * or an empty array when the line does not cut all the way across.
+ */
+export function splitPolygonByLine(geometry: GeoJSONGeometry, line: [number, number][]): GeoJSONGeometry[] {
+  const polygon = turf.feature(geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon) as PolygonFeature;
+  const rings = geometry.type === 'Polygon'
+    ? (geometry.coordinates as number[][][])
+    : (geometry.coordinates as number[][][][]).flat();
+  const cut = turf.lineString(line);
+
+  // Node the cut line and the boundary against each other, then rebuild faces from the pieces
+  const cutPieces = turf.lineSplit(cut, turf.multiLineString(rings)).features;
+  if (cutPieces.length < 2) return [];
+
+  const nodes = cutPieces.flatMap(piece => [piece.geometry.coordinates[0], piece.geometry.coordinates[piece.geometry.coordinates.length - 1]]);
+  const ringPieces = rings.flatMap((ring) => {
+    const pieces = turf.lineSplit(turf.lineString(ring), cut).features;
+    return pieces.length > 0 ? pieces.map(piece => snapToNodes(piece, nodes)) : [turf.lineString(ring)];
+  });
+
+  const faces = turf.polygonize(turf.featureCollection([...cutPieces, ...ringPieces]));
+
+  // Faces also come back for holes and for loops the line makes outside the polygon;
+  // clipping each face to the original keeps holes and drops everything outside
+  const pieces = faces.features
+    .map(face => turf.intersect(turf.featureCollection([face, polygon])))
+    .filter((piece): piece is PolygonFeature => piece !== null && turf.area(piece) > 1)
+    .sort((a, b) => turf.area(b) - turf.area(a));
+
+  return pieces.length > 1 ? pieces.map(piece => piece.geometry as GeoJSONGeometry) : [];
+}
+
+/**
+ * Union of adjacent nemra polygons, or null when they do not form one connected shape
+ */
+export function mergePolygons(geometries: GeoJSONGeometry[]): GeoJSONGeometry | null {
+  const features = geometries.map(geometry => turf.feature(geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon) as PolygonFeature);
+  const merged = turf.union(turf.featureCollection(features));
+
+  if (!merged) return null;
+  if (merged.geometry.type === 'MultiPolygon' && merged.geometry.coordinates.length > 1) return null;
+
+  return merged.geometry.type === 'MultiPolygon'
+    ? { type: 'Polygon', coordinates: merged.geometry.coordinates[0] }
+    : (merged.geometry as GeoJSONGeometry);
+}
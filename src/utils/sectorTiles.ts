@@ -0,0 +1,150 @@
+import type { MapBounds, MapViewport } from '../components/Maps/adapters';
+
+/**
+ * Viewport loading of sectors from the backend: the map is divided into web map tiles
+ * whose size depends on the zoom, and only tiles not loaded yet are requested. Zoomed out,
+ * geometry comes simplified; editing needs full detail.
+ */
+
+export interface SectorDetailLevel {
+  // Zoom of the tile grid loads are tracked on
+  tileZoom: number;
+  // Zoom the backend simplifies for; null for full detail
+  simplifyZoom: number | null;
+}
+
+// Zoom from which the backend returns geometry in full
+const FULL_DETAIL_ZOOM = 13;
+
+// Widest box the backend loads, in tiles of the requested zoom each way
+const MAX_BBOX_TILE_SPAN = 64;
+
+// Coarse tiles with simplified outlines when zoomed out, full geometry from FULL_DETAIL_ZOOM
+const DETAIL_LEVELS: { below: number; level: SectorDetailLevel }[] = [
+  { below: 10, level: { tileZoom: 7, simplifyZoom: 9 } },
+  { below: FULL_DETAIL_ZOOM, level: { tileZoom: 10, simplifyZoom: 12 } },
+  { below: Infinity, level: { tileZoom: 12, simplifyZoom: null } },
+];
+
+// Largest latitude of the web mercator tile grid
+const MAX_LATITUDE = 85.0511;
+
+export function getDetailLevel(zoom: number): SectorDetailLevel {
+  return DETAIL_LEVELS.find(({ below }) => zoom < below)!.level;
+}
+
+/**
+ * Zoom to ask the backend for at a detail level
+ */
+export function getRequestZoom(level: SectorDetailLevel): number {
+  return level.simplifyZoom ?? FULL_DETAIL_ZOOM;
+}
+
+/**
+ * True when the backend loads a [west, south, east, north] box at the zoom; wider boxes
+ * are refused until the map is zoomed in
+ */
+export function bboxWithinSpan([west, south, east, north]: [number, number, number, number], zoom: number): boolean {
+  const maxSpan = (MAX_BBOX_TILE_SPAN * 360) / 2 ** zoom;
+  return east - west <= maxSpan && north - south <= maxSpan;
+}
+
+/**
+ * Ranking of detail levels: a feature is only replaced by one at least as detailed
+ */
+export function getDetailRank(level: SectorDetailLevel): number {
+  return level.simplifyZoom ?? Infinity;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor(((clamp(lng, -180, 180) + 180) / 360) * 2 ** zoom);
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const rad = (clamp(lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+function tileXToLng(x: number, zoom: number): number {
+  return (x / 2 ** zoom) * 360 - 180;
+}
+
+function tileYToLat(y: number, zoom: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** zoom;
+  return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+}
+
+export interface TileRange {
+  zoom: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Tiles of the given zoom covering the bounds
+ */
+export function getTileRange([[west, south], [east, north]]: MapBounds, zoom: number): TileRange {
+  const last = 2 ** zoom - 1;
+  return {
+    zoom,
+    minX: clamp(lngToTileX(west, zoom), 0, last),
+    maxX: clamp(lngToTileX(east, zoom), 0, last),
+    minY: clamp(latToTileY(north, zoom), 0, last),
+    maxY: clamp(latToTileY(south, zoom), 0, last),
+  };
+}
+
+export function getTileKeys({ zoom, minX, maxX, minY, maxY }: TileRange): string[] {
+  const keys: string[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      keys.push(`${zoom}/${x}/${y}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Smallest tile range containing all the given tile keys (all on one zoom)
+ */
+export function getKeysRange(keys: string[]): TileRange {
+  const tiles = keys.map(key => key.split('/').map(Number));
+  return {
+    zoom: tiles[0][0],
+    minX: Math.min(...tiles.map(([, x]) => x)),
+    maxX: Math.max(...tiles.map(([, x]) => x)),
+    minY: Math.min(...tiles.map(([, , y]) => y)),
+    maxY: Math.max(...tiles.map(([, , y]) => y)),
+  };
+}
+
+/**
+ * [west, south, east, north] in degrees of a tile range
+ */
+export function getTileRangeBBox({ zoom, minX, maxX, minY, maxY }: TileRange): [number, number, number, number] {
+  return [tileXToLng(minX, zoom), tileYToLat(maxY + 1, zoom), tileXToLng(maxX + 1, zoom), tileYToLat(minY, zoom)];
+}
+
+/**
+ * Bounds of a viewport; viewports parsed from a link carry none, so they are estimated
+ * from the window size
+ */
+export function getViewportBounds(viewport: MapViewport): MapBounds {
+  if (viewport.bounds) return viewport.bounds;
+  const [lng, lat] = viewport.center;
+  const degreesPerPixel = 360 / (256 * 2 ** viewport.zoom);
+  const halfWidth = (window.innerWidth / 2) * degreesPerPixel;
+  const halfHeight = (window.innerHeight / 2) * degreesPerPixel * Math.cos((lat * Math.PI) / 180);
+  return [[lng - halfWidth, lat - halfHeight], [lng + halfWidth, lat + halfHeight]];
+}
+
+/**
+ * True when two [west, south, east, north] boxes overlap
+ */
+export function bboxIntersects(a: [number, number, number, number], b: [number, number, number, number]): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
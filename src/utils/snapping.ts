@@ -0,0 +1,197 @@
+import type { SectorDivision, SectorFeatureCollection } from '../types';
+import type { ImportedLayer } from './fileImport';
+
+export interface SnapSettings {
+  enabled: boolean;
+  vertex: boolean;
+  edge: boolean;
+  tolerance: number; // pixels
+  sectors: boolean;
+  importedLayers: boolean;
+}
+
+export const defaultSnapSettings: SnapSettings = {
+  enabled: true,
+  vertex: true,
+  edge: true,
+  tolerance: 12,
+  sectors: true,
+  importedLayers: true,
+};
+
+export type LngLat = [number, number];
+
+/**
+ * Screen <-> map conversion of the engine doing the snapping, so tolerances are in pixels
+ */
+export interface SnapProjector {
+  project(lngLat: LngLat): [number, number];
+  unproject(point: [number, number]): LngLat;
+}
+
+export interface SnapResult {
+  lngLat: LngLat;
+  type: 'vertex' | 'edge';
+  distance: number; // pixels from the cursor
+}
+
+interface SnapSegment {
+  a: LngLat;
+  b: LngLat; // same as a for points
+  source: object; // feature the segment belongs to
+}
+
+export interface SnapIndex {
+  segments: SnapSegment[];
+  cells: Map<string, number[]>;
+}
+
+// Grid cell size of the index in degrees (~1 km)
+const CELL_SIZE = 0.01;
+const MAX_QUERY_CELLS = 400;
+
+const cellRange = (min: number, max: number) => {
+  const cells: number[] = [];
+  for (let i = Math.floor(min / CELL_SIZE); i <= Math.floor(max / CELL_SIZE); i++) cells.push(i);
+  return cells;
+};
+
+function addLine(segments: SnapSegment[], coords: GeoJSON.Position[], source: object) {
+  for (let i = 0; i < coords.length - 1; i++) {
+    segments.push({ a: [coords[i][0], coords[i][1]], b: [coords[i + 1][0], coords[i + 1][1]], source });
+  }
+}
+
+function addGeometry(segments: SnapSegment[], geometry: GeoJSON.Geometry | null, source: object) {
+  if (!geometry) return;
+
+  switch (geometry.type) {
+    case 'Point':
+      segments.push({ a: [geometry.coordinates[0], geometry.coordinates[1]], b: [geometry.coordinates[0], geometry.coordinates[1]], source });
+      break;
+    case 'MultiPoint':
+      geometry.coordinates.forEach(c => segments.push({ a: [c[0], c[1]], b: [c[0], c[1]], source }));
+      break;
+    case 'LineString':
+      addLine(segments, geometry.coordinates, source);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      geometry.coordinates.forEach(line => addLine(segments, line, source));
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach(polygon => polygon.forEach(ring => addLine(segments, ring, source)));
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach(g => addGeometry(segments, g, source));
+      break;
+  }
+}
+
+/**
+ * Grid index over the edges and vertices of the sector layers and visible imported vector layers.
+ * Only the sources matter here; tolerance and snap types apply at query time.
+ */
+export function buildSnapIndex(
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>,
+  importedLayers: ImportedLayer[],
+  settings: Pick<SnapSettings, 'sectors' | 'importedLayers'>
+): SnapIndex {
+  const segments: SnapSegment[] = [];
+
+  if (settings.sectors) {
+    Object.values(sectorsData).forEach(data => {
+      data?.features.forEach(feature => addGeometry(segments, feature.geometry as GeoJSON.Geometry, feature));
+    });
+  }
+
+  if (settings.importedLayers) {
+    importedLayers
+      .filter(layer => layer.visible && layer.type !== 'raster')
+      .forEach(layer => {
+        (layer.data as GeoJSON.FeatureCollection).features.forEach(feature => addGeometry(segments, feature.geometry, feature));
+      });
+  }
+
+  const cells = new Map<string, number[]>();
+  segments.forEach((segment, index) => {
+    const xs = cellRange(Math.min(segment.a[0], segment.b[0]), Math.max(segment.a[0], segment.b[0]));
+    const ys = cellRange(Math.min(segment.a[1], segment.b[1]), Math.max(segment.a[1], segment.b[1]));
+    xs.forEach(x => ys.forEach(y => {
+      const key = `${x}:${y}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(index); else cells.set(key, [index]);
+    }));
+  });
+
+  return { segments, cells };
+}
+
+const pixelDistance = (p: [number, number], q: [number, number]) => Math.hypot(p[0] - q[0], p[1] - q[1]);
+
+/**
+ * Nearest vertex (preferred) or edge within the pixel tolerance of a cursor position.
+ * `ignore` skips the segments of one feature, e.g. the polygon being edited.
+ */
+export function snapPoint(
+  index: SnapIndex,
+  lngLat: LngLat,
+  projector: SnapProjector,
+  settings: SnapSettings,
+  ignore?: object | null
+): SnapResult | null {
+  if (!settings.enabled || (!settings.vertex && !settings.edge)) return null;
+
+  const cursor = projector.project(lngLat);
+  const tolerance = settings.tolerance;
+  const corner1 = projector.unproject([cursor[0] - tolerance, cursor[1] - tolerance]);
+  const corner2 = projector.unproject([cursor[0] + tolerance, cursor[1] + tolerance]);
+
+  // Candidate segments from the grid cells the tolerance box touches
+  const xs = cellRange(Math.min(corner1[0], corner2[0]), Math.max(corner1[0], corner2[0]));
+  const ys = cellRange(Math.min(corner1[1], corner2[1]), Math.max(corner1[1], corner2[1]));
+  // Zoomed out this far a pixel tolerance covers whole canals; snapping would only get in the way
+  if (xs.length * ys.length > MAX_QUERY_CELLS) return null;
+
+  const candidates = new Set<number>();
+  xs.forEach(x => ys.forEach(y => {
+    index.cells.get(`${x}:${y}`)?.forEach(i => candidates.add(i));
+  }));
+
+  let vertex: SnapResult | null = null;
+  let edge: SnapResult | null = null;
+
+  for (const i of candidates) {
+    const segment = index.segments[i];
+    if (ignore && segment.source === ignore) continue;
+
+    const a = projector.project(segment.a);
+    const b = projector.project(segment.b);
+
+    if (settings.vertex) {
+      for (const [vertexLngLat, point] of [[segment.a, a], [segment.b, b]] as [LngLat, [number, number]][]) {
+        const distance = pixelDistance(cursor, point);
+        if (distance <= tolerance && (!vertex || distance < vertex.distance)) {
+          vertex = { lngLat: vertexLngLat, type: 'vertex', distance };
+        }
+      }
+    }
+
+    if (settings.edge && (a[0] !== b[0] || a[1] !== b[1])) {
+      const dx = b[0] - a[0];
+      const dy = b[1] - a[1];
+      const t = Math.max(0, Math.min(1, ((cursor[0] - a[0]) * dx + (cursor[1] - a[1]) * dy) / (dx * dx + dy * dy)));
+      const distance = pixelDistance(cursor, [a[0] + t * dx, a[1] + t * dy]);
+      if (distance <= tolerance && (!edge || distance < edge.distance)) {
+        // Interpolate in lng/lat so the point lies exactly on the stored edge
+        edge = {
+          lngLat: [segment.a[0] + t * (segment.b[0] - segment.a[0]), segment.a[1] + t * (segment.b[1] - segment.a[1])],
+          type: 'edge',
+          distance,
+        };
+      }
+    }
+  }
+
+  return vertex ?? edge;
+}
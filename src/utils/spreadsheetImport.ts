@@ -0,0 +1,361 @@
+import JSZip from 'jszip';
+import { getTransformToWGS84, guessCRSFromCoordinates } from './crs';
+import { readFileBuffer, readFileText, type ProgressCallback } from './fileReading';
+import { parseXML } from './xml';
+
+export type CellValue = string | number | boolean | null;
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: CellValue[][];
+}
+
+/**
+ * Which columns hold the point coordinates, and in which CRS
+ */
+export interface PointMapping {
+  xColumn: string;
+  yColumn: string;
+  crs: string;
+}
+
+const SPREADSHEET_EXTENSIONS = ['csv', 'xlsx'];
+
+export function isSpreadsheetFile(file: File): boolean {
+  return SPREADSHEET_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() ?? '');
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// Text cells from CSV: numbers become numbers (codes with leading zeros stay text), empty cells null
+function textCellValue(text: string): CellValue {
+  const value = text.trim();
+  if (value === '') return null;
+  return NUMBER_PATTERN.test(value) && !/^-?0\d/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Headers from the first non-empty row (blank or repeated names get made unique), then the data rows
+ */
+function toTable(cells: CellValue[][]): SpreadsheetTable {
+  const isEmpty = (row: CellValue[] | undefined) => !row || row.every(cell => cell === null || cell === '');
+  const headerIndex = cells.findIndex(row => !isEmpty(row));
+  if (headerIndex === -1) {
+    throw new Error('The file has no rows');
+  }
+
+  const rows = cells.slice(headerIndex + 1).filter(row => !isEmpty(row));
+  const width = Math.max(cells[headerIndex].length, ...rows.map(row => row.length));
+  const used = new Set<string>();
+  const headers = Array.from({ length: width }, (_, i) => {
+    const base = String(cells[headerIndex][i] ?? '').trim() || `column_${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    return name;
+  });
+
+  return {
+    headers,
+    rows: rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? null)),
+  };
+}
+
+/**
+ * RFC 4180 CSV (quoted fields, doubled quotes, line breaks inside quotes). The delimiter is
+ * whichever of , ; tab | is most common in the first line, as Excel exports vary by locale.
+ */
+export function parseDelimitedText(text: string): SpreadsheetTable {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t', '|']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return toTable(rows.map(cells => cells.map(textCellValue)));
+}
+
+// Built-in Excel number formats that display dates and times
+const isBuiltInDateFormat = (id: number) => (id >= 14 && id <= 22) || (id >= 45 && id <= 47);
+
+// Excel day serials count from 1899-12-30
+function excelDateToISO(serial: number): string {
+  const iso = new Date(Math.round((serial - 25569) * 86400000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso;
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * First worksheet of an .xlsx workbook
+ */
+export async function parseXLSX(buffer: ArrayBuffer): Promise<SpreadsheetTable> {
+  const zip = await JSZip.loadAsync(buffer);
+  const readXML = async (path: string) => {
+    const entry = zip.file(path);
+    return entry ? parseXML(await entry.async('text'), 'Excel') : null;
+  };
+
+  const workbook = await readXML('xl/workbook.xml');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  if (!firstSheet) {
+    throw new Error('Not an Excel workbook');
+  }
+
+  const relationships = await readXML('xl/_rels/workbook.xml.rels');
+  const target = Array.from(relationships?.getElementsByTagName('Relationship') ?? [])
+    .find(rel => rel.getAttribute('Id') === firstSheet.getAttribute('r:id'))
+    ?.getAttribute('Target');
+  const sheetPath = !target ? 'xl/worksheets/sheet1.xml' : target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  const sheet = await readXML(sheetPath);
+  if (!sheet) {
+    throw new Error('Workbook has no readable worksheet');
+  }
+
+  const sharedStrings = Array.from(
+    (await readXML('xl/sharedStrings.xml'))?.getElementsByTagName('si') ?? [],
+    item => Array.from(item.getElementsByTagName('t'), t => t.textContent ?? '').join('')
+  );
+
+  // Cell styles whose number format is a date, so serials can be shown as dates
+  const styles = await readXML('xl/styles.xml');
+  const customFormats = new Map(Array.from(
+    styles?.getElementsByTagName('numFmt') ?? [],
+    format => [Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') ?? ''] as const
+  ));
+  const dateStyles = Array.from(
+    styles?.getElementsByTagName('cellXfs')[0]?.getElementsByTagName('xf') ?? [],
+    xf => {
+      const id = Number(xf.getAttribute('numFmtId'));
+      const code = (customFormats.get(id) ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+      return isBuiltInDateFormat(id) || /[dmyh]/i.test(code);
+    }
+  );
+
+  const cells: CellValue[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowElement, position) => {
+    const rowIndex = Number(rowElement.getAttribute('r') ?? position + 1) - 1;
+    const row: CellValue[] = [];
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, cellPosition) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : cellPosition;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? null;
+
+      let value: CellValue = null;
+      if (type === 's') {
+        value = raw === null ? null : sharedStrings[Number(raw)] ?? null;
+      } else if (type === 'inlineStr') {
+        value = Array.from(cell.getElementsByTagName('t'), t => t.textContent ?? '').join('');
+      } else if (type === 'b') {
+        value = raw === '1';
+      } else if (type === 'str') {
+        value = raw;
+      } else if (type !== 'e' && raw !== null && raw !== '') {
+        const number = Number(raw);
+        value = dateStyles[Number(cell.getAttribute('s') ?? -1)] ? excelDateToISO(number) : number;
+      }
+      row[index] = value === '' ? null : value;
+    });
+
+    cells[rowIndex] = row;
+  });
+
+  return toTable(Array.from(cells, row => row ?? []));
+}
+
+/**
+ * Read a CSV or .xlsx file into a table
+ */
+export async function readSpreadsheet(file: File, onProgress?: ProgressCallback): Promise<SpreadsheetTable> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return parseXLSX(await readFileBuffer(file, onProgress));
+  }
+  return parseDelimitedText(await readFileText(file, onProgress));
+}
+
+// ---------------------------------------------------------------------------
+// Coordinate columns
+// ---------------------------------------------------------------------------
+
+const DMS_PATTERN = /^([NSEW])?\s*(-)?(\d+(?:\.\d+)?)\s*[°d:\s]\s*(?:(\d+(?:\.\d+)?)\s*['′m:\s]?\s*)?(?:(\d+(?:\.\d+)?)\s*(?:["″s]|'')?)?\s*([NSEW])?$/i;
+
+/**
+ * A coordinate from a cell: plain numbers, decimal commas, or degrees-minutes-seconds such as 14°23'10"N
+ */
+export function parseCoordinate(value: CellValue): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim().replace(/^([-+]?\d+),(\d+)$/, '$1.$2');
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+
+  const dms = text.match(DMS_PATTERN);
+  if (!dms) return null;
+  const [, prefix, minus, degrees, minutes, seconds, suffix] = dms;
+  const hemisphere = (prefix || suffix || '').toUpperCase();
+  const decimal = Number(degrees) + Number(minutes ?? 0) / 60 + Number(seconds ?? 0) / 3600;
+  return minus || hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+}
+
+// Header names in order of preference, compared without case, spaces or punctuation
+const X_HEADERS = ['longitude', 'lon', 'long', 'lng', 'easting', 'east', 'x', 'xcoord', 'xcoordinate', 'pointx', 'utmx', 'e', 'خطالطول'];
+const Y_HEADERS = ['latitude', 'lat', 'northing', 'north', 'y', 'ycoord', 'ycoordinate', 'pointy', 'utmy', 'n', 'خطالعرض'];
+// Also matched as prefixes, e.g. "Longitude (deg)" or "Easting_m"
+const PREFIX_HEADERS = ['longitude', 'latitude', 'easting', 'northing', 'lon', 'lat'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-().:/°]+/g, '');
+
+function columnValues(table: SpreadsheetTable, column: string): number[] {
+  const index = table.headers.indexOf(column);
+  return table.rows.map(row => parseCoordinate(row[index])).filter((value): value is number => value !== null);
+}
+
+function findHeader(table: SpreadsheetTable, candidates: string[]): string | null {
+  const scored = table.headers
+    .map(header => {
+      const normalized = normalizeHeader(header);
+      let rank = candidates.indexOf(normalized);
+      if (rank === -1) {
+        const prefix = PREFIX_HEADERS.find(p => candidates.includes(p) && normalized.startsWith(p));
+        rank = prefix ? candidates.length + candidates.indexOf(prefix) : -1;
+      }
+      return { header, rank };
+    })
+    .filter(({ header, rank }) => rank !== -1 && columnValues(table, header).length > 0)
+    .sort((a, b) => a.rank - b.rank);
+  return scored[0]?.header ?? null;
+}
+
+const within = (values: number[], min: number, max: number) => values.length > 0 && values.every(v => v >= min && v <= max);
+
+/**
+ * Find the X/Y columns by name, falling back to the first pair of numeric columns whose values
+ * look like lon/lat or UTM coordinates in Sudan. Null when nothing fits.
+ */
+export function detectPointMapping(table: SpreadsheetTable): PointMapping | null {
+  let xColumn = findHeader(table, X_HEADERS);
+  let yColumn = findHeader(table, Y_HEADERS);
+
+  if (!xColumn || !yColumn || xColumn === yColumn) {
+    const numeric = table.headers.filter(header => {
+      const values = columnValues(table, header);
+      return values.length > 0 && values.length >= table.rows.length * 0.9;
+    });
+    const fits = (xs: number[], ys: number[]) =>
+      (within(xs, 21, 39) && within(ys, 8, 23)) || (within(xs, 160000, 840000) && within(ys, 880000, 2550000));
+
+    const pair = numeric.flatMap(x => numeric.map(y => [x, y] as const))
+      .find(([x, y]) => x !== y && fits(columnValues(table, x), columnValues(table, y)));
+    if (!pair) return null;
+    [xColumn, yColumn] = pair;
+  }
+
+  return {
+    xColumn,
+    yColumn,
+    crs: guessCRSFromCoordinates(columnValues(table, xColumn), columnValues(table, yColumn)),
+  };
+}
+
+/**
+ * Point features from the mapped columns; every other column becomes a property.
+ * Rows without usable coordinates are skipped and counted.
+ */
+export function spreadsheetToPoints(table: SpreadsheetTable, mapping: PointMapping): { data: GeoJSON.FeatureCollection; skipped: number } {
+  const xIndex = table.headers.indexOf(mapping.xColumn);
+  const yIndex = table.headers.indexOf(mapping.yColumn);
+  if (xIndex === -1 || yIndex === -1) {
+    throw new Error('Coordinate columns not found in the file');
+  }
+
+  const transform = getTransformToWGS84(mapping.crs);
+  const features: GeoJSON.Feature[] = [];
+  let skipped = 0;
+
+  table.rows.forEach(row => {
+    const x = parseCoordinate(row[xIndex]);
+    const y = parseCoordinate(row[yIndex]);
+    const [lng, lat] = x !== null && y !== null ? transform(x, y) : [NaN, NaN];
+    if (!Number.isFinite(lng) || !Number.isFinite(lat) || Math.abs(lng) > 180 || Math.abs(lat) > 90) {
+      skipped++;
+      return;
+    }
+
+    const properties: Record<string, CellValue> = {};
+    table.headers.forEach((header, i) => {
+      if (i !== xIndex && i !== yIndex) properties[header] = row[i];
+    });
+    features.push({ type: 'Feature', properties, geometry: { type: 'Point', coordinates: [lng, lat] } });
+  });
+
+  return { data: { type: 'FeatureCollection', features }, skipped };
+}
+
+/**
+ * Parse a CSV or .xlsx file into points, with the given mapping or the detected one
+ */
+export async function parseSpreadsheet(
+  file: File,
+  mapping?: PointMapping,
+  onProgress?: ProgressCallback
+): Promise<GeoJSON.FeatureCollection> {
+  const table = await readSpreadsheet(file, onProgress);
+  const pointMapping = mapping ?? detectPointMapping(table);
+  if (!pointMapping) {
+    throw new Error('Could not find coordinate columns; choose the X and Y columns in the import dialog');
+  }
+
+  const { data, skipped } = spreadsheetToPoints(table, pointMapping);
+  if (skipped > 0) {
+    console.warn(`⚠️ ${file.name}: skipped ${skipped} rows without valid coordinates`);
+  }
+  if (data.features.length === 0) {
+    throw new Error('No rows with valid coordinates');
+  }
+  return data;
+}
@@ -0,0 +1,82 @@
+import type { SymbologySettings } from '../components/Maps/SymbologyControl';
+import { defaultSymbology, defaultSectorLabels, type SectorLabelSettings } from '../components/Maps/adapters';
+import { defaultAreaThresholds, type AreaThresholds } from './symbology';
+
+/**
+ * Everything a style preset restores
+ */
+export interface StylePresetSettings {
+  symbology: SymbologySettings;
+  sectorLabels: SectorLabelSettings;
+  areaThresholds: AreaThresholds;
+}
+
+// Marks an exported preset file so other JSON is rejected on import
+const PRESET_FILE_FORMAT = 'gezira-style-preset';
+
+interface StylePresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: 1;
+  name: string;
+  settings: StylePresetSettings;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAreaThresholds = (value: unknown): value is AreaThresholds =>
+  Array.isArray(value) &&
+  value.length === 3 &&
+  value.every((v, i) => typeof v === 'number' && v > 0 && (i === 0 || v > value[i - 1]));
+
+/**
+ * Fill in anything a stored preset lacks (older presets, hand-written files) from the defaults
+ */
+export function normalizePresetSettings(raw: unknown): StylePresetSettings {
+  const settings = isObject(raw) ? raw : {};
+  const symbology = isObject(settings.symbology) ? settings.symbology : {};
+  const sectorLabels = isObject(settings.sectorLabels) ? settings.sectorLabels : {};
+
+  return {
+    symbology: {
+      ...defaultSymbology,
+      ...symbology,
+      colors: { ...defaultSymbology.colors, ...(isObject(symbology.colors) ? symbology.colors : {}) },
+      classification: {
+        ...defaultSymbology.classification,
+        ...(isObject(symbology.classification) ? symbology.classification : {}),
+      },
+    } as SymbologySettings,
+    sectorLabels: { ...defaultSectorLabels, ...sectorLabels } as SectorLabelSettings,
+    areaThresholds: isAreaThresholds(settings.areaThresholds) ? settings.areaThresholds : defaultAreaThresholds,
+  };
+}
+
+export function stylePresetToJSON(name: string, settings: StylePresetSettings): string {
+  const file: StylePresetFile = { format: PRESET_FILE_FORMAT, version: 1, name, settings };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read an exported preset file. Throws when the text is not a style preset.
+ */
+export function parseStylePresetFile(text: string): { name: string; settings: StylePresetSettings } {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isObject(file) || file.format !== PRESET_FILE_FORMAT || !isObject(file.settings)) {
+    throw new Error('File is not a style preset');
+  }
+  if (!isObject(file.settings.symbology)) {
+    throw new Error('Style preset has no symbology');
+  }
+
+  return {
+    name: typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Imported preset',
+    settings: normalizePresetSettings(file.settings),
+  };
+}
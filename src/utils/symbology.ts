@@ -28,17 +28,33 @@ export const sectorColors: Record<SectorDivision, { primary: string; light: stri
   },
 };
 
+// Upper bounds (Feddan) of the small, medium and large area categories
+export type AreaThresholds = [number, number, number];
+
+export const defaultAreaThresholds: AreaThresholds = [500, 1000, 2000];
+
 // Categorize features by area size
-export function getAreaCategory(area: number): 'small' | 'medium' | 'large' | 'very-large' {
-  if (area < 500) return 'small';
-  if (area < 1000) return 'medium';
-  if (area < 2000) return 'large';
+export function getAreaCategory(area: number, thresholds: AreaThresholds = defaultAreaThresholds): 'small' | 'medium' | 'large' | 'very-large' {
+  if (area < thresholds[0]) return 'small';
+  if (area < thresholds[1]) return 'medium';
+  if (area < thresholds[2]) return 'large';
   return 'very-large';
 }
 
+// Short range labels of the area categories for legends
+export function getAreaCategoryRanges(thresholds: AreaThresholds = defaultAreaThresholds): Record<'small' | 'medium' | 'large' | 'very-large', string> {
+  const [small, medium, large] = thresholds;
+  return {
+    'small': `< ${small}F`,
+    'medium': `${small}-${medium}F`,
+    'large': `${medium}-${large}F`,
+    'very-large': `> ${large}F`,
+  };
+}
+
 // Get color based on area (choropleth style)
-export function getAreaColor(area: number, baseColor: string): string {
-  const category = getAreaCategory(area);
+export function getAreaColor(area: number, baseColor: string, thresholds?: AreaThresholds): string {
+  const category = getAreaCategory(area, thresholds);
   const opacity = {
     'small': 0.3,
     'medium': 0.5,
@@ -50,25 +66,25 @@ export function getAreaColor(area: number, baseColor: string): string {
 }
 
 // Get stroke width based on area
-export function getStrokeWidth(area: number, isHovered: boolean = false): number {
+export function getStrokeWidth(area: number, isHovered: boolean = false, thresholds?: AreaThresholds): number {
   const baseWidth = {
     'small': 1.5,
     'medium': 2,
     'large': 2.5,
     'very-large': 3,
-  }[getAreaCategory(area)];
+  }[getAreaCategory(area, thresholds)];
 
   return isHovered ? baseWidth * 1.5 : baseWidth;
 }
 
 // Get pattern/texture based on properties
-export function getPatternStyle(props: SectorProperties): {
+export function getPatternStyle(props: SectorProperties, thresholds?: AreaThresholds): {
   fillOpacity: number;
   strokeWidth: number;
   fillPattern?: string;
 } {
   const area = props.Design_A_F || 0;
-  const category = getAreaCategory(area);
+  const category = getAreaCategory(area, thresholds);
 
   return {
     fillOpacity: {
@@ -77,7 +93,7 @@ export function getPatternStyle(props: SectorProperties): {
       'large': 0.65,
       'very-large': 0.8,
     }[category],
-    strokeWidth: getStrokeWidth(area),
+    strokeWidth: getStrokeWidth(area, false, thresholds),
     fillPattern: category === 'very-large' ? 'diagonal-stripe' : undefined,
   };
 }
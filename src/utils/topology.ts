@@ -0,0 +1,378 @@
+import * as turf from '@turf/turf';
+import type { GeoJSONGeometry, SectorDivision, SectorFeature, SectorFeatureCollection } from '../types';
+import { getNemraId } from './permalink';
+import { SQUARE_METERS_PER_FEDDAN } from './sectorGeometry';
+
+export type TopologyIssueType = 'overlap' | 'gap' | 'self-intersection' | 'duplicate-nemra' | 'outside-hull';
+
+export interface TopologyFix {
+  description: string;
+  feature: SectorFeature;
+  geometry: GeoJSONGeometry;
+}
+
+export interface TopologyIssue {
+  id: string;
+  type: TopologyIssueType;
+  division: SectorDivision;
+  message: string;
+  features: SectorFeature[];
+  location: [number, number]; // [lng, lat]
+  bbox: [number, number, number, number];
+  area?: number; // m², overlaps and gaps
+  geometry?: GeoJSON.Geometry; // overlap region, gap outline or intersection points
+  fix?: TopologyFix; // only offered when the change is small enough to be safe
+}
+
+export interface TopologyOptions {
+  maxGapArea: number; // m², holes in a division larger than this are treated as intended
+  maxFixArea: number; // m², overlaps/gaps up to this size are fixed automatically
+  hullMaxEdge: number; // km, neighbour distance beyond which a nemra counts as detached
+}
+
+export const defaultTopologyOptions: TopologyOptions = {
+  maxGapArea: 10 * SQUARE_METERS_PER_FEDDAN,
+  maxFixArea: SQUARE_METERS_PER_FEDDAN,
+  hullMaxEdge: 8,
+};
+
+export const topologyIssueLabels: Record<TopologyIssueType, string> = {
+  'overlap': 'Overlap',
+  'gap': 'Gap',
+  'self-intersection': 'Self-intersection',
+  'duplicate-nemra': 'Duplicate No_Nemra',
+  'outside-hull': 'Outside division',
+};
+
+type PolygonFeature = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>;
+type BBox = [number, number, number, number];
+
+interface IndexedFeature {
+  feature: SectorFeature;
+  polygon: PolygonFeature;
+  division: SectorDivision;
+  bbox: BBox;
+  area: number;
+}
+
+// Anything smaller (m²) is float noise from shared edges, not a real overlap or gap
+const NOISE_AREA = 1;
+
+const toPolygon = (geometry: GeoJSON.Geometry | GeoJSONGeometry) =>
+  turf.feature(geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon) as PolygonFeature;
+
+const bboxesIntersect = (a: BBox, b: BBox) => a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+
+const pointOf = (feature: GeoJSON.Feature) => turf.pointOnFeature(feature).geometry.coordinates as [number, number];
+
+const describe = (feature: SectorFeature) =>
+  `${feature.properties.Canal_Name || 'N/A'} · No. ${feature.properties.No_Nemra ?? 'N/A'}`;
+
+// Polygon parts of a geometry, ignoring any lines or points a clip left behind
+function polygonParts(geometry: GeoJSON.Geometry): GeoJSON.Position[][][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+const partCount = (geometry: GeoJSON.Geometry | GeoJSONGeometry) => polygonParts(geometry as GeoJSON.Geometry).length;
+
+// Let the browser paint between the expensive steps of a check
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Part of a polygon inside a box, or null when only slivers of zero width remain
+function clipToBox(polygon: PolygonFeature, box: BBox): PolygonFeature | null {
+  const clipped = turf.bboxClip(polygon, box).geometry;
+  const parts = polygonParts(clipped)
+    .map(part => part.filter(ring => ring.length >= 4))
+    .filter(part => part.length > 0 && part[0].length >= 4);
+  return parts.length > 0 ? turf.multiPolygon(parts) : null;
+}
+
+async function findOverlaps(features: IndexedFeature[], options: TopologyOptions): Promise<TopologyIssue[]> {
+  const issues: TopologyIssue[] = [];
+  // Sweep along longitude so only features whose extents overlap are intersected
+  const sorted = [...features].sort((a, b) => a.bbox[0] - b.bbox[0]);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    if (i % 50 === 0) await yieldToBrowser();
+
+    for (let j = i + 1; j < sorted.length && sorted[j].bbox[0] <= a.bbox[2]; j++) {
+      const b = sorted[j];
+      if (!bboxesIntersect(a.bbox, b.bbox)) continue;
+
+      // Any overlap lies inside both extents; clipping first keeps the intersection cheap
+      const box: BBox = [
+        Math.max(a.bbox[0], b.bbox[0]), Math.max(a.bbox[1], b.bbox[1]),
+        Math.min(a.bbox[2], b.bbox[2]), Math.min(a.bbox[3], b.bbox[3]),
+      ];
+      const clippedA = clipToBox(a.polygon, box);
+      const clippedB = clipToBox(b.polygon, box);
+      if (!clippedA || !clippedB) continue;
+
+      const overlap = turf.intersect(turf.featureCollection([clippedA, clippedB]));
+      if (!overlap) continue;
+      const area = turf.area(overlap);
+      if (area <= NOISE_AREA) continue;
+
+      // Trim the overlap off the smaller nemra when it is only a sliver
+      const [smaller, larger] = a.area <= b.area ? [a, b] : [b, a];
+      let fix: TopologyFix | undefined;
+      if (area <= options.maxFixArea) {
+        const trimmed = turf.difference(turf.featureCollection([smaller.polygon, overlap]));
+        if (trimmed && partCount(trimmed.geometry) === partCount(smaller.feature.geometry)) {
+          fix = {
+            description: `Remove the overlap from ${describe(smaller.feature)}`,
+            feature: smaller.feature,
+            geometry: trimmed.geometry as GeoJSONGeometry,
+          };
+        }
+      }
+
+      issues.push({
+        id: `overlap-${i}-${j}`,
+        type: 'overlap',
+        division: smaller.division,
+        message: `${describe(smaller.feature)} overlaps ${describe(larger.feature)}${smaller.division !== larger.division ? ` (${larger.division})` : ''} by ${area.toFixed(0)} m²`,
+        features: [smaller.feature, larger.feature],
+        location: pointOf(overlap),
+        bbox: turf.bbox(overlap) as BBox,
+        area,
+        geometry: overlap.geometry,
+        fix,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function findGaps(division: SectorDivision, features: IndexedFeature[], options: TopologyOptions): TopologyIssue[] {
+  if (features.length < 2) return [];
+
+  const dissolved = turf.union(turf.featureCollection(features.map(f => f.polygon)));
+  if (!dissolved) return [];
+
+  // Holes in the dissolved division that are not holes of a nemra itself
+  const holes = polygonParts(dissolved.geometry).flatMap(part => part.slice(1));
+  const issues: TopologyIssue[] = [];
+
+  holes.forEach((ring, index) => {
+    const gap = turf.polygon([ring]);
+    const area = turf.area(gap);
+    if (area <= NOISE_AREA || area > options.maxGapArea) return;
+
+    const gapBBox = turf.bbox(gap) as BBox;
+    const neighbours = features
+      .filter(f => bboxesIntersect(f.bbox, gapBBox) && turf.booleanIntersects(f.polygon, gap))
+      .sort((a, b) => b.area - a.area);
+    // A hole touching a single nemra is that nemra's own hole
+    if (neighbours.length < 2) return;
+
+    // Fill a sliver into its largest neighbour
+    let fix: TopologyFix | undefined;
+    if (area <= options.maxFixArea) {
+      const filled = turf.union(turf.featureCollection([neighbours[0].polygon, gap]));
+      if (filled && partCount(filled.geometry) === partCount(neighbours[0].feature.geometry)) {
+        fix = {
+          description: `Fill the gap into ${describe(neighbours[0].feature)}`,
+          feature: neighbours[0].feature,
+          geometry: filled.geometry as GeoJSONGeometry,
+        };
+      }
+    }
+
+    issues.push({
+      id: `gap-${division}-${index}`,
+      type: 'gap',
+      division,
+      message: `${area.toFixed(0)} m² gap between ${neighbours.slice(0, 3).map(n => describe(n.feature)).join(', ')}${neighbours.length > 3 ? ` and ${neighbours.length - 3} more` : ''}`,
+      features: neighbours.map(n => n.feature),
+      location: pointOf(gap),
+      bbox: gapBBox,
+      area,
+      geometry: gap.geometry,
+      fix,
+    });
+  });
+
+  return issues;
+}
+
+function findSelfIntersections(division: SectorDivision, features: IndexedFeature[], options: TopologyOptions): TopologyIssue[] {
+  return features.flatMap(({ feature, polygon, bbox, area }, index) => {
+    const kinks = turf.kinks(polygon);
+    if (kinks.features.length === 0) return [];
+
+    // Untangle the ring; when the loops cut off are tiny, keep the main part
+    let fix: TopologyFix | undefined;
+    try {
+      const parts = turf.unkinkPolygon(turf.cleanCoords(polygon)).features.sort((a, b) => turf.area(b) - turf.area(a));
+      const removed = parts.slice(1).reduce((sum, part) => sum + turf.area(part), 0);
+      if (parts.length > 0 && removed <= Math.min(options.maxFixArea, area * 0.01)) {
+        fix = {
+          description: `Remove ${parts.length - 1} small loop(s) from ${describe(feature)}`,
+          feature,
+          geometry: parts[0].geometry as GeoJSONGeometry,
+        };
+      }
+    } catch {
+      // Rings unkinkPolygon cannot untangle are left for manual editing
+    }
+
+    return [{
+      id: `self-intersection-${division}-${index}`,
+      type: 'self-intersection' as const,
+      division,
+      message: `${describe(feature)} crosses itself at ${kinks.features.length} point(s)`,
+      features: [feature],
+      location: kinks.features[0].geometry.coordinates as [number, number],
+      bbox,
+      geometry: turf.multiPoint(kinks.features.map(k => k.geometry.coordinates)).geometry,
+      fix,
+    }];
+  });
+}
+
+function findDuplicateNemras(division: SectorDivision, features: IndexedFeature[]): TopologyIssue[] {
+  const groups = new Map<string, IndexedFeature[]>();
+  features.forEach(f => {
+    const { Office, No_Nemra } = f.feature.properties;
+    if (No_Nemra === null || No_Nemra === undefined) return;
+    const key = `${Office}|${No_Nemra}`;
+    groups.set(key, [...(groups.get(key) ?? []), f]);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => {
+      const { Office, No_Nemra } = group[0].feature.properties;
+      const collection = turf.featureCollection(group.map(f => f.polygon));
+      return {
+        id: `duplicate-nemra-${division}-${Office}-${No_Nemra}`,
+        type: 'duplicate-nemra' as const,
+        division,
+        message: `No_Nemra ${No_Nemra} is used ${group.length} times in office ${Office || 'N/A'}`,
+        features: group.map(f => f.feature),
+        location: pointOf(group[0].polygon),
+        bbox: turf.bbox(collection) as BBox,
+      };
+    });
+}
+
+// Hull of the division's nemra centres; edges longer than hullMaxEdge are dropped,
+// so a nemra far from all its neighbours ends up outside
+function divisionHull(features: IndexedFeature[], options: TopologyOptions) {
+  if (features.length < 3) return null;
+  const centres = turf.featureCollection(features.map(f => turf.point(pointOf(f.polygon))));
+  return turf.concave(centres, { maxEdge: options.hullMaxEdge, units: 'kilometers' });
+}
+
+function findOutsideHull(
+  division: SectorDivision,
+  features: IndexedFeature[],
+  hulls: Partial<Record<SectorDivision, PolygonFeature | null>>
+): TopologyIssue[] {
+  const hull = hulls[division];
+  if (!hull) return [];
+
+  return features.flatMap(({ feature, polygon, bbox }, index) => {
+    const centre = turf.point(pointOf(polygon));
+    if (turf.booleanPointInPolygon(centre, hull)) return [];
+
+    const containing = (Object.entries(hulls) as [SectorDivision, PolygonFeature | null][])
+      .find(([other, otherHull]) => other !== division && otherHull && turf.booleanPointInPolygon(centre, otherHull));
+
+    return [{
+      id: `outside-hull-${division}-${index}`,
+      type: 'outside-hull' as const,
+      division,
+      message: `${describe(feature)} lies outside the ${division} division${containing ? `, inside ${containing[0]}` : ''}`,
+      features: [feature],
+      location: centre.geometry.coordinates as [number, number],
+      bbox,
+    }];
+  });
+}
+
+/**
+ * Check every division for overlaps, gaps, self-intersections, duplicate nemra
+ * numbers within an office and nemras detached from their division
+ */
+export async function validateTopology(
+  sectorsData: Record<SectorDivision, SectorFeatureCollection | null>,
+  options: TopologyOptions = defaultTopologyOptions,
+  onProgress?: (step: string) => void
+): Promise<TopologyIssue[]> {
+  const byDivision = {} as Record<SectorDivision, IndexedFeature[]>;
+
+  (Object.entries(sectorsData) as [SectorDivision, SectorFeatureCollection | null][]).forEach(([division, data]) => {
+    byDivision[division] = (data?.features ?? []).map(feature => {
+      const polygon = toPolygon(feature.geometry);
+      return { feature, polygon, division, bbox: turf.bbox(polygon) as BBox, area: turf.area(polygon) };
+    });
+  });
+
+  const divisions = Object.keys(byDivision) as SectorDivision[];
+  const hulls: Partial<Record<SectorDivision, PolygonFeature | null>> = {};
+  divisions.forEach(division => {
+    hulls[division] = divisionHull(byDivision[division], options);
+  });
+
+  // Overlaps are checked across divisions too, neighbouring divisions share borders
+  onProgress?.('Checking overlaps...');
+  const issues = await findOverlaps(divisions.flatMap(division => byDivision[division]), options);
+
+  for (const division of divisions) {
+    onProgress?.(`Checking ${division} division...`);
+    await yieldToBrowser();
+
+    const features = byDivision[division];
+    issues.push(
+      ...findGaps(division, features, options),
+      ...findSelfIntersections(division, features, options),
+      ...findDuplicateNemras(division, features),
+      ...findOutsideHull(division, features, hulls),
+    );
+  }
+
+  console.log(`🧭 Topology check found ${issues.length} issue(s)`);
+  return issues;
+}
+
+/**
+ * CSV report of the issues, one row per issue
+ */
+export function topologyReportToCSV(issues: TopologyIssue[]): string {
+  const headers = ['Type', 'Division', 'Message', 'Nemra IDs', 'Longitude', 'Latitude', 'Area (m²)', 'Auto Fix'];
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  return [
+    headers.join(','),
+    ...issues.map(issue => [
+      topologyIssueLabels[issue.type],
+      issue.division,
+      escape(issue.message),
+      escape(issue.features.map(f => getNemraId(f) ?? '').join(' ')),
+      issue.location[0].toFixed(6),
+      issue.location[1].toFixed(6),
+      issue.area !== undefined ? issue.area.toFixed(1) : '',
+      escape(issue.fix?.description ?? ''),
+    ].join(',')),
+  ].join('\n');
+}
+
+/**
+ * GeoJSON report: the problem geometry of each issue (or its location) with the issue details
+ */
+export function topologyReportToGeoJSON(issues: TopologyIssue[]): GeoJSON.FeatureCollection {
+  return turf.featureCollection(issues.map(issue => turf.feature(issue.geometry ?? turf.point(issue.location).geometry, {
+    type: issue.type,
+    division: issue.division,
+    message: issue.message,
+    nemraIds: issue.features.map(f => getNemraId(f)),
+    area: issue.area ?? null,
+    autoFix: issue.fix?.description ?? null,
+  })));
+}
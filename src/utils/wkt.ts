@@ -0,0 +1,176 @@
+/**
+ * Well-known text (WKT / PostGIS EWKT) to GeoJSON, for .wkt files and geometries pasted from emails
+ */
+
+export interface WKTResult {
+  data: GeoJSON.FeatureCollection;
+  // From an EWKT "SRID=32636;" prefix; the first one found applies to the whole text
+  srid: number | null;
+}
+
+type Dimension = 'XY' | 'Z' | 'M' | 'ZM';
+
+const GEOMETRY_TYPES: Record<string, GeoJSON.Geometry['type']> = {
+  POINT: 'Point',
+  LINESTRING: 'LineString',
+  POLYGON: 'Polygon',
+  MULTIPOINT: 'MultiPoint',
+  MULTILINESTRING: 'MultiLineString',
+  MULTIPOLYGON: 'MultiPolygon',
+  GEOMETRYCOLLECTION: 'GeometryCollection',
+};
+
+const TOKEN_PATTERN = /\s*([A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[(),;=])/y;
+
+class WKTReader {
+  private tokens: string[] = [];
+  private index = 0;
+
+  constructor(text: string) {
+    let position = 0;
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+      this.tokens.push(match[1]);
+      position = TOKEN_PATTERN.lastIndex;
+    }
+    const rest = text.slice(position).trim();
+    if (rest) {
+      throw new Error(`Invalid WKT near "${rest.slice(0, 20)}"`);
+    }
+  }
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.index++];
+    if (token === undefined) throw new Error('Invalid WKT: unexpected end of text');
+    return token;
+  }
+
+  private expect(token: string) {
+    const actual = this.next();
+    if (actual !== token) throw new Error(`Invalid WKT: expected "${token}" but found "${actual}"`);
+  }
+
+  // Separators between geometries in a multi-geometry text
+  skipSeparators() {
+    while (this.peek() === ';' || this.peek() === ',') this.index++;
+  }
+
+  readSRID(): number | null {
+    if (this.peek()?.toUpperCase() !== 'SRID') return null;
+    this.next();
+    this.expect('=');
+    const srid = Number(this.next());
+    this.expect(';');
+    return Number.isInteger(srid) ? srid : null;
+  }
+
+  private readNumber(): number {
+    const value = Number(this.next());
+    if (Number.isNaN(value)) throw new Error(`Invalid WKT: expected a number but found "${this.tokens[this.index - 1]}"`);
+    return value;
+  }
+
+  // M values have no GeoJSON equivalent and are dropped
+  private readPosition(dimension: Dimension): GeoJSON.Position {
+    const values = [this.readNumber(), this.readNumber()];
+    while (this.peek() !== undefined && this.peek() !== ',' && this.peek() !== ')') {
+      values.push(this.readNumber());
+    }
+    if (dimension === 'M') return values.slice(0, 2);
+    return values.slice(0, 3);
+  }
+
+  private readList<T>(readItem: () => T): T[] {
+    this.expect('(');
+    const items = [readItem()];
+    while (this.peek() === ',') {
+      this.next();
+      items.push(readItem());
+    }
+    this.expect(')');
+    return items;
+  }
+
+  private readPositions(dimension: Dimension) {
+    return this.readList(() => this.readPosition(dimension));
+  }
+
+  readGeometry(): GeoJSON.Geometry | null {
+    const word = this.next().toUpperCase();
+    // The dimension may be part of the word (POINTZ) or follow it (POINT Z)
+    const [, name, suffix] = word.match(/^([A-Z]+?)(ZM|Z|M)?$/) ?? [];
+    const type = GEOMETRY_TYPES[name];
+    if (!type) throw new Error(`Invalid WKT: unknown geometry type "${word}"`);
+
+    let dimension = (suffix as Dimension | undefined) ?? 'XY';
+    const modifier = this.peek()?.toUpperCase();
+    if (modifier === 'Z' || modifier === 'M' || modifier === 'ZM') {
+      dimension = modifier;
+      this.next();
+    }
+
+    if (this.peek()?.toUpperCase() === 'EMPTY') {
+      this.next();
+      return type === 'GeometryCollection' ? { type, geometries: [] } : null;
+    }
+
+    switch (type) {
+      case 'Point':
+        return { type, coordinates: this.readList(() => this.readPosition(dimension))[0] };
+      case 'LineString':
+        return { type, coordinates: this.readPositions(dimension) };
+      case 'Polygon':
+        return { type, coordinates: this.readList(() => this.readPositions(dimension)) };
+      case 'MultiPoint':
+        // Both MULTIPOINT ((1 2), (3 4)) and the older MULTIPOINT (1 2, 3 4)
+        return {
+          type,
+          coordinates: this.readList(() => (this.peek() === '(' ? this.readPositions(dimension)[0] : this.readPosition(dimension))),
+        };
+      case 'MultiLineString':
+        return { type, coordinates: this.readList(() => this.readPositions(dimension)) };
+      case 'MultiPolygon':
+        return { type, coordinates: this.readList(() => this.readList(() => this.readPositions(dimension))) };
+      case 'GeometryCollection':
+        return {
+          type,
+          geometries: this.readList(() => this.readGeometry()).filter((g): g is GeoJSON.Geometry => g !== null),
+        };
+    }
+  }
+}
+
+/**
+ * Parse one or more WKT/EWKT geometries (separated by new lines, semicolons or commas) into
+ * a FeatureCollection with one feature per geometry. EMPTY geometries are skipped.
+ */
+export function parseWKT(text: string): WKTResult {
+  const reader = new WKTReader(text);
+  const features: GeoJSON.Feature[] = [];
+  let srid: number | null = null;
+
+  reader.skipSeparators();
+  while (!reader.done) {
+    const prefix = reader.readSRID();
+    srid = srid ?? prefix;
+    const geometry = reader.readGeometry();
+    if (geometry) {
+      features.push({ type: 'Feature', properties: { id: features.length + 1 }, geometry });
+    }
+    reader.skipSeparators();
+  }
+
+  if (features.length === 0) {
+    throw new Error('No WKT geometries found');
+  }
+  return { data: { type: 'FeatureCollection', features }, srid };
+}
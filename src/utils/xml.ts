@@ -0,0 +1,21 @@
+import { DOMParser as XMLDOMParser, onErrorStopParsing } from '@xmldom/xmldom';
+
+/**
+ * Parse an XML document (KML, GPX, Excel parts). Uses the browser DOMParser when there is one
+ * and xmldom inside the import worker, which has no DOM. Throws "Invalid <format> format".
+ */
+export function parseXML(text: string, format = 'XML'): Document {
+  if (typeof DOMParser !== 'undefined') {
+    const doc = new DOMParser().parseFromString(text, 'text/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error(`Invalid ${format} format`);
+    }
+    return doc;
+  }
+
+  try {
+    return new XMLDOMParser({ onError: onErrorStopParsing }).parseFromString(text, 'text/xml') as unknown as Document;
+  } catch {
+    throw new Error(`Invalid ${format} format`);
+  }
+}
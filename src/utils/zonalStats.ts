@@ -0,0 +1,232 @@
+import type { SectorAttributeData, SectorDivision, SectorFeature, SectorFeatureCollection, SectorProperties } from '../types';
+import type { ImportedLayer, RasterData } from './fileImport';
+import { isNoData } from './rasterStretch';
+
+/**
+ * Zonal statistics: summary of a raster band's pixels inside each nemra polygon.
+ * A pixel belongs to a nemra when its centre falls inside the polygon.
+ */
+
+export interface ZonalStats {
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  stdDev: number | null;
+  pixelCount: number;
+  // Share of the nemra (by pixel centres) covered by valid raster values, 0-100
+  coverage: number;
+}
+
+export interface ZonalStatsRun {
+  // Field name prefix, e.g. "ndvi" gives ndvi_mean, ndvi_min, …; one run per prefix
+  prefix: string;
+  layerName: string;
+  band: number;
+  computedAt: string;
+  // By getSectorKey
+  stats: Record<string, ZonalStats>;
+}
+
+type SectorsData = Record<SectorDivision, SectorFeatureCollection | null>;
+
+export const ZONAL_STAT_FIELDS: { key: keyof ZonalStats; suffix: string; label: string }[] = [
+  { key: 'mean', suffix: 'mean', label: 'Mean' },
+  { key: 'min', suffix: 'min', label: 'Min' },
+  { key: 'max', suffix: 'max', label: 'Max' },
+  { key: 'stdDev', suffix: 'std', label: 'Std Dev' },
+  { key: 'pixelCount', suffix: 'px', label: 'Pixels' },
+  { key: 'coverage', suffix: 'cov', label: 'Coverage %' },
+];
+
+/**
+ * Attribute names a run adds to the sectors
+ */
+export function getZonalFieldNames(prefix: string): string[] {
+  return ZONAL_STAT_FIELDS.map(field => `${prefix}_${field.suffix}`);
+}
+
+/**
+ * Field prefix suggested for a layer name: "NDVI – S2 2024-05" gives "ndvi"
+ */
+export function suggestZonalPrefix(layerName: string): string {
+  const word = layerName.toLowerCase().match(/[a-z][a-z0-9]*/)?.[0] ?? 'raster';
+  return word.slice(0, 12);
+}
+
+/**
+ * Key matching a sector across the full and filtered data: its database id, or OBJECTID_1
+ * for the bundled files
+ */
+export function getSectorKey(division: SectorDivision, properties: SectorProperties, index: number): string {
+  const props = properties as SectorProperties & { id?: number };
+  return `${division}:${props.id ?? props.OBJECTID_1 ?? index}`;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Pixel-centre intervals of one polygon (outer ring and holes) on a grid, by scanline
+function forEachPixelInPolygon(
+  rings: number[][][],
+  grid: { west: number; north: number; dx: number; dy: number },
+  visit: (row: number, colStart: number, colEnd: number) => void
+) {
+  let minY = Infinity;
+  let maxY = -Infinity;
+  rings[0].forEach(([, y]) => {
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  });
+
+  const rowStart = Math.ceil((grid.north - maxY) / grid.dy - 0.5);
+  const rowEnd = Math.floor((grid.north - minY) / grid.dy - 0.5);
+  const crossings: number[] = [];
+
+  for (let row = rowStart; row <= rowEnd; row++) {
+    const y = grid.north - (row + 0.5) * grid.dy;
+    crossings.length = 0;
+    // Even-odd rule over all rings, so holes are excluded
+    rings.forEach(ring => {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [x1, y1] = ring[j];
+        const [x2, y2] = ring[i];
+        if ((y1 > y) !== (y2 > y)) {
+          crossings.push(x1 + ((y - y1) / (y2 - y1)) * (x2 - x1));
+        }
+      }
+    });
+    crossings.sort((a, b) => a - b);
+
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const colStart = Math.ceil((crossings[i] - grid.west) / grid.dx - 0.5);
+      const colEnd = Math.floor((crossings[i + 1] - grid.west) / grid.dx - 0.5);
+      if (colEnd >= colStart) visit(row, colStart, colEnd);
+    }
+  }
+}
+
+function featureStats(feature: SectorFeature, values: ArrayLike<number>, raster: RasterData): ZonalStats {
+  const [[west, south], [east, north]] = raster.bounds;
+  const { width, height } = raster;
+  const grid = { west, north, dx: (east - west) / width, dy: (north - south) / height };
+
+  const polygons = feature.geometry.type === 'Polygon'
+    ? [feature.geometry.coordinates as number[][][]]
+    : feature.geometry.coordinates as number[][][][];
+
+  // Welford's running mean and variance
+  let count = 0;
+  let mean = 0;
+  let m2 = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let inside = 0;
+
+  polygons.forEach(rings => {
+    forEachPixelInPolygon(rings, grid, (row, colStart, colEnd) => {
+      // Centres outside the raster still count towards the nemra's size
+      inside += colEnd - colStart + 1;
+      if (row < 0 || row >= height) return;
+
+      for (let col = Math.max(0, colStart); col <= Math.min(width - 1, colEnd); col++) {
+        const value = values[row * width + col];
+        if (isNoData(value, raster.noData)) continue;
+        count++;
+        const delta = value - mean;
+        mean += delta / count;
+        m2 += delta * (value - mean);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+    });
+  });
+
+  if (count === 0) {
+    return { mean: null, min: null, max: null, stdDev: null, pixelCount: 0, coverage: 0 };
+  }
+  return {
+    mean: round(mean, 4),
+    min: round(min, 4),
+    max: round(max, 4),
+    stdDev: round(Math.sqrt(m2 / count), 4),
+    pixelCount: count,
+    coverage: round(Math.min(100, (count / inside) * 100), 1),
+  };
+}
+
+/**
+ * Statistics of one band of a raster layer for every nemra in the given sectors.
+ * The raster must hold its band values (streamed COGs do not).
+ */
+export function computeZonalStats(layer: ImportedLayer, sectorsData: SectorsData, band: number, prefix: string): ZonalStatsRun {
+  const raster = layer.data as RasterData;
+  const values = (raster.rawBands ?? raster.bands)?.[band];
+  if (!values) {
+    throw new Error(`${layer.name} has no band values in memory; streamed rasters cannot be summarised`);
+  }
+
+  const stats: Record<string, ZonalStats> = {};
+  Object.entries(sectorsData).forEach(([division, data]) => {
+    data?.features.forEach((feature, index) => {
+      stats[getSectorKey(division as SectorDivision, feature.properties, index)] = featureStats(feature, values, raster);
+    });
+  });
+
+  console.log(`🧮 Zonal statistics of ${layer.name} (band ${band + 1}) for ${Object.keys(stats).length} nemras`);
+
+  return {
+    prefix,
+    layerName: layer.name,
+    band,
+    computedAt: new Date().toISOString(),
+    stats,
+  };
+}
+
+// Attributes each run computed for one sector (prefix_mean, prefix_min, …)
+function zonalAttributes(key: string, runs: ZonalStatsRun[]) {
+  const added: Record<string, number | null> = {};
+  runs.forEach(run => {
+    const stats = run.stats[key];
+    if (!stats) return;
+    ZONAL_STAT_FIELDS.forEach(field => {
+      added[`${run.prefix}_${field.suffix}`] = stats[field.key];
+    });
+  });
+  return added;
+}
+
+/**
+ * Sectors with each run's statistics added as attributes (prefix_mean, prefix_min, …),
+ * so they show in the attribute table and can drive the symbology
+ */
+export function applyZonalStats(sectorsData: SectorsData, runs: ZonalStatsRun[]): SectorsData {
+  if (runs.length === 0) return sectorsData;
+
+  const entries = Object.entries(sectorsData).map(([division, data]) => {
+    if (!data) return [division, data];
+    const features = data.features.map((feature, index) => {
+      const added = zonalAttributes(getSectorKey(division as SectorDivision, feature.properties, index), runs);
+      return Object.keys(added).length > 0 ? { ...feature, properties: { ...feature.properties, ...added } } : feature;
+    });
+    return [division, { ...data, features }];
+  });
+
+  return Object.fromEntries(entries) as SectorsData;
+}
+
+/**
+ * The same for the attributes of all sectors
+ */
+export function applyZonalStatsToAttributes(attributes: SectorAttributeData, runs: ZonalStatsRun[]): SectorAttributeData {
+  if (runs.length === 0) return attributes;
+
+  const entries = Object.entries(attributes).map(([division, rows]) => [
+    division,
+    rows?.map((row, index) => {
+      const added = zonalAttributes(getSectorKey(division as SectorDivision, row, index), runs);
+      return Object.keys(added).length > 0 ? { ...row, ...added } : row;
+    }) ?? null,
+  ]);
+
+  return Object.fromEntries(entries) as SectorAttributeData;
+}
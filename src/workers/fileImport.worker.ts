@@ -0,0 +1,53 @@
+import { parseFileLayers, type ImportedLayer, type RasterData } from '../utils/fileImport';
+import type { ParseProgress } from '../utils/fileReading';
+import type { ImportWorkerRequest, ImportWorkerResponse } from '../utils/importWorker';
+import { readSpreadsheet } from '../utils/spreadsheetImport';
+
+/**
+ * Import worker: parses dropped files off the main thread and posts the layers back.
+ * Started by createImportWorker (utils/importWorker.ts).
+ */
+
+// Parsers report after every chunk and feature; the main thread only needs a few updates a second
+const PROGRESS_INTERVAL = 100;
+
+const post = (response: ImportWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+// Raster bands are moved to the main thread rather than copied
+function bandBuffers(layers: ImportedLayer[]): Transferable[] {
+  const buffers = new Set<ArrayBuffer>();
+  layers.forEach(layer => {
+    if (layer.type !== 'raster') return;
+    const { bands = [], rawBands = [] } = layer.data as RasterData;
+    [...bands, ...rawBands].forEach(band => buffers.add(band.buffer as ArrayBuffer));
+  });
+  return Array.from(buffers);
+}
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+  const progress: ParseProgress = {};
+  let lastPosted = 0;
+
+  const onProgress = (update: ParseProgress) => {
+    Object.assign(progress, update);
+    const now = performance.now();
+    if (now - lastPosted < PROGRESS_INTERVAL) return;
+    lastPosted = now;
+    post({ id: request.id, type: 'progress', progress: { ...progress } });
+  };
+
+  try {
+    if (request.kind === 'spreadsheet') {
+      const table = await readSpreadsheet(request.file, onProgress);
+      post({ id: request.id, type: 'spreadsheet', table });
+    } else {
+      const layers = await parseFileLayers(request.file, { ...request.options, onProgress });
+      post({ id: request.id, type: 'layers', layers }, bandBuffers(layers));
+    }
+  } catch (error) {
+    post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : 'Failed to import file' });
+  }
+};
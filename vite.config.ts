@@ -15,6 +15,11 @@ export default defineConfig({
     stringify: true
   },
 
+  // The import worker lazy-loads parsers (sql.js, FlatGeobuf), which needs ES module output
+  worker: {
+    format: 'es'
+  },
+
   // Build optimization for production
   build: {
     outDir: 'dist',